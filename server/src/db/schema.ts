@@ -1,4 +1,4 @@
-import { text, timestamp, boolean, integer, numeric, jsonb, pgTable, pgEnum, primaryKey } from 'drizzle-orm/pg-core';
+import { text, timestamp, boolean, integer, numeric, doublePrecision, jsonb, pgTable, pgEnum, primaryKey, unique } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
 
 // Enums
@@ -7,6 +7,12 @@ export const organizationPlanEnum = pgEnum('organization_plan', ['free', 'pro',
 export const providerTypeEnum = pgEnum('provider_type', ['openai', 'anthropic', 'gemini', 'local']);
 export const experimentStatusEnum = pgEnum('experiment_status', ['draft', 'running', 'completed', 'cancelled']);
 export const pipelineStatusEnum = pgEnum('pipeline_status', ['draft', 'published']);
+export const ssoProtocolEnum = pgEnum('sso_protocol', ['oidc', 'saml']);
+export const invitationStatusEnum = pgEnum('invitation_status', ['pending', 'accepted', 'declined', 'revoked']);
+export const projectRoleEnum = pgEnum('project_role', ['editor', 'viewer']);
+export const promptFormatEnum = pgEnum('prompt_format', ['text', 'chat']);
+export const promptDeploymentActionEnum = pgEnum('prompt_deployment_action', ['deploy', 'rollback']);
+export const authTokenPurposeEnum = pgEnum('auth_token_purpose', ['password_reset', 'magic_link', 'two_factor_challenge']);
 
 // Users table
 export const usersTable = pgTable('users', {
@@ -18,6 +24,62 @@ export const usersTable = pgTable('users', {
   last_login_at: timestamp('last_login_at'),
 });
 
+// Sessions table
+export const sessionsTable = pgTable('sessions', {
+  id: text('id').primaryKey(),
+  user_id: text('user_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  expires_at: timestamp('expires_at').notNull(),
+  revoked_at: timestamp('revoked_at'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// User credentials table (kept apart from users so hashes never leave the auth handlers)
+export const userCredentialsTable = pgTable('user_credentials', {
+  user_id: text('user_id').primaryKey().references(() => usersTable.id, { onDelete: 'cascade' }),
+  password_hash: text('password_hash').notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Single-use auth tokens table (password resets and magic links)
+export const authTokensTable = pgTable('auth_tokens', {
+  id: text('id').primaryKey(),
+  user_id: text('user_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  purpose: authTokenPurposeEnum('purpose').notNull(),
+  token_hash: text('token_hash').notNull().unique(),
+  expires_at: timestamp('expires_at').notNull(),
+  used_at: timestamp('used_at'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Two-factor table (enabled_at stays null until the first code is confirmed)
+export const userTwoFactorTable = pgTable('user_two_factor', {
+  user_id: text('user_id').primaryKey().references(() => usersTable.id, { onDelete: 'cascade' }),
+  encrypted_secret: text('encrypted_secret').notNull(), // TOTP secret, sealed with encryptSecret
+  secret_data_key: text('secret_data_key').notNull(),
+  secret_master_key_id: text('secret_master_key_id').notNull(),
+  enabled_at: timestamp('enabled_at'),
+  last_used_step: integer('last_used_step'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Two-factor recovery codes table (hashed, each usable once)
+export const twoFactorRecoveryCodesTable = pgTable('two_factor_recovery_codes', {
+  id: text('id').primaryKey(),
+  user_id: text('user_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  code_hash: text('code_hash').notNull(),
+  used_at: timestamp('used_at'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Email outbox table (local delivery target for the default mailer)
+export const emailOutboxTable = pgTable('email_outbox', {
+  id: text('id').primaryKey(),
+  to_address: text('to_address').notNull(),
+  subject: text('subject').notNull(),
+  body: text('body').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
 // Organizations table
 export const organizationsTable = pgTable('organizations', {
   id: text('id').primaryKey(),
@@ -25,6 +87,9 @@ export const organizationsTable = pgTable('organizations', {
   slug: text('slug').notNull().unique(),
   owner_user_id: text('owner_user_id').notNull().references(() => usersTable.id),
   plan: organizationPlanEnum('plan').notNull().default('free'),
+  require_two_factor: boolean('require_two_factor').notNull().default(false),
+  deleted_at: timestamp('deleted_at'), // Set while a deletion is scheduled
+  purge_after: timestamp('purge_after'),
   created_at: timestamp('created_at').defaultNow().notNull(),
 });
 
@@ -37,6 +102,58 @@ export const membershipsTable = pgTable('memberships', {
   created_at: timestamp('created_at').defaultNow().notNull(),
 });
 
+// Invitations table (the emailed token is signed; only its hash is stored)
+export const invitationsTable = pgTable('invitations', {
+  id: text('id').primaryKey(),
+  org_id: text('org_id').notNull().references(() => organizationsTable.id, { onDelete: 'cascade' }),
+  email: text('email').notNull(),
+  role: membershipRoleEnum('role').notNull(),
+  token_hash: text('token_hash').notNull().unique(),
+  status: invitationStatusEnum('status').notNull().default('pending'),
+  invited_by_user_id: text('invited_by_user_id').notNull().references(() => usersTable.id),
+  expires_at: timestamp('expires_at').notNull(),
+  responded_at: timestamp('responded_at'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// SSO connections table (one identity provider per organization)
+export const ssoConnectionsTable = pgTable('sso_connections', {
+  org_id: text('org_id').primaryKey().references(() => organizationsTable.id, { onDelete: 'cascade' }),
+  protocol: ssoProtocolEnum('protocol').notNull(),
+  issuer: text('issuer').notNull(),
+  client_id: text('client_id'),
+  encrypted_client_secret: text('encrypted_client_secret'), // Envelope-encrypted, like provider keys
+  client_secret_data_key: text('client_secret_data_key'),
+  client_secret_master_key_id: text('client_secret_master_key_id'),
+  saml_metadata: text('saml_metadata'),
+  default_role: membershipRoleEnum('default_role').notNull().default('viewer'),
+  sso_required: boolean('sso_required').notNull().default(false),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// SSO login states table (state, nonce and PKCE verifier for in-flight logins)
+export const ssoLoginStatesTable = pgTable('sso_login_states', {
+  id: text('id').primaryKey(),
+  org_id: text('org_id').notNull().references(() => organizationsTable.id, { onDelete: 'cascade' }),
+  nonce: text('nonce').notNull(),
+  code_verifier: text('code_verifier').notNull(),
+  expires_at: timestamp('expires_at').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// SCIM users table (provisioning state per org; the membership itself carries access)
+export const scimUsersTable = pgTable('scim_users', {
+  org_id: text('org_id').notNull().references(() => organizationsTable.id, { onDelete: 'cascade' }),
+  user_id: text('user_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  external_id: text('external_id'),
+  active: boolean('active').notNull().default(true),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.org_id, table.user_id] }),
+]);
+
 // Projects table
 export const projectsTable = pgTable('projects', {
   id: text('id').primaryKey(),
@@ -44,18 +161,127 @@ export const projectsTable = pgTable('projects', {
   name: text('name').notNull(),
   description: text('description'),
   tags: jsonb('tags').notNull().default('[]'),
+  restricted: boolean('restricted').notNull().default(false), // Hidden from non-admins without a team grant
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull(),
 });
 
-// Provider keys table
+// Teams table
+export const teamsTable = pgTable('teams', {
+  id: text('id').primaryKey(),
+  org_id: text('org_id').notNull().references(() => organizationsTable.id, { onDelete: 'cascade' }),
+  name: text('name').notNull(),
+  description: text('description'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Team members table (members must also belong to the team's organization)
+export const teamMembersTable = pgTable('team_members', {
+  team_id: text('team_id').notNull().references(() => teamsTable.id, { onDelete: 'cascade' }),
+  user_id: text('user_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.team_id, table.user_id] }),
+]);
+
+// Team project grants table
+export const teamProjectGrantsTable = pgTable('team_project_grants', {
+  team_id: text('team_id').notNull().references(() => teamsTable.id, { onDelete: 'cascade' }),
+  project_id: text('project_id').notNull().references(() => projectsTable.id, { onDelete: 'cascade' }),
+  role: projectRoleEnum('role').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.team_id, table.project_id] }),
+]);
+
+// Provider keys table (AES-256-GCM under a per-row data key, which is wrapped by the master key master_key_id)
 export const providerKeysTable = pgTable('provider_keys', {
   id: text('id').primaryKey(),
   org_id: text('org_id').notNull().references(() => organizationsTable.id, { onDelete: 'cascade' }),
   provider: providerTypeEnum('provider').notNull(),
   label: text('label').notNull(),
   encrypted_api_key: text('encrypted_api_key').notNull(),
+  encrypted_data_key: text('encrypted_data_key').notNull(),
+  master_key_id: text('master_key_id').notNull(),
+  key_suffix: text('key_suffix').notNull(), // Last characters of the key, for display
+  is_default: boolean('is_default').notNull().default(false), // At most one default per org and provider
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Model catalog table (per-org entries; each overrides the built-in catalog entry for the same provider and model)
+export const modelCatalogTable = pgTable('model_catalog', {
+  org_id: text('org_id').notNull().references(() => organizationsTable.id, { onDelete: 'cascade' }),
+  provider: providerTypeEnum('provider').notNull(),
+  model_id: text('model_id').notNull(),
+  context_window: integer('context_window').notNull(),
+  input_price_per_1k: numeric('input_price_per_1k', { precision: 12, scale: 8 }).notNull(), // USD per 1K input tokens
+  output_price_per_1k: numeric('output_price_per_1k', { precision: 12, scale: 8 }).notNull(), // USD per 1K output tokens
+  supports_tools: boolean('supports_tools').notNull().default(false),
+  supports_vision: boolean('supports_vision').notNull().default(false),
+  supports_json: boolean('supports_json').notNull().default(false),
+  supports_streaming: boolean('supports_streaming').notNull().default(true),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.org_id, table.provider, table.model_id] }),
+]);
+
+// Routing policies table (at most one per project)
+export const routingPoliciesTable = pgTable('routing_policies', {
+  project_id: text('project_id').primaryKey().references(() => projectsTable.id, { onDelete: 'cascade' }),
+  fallbacks: jsonb('fallbacks').notNull().default('[]'), // Ordered [{ provider, model }]
+  max_retries: integer('max_retries').notNull(),
+  initial_backoff_ms: integer('initial_backoff_ms').notNull(),
+  timeout_ms: integer('timeout_ms').notNull(),
+  key_weights: jsonb('key_weights').notNull().default('{}'), // { [provider key id]: weight }
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Cache policies table (at most one per project; caching is off without one)
+export const cachePoliciesTable = pgTable('cache_policies', {
+  project_id: text('project_id').primaryKey().references(() => projectsTable.id, { onDelete: 'cascade' }),
+  ttl_seconds: integer('ttl_seconds').notNull(), // 0 disables caching
+  semantic: boolean('semantic').notNull().default(false),
+  similarity_threshold: numeric('similarity_threshold', { precision: 4, scale: 3 }).notNull(), // Cosine similarity
+  embedding_model: text('embedding_model'), // Required in semantic mode
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Response cache table
+export const responseCacheTable = pgTable('response_cache', {
+  id: text('id').primaryKey(),
+  project_id: text('project_id').notNull().references(() => projectsTable.id, { onDelete: 'cascade' }),
+  cache_key: text('cache_key').notNull(), // Hash of the model, messages and parameters
+  params_key: text('params_key').notNull(), // Hash of everything but the messages; semantic matches must share it
+  response: jsonb('response').notNull(), // ModelResponse
+  embedding: jsonb('embedding'), // number[] of the rendered prompt, in semantic mode
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  expires_at: timestamp('expires_at').notNull(),
+});
+
+// Rate limit overrides table (at most one per org; unset limits fall back to the plan's defaults)
+export const rateLimitOverridesTable = pgTable('rate_limit_overrides', {
+  org_id: text('org_id').primaryKey().references(() => organizationsTable.id, { onDelete: 'cascade' }),
+  org_requests_per_minute: integer('org_requests_per_minute'),
+  api_key_requests_per_minute: integer('api_key_requests_per_minute'),
+  pipeline_requests_per_minute: integer('pipeline_requests_per_minute'),
+  max_concurrent_model_calls: integer('max_concurrent_model_calls'),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Rate limit buckets table (token buckets keyed by subject, e.g. org:<id>, api_key:<id> or pipeline:<org id>:<slug>)
+export const rateLimitBucketsTable = pgTable('rate_limit_buckets', {
+  key: text('key').primaryKey(),
+  tokens: doublePrecision('tokens').notNull(), // As of updated_at; refilled lazily on the next request
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Model call leases table (one row per in-flight model call; expired rows are from calls that never released)
+export const modelCallLeasesTable = pgTable('model_call_leases', {
+  id: text('id').primaryKey(),
+  org_id: text('org_id').notNull().references(() => organizationsTable.id, { onDelete: 'cascade' }),
   created_at: timestamp('created_at').defaultNow().notNull(),
+  expires_at: timestamp('expires_at').notNull(),
 });
 
 // Prompts table
@@ -69,17 +295,48 @@ export const promptsTable = pgTable('prompts', {
   updated_at: timestamp('updated_at').defaultNow().notNull(),
 });
 
-// Prompt versions table
+// Prompt versions table (versions are semver, unique per prompt)
 export const promptVersionsTable = pgTable('prompt_versions', {
   id: text('id').primaryKey(),
   prompt_id: text('prompt_id').notNull().references(() => promptsTable.id, { onDelete: 'cascade' }),
   version: text('version').notNull(),
-  content: text('content').notNull(),
+  parent_version_id: text('parent_version_id'), // The version this one was derived from; null for a prompt's first version
+  format: promptFormatEnum('format').notNull().default('text'),
+  content: text('content').notNull(), // Template of text versions; empty for chat versions
+  messages: jsonb('messages'), // [{ role, content }] of chat versions, each content a template
+  tools: jsonb('tools').notNull().default('[]'), // ModelTool[]
+  model_params: jsonb('model_params').notNull().default('{}'), // { model?, temperature?, max_tokens? }
   variables: jsonb('variables').notNull().default('{}'),
   test_inputs: jsonb('test_inputs').notNull().default('{}'),
   commit_message: text('commit_message'),
   created_by: text('created_by').notNull().references(() => usersTable.id),
   created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  unique().on(table.prompt_id, table.version),
+]);
+
+// Prompt deployments table (the version each named environment of a prompt serves, e.g. production)
+export const promptDeploymentsTable = pgTable('prompt_deployments', {
+  prompt_id: text('prompt_id').notNull().references(() => promptsTable.id, { onDelete: 'cascade' }),
+  environment: text('environment').notNull(),
+  version_id: text('version_id').notNull().references(() => promptVersionsTable.id, { onDelete: 'cascade' }),
+  deployed_by: text('deployed_by').notNull().references(() => usersTable.id),
+  deployed_at: timestamp('deployed_at').defaultNow().notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.prompt_id, table.environment] }),
+]);
+
+// Prompt deployment history table (every deploy and rollback; rolled_back_at marks deploys a rollback undid)
+export const promptDeploymentHistoryTable = pgTable('prompt_deployment_history', {
+  id: text('id').primaryKey(),
+  prompt_id: text('prompt_id').notNull().references(() => promptsTable.id, { onDelete: 'cascade' }),
+  environment: text('environment').notNull(),
+  action: promptDeploymentActionEnum('action').notNull(),
+  version_id: text('version_id').notNull().references(() => promptVersionsTable.id, { onDelete: 'cascade' }),
+  previous_version_id: text('previous_version_id'), // What the environment served before; null for its first deploy
+  deployed_by: text('deployed_by').notNull().references(() => usersTable.id),
+  rolled_back_at: timestamp('rolled_back_at'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
 });
 
 // Experiments table
@@ -96,8 +353,8 @@ export const experimentsTable = pgTable('experiments', {
 export const runsTable = pgTable('runs', {
   id: text('id').primaryKey(),
   project_id: text('project_id').notNull().references(() => projectsTable.id, { onDelete: 'cascade' }),
-  prompt_id: text('prompt_id').notNull().references(() => promptsTable.id),
-  version_id: text('version_id').notNull().references(() => promptVersionsTable.id),
+  prompt_id: text('prompt_id').references(() => promptsTable.id), // Null for proxied calls not linked to a prompt
+  version_id: text('version_id').references(() => promptVersionsTable.id),
   experiment_id: text('experiment_id').references(() => experimentsTable.id),
   model: text('model').notNull(),
   input: jsonb('input').notNull().default('{}'),
@@ -172,8 +429,11 @@ export const apiKeysTable = pgTable('api_keys', {
   id: text('id').primaryKey(),
   org_id: text('org_id').notNull().references(() => organizationsTable.id, { onDelete: 'cascade' }),
   label: text('label').notNull(),
-  token_hash: text('token_hash').notNull(),
+  token_hash: text('token_hash').notNull().unique(),
+  token_prefix: text('token_prefix').notNull().default(''),
   scopes: jsonb('scopes').notNull().default('[]'),
+  expires_at: timestamp('expires_at'),
+  revoked_at: timestamp('revoked_at'),
   created_at: timestamp('created_at').defaultNow().notNull(),
   last_used_at: timestamp('last_used_at'),
 });
@@ -192,11 +452,52 @@ export const webhooksTable = pgTable('webhooks', {
 export const usersRelations = relations(usersTable, ({ many, one }) => ({
   ownedOrganizations: many(organizationsTable),
   memberships: many(membershipsTable),
+  teamMemberships: many(teamMembersTable),
+  sessions: many(sessionsTable),
+  credentials: one(userCredentialsTable),
+  authTokens: many(authTokensTable),
+  twoFactor: one(userTwoFactorTable),
+  recoveryCodes: many(twoFactorRecoveryCodesTable),
   chatSessions: many(chatSessionsTable),
   createdPromptVersions: many(promptVersionsTable),
   auditLogs: many(auditLogsTable),
 }));
 
+export const sessionsRelations = relations(sessionsTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [sessionsTable.user_id],
+    references: [usersTable.id],
+  }),
+}));
+
+export const userCredentialsRelations = relations(userCredentialsTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [userCredentialsTable.user_id],
+    references: [usersTable.id],
+  }),
+}));
+
+export const authTokensRelations = relations(authTokensTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [authTokensTable.user_id],
+    references: [usersTable.id],
+  }),
+}));
+
+export const userTwoFactorRelations = relations(userTwoFactorTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [userTwoFactorTable.user_id],
+    references: [usersTable.id],
+  }),
+}));
+
+export const twoFactorRecoveryCodesRelations = relations(twoFactorRecoveryCodesTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [twoFactorRecoveryCodesTable.user_id],
+    references: [usersTable.id],
+  }),
+}));
+
 export const organizationsRelations = relations(organizationsTable, ({ one, many }) => ({
   owner: one(usersTable, {
     fields: [organizationsTable.owner_user_id],
@@ -204,12 +505,19 @@ export const organizationsRelations = relations(organizationsTable, ({ one, many
   }),
   memberships: many(membershipsTable),
   projects: many(projectsTable),
+  teams: many(teamsTable),
   providerKeys: many(providerKeysTable),
+  modelCatalog: many(modelCatalogTable),
   templates: many(templatesTable),
   billing: one(billingTable),
+  invitations: many(invitationsTable),
+  ssoConnection: one(ssoConnectionsTable),
+  scimUsers: many(scimUsersTable),
   auditLogs: many(auditLogsTable),
   apiKeys: many(apiKeysTable),
   webhooks: many(webhooksTable),
+  rateLimitOverride: one(rateLimitOverridesTable),
+  modelCallLeases: many(modelCallLeasesTable),
 }));
 
 export const membershipsRelations = relations(membershipsTable, ({ one }) => ({
@@ -223,15 +531,86 @@ export const membershipsRelations = relations(membershipsTable, ({ one }) => ({
   }),
 }));
 
+export const ssoConnectionsRelations = relations(ssoConnectionsTable, ({ one }) => ({
+  organization: one(organizationsTable, {
+    fields: [ssoConnectionsTable.org_id],
+    references: [organizationsTable.id],
+  }),
+}));
+
+export const invitationsRelations = relations(invitationsTable, ({ one }) => ({
+  organization: one(organizationsTable, {
+    fields: [invitationsTable.org_id],
+    references: [organizationsTable.id],
+  }),
+  invitedBy: one(usersTable, {
+    fields: [invitationsTable.invited_by_user_id],
+    references: [usersTable.id],
+  }),
+}));
+
+export const ssoLoginStatesRelations = relations(ssoLoginStatesTable, ({ one }) => ({
+  organization: one(organizationsTable, {
+    fields: [ssoLoginStatesTable.org_id],
+    references: [organizationsTable.id],
+  }),
+}));
+
+export const scimUsersRelations = relations(scimUsersTable, ({ one }) => ({
+  organization: one(organizationsTable, {
+    fields: [scimUsersTable.org_id],
+    references: [organizationsTable.id],
+  }),
+  user: one(usersTable, {
+    fields: [scimUsersTable.user_id],
+    references: [usersTable.id],
+  }),
+}));
+
 export const projectsRelations = relations(projectsTable, ({ one, many }) => ({
   organization: one(organizationsTable, {
     fields: [projectsTable.org_id],
     references: [organizationsTable.id],
   }),
+  teamGrants: many(teamProjectGrantsTable),
   prompts: many(promptsTable),
   runs: many(runsTable),
   pipelines: many(pipelinesTable),
   chatSessions: many(chatSessionsTable),
+  routingPolicy: one(routingPoliciesTable),
+  cachePolicy: one(cachePoliciesTable),
+  cachedResponses: many(responseCacheTable),
+}));
+
+export const teamsRelations = relations(teamsTable, ({ one, many }) => ({
+  organization: one(organizationsTable, {
+    fields: [teamsTable.org_id],
+    references: [organizationsTable.id],
+  }),
+  members: many(teamMembersTable),
+  projectGrants: many(teamProjectGrantsTable),
+}));
+
+export const teamMembersRelations = relations(teamMembersTable, ({ one }) => ({
+  team: one(teamsTable, {
+    fields: [teamMembersTable.team_id],
+    references: [teamsTable.id],
+  }),
+  user: one(usersTable, {
+    fields: [teamMembersTable.user_id],
+    references: [usersTable.id],
+  }),
+}));
+
+export const teamProjectGrantsRelations = relations(teamProjectGrantsTable, ({ one }) => ({
+  team: one(teamsTable, {
+    fields: [teamProjectGrantsTable.team_id],
+    references: [teamsTable.id],
+  }),
+  project: one(projectsTable, {
+    fields: [teamProjectGrantsTable.project_id],
+    references: [projectsTable.id],
+  }),
 }));
 
 export const promptsRelations = relations(promptsTable, ({ one, many }) => ({
@@ -244,6 +623,8 @@ export const promptsRelations = relations(promptsTable, ({ one, many }) => ({
     references: [promptVersionsTable.id],
   }),
   versions: many(promptVersionsTable),
+  deployments: many(promptDeploymentsTable),
+  deploymentHistory: many(promptDeploymentHistoryTable),
   experiments: many(experimentsTable),
   runs: many(runsTable),
 }));
@@ -257,8 +638,41 @@ export const promptVersionsRelations = relations(promptVersionsTable, ({ one, ma
     fields: [promptVersionsTable.created_by],
     references: [usersTable.id],
   }),
+  parentVersion: one(promptVersionsTable, {
+    fields: [promptVersionsTable.parent_version_id],
+    references: [promptVersionsTable.id],
+    relationName: 'lineage',
+  }),
+  childVersions: many(promptVersionsTable, { relationName: 'lineage' }),
   runs: many(runsTable),
   currentForPrompts: many(promptsTable),
+  deployments: many(promptDeploymentsTable),
+}));
+
+export const promptDeploymentsRelations = relations(promptDeploymentsTable, ({ one }) => ({
+  prompt: one(promptsTable, {
+    fields: [promptDeploymentsTable.prompt_id],
+    references: [promptsTable.id],
+  }),
+  version: one(promptVersionsTable, {
+    fields: [promptDeploymentsTable.version_id],
+    references: [promptVersionsTable.id],
+  }),
+  deployedBy: one(usersTable, {
+    fields: [promptDeploymentsTable.deployed_by],
+    references: [usersTable.id],
+  }),
+}));
+
+export const promptDeploymentHistoryRelations = relations(promptDeploymentHistoryTable, ({ one }) => ({
+  prompt: one(promptsTable, {
+    fields: [promptDeploymentHistoryTable.prompt_id],
+    references: [promptsTable.id],
+  }),
+  deployedBy: one(usersTable, {
+    fields: [promptDeploymentHistoryTable.deployed_by],
+    references: [usersTable.id],
+  }),
 }));
 
 export const experimentsRelations = relations(experimentsTable, ({ one, many }) => ({
@@ -313,6 +727,48 @@ export const providerKeysRelations = relations(providerKeysTable, ({ one }) => (
   }),
 }));
 
+export const routingPoliciesRelations = relations(routingPoliciesTable, ({ one }) => ({
+  project: one(projectsTable, {
+    fields: [routingPoliciesTable.project_id],
+    references: [projectsTable.id],
+  }),
+}));
+
+export const cachePoliciesRelations = relations(cachePoliciesTable, ({ one }) => ({
+  project: one(projectsTable, {
+    fields: [cachePoliciesTable.project_id],
+    references: [projectsTable.id],
+  }),
+}));
+
+export const responseCacheRelations = relations(responseCacheTable, ({ one }) => ({
+  project: one(projectsTable, {
+    fields: [responseCacheTable.project_id],
+    references: [projectsTable.id],
+  }),
+}));
+
+export const rateLimitOverridesRelations = relations(rateLimitOverridesTable, ({ one }) => ({
+  organization: one(organizationsTable, {
+    fields: [rateLimitOverridesTable.org_id],
+    references: [organizationsTable.id],
+  }),
+}));
+
+export const modelCallLeasesRelations = relations(modelCallLeasesTable, ({ one }) => ({
+  organization: one(organizationsTable, {
+    fields: [modelCallLeasesTable.org_id],
+    references: [organizationsTable.id],
+  }),
+}));
+
+export const modelCatalogRelations = relations(modelCatalogTable, ({ one }) => ({
+  organization: one(organizationsTable, {
+    fields: [modelCatalogTable.org_id],
+    references: [organizationsTable.id],
+  }),
+}));
+
 export const templatesRelations = relations(templatesTable, ({ one }) => ({
   organization: one(organizationsTable, {
     fields: [templatesTable.org_id],
@@ -355,12 +811,34 @@ export const webhooksRelations = relations(webhooksTable, ({ one }) => ({
 // Export all tables for query building
 export const tables = {
   users: usersTable,
+  sessions: sessionsTable,
+  userCredentials: userCredentialsTable,
+  authTokens: authTokensTable,
+  userTwoFactor: userTwoFactorTable,
+  twoFactorRecoveryCodes: twoFactorRecoveryCodesTable,
+  emailOutbox: emailOutboxTable,
   organizations: organizationsTable,
   memberships: membershipsTable,
+  invitations: invitationsTable,
+  ssoConnections: ssoConnectionsTable,
+  ssoLoginStates: ssoLoginStatesTable,
+  scimUsers: scimUsersTable,
   projects: projectsTable,
+  teams: teamsTable,
+  teamMembers: teamMembersTable,
+  teamProjectGrants: teamProjectGrantsTable,
   providerKeys: providerKeysTable,
+  modelCatalog: modelCatalogTable,
+  routingPolicies: routingPoliciesTable,
+  cachePolicies: cachePoliciesTable,
+  responseCache: responseCacheTable,
+  rateLimitOverrides: rateLimitOverridesTable,
+  rateLimitBuckets: rateLimitBucketsTable,
+  modelCallLeases: modelCallLeasesTable,
   prompts: promptsTable,
   promptVersions: promptVersionsTable,
+  promptDeployments: promptDeploymentsTable,
+  promptDeploymentHistory: promptDeploymentHistoryTable,
   experiments: experimentsTable,
   runs: runsTable,
   pipelines: pipelinesTable,
@@ -0,0 +1,170 @@
+import { db } from '../db';
+import { apiKeysTable, organizationsTable } from '../db/schema';
+import { type ApiKey, type ApiKeyScope, type IssuedApiKey, type CreateApiKeyInput } from '../schema';
+import { eq, and, desc, isNull, or, gt, inArray } from 'drizzle-orm';
+import { createHash, randomBytes } from 'crypto';
+import { nanoid } from 'nanoid';
+
+export const API_KEY_PREFIX = 'pf_';
+
+// Enough of the token to recognize a key in the UI without making it usable
+const TOKEN_PREFIX_LENGTH = API_KEY_PREFIX.length + 6;
+
+type ApiKeyRow = typeof apiKeysTable.$inferSelect;
+
+function toApiKey(row: ApiKeyRow): ApiKey {
+  const { token_hash, ...apiKey } = row;
+  return {
+    ...apiKey,
+    scopes: apiKey.scopes as ApiKeyScope[]
+  };
+}
+
+export function isApiKeyToken(token: string): boolean {
+  return token.startsWith(API_KEY_PREFIX);
+}
+
+export function hashApiKeyToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function generateApiKeyToken(): { token: string; token_hash: string; token_prefix: string } {
+  const token = `${API_KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+  return {
+    token,
+    token_hash: hashApiKeyToken(token),
+    token_prefix: token.slice(0, TOKEN_PREFIX_LENGTH)
+  };
+}
+
+// Returns the plaintext token once; only its hash is stored
+export async function createApiKey(input: CreateApiKeyInput): Promise<IssuedApiKey> {
+  try {
+    const org = await db.select()
+      .from(organizationsTable)
+      .where(eq(organizationsTable.id, input.org_id))
+      .execute();
+
+    if (org.length === 0) {
+      throw new Error('Organization not found');
+    }
+
+    if (input.expires_at && input.expires_at.getTime() <= Date.now()) {
+      throw new Error('API key expiry must be in the future');
+    }
+
+    const { token, token_hash, token_prefix } = generateApiKeyToken();
+
+    const result = await db.insert(apiKeysTable)
+      .values({
+        id: nanoid(),
+        org_id: input.org_id,
+        label: input.label,
+        token_hash,
+        token_prefix,
+        scopes: [...new Set(input.scopes)],
+        expires_at: input.expires_at ?? null,
+      })
+      .returning()
+      .execute();
+
+    return { ...toApiKey(result[0]), token };
+  } catch (error) {
+    console.error('API key creation failed:', error);
+    throw error;
+  }
+}
+
+export async function getApiKeysByOrgId(orgId: string): Promise<ApiKey[]> {
+  try {
+    const results = await db.select()
+      .from(apiKeysTable)
+      .where(eq(apiKeysTable.org_id, orgId))
+      .orderBy(desc(apiKeysTable.created_at))
+      .execute();
+
+    return results.map(toApiKey);
+  } catch (error) {
+    console.error('Failed to get API keys by org ID:', error);
+    throw error;
+  }
+}
+
+export async function revokeApiKey(apiKeyId: string): Promise<ApiKey> {
+  try {
+    const result = await db.update(apiKeysTable)
+      .set({ revoked_at: new Date() })
+      .where(and(
+        eq(apiKeysTable.id, apiKeyId),
+        isNull(apiKeysTable.revoked_at)
+      ))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error('API key not found or already revoked');
+    }
+
+    return toApiKey(result[0]);
+  } catch (error) {
+    console.error('API key revocation failed:', error);
+    throw error;
+  }
+}
+
+// Swaps in a new token under the same id, label, scopes and expiry; the old token stops working immediately
+export async function rotateApiKey(apiKeyId: string): Promise<IssuedApiKey> {
+  try {
+    const { token, token_hash, token_prefix } = generateApiKeyToken();
+
+    const result = await db.update(apiKeysTable)
+      .set({ token_hash, token_prefix, last_used_at: null })
+      .where(and(
+        eq(apiKeysTable.id, apiKeyId),
+        isNull(apiKeysTable.revoked_at)
+      ))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error('API key not found or already revoked');
+    }
+
+    return { ...toApiKey(result[0]), token };
+  } catch (error) {
+    console.error('API key rotation failed:', error);
+    throw error;
+  }
+}
+
+// Resolves an active (unrevoked, unexpired) key and records the use; null when the token is not valid
+export async function authenticateApiKey(token: string): Promise<ApiKey | null> {
+  try {
+    if (!isApiKeyToken(token)) {
+      return null;
+    }
+
+    const result = await db.update(apiKeysTable)
+      .set({ last_used_at: new Date() })
+      .where(and(
+        eq(apiKeysTable.token_hash, hashApiKeyToken(token)),
+        isNull(apiKeysTable.revoked_at),
+        or(isNull(apiKeysTable.expires_at), gt(apiKeysTable.expires_at, new Date())),
+        // Keys stop working as soon as their org is scheduled for deletion
+        inArray(apiKeysTable.org_id, db.select({ id: organizationsTable.id })
+          .from(organizationsTable)
+          .where(isNull(organizationsTable.deleted_at)))
+      ))
+      .returning()
+      .execute();
+
+    return result.length > 0 ? toApiKey(result[0]) : null;
+  } catch (error) {
+    console.error('API key authentication failed:', error);
+    throw error;
+  }
+}
+
+export function hasApiKeyScope(apiKey: ApiKey, scope: ApiKeyScope): boolean {
+  return apiKey.scopes.includes(scope);
+}
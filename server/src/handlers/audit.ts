@@ -1,4 +1,4 @@
-import { db } from '../db';
+import { db, type DbExecutor } from '../db';
 import { auditLogsTable } from '../db/schema';
 import { type AuditLog } from '../schema';
 import { eq, desc, and, type SQL } from 'drizzle-orm';
@@ -10,10 +10,11 @@ export async function logAuditEvent(
     action: string,
     targetType: string,
     targetId: string,
-    metadata?: Record<string, any>
+    metadata?: Record<string, any>,
+    executor: DbExecutor = db
 ): Promise<AuditLog> {
     try {
-        const result = await db.insert(auditLogsTable)
+        const result = await executor.insert(auditLogsTable)
             .values({
                 id: nanoid(),
                 org_id: orgId,
@@ -76,9 +77,10 @@ export async function getAuditLogsByUser(userId: string, limit: number = 50): Pr
     }
 }
 
-export async function getAuditLogsByTarget(targetType: string, targetId: string): Promise<AuditLog[]> {
+export async function getAuditLogsByTarget(orgId: string, targetType: string, targetId: string): Promise<AuditLog[]> {
     try {
         const conditions: SQL<unknown>[] = [
+            eq(auditLogsTable.org_id, orgId),
             eq(auditLogsTable.target_type, targetType),
             eq(auditLogsTable.target_id, targetId)
         ];
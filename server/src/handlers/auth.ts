@@ -1,8 +1,29 @@
 import { db } from '../db';
-import { usersTable } from '../db/schema';
-import { type CreateUserInput, type User, type UpdateUserInput } from '../schema';
-import { eq } from 'drizzle-orm';
-import { randomUUID } from 'crypto';
+import { usersTable, userCredentialsTable, authTokensTable } from '../db/schema';
+import {
+  type CreateUserInput,
+  type User,
+  type UpdateUserInput,
+  type RegisterInput,
+  type LoginInput,
+  type ResetPasswordInput,
+  type VerifyTwoFactorInput,
+  type AuthTokenPurpose
+} from '../schema';
+import { sendEmail, getAppUrl } from './mailer';
+import { revokeUserSessions } from './sessions';
+import { isSsoRequiredForUser } from './sso';
+import { verifyTwoFactorCode } from './two_factor';
+import { eq, and, gt, isNull } from 'drizzle-orm';
+import { randomUUID, randomBytes, scrypt, timingSafeEqual, createHash } from 'crypto';
+import { promisify } from 'util';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const PASSWORD_KEY_LENGTH = 64;
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000;
+const MAGIC_LINK_TTL_MS = 15 * 60 * 1000;
+const TWO_FACTOR_CHALLENGE_TTL_MS = 5 * 60 * 1000;
 
 export async function createUser(input: CreateUserInput): Promise<User> {
   try {
@@ -93,4 +114,238 @@ export async function updateLastLogin(userId: string): Promise<void> {
     console.error('Update last login failed:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
+
+// Stored as scrypt$<salt>$<hash> so the format can evolve later
+async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, PASSWORD_KEY_LENGTH);
+  return `scrypt$${salt.toString('base64')}$${hash.toString('base64')}`;
+}
+
+async function verifyPassword(password: string, storedHash: string): Promise<boolean> {
+  const [algorithm, salt, hash] = storedHash.split('$');
+  if (algorithm !== 'scrypt' || !salt || !hash) {
+    return false;
+  }
+
+  const expected = Buffer.from(hash, 'base64');
+  const actual = await scryptAsync(password, Buffer.from(salt, 'base64'), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+function hashAuthToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+async function issueAuthToken(userId: string, purpose: AuthTokenPurpose, ttlMs: number): Promise<string> {
+  const token = randomBytes(32).toString('base64url');
+
+  await db.insert(authTokensTable)
+    .values({
+      id: randomUUID(),
+      user_id: userId,
+      purpose,
+      token_hash: hashAuthToken(token),
+      expires_at: new Date(Date.now() + ttlMs),
+    })
+    .execute();
+
+  return token;
+}
+
+// Marks the token used in the same statement that checks it, so it can only be redeemed once
+async function consumeAuthToken(token: string, purpose: AuthTokenPurpose): Promise<string> {
+  const result = await db.update(authTokensTable)
+    .set({ used_at: new Date() })
+    .where(and(
+      eq(authTokensTable.token_hash, hashAuthToken(token)),
+      eq(authTokensTable.purpose, purpose),
+      isNull(authTokensTable.used_at),
+      gt(authTokensTable.expires_at, new Date())
+    ))
+    .returning()
+    .execute();
+
+  if (result.length === 0) {
+    throw new Error('Invalid or expired token');
+  }
+
+  return result[0].user_id;
+}
+
+async function recordLogin(userId: string): Promise<User> {
+  if (await isSsoRequiredForUser(userId)) {
+    throw new Error('Single sign-on is required for this account');
+  }
+
+  await updateLastLogin(userId);
+
+  const user = await getUserById(userId);
+  if (!user) {
+    throw new Error(`User with id ${userId} not found`);
+  }
+
+  return user;
+}
+
+export async function registerUser(input: RegisterInput): Promise<User> {
+  try {
+    const existing = await getUserByEmail(input.email);
+    if (existing) {
+      throw new Error('Email is already registered');
+    }
+
+    const passwordHash = await hashPassword(input.password);
+
+    const user = await db.transaction(async (tx) => {
+      const result = await tx.insert(usersTable)
+        .values({
+          id: randomUUID(),
+          email: input.email,
+          name: input.name,
+          avatar_url: input.avatar_url || null,
+          last_login_at: new Date(),
+        })
+        .returning()
+        .execute();
+
+      await tx.insert(userCredentialsTable)
+        .values({
+          user_id: result[0].id,
+          password_hash: passwordHash,
+        })
+        .execute();
+
+      return result[0];
+    });
+
+    return user;
+  } catch (error) {
+    console.error('User registration failed:', error);
+    throw error;
+  }
+}
+
+export async function loginWithPassword(input: LoginInput): Promise<User> {
+  try {
+    const results = await db.select()
+      .from(usersTable)
+      .innerJoin(userCredentialsTable, eq(usersTable.id, userCredentialsTable.user_id))
+      .where(eq(usersTable.email, input.email))
+      .execute();
+
+    // Same error for unknown emails and wrong passwords to avoid account enumeration
+    if (results.length === 0 || !(await verifyPassword(input.password, results[0].user_credentials.password_hash))) {
+      throw new Error('Invalid email or password');
+    }
+
+    return await recordLogin(results[0].users.id);
+  } catch (error) {
+    console.error('Password login failed:', error);
+    throw error;
+  }
+}
+
+export async function requestPasswordReset(email: string): Promise<void> {
+  try {
+    const user = await getUserByEmail(email);
+    if (!user) {
+      return;
+    }
+
+    const token = await issueAuthToken(user.id, 'password_reset', PASSWORD_RESET_TTL_MS);
+
+    await sendEmail({
+      to: user.email,
+      subject: 'Reset your PrismForge password',
+      body: `Use the link below to choose a new password. It expires in 1 hour.\n\n${getAppUrl()}/reset-password?token=${token}`
+    });
+  } catch (error) {
+    console.error('Password reset request failed:', error);
+    throw error;
+  }
+}
+
+export async function resetPassword(input: ResetPasswordInput): Promise<void> {
+  try {
+    const userId = await consumeAuthToken(input.token, 'password_reset');
+    const passwordHash = await hashPassword(input.password);
+
+    await db.insert(userCredentialsTable)
+      .values({
+        user_id: userId,
+        password_hash: passwordHash,
+      })
+      .onConflictDoUpdate({
+        target: userCredentialsTable.user_id,
+        set: {
+          password_hash: passwordHash,
+          updated_at: new Date(),
+        }
+      })
+      .execute();
+
+    // A reset usually means the old password is compromised
+    await revokeUserSessions(userId);
+  } catch (error) {
+    console.error('Password reset failed:', error);
+    throw error;
+  }
+}
+
+export async function requestMagicLink(email: string): Promise<void> {
+  try {
+    const user = await getUserByEmail(email);
+    if (!user) {
+      return;
+    }
+
+    const token = await issueAuthToken(user.id, 'magic_link', MAGIC_LINK_TTL_MS);
+
+    await sendEmail({
+      to: user.email,
+      subject: 'Your PrismForge sign-in link',
+      body: `Use the link below to sign in. It expires in 15 minutes and can only be used once.\n\n${getAppUrl()}/magic-link?token=${token}`
+    });
+  } catch (error) {
+    console.error('Magic link request failed:', error);
+    throw error;
+  }
+}
+
+export async function loginWithMagicLink(token: string): Promise<User> {
+  try {
+    const userId = await consumeAuthToken(token, 'magic_link');
+    return await recordLogin(userId);
+  } catch (error) {
+    console.error('Magic link login failed:', error);
+    throw error;
+  }
+}
+
+// Issued after the first factor succeeds for a user with 2FA enabled; redeemed by verifyTwoFactorLogin
+export async function issueTwoFactorChallenge(userId: string): Promise<string> {
+  try {
+    return await issueAuthToken(userId, 'two_factor_challenge', TWO_FACTOR_CHALLENGE_TTL_MS);
+  } catch (error) {
+    console.error('Two-factor challenge issue failed:', error);
+    throw error;
+  }
+}
+
+export async function verifyTwoFactorLogin(input: VerifyTwoFactorInput): Promise<User> {
+  try {
+    // The challenge is spent even on a wrong code, so guessing means starting over from the password
+    const userId = await consumeAuthToken(input.challenge_token, 'two_factor_challenge');
+
+    if (!(await verifyTwoFactorCode(userId, input.code))) {
+      throw new Error('Invalid two-factor code');
+    }
+
+    return await recordLogin(userId);
+  } catch (error) {
+    console.error('Two-factor login failed:', error);
+    throw error;
+  }
+}
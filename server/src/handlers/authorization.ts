@@ -0,0 +1,539 @@
+import { db } from '../db';
+import {
+  organizationsTable,
+  membershipsTable,
+  projectsTable,
+  promptsTable,
+  promptVersionsTable,
+  experimentsTable,
+  runsTable,
+  pipelinesTable,
+  chatSessionsTable,
+  providerKeysTable,
+  apiKeysTable,
+  invitationsTable,
+  teamsTable,
+  teamMembersTable,
+  teamProjectGrantsTable
+} from '../db/schema';
+import { type MembershipRole, type ApiKeyScope, type ApiKey } from '../schema';
+import { getUserMembership } from './organizations';
+import { authenticateApiKey, hasApiKeyScope } from './api_keys';
+import { isOrganizationDeleted } from './organization_deletion';
+import { isTwoFactorEnabled, isTwoFactorEnforced } from './two_factor';
+import { TRPCError } from '@trpc/server';
+import { eq, and, isNull } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+
+export type PermissionTargetType =
+  | 'organization'
+  | 'organizationSlug'
+  | 'membership'
+  | 'invitation'
+  | 'team'
+  | 'project'
+  | 'prompt'
+  | 'promptVersion'
+  | 'experiment'
+  | 'run'
+  | 'pipeline'
+  | 'chatSession'
+  | 'providerKey'
+  | 'apiKey';
+
+export interface PermissionTarget {
+  type: PermissionTargetType;
+  id: unknown;
+}
+
+// The org a target belongs to and, for project content, the project
+export interface ResolvedTarget {
+  orgId: string;
+  projectId: string | null;
+}
+
+export interface PermissionRule {
+  role: MembershipRole;
+  targets: (input: any) => PermissionTarget[];
+}
+
+const roleRank: Record<MembershipRole, number> = {
+  viewer: 1,
+  editor: 2,
+  admin: 3,
+  owner: 4,
+};
+
+export function hasMinimumRole(role: MembershipRole, minimum: MembershipRole): boolean {
+  return roleRank[role] >= roleRank[minimum];
+}
+
+// Reads the target id from the raw input; a dotted key walks nested objects,
+// no key means the input itself is the id
+function target(type: PermissionTargetType, key?: string) {
+  return (input: any): PermissionTarget => ({
+    type,
+    id: key ? key.split('.').reduce((value, part) => value?.[part], input) : input,
+  });
+}
+
+// Like target, but only checked when the input carries the id
+function optionalTarget(type: PermissionTargetType, key: string) {
+  const read = target(type, key);
+  return (input: any): PermissionTarget | null => {
+    const resolved = read(input);
+    return resolved.id === undefined || resolved.id === null ? null : resolved;
+  };
+}
+
+function rule(role: MembershipRole, ...targets: Array<(input: any) => PermissionTarget | null>): PermissionRule {
+  return {
+    role,
+    targets: (input) => targets
+      .map(resolveTarget => resolveTarget(input))
+      .filter((resolved): resolved is PermissionTarget => resolved !== null),
+  };
+}
+
+// Minimum membership role for every org-scoped procedure, keyed by router path
+export const procedurePermissions: Record<string, PermissionRule> = {
+  'organizations.getById': rule('viewer', target('organization')),
+  'organizations.getBySlug': rule('viewer', target('organizationSlug')),
+  'organizations.update': rule('admin', target('organization', 'id')),
+  'organizations.addMember': rule('admin', target('organization', 'org_id')),
+  'organizations.updateMember': rule('admin', target('membership', 'id')),
+  'organizations.getMembers': rule('viewer', target('organization')),
+  'organizations.getUserMembership': rule('viewer', target('organization', 'orgId')),
+  'organizations.removeMember': rule('admin', target('membership')),
+  'organizations.transferOwnership': rule('owner', target('organization', 'orgId')),
+  'organizations.exportData': rule('admin', target('organization')),
+  'organizations.scheduleDeletion': rule('owner', target('organization')),
+  'organizations.restore': rule('owner', target('organization')),
+
+  'invitations.create': rule('admin', target('organization', 'org_id')),
+  'invitations.getPendingByOrgId': rule('admin', target('organization')),
+  'invitations.resend': rule('admin', target('invitation')),
+  'invitations.revoke': rule('admin', target('invitation')),
+
+  'teams.create': rule('admin', target('organization', 'org_id')),
+  'teams.getByOrgId': rule('viewer', target('organization')),
+  'teams.update': rule('admin', target('team', 'id')),
+  'teams.delete': rule('admin', target('team')),
+  'teams.getMembers': rule('viewer', target('team')),
+  'teams.addMember': rule('admin', target('team', 'team_id')),
+  'teams.removeMember': rule('admin', target('team', 'team_id')),
+  'teams.getProjectGrants': rule('viewer', target('team')),
+  'teams.grantProject': rule('admin', target('team', 'team_id'), target('project', 'project_id')),
+  'teams.revokeProject': rule('admin', target('team', 'team_id'), target('project', 'project_id')),
+
+  'sso.getConnection': rule('admin', target('organization')),
+  'sso.upsertConnection': rule('admin', target('organization', 'org_id')),
+  'sso.deleteConnection': rule('admin', target('organization')),
+
+  'projects.create': rule('editor', target('organization', 'org_id')),
+  'projects.getById': rule('viewer', target('project')),
+  'projects.getByOrgId': rule('viewer', target('organization')),
+  'projects.update': rule('editor', target('project', 'id')),
+  'projects.setRestricted': rule('admin', target('project', 'id')),
+  'projects.delete': rule('admin', target('project')),
+
+  'prompts.create': rule('editor', target('project', 'project_id')),
+  'prompts.getById': rule('viewer', target('prompt')),
+  'prompts.getByProjectId': rule('viewer', target('project')),
+  'prompts.update': rule('editor', target('prompt', 'id')),
+  'prompts.createVersion': rule('editor', target('prompt', 'prompt_id')),
+  'prompts.getVersionById': rule('viewer', target('promptVersion')),
+  'prompts.getVersionsByPromptId': rule('viewer', target('prompt')),
+  'prompts.promoteVersion': rule('admin', target('prompt', 'promptId')),
+  'prompts.compareVersions': rule('viewer', target('promptVersion', 'versionId1'), target('promptVersion', 'versionId2')),
+  'prompts.render': rule('viewer', target('promptVersion', 'version_id')),
+  'prompts.deploy': rule('admin', target('prompt', 'prompt_id'), target('promptVersion', 'version_id')),
+  'prompts.rollback': rule('admin', target('prompt', 'prompt_id')),
+  'prompts.resolve': rule('viewer', target('prompt', 'prompt_id')),
+  'prompts.getDeployments': rule('viewer', target('prompt')),
+  'prompts.getDeploymentHistory': rule('viewer', target('prompt', 'prompt_id')),
+
+  'chat.createSession': rule('editor', target('project', 'project_id')),
+  'chat.getSessionById': rule('viewer', target('chatSession')),
+  'chat.getSessionsByProjectId': rule('viewer', target('project')),
+  'chat.sendMessage': rule('editor', target('chatSession', 'session_id')),
+  'chat.updateSession': rule('editor', target('chatSession', 'sessionId')),
+  'chat.deleteSession': rule('editor', target('chatSession')),
+
+  'experiments.create': rule('editor', target('prompt', 'promptId')),
+  'experiments.getById': rule('viewer', target('experiment')),
+  'experiments.getByPromptId': rule('viewer', target('prompt')),
+  'experiments.start': rule('editor', target('experiment')),
+  'experiments.stop': rule('editor', target('experiment')),
+  'experiments.runComparison': rule('editor', target('experiment', 'experimentId')),
+
+  'runs.create': rule('editor', target('project', 'project_id')),
+  'runs.getById': rule('viewer', target('run')),
+  'runs.getByProjectId': rule('viewer', target('project', 'projectId')),
+  'runs.getAnalytics': rule('viewer', target('organization', 'org_id'), optionalTarget('project', 'project_id')),
+  'runs.exportData': rule('viewer', target('organization', 'query.org_id'), optionalTarget('project', 'query.project_id')),
+  'runs.recomputeCosts': rule('admin', target('organization', 'org_id')),
+
+  'pipelines.create': rule('editor', target('project', 'project_id')),
+  'pipelines.getById': rule('viewer', target('pipeline')),
+  'pipelines.getByProjectId': rule('viewer', target('project')),
+  'pipelines.update': rule('editor', target('pipeline', 'id')),
+  'pipelines.publish': rule('admin', target('pipeline')),
+
+  'billing.createCheckoutSession': rule('admin', target('organization', 'orgId')),
+  'billing.updatePlan': rule('admin', target('organization', 'orgId')),
+  'billing.getByOrgId': rule('admin', target('organization')),
+  'billing.createPortalSession': rule('admin', target('organization', 'orgId')),
+  'billing.checkQuota': rule('viewer', target('organization')),
+  'billing.getSeatUsage': rule('admin', target('organization')),
+
+  'providerKeys.create': rule('admin', target('organization', 'org_id')),
+  'providerKeys.getByOrgId': rule('admin', target('organization')),
+  'providerKeys.getByProvider': rule('admin', target('organization', 'orgId')),
+  'providerKeys.setDefault': rule('admin', target('organization', 'org_id')),
+  'providerKeys.delete': rule('admin', target('organization', 'org_id')),
+  'providerKeys.test': rule('admin', target('organization', 'org_id')),
+
+  'modelCatalog.getByOrgId': rule('viewer', target('organization')),
+  'modelCatalog.upsert': rule('admin', target('organization', 'org_id')),
+  'modelCatalog.delete': rule('admin', target('organization', 'org_id')),
+
+  'routingPolicies.getByProjectId': rule('viewer', target('project')),
+  'routingPolicies.upsert': rule('admin', target('project', 'project_id')),
+  'routingPolicies.delete': rule('admin', target('project')),
+
+  'responseCache.getPolicy': rule('viewer', target('project')),
+  'responseCache.upsertPolicy': rule('admin', target('project', 'project_id')),
+  'responseCache.clear': rule('editor', target('project')),
+
+  'rateLimits.getByOrgId': rule('viewer', target('organization')),
+  'rateLimits.upsert': rule('admin', target('organization', 'org_id')),
+  'rateLimits.delete': rule('admin', target('organization')),
+
+  'apiKeys.create': rule('admin', target('organization', 'org_id')),
+  'apiKeys.getByOrgId': rule('admin', target('organization')),
+  'apiKeys.revoke': rule('admin', target('apiKey')),
+  'apiKeys.rotate': rule('admin', target('apiKey')),
+
+  'templates.createOrganizationTemplate': rule('editor', target('organization', 'orgId')),
+  'templates.getById': rule('viewer', target('organization', 'orgId')),
+  'templates.getByOrgId': rule('viewer', target('organization')),
+  'templates.install': rule('editor', target('project', 'projectId')),
+
+  'audit.log': rule('editor', target('organization', 'orgId')),
+  'audit.getByOrgId': rule('admin', target('organization', 'orgId')),
+  'audit.getByTarget': rule('viewer', target('organization', 'orgId')),
+};
+
+// Procedures that stay reachable while an org waits out its deletion grace period
+const deletedOrganizationProcedures = new Set([
+  'organizations.getById',
+  'organizations.exportData',
+  'organizations.restore',
+]);
+
+async function assertOrganizationActive(path: string, orgId: string): Promise<void> {
+  if (!deletedOrganizationProcedures.has(path) && await isOrganizationDeleted(orgId)) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Organization is scheduled for deletion' });
+  }
+}
+
+// Procedures an org API key may call in place of a session, and the scope each one needs
+export const procedureApiKeyScopes: Record<string, ApiKeyScope> = {
+  'runs.create': 'runs:write',
+};
+
+// Walks the ownership chain of a target (e.g. prompt -> project -> org)
+export async function resolveTarget(type: PermissionTargetType, id: string): Promise<ResolvedTarget | null> {
+  try {
+    let results: Array<{ orgId: string; projectId?: string }> = [];
+
+    switch (type) {
+      case 'organization':
+        results = await db.select({ orgId: organizationsTable.id })
+          .from(organizationsTable)
+          .where(eq(organizationsTable.id, id))
+          .execute();
+        break;
+      case 'organizationSlug':
+        results = await db.select({ orgId: organizationsTable.id })
+          .from(organizationsTable)
+          .where(eq(organizationsTable.slug, id))
+          .execute();
+        break;
+      case 'membership':
+        results = await db.select({ orgId: membershipsTable.org_id })
+          .from(membershipsTable)
+          .where(eq(membershipsTable.id, id))
+          .execute();
+        break;
+      case 'invitation':
+        results = await db.select({ orgId: invitationsTable.org_id })
+          .from(invitationsTable)
+          .where(eq(invitationsTable.id, id))
+          .execute();
+        break;
+      case 'team':
+        results = await db.select({ orgId: teamsTable.org_id })
+          .from(teamsTable)
+          .where(eq(teamsTable.id, id))
+          .execute();
+        break;
+      case 'project':
+        results = await db.select({ orgId: projectsTable.org_id, projectId: projectsTable.id })
+          .from(projectsTable)
+          .where(eq(projectsTable.id, id))
+          .execute();
+        break;
+      case 'prompt':
+        results = await db.select({ orgId: projectsTable.org_id, projectId: projectsTable.id })
+          .from(promptsTable)
+          .innerJoin(projectsTable, eq(promptsTable.project_id, projectsTable.id))
+          .where(eq(promptsTable.id, id))
+          .execute();
+        break;
+      case 'promptVersion':
+        results = await db.select({ orgId: projectsTable.org_id, projectId: projectsTable.id })
+          .from(promptVersionsTable)
+          .innerJoin(promptsTable, eq(promptVersionsTable.prompt_id, promptsTable.id))
+          .innerJoin(projectsTable, eq(promptsTable.project_id, projectsTable.id))
+          .where(eq(promptVersionsTable.id, id))
+          .execute();
+        break;
+      case 'experiment':
+        results = await db.select({ orgId: projectsTable.org_id, projectId: projectsTable.id })
+          .from(experimentsTable)
+          .innerJoin(promptsTable, eq(experimentsTable.prompt_id, promptsTable.id))
+          .innerJoin(projectsTable, eq(promptsTable.project_id, projectsTable.id))
+          .where(eq(experimentsTable.id, id))
+          .execute();
+        break;
+      case 'run':
+        results = await db.select({ orgId: projectsTable.org_id, projectId: projectsTable.id })
+          .from(runsTable)
+          .innerJoin(projectsTable, eq(runsTable.project_id, projectsTable.id))
+          .where(eq(runsTable.id, id))
+          .execute();
+        break;
+      case 'pipeline':
+        results = await db.select({ orgId: projectsTable.org_id, projectId: projectsTable.id })
+          .from(pipelinesTable)
+          .innerJoin(projectsTable, eq(pipelinesTable.project_id, projectsTable.id))
+          .where(eq(pipelinesTable.id, id))
+          .execute();
+        break;
+      case 'chatSession':
+        results = await db.select({ orgId: projectsTable.org_id, projectId: projectsTable.id })
+          .from(chatSessionsTable)
+          .innerJoin(projectsTable, eq(chatSessionsTable.project_id, projectsTable.id))
+          .where(eq(chatSessionsTable.id, id))
+          .execute();
+        break;
+      case 'providerKey':
+        results = await db.select({ orgId: providerKeysTable.org_id })
+          .from(providerKeysTable)
+          .where(eq(providerKeysTable.id, id))
+          .execute();
+        break;
+      case 'apiKey':
+        results = await db.select({ orgId: apiKeysTable.org_id })
+          .from(apiKeysTable)
+          .where(eq(apiKeysTable.id, id))
+          .execute();
+        break;
+    }
+
+    return results.length > 0 ? { orgId: results[0].orgId, projectId: results[0].projectId ?? null } : null;
+  } catch (error) {
+    console.error('Target resolution failed:', error);
+    throw error;
+  }
+}
+
+export async function resolveTargetOrgId(type: PermissionTargetType, id: string): Promise<string | null> {
+  const resolved = await resolveTarget(type, id);
+  return resolved ? resolved.orgId : null;
+}
+
+function higherRole(a: MembershipRole | null, b: MembershipRole): MembershipRole {
+  return a && roleRank[a] >= roleRank[b] ? a : b;
+}
+
+async function getTeamGrantRoles(userId: string, orgId: string): Promise<Map<string, MembershipRole>> {
+  const grants = await db.select({ projectId: teamProjectGrantsTable.project_id, role: teamProjectGrantsTable.role })
+    .from(teamProjectGrantsTable)
+    .innerJoin(teamMembersTable, eq(teamProjectGrantsTable.team_id, teamMembersTable.team_id))
+    .innerJoin(teamsTable, eq(teamProjectGrantsTable.team_id, teamsTable.id))
+    .where(and(
+      eq(teamMembersTable.user_id, userId),
+      eq(teamsTable.org_id, orgId)
+    ))
+    .execute();
+
+  const roles = new Map<string, MembershipRole>();
+  for (const grant of grants) {
+    roles.set(grant.projectId, higherRole(roles.get(grant.projectId) ?? null, grant.role));
+  }
+  return roles;
+}
+
+// The org role raised by any team grants; restricted projects drop the org role
+// for editors and viewers, so only admins and granted teams get in
+function effectiveProjectRole(
+  orgRole: MembershipRole,
+  project: { restricted: boolean },
+  grantRole: MembershipRole | null
+): MembershipRole | null {
+  const baseRole = project.restricted && !hasMinimumRole(orgRole, 'admin') ? null : orgRole;
+  return grantRole ? higherRole(baseRole, grantRole) : baseRole;
+}
+
+export async function getEffectiveProjectRole(userId: string, projectId: string): Promise<MembershipRole | null> {
+  try {
+    const projects = await db.select()
+      .from(projectsTable)
+      .where(eq(projectsTable.id, projectId))
+      .execute();
+
+    if (projects.length === 0) {
+      return null;
+    }
+
+    const membership = await getUserMembership(userId, projects[0].org_id);
+    if (!membership) {
+      return null;
+    }
+
+    const grantRoles = await getTeamGrantRoles(userId, projects[0].org_id);
+    return effectiveProjectRole(membership.role, projects[0], grantRoles.get(projectId) ?? null);
+  } catch (error) {
+    console.error('Effective project role resolution failed:', error);
+    throw error;
+  }
+}
+
+// Ids of the org's projects the user can at least view
+export async function getAccessibleProjectIds(userId: string, orgId: string): Promise<string[]> {
+  try {
+    const membership = await getUserMembership(userId, orgId);
+    if (!membership) {
+      return [];
+    }
+
+    const projects = await db.select({ id: projectsTable.id, restricted: projectsTable.restricted })
+      .from(projectsTable)
+      .where(eq(projectsTable.org_id, orgId))
+      .execute();
+    const grantRoles = await getTeamGrantRoles(userId, orgId);
+
+    return projects
+      .filter(project => effectiveProjectRole(membership.role, project, grantRoles.get(project.id) ?? null) !== null)
+      .map(project => project.id);
+  } catch (error) {
+    console.error('Accessible project lookup failed:', error);
+    throw error;
+  }
+}
+
+// Users can look up themselves and anyone they share a (non-deleted) organization with
+export async function canViewUser(viewerId: string, userId: string): Promise<boolean> {
+  if (viewerId === userId) {
+    return true;
+  }
+
+  try {
+    const otherMemberships = alias(membershipsTable, 'other_memberships');
+    const shared = await db.select({ orgId: membershipsTable.org_id })
+      .from(membershipsTable)
+      .innerJoin(otherMemberships, eq(membershipsTable.org_id, otherMemberships.org_id))
+      .innerJoin(organizationsTable, eq(membershipsTable.org_id, organizationsTable.id))
+      .where(and(
+        eq(membershipsTable.user_id, viewerId),
+        eq(otherMemberships.user_id, userId),
+        isNull(organizationsTable.deleted_at)
+      ))
+      .limit(1)
+      .execute();
+
+    return shared.length > 0;
+  } catch (error) {
+    console.error('User visibility check failed:', error);
+    throw error;
+  }
+}
+
+async function resolveRuleTargets(permission: PermissionRule, input: unknown): Promise<ResolvedTarget[]> {
+  const resolvedTargets: ResolvedTarget[] = [];
+
+  for (const { type, id } of permission.targets(input)) {
+    if (typeof id !== 'string') {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: `Missing ${type} id` });
+    }
+
+    const resolved = await resolveTarget(type, id);
+    if (!resolved) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: `${type} not found` });
+    }
+
+    resolvedTargets.push(resolved);
+  }
+
+  return resolvedTargets;
+}
+
+// Throws FORBIDDEN unless the user holds the procedure's minimum role in every target's org,
+// or on the target's project for project content
+export async function authorizeProcedure(userId: string, path: string, input: unknown): Promise<void> {
+  const permission = procedurePermissions[path];
+  if (!permission) {
+    throw new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: `No permission rule defined for ${path}` });
+  }
+
+  for (const { orgId, projectId } of await resolveRuleTargets(permission, input)) {
+    const membership = await getUserMembership(userId, orgId);
+    const role = membership && projectId
+      ? await getEffectiveProjectRole(userId, projectId)
+      : membership?.role ?? null;
+    if (!membership || !role || !hasMinimumRole(role, permission.role)) {
+      throw new TRPCError({ code: 'FORBIDDEN', message: `Forbidden: requires ${permission.role} role or higher` });
+    }
+
+    // Owners and admins of orgs with a 2FA policy are locked out until they enroll
+    if (hasMinimumRole(membership.role, 'admin')
+      && await isTwoFactorEnforced(userId, orgId)
+      && !(await isTwoFactorEnabled(userId))) {
+      throw new TRPCError({ code: 'FORBIDDEN', message: 'Two-factor authentication is required by this organization' });
+    }
+
+    await assertOrganizationActive(path, orgId);
+  }
+}
+
+// API keys act on behalf of their org: the procedure must allow keys, the key needs the scope
+// and every target must belong to the key's org. Returns the key, which the call is then made on behalf of.
+export async function authorizeApiKeyProcedure(token: string, path: string, input: unknown): Promise<ApiKey> {
+  const permission = procedurePermissions[path];
+  const scope = procedureApiKeyScopes[path];
+  if (!permission || !scope) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: `Forbidden: ${path} cannot be called with an API key` });
+  }
+
+  const apiKey = await authenticateApiKey(token);
+  if (!apiKey) {
+    throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Invalid API key' });
+  }
+
+  if (!hasApiKeyScope(apiKey, scope)) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: `Forbidden: API key is missing the ${scope} scope` });
+  }
+
+  for (const { orgId } of await resolveRuleTargets(permission, input)) {
+    if (orgId !== apiKey.org_id) {
+      throw new TRPCError({ code: 'FORBIDDEN', message: 'Forbidden: API key belongs to another organization' });
+    }
+
+    await assertOrganizationActive(path, orgId);
+  }
+
+  return apiKey;
+}
@@ -1,7 +1,14 @@
-import { db } from '../db';
-import { billingTable, organizationsTable, runsTable, projectsTable } from '../db/schema';
+import { db, type DbExecutor } from '../db';
+import { billingTable, organizationsTable, runsTable, projectsTable, membershipsTable } from '../db/schema';
 import { type StripeVerificationInput, type Billing, type OrganizationPlan } from '../schema';
-import { eq, sum, and, gte } from 'drizzle-orm';
+import { eq, sum, and, gte, count } from 'drizzle-orm';
+
+// Seats included with each plan; also the limit for orgs that have no billing row yet
+export const PLAN_SEAT_LIMITS: Record<OrganizationPlan, number> = {
+    free: 1,
+    pro: 5,
+    enterprise: 20
+};
 
 export async function createStripeCheckoutSession(orgId: string, plan: string, successUrl: string): Promise<{
     sessionId: string;
@@ -97,16 +104,14 @@ export async function updateOrganizationPlan(orgId: string, plan: string, stripe
         }
 
         // Set plan-specific defaults
-        let seats = 1;
+        const seats = PLAN_SEAT_LIMITS[plan as OrganizationPlan];
         let meteredQuota = 1000;
         
         switch (plan) {
             case 'pro':
-                seats = 5;
                 meteredQuota = 10000;
                 break;
             case 'enterprise':
-                seats = 20;
                 meteredQuota = 100000;
                 break;
         }
@@ -238,6 +243,46 @@ export async function checkUsageQuota(orgId: string): Promise<{
     }
 }
 
+// Accepts a transaction so membership creation can count and insert under the same lock
+export async function getSeatUsage(orgId: string, executor: DbExecutor = db): Promise<{
+    used: number;
+    limit: number;
+    available: number;
+    exceeded: boolean;
+}> {
+    try {
+        const org = await executor.select({ plan: organizationsTable.plan, seats: billingTable.seats })
+            .from(organizationsTable)
+            .leftJoin(billingTable, eq(billingTable.org_id, organizationsTable.id))
+            .where(eq(organizationsTable.id, orgId))
+            .limit(1)
+            .execute();
+
+        if (!org.length) {
+            throw new Error('Organization not found');
+        }
+
+        const memberCount = await executor.select({ total: count() })
+            .from(membershipsTable)
+            .where(eq(membershipsTable.org_id, orgId))
+            .execute();
+
+        const used = memberCount[0]?.total ?? 0;
+        const limit = org[0].seats ?? PLAN_SEAT_LIMITS[org[0].plan];
+
+        // After a downgrade an org can be over its limit; existing members keep access
+        return {
+            used,
+            limit,
+            available: Math.max(limit - used, 0),
+            exceeded: used > limit
+        };
+    } catch (error) {
+        console.error('Seat usage check failed:', error);
+        throw error;
+    }
+}
+
 export async function handleStripeWebhook(event: any): Promise<void> {
     try {
         // In a real implementation, this would handle various Stripe webhook events
@@ -1,6 +1,9 @@
 import { db } from '../db';
-import { chatSessionsTable, projectsTable, usersTable } from '../db/schema';
-import { type CreateChatSessionInput, type ChatSession, type ChatMessageInput } from '../schema';
+import { chatSessionsTable, projectsTable, promptsTable, usersTable } from '../db/schema';
+import { type CreateChatSessionInput, type ChatSession, type ChatMessageInput, type ModelMessage, type ModelRequest, type ModelResponse } from '../schema';
+import { streamModelRequest, routingFlags, runModelName, ModelRoutingError, type ModelStreamEvent } from './gateway';
+import { createRun } from './runs';
+import { getPromptVersionById, renderPromptVersion } from './prompts';
 import { eq, and } from 'drizzle-orm';
 import { nanoid } from 'nanoid';
 
@@ -28,6 +31,29 @@ export const createChatSession = async (input: CreateChatSessionInput): Promise<
       throw new Error(`User with id ${input.user_id} not found`);
     }
 
+    // A prompt version from the same project opens the session: a text version as the system message,
+    // a chat version with all of its messages
+    const messages: Record<string, unknown>[] = [];
+    if (input.prompt_version_id) {
+      const version = await getPromptVersionById(input.prompt_version_id);
+      const prompt = version
+        ? await db.select({ project_id: promptsTable.project_id })
+          .from(promptsTable)
+          .where(eq(promptsTable.id, version.prompt_id))
+          .execute()
+        : [];
+
+      if (!version || prompt[0]?.project_id !== input.project_id) {
+        throw new Error(`Prompt version with id ${input.prompt_version_id} not found in this project`);
+      }
+
+      const rendered = renderPromptVersion(version, input.variables ?? {});
+      const opening = rendered.text !== null ? [{ role: 'system', content: rendered.text }] : rendered.messages;
+      for (const message of opening) {
+        messages.push({ ...message, prompt_version_id: version.id, timestamp: new Date().toISOString() });
+      }
+    }
+
     // Insert chat session
     const result = await db.insert(chatSessionsTable)
       .values({
@@ -36,7 +62,7 @@ export const createChatSession = async (input: CreateChatSessionInput): Promise<
         user_id: input.user_id,
         title: input.title || null,
         model: input.model,
-        messages: []
+        messages
       })
       .returning()
       .execute();
@@ -109,6 +135,51 @@ export const getChatSessionsByUserId = async (userId: string): Promise<ChatSessi
   }
 };
 
+// Stored messages carry extra fields (timestamps); only the conversational ones are sent to the model
+const toModelMessages = (messages: Record<string, unknown>[]): ModelMessage[] =>
+  messages
+    .filter(message => ['system', 'user', 'assistant'].includes(message['role'] as string) && typeof message['content'] === 'string')
+    .map(message => ({ role: message['role'] as ModelMessage['role'], content: message['content'] as string }));
+
+// Logging must not fail a reply the user already has, so failures here are only reported
+const logChatRun = async (
+  session: ChatSession,
+  request: ModelRequest,
+  result: { response: ModelResponse } | { error: unknown; latency_ms: number }
+): Promise<void> => {
+  try {
+    const run = { project_id: session.project_id, input: { messages: request.messages } };
+    if ('response' in result) {
+      const { response } = result;
+      await createRun({
+        ...run,
+        model: `${response.provider}/${response.model}`,
+        output: { content: response.content, tool_calls: response.tool_calls },
+        tokens_in: response.usage.input_tokens,
+        tokens_out: response.usage.output_tokens,
+        latency_ms: response.latency_ms,
+        success: true,
+        flags: { source: 'playground', session_id: session.id, ...routingFlags(response.attempts), cache_hit: response.cache_hit }
+      });
+      return;
+    }
+
+    const { error } = result;
+    await createRun({
+      ...run,
+      model: runModelName(request.model),
+      output: { error: error instanceof Error ? error.message : String(error) },
+      tokens_in: 0,
+      tokens_out: 0,
+      latency_ms: result.latency_ms,
+      success: false,
+      flags: { source: 'playground', session_id: session.id, ...routingFlags(error instanceof ModelRoutingError ? error.attempts : []) }
+    });
+  } catch (error) {
+    console.error('Logging a chat model call failed:', error);
+  }
+};
+
 export const sendChatMessage = async (input: ChatMessageInput): Promise<ReadableStream<Uint8Array>> => {
   try {
     // Verify session exists
@@ -117,7 +188,11 @@ export const sendChatMessage = async (input: ChatMessageInput): Promise<Readable
       throw new Error(`Chat session with id ${input.session_id} not found`);
     }
 
-    // Add user message to session
+    const project = await db.select({ org_id: projectsTable.org_id })
+      .from(projectsTable)
+      .where(eq(projectsTable.id, session.project_id))
+      .execute();
+
     const userMessage = {
       role: 'user',
       content: input.content,
@@ -126,6 +201,18 @@ export const sendChatMessage = async (input: ChatMessageInput): Promise<Readable
 
     const updatedMessages = [...session.messages, userMessage];
 
+    // Open the model stream first, so a missing key or provider error fails the call without
+    // leaving an unanswered message behind
+    const request: ModelRequest = { model: input.model, messages: toModelMessages(updatedMessages) };
+    const startTime = Date.now();
+    let events: AsyncIterable<ModelStreamEvent>;
+    try {
+      events = await streamModelRequest({ orgId: project[0].org_id, projectId: session.project_id }, request);
+    } catch (error) {
+      await logChatRun(session, request, { error, latency_ms: Date.now() - startTime });
+      throw error;
+    }
+
     // Update session with user message
     await db.update(chatSessionsTable)
       .set({
@@ -136,48 +223,52 @@ export const sendChatMessage = async (input: ChatMessageInput): Promise<Readable
       .where(eq(chatSessionsTable.id, input.session_id))
       .execute();
 
-    // Create a simple streaming response (placeholder for real AI integration)
     const encoder = new TextEncoder();
-    const stream = new ReadableStream({
-      start(controller) {
-        const response = `I received your message: "${input.content}". This is a placeholder response using ${input.model}.`;
-        
-        // Simulate streaming by chunking the response
-        const words = response.split(' ');
-        let index = 0;
-        
-        const interval = setInterval(async () => {
-          if (index < words.length) {
-            const chunk = words[index] + ' ';
-            controller.enqueue(encoder.encode(`data: {"content": "${chunk}"}\n\n`));
-            index++;
-          } else {
+    const send = (controller: ReadableStreamDefaultController<Uint8Array>, data: unknown) =>
+      controller.enqueue(encoder.encode(`data: ${typeof data === 'string' ? data : JSON.stringify(data)}\n\n`));
+
+    return new ReadableStream<Uint8Array>({
+      async start(controller) {
+        let answered = false;
+        try {
+          for await (const event of events) {
+            if (event.type === 'delta') {
+              send(controller, { content: event.content });
+              continue;
+            }
+
+            answered = true;
+            await logChatRun(session, request, { response: event.response });
+
             // Add assistant message to session
             const assistantMessage = {
               role: 'assistant',
-              content: response,
+              content: event.response.content,
+              model: event.response.model,
+              usage: event.response.usage,
               timestamp: new Date().toISOString()
             };
 
-            const finalMessages = [...updatedMessages, assistantMessage];
-            
             await db.update(chatSessionsTable)
               .set({
-                messages: finalMessages,
+                messages: [...updatedMessages, assistantMessage],
                 updated_at: new Date()
               })
               .where(eq(chatSessionsTable.id, input.session_id))
               .execute();
+          }
 
-            controller.enqueue(encoder.encode('data: [DONE]\n\n'));
-            controller.close();
-            clearInterval(interval);
+          send(controller, '[DONE]');
+        } catch (error) {
+          console.error('Chat response stream failed:', error);
+          if (!answered) {
+            await logChatRun(session, request, { error, latency_ms: Date.now() - startTime });
           }
-        }, 50);
+          send(controller, { error: error instanceof Error ? error.message : 'Unknown error' });
+        }
+        controller.close();
       }
     });
-
-    return stream;
   } catch (error) {
     console.error('Send chat message failed:', error);
     throw error;
@@ -0,0 +1,99 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+// A secret encrypted under its own data key; only the wrapped data key depends on the master key
+export interface EncryptedSecret {
+  ciphertext: string;
+  encrypted_data_key: string;
+  master_key_id: string;
+}
+
+// MASTER_ENCRYPTION_KEYS is a comma-separated list of `<key id>:<base64 32-byte key>`.
+// New secrets use MASTER_ENCRYPTION_KEY_ID (or the first key); older ids stay listed until rotated out.
+function getMasterKeys(): Map<string, Buffer> {
+  const configured = process.env['MASTER_ENCRYPTION_KEYS'];
+  if (!configured) {
+    throw new Error('MASTER_ENCRYPTION_KEYS is not configured');
+  }
+
+  const keys = new Map<string, Buffer>();
+  for (const entry of configured.split(',').map(item => item.trim()).filter(Boolean)) {
+    const separatorIndex = entry.indexOf(':');
+    const keyId = entry.slice(0, separatorIndex);
+    const key = Buffer.from(entry.slice(separatorIndex + 1), 'base64');
+
+    if (separatorIndex <= 0 || key.length !== KEY_BYTES) {
+      throw new Error(`Invalid master key entry${keyId ? ` ${keyId}` : ''}: expected <id>:<base64 ${KEY_BYTES}-byte key>`);
+    }
+    keys.set(keyId, key);
+  }
+
+  return keys;
+}
+
+function getMasterKey(keyId: string): Buffer {
+  const key = getMasterKeys().get(keyId);
+  if (!key) {
+    throw new Error(`Master key ${keyId} is not configured`);
+  }
+  return key;
+}
+
+export function getActiveMasterKeyId(): string {
+  const keys = getMasterKeys();
+  const activeKeyId = process.env['MASTER_ENCRYPTION_KEY_ID'] ?? keys.keys().next().value;
+  if (!activeKeyId || !keys.has(activeKeyId)) {
+    throw new Error(`Master key ${activeKeyId ?? ''} is not configured`);
+  }
+  return activeKeyId;
+}
+
+// Output is base64(iv | auth tag | ciphertext)
+function seal(key: Buffer, plaintext: Buffer, aad: string): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(Buffer.from(aad));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+}
+
+function open(key: Buffer, sealed: string, aad: string): Buffer {
+  const data = Buffer.from(sealed, 'base64');
+  const decipher = createDecipheriv(ALGORITHM, key, data.subarray(0, IV_BYTES));
+  decipher.setAAD(Buffer.from(aad));
+  decipher.setAuthTag(data.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+  return Buffer.concat([decipher.update(data.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+}
+
+// The context (e.g. the owning row id) is bound as associated data, so a ciphertext
+// copied onto another row fails to decrypt
+export function encryptSecret(plaintext: string, context: string): EncryptedSecret {
+  const masterKeyId = getActiveMasterKeyId();
+  const dataKey = randomBytes(KEY_BYTES);
+
+  return {
+    ciphertext: seal(dataKey, Buffer.from(plaintext, 'utf8'), context),
+    encrypted_data_key: seal(getMasterKey(masterKeyId), dataKey, masterKeyId),
+    master_key_id: masterKeyId,
+  };
+}
+
+export function decryptSecret(secret: EncryptedSecret, context: string): string {
+  const dataKey = open(getMasterKey(secret.master_key_id), secret.encrypted_data_key, secret.master_key_id);
+  return open(dataKey, secret.ciphertext, context).toString('utf8');
+}
+
+// Re-wraps the data key under the active master key; the ciphertext itself is unchanged
+export function rewrapDataKey(secret: EncryptedSecret): Pick<EncryptedSecret, 'encrypted_data_key' | 'master_key_id'> {
+  const masterKeyId = getActiveMasterKeyId();
+  const dataKey = open(getMasterKey(secret.master_key_id), secret.encrypted_data_key, secret.master_key_id);
+
+  return {
+    encrypted_data_key: seal(getMasterKey(masterKeyId), dataKey, masterKeyId),
+    master_key_id: masterKeyId,
+  };
+}
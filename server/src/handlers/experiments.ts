@@ -1,6 +1,9 @@
 import { db } from '../db';
-import { experimentsTable, promptsTable } from '../db/schema';
+import { experimentsTable, promptsTable, projectsTable } from '../db/schema';
 import { type Experiment } from '../schema';
+import { completeModelRequest, routingFlags, runModelName, ModelRoutingError } from './gateway';
+import { createRun } from './runs';
+import { getPromptVersionById, renderPromptVersion } from './prompts';
 import { eq, and } from 'drizzle-orm';
 import { randomUUID } from 'crypto';
 
@@ -145,22 +148,93 @@ export const runExperimentComparison = async (experimentId: string, input: Recor
       throw new Error('Experiment must have at least 2 variants for comparison');
     }
 
-    // For this implementation, we'll simulate responses
-    // In a real scenario, this would call the actual models/prompts
-    const variantA = {
-      content: `Response from ${variantKeys[0]} with input: ${JSON.stringify(input)}`,
-      tokens: Math.floor(Math.random() * 100) + 50,
-      latency: Math.floor(Math.random() * 200) + 300,
-      variant_config: variants[variantKeys[0]]
-    };
+    // Each variant is { model?, temperature?, max_tokens?, version_id? }, run against the prompt's
+    // current version unless it names another one. Parameters the variant leaves out come from the
+    // version's model_params. Every call is recorded as a run of the experiment.
+    const prompt = await db.select({ org_id: projectsTable.org_id, project_id: projectsTable.id, current_version_id: promptsTable.current_version_id })
+      .from(promptsTable)
+      .innerJoin(projectsTable, eq(promptsTable.project_id, projectsTable.id))
+      .where(eq(promptsTable.id, experiment.prompt_id))
+      .execute();
 
-    const variantB = {
-      content: `Response from ${variantKeys[1]} with input: ${JSON.stringify(input)}`,
-      tokens: Math.floor(Math.random() * 100) + 50,
-      latency: Math.floor(Math.random() * 200) + 300,
-      variant_config: variants[variantKeys[1]]
+    const runVariant = async (name: string) => {
+      const config = variants[name] ?? {};
+      const versionId = config['version_id'] ?? prompt[0].current_version_id;
+      const version = versionId ? await getPromptVersionById(versionId) : null;
+      if (!version || version.prompt_id !== experiment.prompt_id) {
+        throw new Error(`Variant ${name} has no prompt version to run`);
+      }
+
+      const rendered = renderPromptVersion(version, input);
+      const model = config['model'] ?? rendered.model_params.model;
+      if (typeof model !== 'string') {
+        throw new Error(`Variant ${name} must specify a model`);
+      }
+
+      const run = {
+        project_id: prompt[0].project_id,
+        prompt_id: experiment.prompt_id,
+        version_id: version.id,
+        experiment_id: experiment.id,
+        input
+      };
+
+      let response;
+      try {
+        response = await completeModelRequest({ orgId: prompt[0].org_id, projectId: prompt[0].project_id }, {
+          model,
+          messages: rendered.messages,
+          tools: rendered.tools.length > 0 ? rendered.tools : undefined,
+          temperature: config['temperature'] ?? rendered.model_params.temperature,
+          max_tokens: config['max_tokens'] ?? rendered.model_params.max_tokens
+        });
+      } catch (error) {
+        if (error instanceof ModelRoutingError) {
+          await createRun({
+            ...run,
+            model: runModelName(model),
+            output: { error: error.message },
+            tokens_in: 0,
+            tokens_out: 0,
+            latency_ms: error.attempts.reduce((sum, attempt) => sum + attempt.latency_ms, 0),
+            success: false,
+            flags: { variant: name, ...routingFlags(error.attempts) }
+          });
+        }
+        throw error;
+      }
+
+      await createRun({
+        ...run,
+        model: `${response.provider}/${response.model}`,
+        output: { content: response.content, tool_calls: response.tool_calls },
+        tokens_in: response.usage.input_tokens,
+        tokens_out: response.usage.output_tokens,
+        latency_ms: response.latency_ms,
+        success: true,
+        flags: { variant: name, ...routingFlags(response.attempts), cache_hit: response.cache_hit }
+      });
+
+      return {
+        content: response.content,
+        tokens: response.usage.input_tokens + response.usage.output_tokens,
+        latency: response.latency_ms,
+        usage: response.usage,
+        version_id: version.id,
+        variant_config: config
+      };
     };
 
+    // Let both variants finish (and record their runs) even when one of them fails
+    const [resultA, resultB] = await Promise.allSettled([runVariant(variantKeys[0]), runVariant(variantKeys[1])]);
+    if (resultA.status === 'rejected') {
+      throw resultA.reason;
+    }
+    if (resultB.status === 'rejected') {
+      throw resultB.reason;
+    }
+    const [variantA, variantB] = [resultA.value, resultB.value];
+
     return { variantA, variantB };
   } catch (error) {
     console.error('Failed to run experiment comparison:', error);
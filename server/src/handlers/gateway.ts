@@ -0,0 +1,327 @@
+import { type ModelRequest, type ModelResponse, type ModelAttempt, type ProviderType, type RoutingPolicy, type CachePolicy } from '../schema';
+import {
+  getProviderAdapter,
+  resolveModel,
+  ProviderRequestError,
+  type ProviderAdapter,
+  type ProviderCallOptions,
+  type ModelCompletion,
+  type ModelStreamChunk,
+  type ResolvedModel
+} from './provider_adapters';
+import { getProviderKeysByOrgId, decryptProviderKey } from './provider_keys';
+import { getRoutingPolicy, DEFAULT_ROUTING_POLICY } from './routing_policies';
+import {
+  getCachePolicy,
+  getCacheKeys,
+  getPromptText,
+  findCachedResponse,
+  findSimilarCachedResponse,
+  storeCachedResponse,
+  type CacheKeys
+} from './response_cache';
+import { acquireModelCallSlot, releaseModelCallSlot } from './rate_limits';
+
+const MAX_BACKOFF_MS = 30_000;
+const EMBEDDING_TIMEOUT_MS = 10_000;
+
+export type ModelStreamEvent =
+  | { type: 'delta'; content: string }
+  | { type: 'done'; response: ModelResponse };
+
+// Requests made on behalf of a project follow that project's routing policy; the rest use the defaults
+export interface ModelCallContext {
+  orgId: string;
+  projectId?: string | null;
+}
+
+// Thrown once every target in the routing policy has failed; the message is the last failure's
+export class ModelRoutingError extends Error {
+  constructor(message: string, readonly attempts: ModelAttempt[]) {
+    super(message);
+    this.name = 'ModelRoutingError';
+  }
+}
+
+interface ProviderCredential {
+  keyId: string | null;
+  apiKey: string;
+}
+
+// A cache lookup for a project with caching enabled; the keys and embedding are reused to store a miss
+interface CacheLookup {
+  policy: CachePolicy;
+  keys: CacheKeys;
+  embedding: number[] | null;
+  hit: ModelResponse | null;
+}
+
+interface RoutedCall<T> {
+  result: T;
+  target: ResolvedModel;
+  attempts: ModelAttempt[];
+  startTime: number;
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Spreads calls across the keys that have a weight in the policy, and otherwise uses the default key
+async function pickProviderKey(orgId: string, provider: ProviderType, keyWeights: Record<string, number>): Promise<ProviderCredential> {
+  const keys = (await getProviderKeysByOrgId(orgId)).filter(key => key.provider === provider);
+  const weighted = keys.filter(key => (keyWeights[key.id] ?? 0) > 0);
+
+  let key = keys.find(candidate => candidate.is_default) ?? keys[0];
+  if (weighted.length > 0) {
+    let remaining = Math.random() * weighted.reduce((sum, candidate) => sum + keyWeights[candidate.id]!, 0);
+    key = weighted.find(candidate => (remaining -= keyWeights[candidate.id]!) < 0) ?? weighted[weighted.length - 1];
+  }
+
+  if (!key) {
+    if (provider === 'local') {
+      return { keyId: null, apiKey: '' };
+    }
+    throw new Error(`No ${provider} API key is configured for this organization`);
+  }
+  return { keyId: key.id, apiKey: await decryptProviderKey(key.id) };
+}
+
+// Rate limits, server errors, timeouts and unreachable providers are worth another try
+function isRetryable(error: unknown): boolean {
+  return error instanceof ProviderRequestError && (error.status === null || error.status === 429 || error.status >= 500);
+}
+
+// Honours Retry-After; otherwise exponential with jitter so parallel callers do not retry in lockstep
+function getBackoffDelay(policy: RoutingPolicy, retry: number, error: unknown): number {
+  if (error instanceof ProviderRequestError && error.retryAfterMs !== null) {
+    return Math.min(error.retryAfterMs, MAX_BACKOFF_MS);
+  }
+  const delay = Math.min(policy.initial_backoff_ms * 2 ** retry, MAX_BACKOFF_MS);
+  return delay / 2 + Math.random() * delay / 2;
+}
+
+function getRoutingTargets(request: ModelRequest, policy: RoutingPolicy): ResolvedModel[] {
+  const targets = [resolveModel(request.model), ...policy.fallbacks];
+  return targets.filter((target, index) =>
+    targets.findIndex(other => other.provider === target.provider && other.model === target.model) === index
+  );
+}
+
+// Tries the requested model and then each fallback, retrying retryable failures with backoff.
+// The timeout covers call(), so for streams it ends once the provider has accepted the request.
+async function routeModelRequest<T>(
+  context: ModelCallContext,
+  request: ModelRequest,
+  call: (adapter: ProviderAdapter, request: ModelRequest, options: ProviderCallOptions) => Promise<T>
+): Promise<RoutedCall<T>> {
+  const policy = context.projectId
+    ? await getRoutingPolicy(context.projectId)
+    : { ...DEFAULT_ROUTING_POLICY, project_id: '', updated_at: null };
+
+  const startTime = Date.now();
+  const attempts: ModelAttempt[] = [];
+  let lastError: unknown;
+
+  for (const target of getRoutingTargets(request, policy)) {
+    let credential: ProviderCredential;
+    try {
+      credential = await pickProviderKey(context.orgId, target.provider, policy.key_weights);
+    } catch (error) {
+      lastError = error;
+      attempts.push({ ...target, key_id: null, success: false, status: null, error: describeError(error), latency_ms: 0 });
+      continue;
+    }
+
+    for (let retry = 0; ; retry++) {
+      const attemptStart = Date.now();
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), policy.timeout_ms);
+
+      try {
+        const result = await call(
+          getProviderAdapter(target.provider),
+          { ...request, model: target.model },
+          { apiKey: credential.apiKey, signal: controller.signal }
+        );
+        attempts.push({ ...target, key_id: credential.keyId, success: true, status: null, error: null, latency_ms: Date.now() - attemptStart });
+        return { result, target, attempts, startTime };
+      } catch (error) {
+        const timedOut = controller.signal.aborted;
+        lastError = timedOut
+          ? new ProviderRequestError(target.provider, null, `${target.provider} did not respond within ${policy.timeout_ms}ms`)
+          : error;
+        attempts.push({
+          ...target,
+          key_id: credential.keyId,
+          success: false,
+          status: lastError instanceof ProviderRequestError ? lastError.status : null,
+          error: describeError(lastError),
+          latency_ms: Date.now() - attemptStart,
+        });
+
+        if (retry >= policy.max_retries || !isRetryable(lastError)) {
+          break;
+        }
+        await new Promise(resolve => setTimeout(resolve, getBackoffDelay(policy, retry, lastError)));
+      } finally {
+        clearTimeout(timer);
+      }
+    }
+  }
+
+  throw new ModelRoutingError(describeError(lastError), attempts);
+}
+
+function toModelResponse(completion: ModelCompletion, routed: RoutedCall<unknown>): ModelResponse {
+  return {
+    ...completion,
+    provider: routed.target.provider,
+    model: routed.target.model,
+    latency_ms: Date.now() - routed.startTime,
+    attempts: routed.attempts,
+    cache_hit: false,
+  };
+}
+
+async function embedText(orgId: string, model: string, text: string): Promise<number[]> {
+  const resolved = resolveModel(model);
+  const credential = await pickProviderKey(orgId, resolved.provider, {});
+  const [embedding] = await getProviderAdapter(resolved.provider).embed(
+    { model: resolved.model, input: [text] },
+    { apiKey: credential.apiKey, signal: AbortSignal.timeout(EMBEDDING_TIMEOUT_MS) }
+  );
+  return embedding ?? [];
+}
+
+// Exact matches first; in semantic mode a close enough prompt with the same model and parameters also hits.
+// A failing embedding call only disables the semantic lookup, it never fails the request.
+async function lookupCache(context: ModelCallContext, request: ModelRequest): Promise<CacheLookup | null> {
+  if (!context.projectId) {
+    return null;
+  }
+  const policy = await getCachePolicy(context.projectId);
+  if (policy.ttl_seconds === 0) {
+    return null;
+  }
+
+  const startTime = Date.now();
+  const keys = getCacheKeys(request);
+  let embedding: number[] | null = null;
+  let cached = await findCachedResponse(context.projectId, keys.cacheKey);
+
+  if (!cached && policy.semantic && policy.embedding_model) {
+    try {
+      embedding = await embedText(context.orgId, policy.embedding_model, getPromptText(request));
+    } catch (error) {
+      console.error('Prompt embedding failed:', error);
+    }
+    if (embedding) {
+      cached = await findSimilarCachedResponse(context.projectId, keys.paramsKey, embedding, policy.similarity_threshold);
+    }
+  }
+
+  const hit = cached ? { ...cached, latency_ms: Date.now() - startTime, attempts: [], cache_hit: true } : null;
+  return { policy, keys, embedding, hit };
+}
+
+// A response that cannot be cached is still a successful call, so store failures are only logged
+async function storeInCache(context: ModelCallContext, lookup: CacheLookup | null, response: ModelResponse): Promise<void> {
+  if (!context.projectId || !lookup) {
+    return;
+  }
+  try {
+    await storeCachedResponse(context.projectId, lookup.keys, lookup.embedding, response, lookup.policy.ttl_seconds);
+  } catch (error) {
+    console.error('Caching the model response failed:', error);
+  }
+}
+
+// How runs name a model: provider/model, however the request spelled it, so analytics group each model under one key
+export function runModelName(model: string): string {
+  const resolved = resolveModel(model);
+  return `${resolved.provider}/${resolved.model}`;
+}
+
+// Run flags describing how a request was routed, so analytics can report fallback rates
+// Cache hits report no attempts, so they count as neither retries nor fallbacks
+export function routingFlags(attempts: ModelAttempt[]): { attempts: ModelAttempt[]; fallback: boolean } {
+  const first = attempts[0];
+  return {
+    attempts,
+    fallback: attempts.some(attempt => attempt.provider !== first?.provider || attempt.model !== first?.model),
+  };
+}
+
+// Served from the project's response cache when it holds a match; other calls hold one of the org's concurrency slots
+export async function completeModelRequest(context: ModelCallContext, request: ModelRequest): Promise<ModelResponse> {
+  try {
+    const cache = await lookupCache(context, request);
+    if (cache?.hit) {
+      return cache.hit;
+    }
+
+    const leaseId = await acquireModelCallSlot(context.orgId);
+    try {
+      const routed = await routeModelRequest(context, request, (adapter, providerRequest, options) =>
+        adapter.complete(providerRequest, options)
+      );
+      const response = toModelResponse(routed.result, routed);
+      await storeInCache(context, cache, response);
+      return response;
+    } finally {
+      await releaseModelCallSlot(leaseId);
+    }
+  } catch (error) {
+    console.error('Model request failed:', error);
+    throw error;
+  }
+}
+
+// Resolves once a provider has accepted the request; the final event carries the full response.
+// Failures after that point end the stream rather than falling back. Cache hits arrive as a single delta.
+// The concurrency slot is held until the stream is consumed; abandoned streams release it when the lease expires.
+export async function streamModelRequest(context: ModelCallContext, request: ModelRequest): Promise<AsyncIterable<ModelStreamEvent>> {
+  try {
+    const cache = await lookupCache(context, request);
+    const hit = cache?.hit;
+    if (hit) {
+      return (async function* (): AsyncGenerator<ModelStreamEvent> {
+        if (hit.content) {
+          yield { type: 'delta', content: hit.content };
+        }
+        yield { type: 'done', response: hit };
+      })();
+    }
+
+    const leaseId = await acquireModelCallSlot(context.orgId);
+    let routed: RoutedCall<AsyncIterable<ModelStreamChunk>>;
+    try {
+      routed = await routeModelRequest(context, request, (adapter, providerRequest, options) =>
+        adapter.stream(providerRequest, options)
+      );
+    } catch (error) {
+      await releaseModelCallSlot(leaseId);
+      throw error;
+    }
+
+    return (async function* (): AsyncGenerator<ModelStreamEvent> {
+      try {
+        for await (const chunk of routed.result) {
+          if (chunk.type === 'delta') {
+            yield chunk;
+          } else {
+            const response = toModelResponse(chunk.completion, routed);
+            await storeInCache(context, cache, response);
+            yield { type: 'done', response };
+          }
+        }
+      } finally {
+        await releaseModelCallSlot(leaseId);
+      }
+    })();
+  } catch (error) {
+    console.error('Model stream request failed:', error);
+    throw error;
+  }
+}
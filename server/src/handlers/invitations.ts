@@ -0,0 +1,289 @@
+import { db } from '../db';
+import { invitationsTable, organizationsTable, membershipsTable, usersTable } from '../db/schema';
+import { type Invitation, type CreateInvitationInput, type Membership } from '../schema';
+import { createMembership } from './organizations';
+import { logAuditEvent } from './audit';
+import { sendEmail, getAppUrl } from './mailer';
+import { signToken, verifySignedToken } from './sessions';
+import { eq, and, gt, desc } from 'drizzle-orm';
+import { createHash, randomBytes } from 'crypto';
+import { nanoid } from 'nanoid';
+
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+type InvitationRow = typeof invitationsTable.$inferSelect;
+
+function toInvitation(row: InvitationRow): Invitation {
+  const { token_hash, ...invitation } = row;
+  return invitation;
+}
+
+function hashInvitationToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+// The signature lets forged links fail before any lookup; the hash is what gets stored
+function generateInvitationToken(): { token: string; token_hash: string } {
+  const token = signToken(randomBytes(24).toString('base64url'));
+  return { token, token_hash: hashInvitationToken(token) };
+}
+
+async function sendInvitationEmail(invitation: InvitationRow, token: string): Promise<void> {
+  const org = await db.select({ name: organizationsTable.name })
+    .from(organizationsTable)
+    .where(eq(organizationsTable.id, invitation.org_id))
+    .execute();
+
+  await sendEmail({
+    to: invitation.email,
+    subject: `You've been invited to join ${org[0]?.name ?? 'an organization'} on PrismForge`,
+    body: `You've been invited to join ${org[0]?.name ?? 'an organization'} as ${invitation.role}. The invitation expires in 7 days.\n\n${getAppUrl()}/invitations/accept?token=${token}`
+  });
+}
+
+// Finds the pending, unexpired invitation for a token and checks it was addressed to this user
+async function getInvitationForUser(token: string, userId: string): Promise<InvitationRow> {
+  if (!verifySignedToken(token)) {
+    throw new Error('Invalid or expired invitation');
+  }
+
+  const results = await db.select()
+    .from(invitationsTable)
+    .where(and(
+      eq(invitationsTable.token_hash, hashInvitationToken(token)),
+      eq(invitationsTable.status, 'pending'),
+      gt(invitationsTable.expires_at, new Date())
+    ))
+    .execute();
+
+  if (results.length === 0) {
+    throw new Error('Invalid or expired invitation');
+  }
+
+  const users = await db.select()
+    .from(usersTable)
+    .where(eq(usersTable.id, userId))
+    .execute();
+
+  if (users.length === 0 || users[0].email.toLowerCase() !== results[0].email) {
+    throw new Error('This invitation was sent to a different email address');
+  }
+
+  return results[0];
+}
+
+export async function createInvitation(input: CreateInvitationInput, invitedByUserId: string): Promise<Invitation> {
+  try {
+    const email = input.email.toLowerCase();
+
+    const org = await db.select()
+      .from(organizationsTable)
+      .where(eq(organizationsTable.id, input.org_id))
+      .execute();
+
+    if (org.length === 0) {
+      throw new Error('Organization not found');
+    }
+
+    const existingMembers = await db.select()
+      .from(membershipsTable)
+      .innerJoin(usersTable, eq(membershipsTable.user_id, usersTable.id))
+      .where(and(
+        eq(membershipsTable.org_id, input.org_id),
+        eq(usersTable.email, email)
+      ))
+      .execute();
+
+    if (existingMembers.length > 0) {
+      throw new Error('User is already a member of this organization');
+    }
+
+    const pending = await db.select()
+      .from(invitationsTable)
+      .where(and(
+        eq(invitationsTable.org_id, input.org_id),
+        eq(invitationsTable.email, email),
+        eq(invitationsTable.status, 'pending'),
+        gt(invitationsTable.expires_at, new Date())
+      ))
+      .execute();
+
+    if (pending.length > 0) {
+      throw new Error('An invitation is already pending for this email');
+    }
+
+    const { token, token_hash } = generateInvitationToken();
+
+    const result = await db.insert(invitationsTable)
+      .values({
+        id: nanoid(),
+        org_id: input.org_id,
+        email,
+        role: input.role,
+        token_hash,
+        invited_by_user_id: invitedByUserId,
+        expires_at: new Date(Date.now() + INVITATION_TTL_MS),
+      })
+      .returning()
+      .execute();
+
+    const invitation = result[0];
+    await sendInvitationEmail(invitation, token);
+    await logAuditEvent(invitation.org_id, invitedByUserId, 'invitation.create', 'invitation', invitation.id, {
+      email,
+      role: invitation.role
+    });
+
+    return toInvitation(invitation);
+  } catch (error) {
+    console.error('Invitation creation failed:', error);
+    throw error;
+  }
+}
+
+export async function getPendingInvitationsByOrgId(orgId: string): Promise<Invitation[]> {
+  try {
+    const results = await db.select()
+      .from(invitationsTable)
+      .where(and(
+        eq(invitationsTable.org_id, orgId),
+        eq(invitationsTable.status, 'pending'),
+        gt(invitationsTable.expires_at, new Date())
+      ))
+      .orderBy(desc(invitationsTable.created_at))
+      .execute();
+
+    return results.map(toInvitation);
+  } catch (error) {
+    console.error('Failed to get pending invitations:', error);
+    throw error;
+  }
+}
+
+// Issues a fresh token and expiry; links from earlier emails stop working
+export async function resendInvitation(invitationId: string): Promise<Invitation> {
+  try {
+    const { token, token_hash } = generateInvitationToken();
+
+    const result = await db.update(invitationsTable)
+      .set({
+        token_hash,
+        expires_at: new Date(Date.now() + INVITATION_TTL_MS),
+      })
+      .where(and(
+        eq(invitationsTable.id, invitationId),
+        eq(invitationsTable.status, 'pending')
+      ))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error('Pending invitation not found');
+    }
+
+    await sendInvitationEmail(result[0], token);
+
+    return toInvitation(result[0]);
+  } catch (error) {
+    console.error('Invitation resend failed:', error);
+    throw error;
+  }
+}
+
+export async function revokeInvitation(invitationId: string, actorUserId: string): Promise<Invitation> {
+  try {
+    const result = await db.update(invitationsTable)
+      .set({ status: 'revoked', responded_at: new Date() })
+      .where(and(
+        eq(invitationsTable.id, invitationId),
+        eq(invitationsTable.status, 'pending')
+      ))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error('Pending invitation not found');
+    }
+
+    await logAuditEvent(result[0].org_id, actorUserId, 'invitation.revoke', 'invitation', invitationId);
+
+    return toInvitation(result[0]);
+  } catch (error) {
+    console.error('Invitation revocation failed:', error);
+    throw error;
+  }
+}
+
+export async function acceptInvitation(token: string, userId: string): Promise<Membership> {
+  try {
+    const invitation = await getInvitationForUser(token, userId);
+
+    const existing = await db.select()
+      .from(membershipsTable)
+      .where(and(
+        eq(membershipsTable.org_id, invitation.org_id),
+        eq(membershipsTable.user_id, userId)
+      ))
+      .execute();
+
+    if (existing.length > 0) {
+      throw new Error('User is already a member of this organization');
+    }
+
+    // Claim the invitation first so two concurrent accepts cannot both create a membership
+    const claimed = await db.update(invitationsTable)
+      .set({ status: 'accepted', responded_at: new Date() })
+      .where(and(
+        eq(invitationsTable.id, invitation.id),
+        eq(invitationsTable.status, 'pending')
+      ))
+      .returning()
+      .execute();
+
+    if (claimed.length === 0) {
+      throw new Error('Invalid or expired invitation');
+    }
+
+    let membership: Membership;
+    try {
+      membership = await createMembership({
+        org_id: invitation.org_id,
+        user_id: userId,
+        role: invitation.role,
+      });
+    } catch (error) {
+      await db.update(invitationsTable)
+        .set({ status: 'pending', responded_at: null })
+        .where(eq(invitationsTable.id, invitation.id))
+        .execute();
+      throw error;
+    }
+
+    await logAuditEvent(invitation.org_id, userId, 'invitation.accept', 'membership', membership.id, {
+      invitation_id: invitation.id,
+      role: invitation.role
+    });
+
+    return membership;
+  } catch (error) {
+    console.error('Invitation acceptance failed:', error);
+    throw error;
+  }
+}
+
+export async function declineInvitation(token: string, userId: string): Promise<void> {
+  try {
+    const invitation = await getInvitationForUser(token, userId);
+
+    await db.update(invitationsTable)
+      .set({ status: 'declined', responded_at: new Date() })
+      .where(and(
+        eq(invitationsTable.id, invitation.id),
+        eq(invitationsTable.status, 'pending')
+      ))
+      .execute();
+  } catch (error) {
+    console.error('Invitation decline failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,62 @@
+import { db } from '../db';
+import { emailOutboxTable } from '../db/schema';
+import { type EmailOutboxMessage } from '../schema';
+import { eq, desc } from 'drizzle-orm';
+import { nanoid } from 'nanoid';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  body: string;
+}
+
+export interface Mailer {
+  send(message: EmailMessage): Promise<void>;
+}
+
+// Default mailer: writes messages to the local outbox table instead of delivering them
+export const outboxMailer: Mailer = {
+  async send(message) {
+    await db.insert(emailOutboxTable)
+      .values({
+        id: nanoid(),
+        to_address: message.to,
+        subject: message.subject,
+        body: message.body
+      })
+      .execute();
+  }
+};
+
+let activeMailer: Mailer = outboxMailer;
+
+// Swaps the delivery backend, e.g. for an SMTP or API-based mailer in production
+export function setMailer(mailer: Mailer): void {
+  activeMailer = mailer;
+}
+
+export function getAppUrl(): string {
+  return process.env['APP_URL'] || 'http://localhost';
+}
+
+export async function sendEmail(message: EmailMessage): Promise<void> {
+  try {
+    await activeMailer.send(message);
+  } catch (error) {
+    console.error('Email delivery failed:', error);
+    throw error;
+  }
+}
+
+export async function getOutboxMessages(toAddress: string): Promise<EmailOutboxMessage[]> {
+  try {
+    return await db.select()
+      .from(emailOutboxTable)
+      .where(eq(emailOutboxTable.to_address, toAddress))
+      .orderBy(desc(emailOutboxTable.created_at))
+      .execute();
+  } catch (error) {
+    console.error('Fetching outbox messages failed:', error);
+    throw error;
+  }
+}
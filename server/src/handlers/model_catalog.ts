@@ -0,0 +1,176 @@
+import { db } from '../db';
+import { modelCatalogTable } from '../db/schema';
+import {
+  type ModelCatalogEntry,
+  type UpsertModelCatalogEntryInput,
+  type ModelCatalogEntryRefInput,
+  type ProviderType
+} from '../schema';
+import { resolveModel } from './provider_adapters';
+import { logAuditEvent } from './audit';
+import { eq, and } from 'drizzle-orm';
+
+type CatalogFields = Omit<ModelCatalogEntry, 'source'>;
+
+// List prices (USD per 1K tokens) for common hosted models. Local models have no built-in
+// entries; orgs add them (usually at zero cost) alongside any negotiated rates.
+const BUILTIN_MODEL_CATALOG: CatalogFields[] = [
+  { provider: 'openai', model_id: 'gpt-4.1', context_window: 1047576, input_price_per_1k: 0.002, output_price_per_1k: 0.008, supports_tools: true, supports_vision: true, supports_json: true, supports_streaming: true },
+  { provider: 'openai', model_id: 'gpt-4.1-mini', context_window: 1047576, input_price_per_1k: 0.0004, output_price_per_1k: 0.0016, supports_tools: true, supports_vision: true, supports_json: true, supports_streaming: true },
+  { provider: 'openai', model_id: 'gpt-4o', context_window: 128000, input_price_per_1k: 0.0025, output_price_per_1k: 0.01, supports_tools: true, supports_vision: true, supports_json: true, supports_streaming: true },
+  { provider: 'openai', model_id: 'gpt-4o-mini', context_window: 128000, input_price_per_1k: 0.00015, output_price_per_1k: 0.0006, supports_tools: true, supports_vision: true, supports_json: true, supports_streaming: true },
+  { provider: 'openai', model_id: 'o3-mini', context_window: 200000, input_price_per_1k: 0.0011, output_price_per_1k: 0.0044, supports_tools: true, supports_vision: false, supports_json: true, supports_streaming: true },
+  { provider: 'openai', model_id: 'gpt-4', context_window: 8192, input_price_per_1k: 0.03, output_price_per_1k: 0.06, supports_tools: true, supports_vision: false, supports_json: false, supports_streaming: true },
+  { provider: 'openai', model_id: 'gpt-3.5-turbo', context_window: 16385, input_price_per_1k: 0.0005, output_price_per_1k: 0.0015, supports_tools: true, supports_vision: false, supports_json: true, supports_streaming: true },
+  { provider: 'anthropic', model_id: 'claude-3-7-sonnet-latest', context_window: 200000, input_price_per_1k: 0.003, output_price_per_1k: 0.015, supports_tools: true, supports_vision: true, supports_json: false, supports_streaming: true },
+  { provider: 'anthropic', model_id: 'claude-3-5-sonnet-latest', context_window: 200000, input_price_per_1k: 0.003, output_price_per_1k: 0.015, supports_tools: true, supports_vision: true, supports_json: false, supports_streaming: true },
+  { provider: 'anthropic', model_id: 'claude-3-5-haiku-latest', context_window: 200000, input_price_per_1k: 0.0008, output_price_per_1k: 0.004, supports_tools: true, supports_vision: false, supports_json: false, supports_streaming: true },
+  { provider: 'anthropic', model_id: 'claude-3-opus-latest', context_window: 200000, input_price_per_1k: 0.015, output_price_per_1k: 0.075, supports_tools: true, supports_vision: true, supports_json: false, supports_streaming: true },
+  { provider: 'gemini', model_id: 'gemini-2.0-flash', context_window: 1048576, input_price_per_1k: 0.0001, output_price_per_1k: 0.0004, supports_tools: true, supports_vision: true, supports_json: true, supports_streaming: true },
+  { provider: 'gemini', model_id: 'gemini-1.5-pro', context_window: 2097152, input_price_per_1k: 0.00125, output_price_per_1k: 0.005, supports_tools: true, supports_vision: true, supports_json: true, supports_streaming: true },
+  { provider: 'gemini', model_id: 'gemini-1.5-flash', context_window: 1048576, input_price_per_1k: 0.000075, output_price_per_1k: 0.0003, supports_tools: true, supports_vision: true, supports_json: true, supports_streaming: true },
+];
+
+type ModelCatalogRow = typeof modelCatalogTable.$inferSelect;
+
+function toCatalogEntry(row: ModelCatalogRow): ModelCatalogEntry {
+  return {
+    provider: row.provider,
+    model_id: row.model_id,
+    context_window: row.context_window,
+    input_price_per_1k: parseFloat(row.input_price_per_1k),
+    output_price_per_1k: parseFloat(row.output_price_per_1k),
+    supports_tools: row.supports_tools,
+    supports_vision: row.supports_vision,
+    supports_json: row.supports_json,
+    supports_streaming: row.supports_streaming,
+    source: 'organization'
+  };
+}
+
+function findBuiltinEntry(provider: ProviderType, modelId: string): CatalogFields | undefined {
+  return BUILTIN_MODEL_CATALOG.find(entry => entry.provider === provider && entry.model_id === modelId);
+}
+
+// Rounded to the precision of runs.cost_usd
+export function computeModelCost(entry: Pick<ModelCatalogEntry, 'input_price_per_1k' | 'output_price_per_1k'>, tokensIn: number, tokensOut: number): number {
+  const cost = (tokensIn * entry.input_price_per_1k + tokensOut * entry.output_price_per_1k) / 1000;
+  return Math.round(cost * 1e6) / 1e6;
+}
+
+export async function getModelCatalog(orgId: string): Promise<ModelCatalogEntry[]> {
+  try {
+    const rows = await db.select()
+      .from(modelCatalogTable)
+      .where(eq(modelCatalogTable.org_id, orgId))
+      .execute();
+
+    const entries = new Map<string, ModelCatalogEntry>();
+    for (const entry of BUILTIN_MODEL_CATALOG) {
+      entries.set(`${entry.provider}/${entry.model_id}`, { ...entry, source: 'builtin' });
+    }
+    for (const row of rows) {
+      entries.set(`${row.provider}/${row.model_id}`, toCatalogEntry(row));
+    }
+
+    return [...entries.values()].sort((a, b) =>
+      a.provider.localeCompare(b.provider) || a.model_id.localeCompare(b.model_id)
+    );
+  } catch (error) {
+    console.error('Failed to get model catalog:', error);
+    throw error;
+  }
+}
+
+// Accepts the same model strings as the gateway; unknown or unpriced models resolve to null
+export async function findModelCatalogEntry(orgId: string, model: string): Promise<ModelCatalogEntry | null> {
+  try {
+    let resolved;
+    try {
+      resolved = resolveModel(model);
+    } catch {
+      return null;
+    }
+
+    const rows = await db.select()
+      .from(modelCatalogTable)
+      .where(and(
+        eq(modelCatalogTable.org_id, orgId),
+        eq(modelCatalogTable.provider, resolved.provider),
+        eq(modelCatalogTable.model_id, resolved.model)
+      ))
+      .execute();
+
+    if (rows.length > 0) {
+      return toCatalogEntry(rows[0]);
+    }
+
+    const builtin = findBuiltinEntry(resolved.provider, resolved.model);
+    return builtin ? { ...builtin, source: 'builtin' } : null;
+  } catch (error) {
+    console.error('Failed to find model catalog entry:', error);
+    throw error;
+  }
+}
+
+export async function upsertModelCatalogEntry(input: UpsertModelCatalogEntryInput, actorUserId: string): Promise<ModelCatalogEntry> {
+  try {
+    const builtin = findBuiltinEntry(input.provider, input.model_id);
+    const contextWindow = input.context_window ?? builtin?.context_window;
+    if (contextWindow === undefined) {
+      throw new Error('context_window is required for models that are not in the built-in catalog');
+    }
+
+    const values = {
+      context_window: contextWindow,
+      input_price_per_1k: input.input_price_per_1k.toString(),
+      output_price_per_1k: input.output_price_per_1k.toString(),
+      supports_tools: input.supports_tools ?? builtin?.supports_tools ?? false,
+      supports_vision: input.supports_vision ?? builtin?.supports_vision ?? false,
+      supports_json: input.supports_json ?? builtin?.supports_json ?? false,
+      supports_streaming: input.supports_streaming ?? builtin?.supports_streaming ?? true
+    };
+
+    const result = await db.insert(modelCatalogTable)
+      .values({ org_id: input.org_id, provider: input.provider, model_id: input.model_id, ...values })
+      .onConflictDoUpdate({
+        target: [modelCatalogTable.org_id, modelCatalogTable.provider, modelCatalogTable.model_id],
+        set: { ...values, updated_at: new Date() }
+      })
+      .returning()
+      .execute();
+
+    await logAuditEvent(input.org_id, actorUserId, 'model_catalog.upsert', 'model', `${input.provider}/${input.model_id}`, {
+      input_price_per_1k: input.input_price_per_1k,
+      output_price_per_1k: input.output_price_per_1k
+    });
+
+    return toCatalogEntry(result[0]);
+  } catch (error) {
+    console.error('Model catalog update failed:', error);
+    throw error;
+  }
+}
+
+// Removes the org's entry; a built-in model falls back to its list price
+export async function deleteModelCatalogEntry(input: ModelCatalogEntryRefInput, actorUserId: string): Promise<void> {
+  try {
+    const result = await db.delete(modelCatalogTable)
+      .where(and(
+        eq(modelCatalogTable.org_id, input.org_id),
+        eq(modelCatalogTable.provider, input.provider),
+        eq(modelCatalogTable.model_id, input.model_id)
+      ))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error('Model catalog entry not found');
+    }
+
+    await logAuditEvent(input.org_id, actorUserId, 'model_catalog.delete', 'model', `${input.provider}/${input.model_id}`);
+  } catch (error) {
+    console.error('Model catalog deletion failed:', error);
+    throw error;
+  }
+}
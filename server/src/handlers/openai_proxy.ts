@@ -0,0 +1,421 @@
+import { db } from '../db';
+import { projectsTable, promptsTable, promptVersionsTable } from '../db/schema';
+import { type ApiKey, type ModelMessage, type ModelRequest, type ModelResponse } from '../schema';
+import { authenticateApiKey, hasApiKeyScope } from './api_keys';
+import { completeModelRequest, streamModelRequest, routingFlags, ModelRoutingError, type ModelStreamEvent } from './gateway';
+import { resolveModel } from './provider_adapters';
+import { createRun } from './runs';
+import { consumeRateLimits, setRateLimitHeaders, RateLimitError } from './rate_limits';
+import { type IncomingMessage, type ServerResponse } from 'http';
+import { z, ZodError } from 'zod';
+import { nanoid } from 'nanoid';
+import { eq, and, or } from 'drizzle-orm';
+
+export const OPENAI_PROXY_PATH = '/v1/chat/completions';
+
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+
+// Carries the HTTP status and OpenAI error type back to handleOpenAiProxyRequest
+export class OpenAiProxyError extends Error {
+  constructor(readonly status: number, message: string, readonly type: string = 'invalid_request_error') {
+    super(message);
+    this.name = 'OpenAiProxyError';
+  }
+}
+
+// The subset of the chat completions request body the gateway can serve
+const textContentSchema = z.union([
+  z.string(),
+  z.array(z.object({ type: z.literal('text'), text: z.string() })),
+]);
+
+const chatMessageSchema = z.discriminatedUnion('role', [
+  z.object({ role: z.enum(['system', 'developer']), content: textContentSchema }),
+  z.object({ role: z.literal('user'), content: textContentSchema }),
+  z.object({
+    role: z.literal('assistant'),
+    content: textContentSchema.nullable().optional(),
+    tool_calls: z.array(z.object({
+      id: z.string(),
+      type: z.literal('function'),
+      function: z.object({ name: z.string(), arguments: z.string() }),
+    })).optional(),
+  }),
+  z.object({ role: z.literal('tool'), content: textContentSchema, tool_call_id: z.string() }),
+]);
+
+const chatCompletionRequestSchema = z.object({
+  model: z.string(),
+  messages: z.array(chatMessageSchema).min(1),
+  tools: z.array(z.object({
+    type: z.literal('function'),
+    function: z.object({
+      name: z.string(),
+      description: z.string().optional(),
+      parameters: z.record(z.unknown()).optional(),
+    }),
+  })).optional(),
+  temperature: z.number().min(0).max(2).nullable().optional(),
+  max_tokens: z.number().int().positive().nullable().optional(),
+  max_completion_tokens: z.number().int().positive().nullable().optional(),
+  stop: z.union([z.string(), z.array(z.string())]).nullable().optional(),
+  response_format: z.discriminatedUnion('type', [
+    z.object({ type: z.literal('text') }),
+    z.object({ type: z.literal('json_object') }),
+    z.object({
+      type: z.literal('json_schema'),
+      json_schema: z.object({ name: z.string(), schema: z.record(z.unknown()).optional() }),
+    }),
+  ]).optional(),
+  n: z.literal(1).optional(),
+  stream: z.boolean().optional(),
+  stream_options: z.object({ include_usage: z.boolean().optional() }).nullable().optional(),
+});
+type ChatCompletionRequest = z.infer<typeof chatCompletionRequestSchema>;
+
+// Where the calls are logged: the linked prompt's project, or the project named in X-Project-Id
+interface RunTarget {
+  project_id: string;
+  prompt_id: string | null;
+  version_id: string | null;
+}
+
+function toText(content: z.infer<typeof textContentSchema> | null | undefined): string {
+  if (content === null || content === undefined) {
+    return '';
+  }
+  return typeof content === 'string' ? content : content.map(part => part.text).join('');
+}
+
+function toModelRequest(body: ChatCompletionRequest): ModelRequest {
+  const messages = body.messages.map((message): ModelMessage => {
+    switch (message.role) {
+      case 'system':
+      case 'developer':
+        return { role: 'system', content: toText(message.content) };
+      case 'assistant':
+        return {
+          role: 'assistant',
+          content: toText(message.content),
+          tool_calls: message.tool_calls?.map(call => ({ id: call.id, name: call.function.name, arguments: call.function.arguments })),
+        };
+      case 'tool':
+        return { role: 'tool', content: toText(message.content), tool_call_id: message.tool_call_id };
+      default:
+        return { role: 'user', content: toText(message.content) };
+    }
+  });
+
+  const format = body.response_format;
+  const stop = body.stop ?? undefined;
+
+  return {
+    model: body.model,
+    messages,
+    tools: body.tools?.map(tool => ({
+      name: tool.function.name,
+      description: tool.function.description,
+      parameters: tool.function.parameters ?? { type: 'object', properties: {} },
+    })),
+    temperature: body.temperature ?? undefined,
+    max_tokens: body.max_completion_tokens ?? body.max_tokens ?? undefined,
+    stop: typeof stop === 'string' ? [stop] : stop,
+    response_format: format?.type === 'json_schema'
+      ? { type: 'json_schema', name: format.json_schema.name, schema: format.json_schema.schema ?? {} }
+      : format,
+  };
+}
+
+function toOpenAiToolCalls(response: ModelResponse) {
+  return response.tool_calls.map((call, index) => ({
+    index,
+    id: call.id,
+    type: 'function' as const,
+    function: { name: call.name, arguments: call.arguments },
+  }));
+}
+
+function toOpenAiUsage(response: ModelResponse) {
+  return {
+    prompt_tokens: response.usage.input_tokens,
+    completion_tokens: response.usage.output_tokens,
+    total_tokens: response.usage.input_tokens + response.usage.output_tokens,
+  };
+}
+
+function getHeader(req: IncomingMessage, name: string): string | null {
+  const value = req.headers[name];
+  return (Array.isArray(value) ? value[0] : value)?.trim() || null;
+}
+
+async function authenticateProxyRequest(req: IncomingMessage): Promise<ApiKey> {
+  const match = req.headers.authorization?.match(/^Bearer\s+(\S+)$/i);
+  const apiKey = match ? await authenticateApiKey(match[1]) : null;
+  if (!apiKey) {
+    throw new OpenAiProxyError(401, 'Invalid API key', 'authentication_error');
+  }
+
+  if (!hasApiKeyScope(apiKey, 'chat:completions')) {
+    throw new OpenAiProxyError(403, 'API key is missing the chat:completions scope', 'permission_error');
+  }
+
+  return apiKey;
+}
+
+// X-Prompt-Version accepts a version id or version label and defaults to the prompt's current version
+async function resolveRunTarget(req: IncomingMessage, orgId: string): Promise<RunTarget> {
+  const projectId = getHeader(req, 'x-project-id');
+  const promptId = getHeader(req, 'x-prompt-id');
+  const promptVersion = getHeader(req, 'x-prompt-version');
+
+  if (!promptId) {
+    if (promptVersion) {
+      throw new OpenAiProxyError(400, 'X-Prompt-Version requires X-Prompt-Id');
+    }
+    if (!projectId) {
+      throw new OpenAiProxyError(400, 'Set the X-Project-Id or X-Prompt-Id header so the call can be logged');
+    }
+
+    const project = await db.select({ id: projectsTable.id })
+      .from(projectsTable)
+      .where(and(eq(projectsTable.id, projectId), eq(projectsTable.org_id, orgId)))
+      .execute();
+    if (project.length === 0) {
+      throw new OpenAiProxyError(404, 'Project not found');
+    }
+    return { project_id: projectId, prompt_id: null, version_id: null };
+  }
+
+  const prompt = await db.select({ project_id: promptsTable.project_id, current_version_id: promptsTable.current_version_id })
+    .from(promptsTable)
+    .innerJoin(projectsTable, eq(promptsTable.project_id, projectsTable.id))
+    .where(and(eq(promptsTable.id, promptId), eq(projectsTable.org_id, orgId)))
+    .execute();
+  if (prompt.length === 0) {
+    throw new OpenAiProxyError(404, 'Prompt not found');
+  }
+  if (projectId && projectId !== prompt[0].project_id) {
+    throw new OpenAiProxyError(400, 'The prompt does not belong to the project in X-Project-Id');
+  }
+
+  let versionId = prompt[0].current_version_id;
+  if (promptVersion) {
+    const version = await db.select({ id: promptVersionsTable.id })
+      .from(promptVersionsTable)
+      .where(and(
+        eq(promptVersionsTable.prompt_id, promptId),
+        or(eq(promptVersionsTable.id, promptVersion), eq(promptVersionsTable.version, promptVersion))
+      ))
+      .execute();
+    if (version.length === 0) {
+      throw new OpenAiProxyError(404, 'Prompt version not found');
+    }
+    versionId = version[0].id;
+  }
+
+  return { project_id: prompt[0].project_id, prompt_id: promptId, version_id: versionId };
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  let raw = '';
+  for await (const chunk of req) {
+    raw += chunk;
+    if (raw.length > MAX_BODY_BYTES) {
+      throw new OpenAiProxyError(413, 'Request body too large');
+    }
+  }
+
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new OpenAiProxyError(400, 'Request body must be JSON');
+  }
+}
+
+// Logging must not turn a served call into an error, so failures here are only reported
+async function logProxyRun(target: RunTarget, request: ModelRequest, result: { response: ModelResponse } | { error: unknown; latency_ms: number }): Promise<void> {
+  try {
+    if ('response' in result) {
+      const { response } = result;
+      await createRun({
+        ...target,
+        model: `${response.provider}/${response.model}`,
+        input: { messages: request.messages },
+        output: { content: response.content, tool_calls: response.tool_calls },
+        tokens_in: response.usage.input_tokens,
+        tokens_out: response.usage.output_tokens,
+        latency_ms: response.latency_ms,
+        success: true,
+        flags: { source: 'proxy', ...routingFlags(response.attempts), cache_hit: response.cache_hit },
+      });
+      return;
+    }
+
+    const { error } = result;
+    await createRun({
+      ...target,
+      model: request.model,
+      input: { messages: request.messages },
+      output: { error: error instanceof Error ? error.message : String(error) },
+      tokens_in: 0,
+      tokens_out: 0,
+      latency_ms: result.latency_ms,
+      success: false,
+      flags: { source: 'proxy', ...routingFlags(error instanceof ModelRoutingError ? error.attempts : []) },
+    });
+  } catch (error) {
+    console.error('Logging a proxied model call failed:', error);
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+}
+
+function sendError(res: ServerResponse, status: number, message: string, type: string): void {
+  sendJson(res, status, { error: { message, type, param: null, code: null } });
+}
+
+// Rate limits are passed through so SDK clients back off; every other provider failure is a bad gateway
+function toProxyError(error: unknown): unknown {
+  if (!(error instanceof ModelRoutingError)) {
+    return error;
+  }
+  const last = error.attempts[error.attempts.length - 1];
+  return last?.status === 429
+    ? new OpenAiProxyError(429, error.message, 'rate_limit_error')
+    : new OpenAiProxyError(502, error.message, 'api_error');
+}
+
+// Writes everything but the closing [DONE], which the caller sends once the run is logged
+async function streamCompletion(
+  res: ServerResponse,
+  body: ChatCompletionRequest,
+  events: AsyncIterable<ModelStreamEvent>
+): Promise<ModelResponse> {
+  const id = `chatcmpl-${nanoid()}`;
+  const created = Math.floor(Date.now() / 1000);
+  const send = (data: unknown) => res.write(`data: ${typeof data === 'string' ? data : JSON.stringify(data)}\n\n`);
+  const chunk = (delta: Record<string, unknown>, finishReason: string | null = null) =>
+    send({ id, object: 'chat.completion.chunk', created, model: body.model, choices: [{ index: 0, delta, finish_reason: finishReason }] });
+
+  res.statusCode = 200;
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  chunk({ role: 'assistant', content: '' });
+
+  for await (const event of events) {
+    if (event.type === 'delta') {
+      chunk({ content: event.content });
+      continue;
+    }
+
+    const { response } = event;
+    chunk(response.tool_calls.length > 0 ? { tool_calls: toOpenAiToolCalls(response) } : {}, response.finish_reason);
+    if (body.stream_options?.include_usage) {
+      send({ id, object: 'chat.completion.chunk', created, model: body.model, choices: [], usage: toOpenAiUsage(response) });
+    }
+    return response;
+  }
+
+  throw new Error('The model stream ended without a response');
+}
+
+export function isOpenAiProxyRequest(req: IncomingMessage): boolean {
+  return (req.url ?? '').split('?')[0] === OPENAI_PROXY_PATH;
+}
+
+// Entry point for the HTTP server; always answers, with OpenAI-style error bodies for failures.
+// Every call that reaches the gateway is logged as a run, whether it succeeds or not.
+export async function handleOpenAiProxyRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  try {
+    if (req.method !== 'POST') {
+      throw new OpenAiProxyError(405, 'Only POST is supported');
+    }
+
+    const apiKey = await authenticateProxyRequest(req);
+    const orgId = apiKey.org_id;
+    setRateLimitHeaders(res, await consumeRateLimits({ orgId, apiKeyId: apiKey.id }));
+    const target = await resolveRunTarget(req, orgId);
+    const body = chatCompletionRequestSchema.parse(await readJsonBody(req));
+    const request = toModelRequest(body);
+    try {
+      resolveModel(request.model);
+    } catch (error) {
+      throw new OpenAiProxyError(400, error instanceof Error ? error.message : String(error));
+    }
+    const context = { orgId, projectId: target.project_id };
+    const startTime = Date.now();
+
+    if (body.stream) {
+      let events: AsyncIterable<ModelStreamEvent>;
+      try {
+        events = await streamModelRequest(context, request);
+      } catch (error) {
+        await logProxyRun(target, request, { error, latency_ms: Date.now() - startTime });
+        throw toProxyError(error);
+      }
+
+      try {
+        const response = await streamCompletion(res, body, events);
+        await logProxyRun(target, request, { response });
+        res.write('data: [DONE]\n\n');
+        res.end();
+      } catch (error) {
+        // Headers are already sent; report the failure in-stream the way OpenAI does
+        console.error('Proxied model stream failed:', error);
+        await logProxyRun(target, request, { error, latency_ms: Date.now() - startTime });
+        res.write(`data: ${JSON.stringify({ error: { message: error instanceof Error ? error.message : 'Unknown error', type: 'api_error' } })}\n\n`);
+        res.end();
+      }
+      return;
+    }
+
+    let response: ModelResponse;
+    try {
+      response = await completeModelRequest(context, request);
+    } catch (error) {
+      await logProxyRun(target, request, { error, latency_ms: Date.now() - startTime });
+      throw toProxyError(error);
+    }
+    await logProxyRun(target, request, { response });
+
+    sendJson(res, 200, {
+      id: `chatcmpl-${nanoid()}`,
+      object: 'chat.completion',
+      created: Math.floor(Date.now() / 1000),
+      model: body.model,
+      choices: [{
+        index: 0,
+        message: {
+          role: 'assistant',
+          content: response.content,
+          ...(response.tool_calls.length > 0 ? { tool_calls: toOpenAiToolCalls(response).map(({ index, ...call }) => call) } : {}),
+        },
+        finish_reason: response.finish_reason,
+      }],
+      usage: toOpenAiUsage(response),
+    });
+  } catch (error) {
+    if (error instanceof OpenAiProxyError) {
+      sendError(res, error.status, error.message, error.type);
+      return;
+    }
+
+    if (error instanceof RateLimitError) {
+      setRateLimitHeaders(res, error.status, error.retryAfterSeconds);
+      sendError(res, 429, error.message, 'rate_limit_error');
+      return;
+    }
+
+    if (error instanceof ZodError) {
+      sendError(res, 400, error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; '), 'invalid_request_error');
+      return;
+    }
+
+    console.error('OpenAI proxy request failed:', error);
+    sendError(res, 500, 'Internal server error', 'api_error');
+  }
+}
@@ -0,0 +1,203 @@
+import { db } from '../db';
+import {
+  organizationsTable,
+  membershipsTable,
+  projectsTable,
+  promptsTable,
+  promptVersionsTable,
+  experimentsTable,
+  runsTable,
+  pipelinesTable,
+  chatSessionsTable,
+  templatesTable,
+  auditLogsTable
+} from '../db/schema';
+import { type Organization } from '../schema';
+import { logAuditEvent } from './audit';
+import { eq, and, inArray, isNull, isNotNull, lte, asc } from 'drizzle-orm';
+
+const DEFAULT_GRACE_PERIOD_DAYS = 30;
+
+// Archive of everything an org owns; secrets (provider keys, API key hashes, SSO credentials) are left out
+export interface OrganizationExport {
+  format_version: 1;
+  exported_at: Date;
+  organization: Organization;
+  memberships: Array<typeof membershipsTable.$inferSelect>;
+  projects: Array<typeof projectsTable.$inferSelect>;
+  prompts: Array<typeof promptsTable.$inferSelect>;
+  prompt_versions: Array<typeof promptVersionsTable.$inferSelect>;
+  experiments: Array<typeof experimentsTable.$inferSelect>;
+  runs: Array<Omit<typeof runsTable.$inferSelect, 'cost_usd'> & { cost_usd: number }>;
+  pipelines: Array<typeof pipelinesTable.$inferSelect>;
+  chat_sessions: Array<typeof chatSessionsTable.$inferSelect>;
+  templates: Array<typeof templatesTable.$inferSelect>;
+  audit_logs: Array<typeof auditLogsTable.$inferSelect>;
+}
+
+export function getDeletionGracePeriodDays(): number {
+  const configured = Number(process.env['ORG_DELETION_GRACE_DAYS']);
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_GRACE_PERIOD_DAYS;
+}
+
+async function getOrganizationOrThrow(orgId: string) {
+  const org = await db.select()
+    .from(organizationsTable)
+    .where(eq(organizationsTable.id, orgId))
+    .execute();
+
+  if (org.length === 0) {
+    throw new Error('Organization not found');
+  }
+
+  return org[0];
+}
+
+export async function exportOrganizationData(orgId: string): Promise<OrganizationExport> {
+  try {
+    const organization = await getOrganizationOrThrow(orgId);
+
+    const memberships = await db.select().from(membershipsTable).where(eq(membershipsTable.org_id, orgId)).execute();
+    const projects = await db.select().from(projectsTable).where(eq(projectsTable.org_id, orgId)).execute();
+    const projectIds = projects.map(project => project.id);
+
+    const prompts = projectIds.length > 0
+      ? await db.select().from(promptsTable).where(inArray(promptsTable.project_id, projectIds)).execute()
+      : [];
+    const promptIds = prompts.map(prompt => prompt.id);
+
+    const promptVersions = promptIds.length > 0
+      ? await db.select().from(promptVersionsTable).where(inArray(promptVersionsTable.prompt_id, promptIds)).execute()
+      : [];
+    const experiments = promptIds.length > 0
+      ? await db.select().from(experimentsTable).where(inArray(experimentsTable.prompt_id, promptIds)).execute()
+      : [];
+
+    const runs = projectIds.length > 0
+      ? await db.select().from(runsTable).where(inArray(runsTable.project_id, projectIds)).orderBy(asc(runsTable.created_at)).execute()
+      : [];
+    const pipelines = projectIds.length > 0
+      ? await db.select().from(pipelinesTable).where(inArray(pipelinesTable.project_id, projectIds)).execute()
+      : [];
+    const chatSessions = projectIds.length > 0
+      ? await db.select().from(chatSessionsTable).where(inArray(chatSessionsTable.project_id, projectIds)).execute()
+      : [];
+
+    const templates = await db.select().from(templatesTable).where(eq(templatesTable.org_id, orgId)).execute();
+    const auditLogs = await db.select()
+      .from(auditLogsTable)
+      .where(eq(auditLogsTable.org_id, orgId))
+      .orderBy(asc(auditLogsTable.created_at))
+      .execute();
+
+    return {
+      format_version: 1,
+      exported_at: new Date(),
+      organization,
+      memberships,
+      projects,
+      prompts,
+      prompt_versions: promptVersions,
+      experiments,
+      runs: runs.map(run => ({
+        ...run,
+        cost_usd: parseFloat(run.cost_usd) // Convert string back to number
+      })),
+      pipelines,
+      chat_sessions: chatSessions,
+      templates,
+      audit_logs: auditLogs
+    };
+  } catch (error) {
+    console.error('Organization data export failed:', error);
+    throw error;
+  }
+}
+
+// Soft-deletes the org; data stays in place (and restorable) until purge_after
+export async function scheduleOrganizationDeletion(orgId: string, actorUserId: string): Promise<Organization> {
+  try {
+    const now = new Date();
+    const purgeAfter = new Date(now.getTime() + getDeletionGracePeriodDays() * 24 * 60 * 60 * 1000);
+
+    const result = await db.update(organizationsTable)
+      .set({ deleted_at: now, purge_after: purgeAfter })
+      .where(and(
+        eq(organizationsTable.id, orgId),
+        isNull(organizationsTable.deleted_at)
+      ))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      await getOrganizationOrThrow(orgId);
+      throw new Error('Organization is already scheduled for deletion');
+    }
+
+    await logAuditEvent(orgId, actorUserId, 'organization.schedule_deletion', 'organization', orgId, {
+      purge_after: purgeAfter.toISOString()
+    });
+
+    return result[0];
+  } catch (error) {
+    console.error('Organization deletion scheduling failed:', error);
+    throw error;
+  }
+}
+
+export async function restoreOrganization(orgId: string, actorUserId: string): Promise<Organization> {
+  try {
+    const result = await db.update(organizationsTable)
+      .set({ deleted_at: null, purge_after: null })
+      .where(and(
+        eq(organizationsTable.id, orgId),
+        isNotNull(organizationsTable.deleted_at)
+      ))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      await getOrganizationOrThrow(orgId);
+      throw new Error('Organization is not scheduled for deletion');
+    }
+
+    await logAuditEvent(orgId, actorUserId, 'organization.restore', 'organization', orgId);
+
+    return result[0];
+  } catch (error) {
+    console.error('Organization restore failed:', error);
+    throw error;
+  }
+}
+
+// Permanently removes orgs whose grace period has ended; every org-owned table cascades from organizations
+export async function purgeDeletedOrganizations(now: Date = new Date()): Promise<string[]> {
+  try {
+    const result = await db.delete(organizationsTable)
+      .where(and(
+        isNotNull(organizationsTable.deleted_at),
+        lte(organizationsTable.purge_after, now)
+      ))
+      .returning({ id: organizationsTable.id })
+      .execute();
+
+    return result.map(org => org.id);
+  } catch (error) {
+    console.error('Organization purge failed:', error);
+    throw error;
+  }
+}
+
+export async function isOrganizationDeleted(orgId: string): Promise<boolean> {
+  try {
+    const result = await db.select({ deletedAt: organizationsTable.deleted_at })
+      .from(organizationsTable)
+      .where(eq(organizationsTable.id, orgId))
+      .execute();
+
+    return result.length > 0 && result[0].deletedAt !== null;
+  } catch (error) {
+    console.error('Organization deletion check failed:', error);
+    throw error;
+  }
+}
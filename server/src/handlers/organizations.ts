@@ -1,8 +1,76 @@
-import { db } from '../db';
-import { organizationsTable, membershipsTable, usersTable } from '../db/schema';
-import { type CreateOrganizationInput, type Organization, type UpdateOrganizationInput, type CreateMembershipInput, type Membership, type UpdateMembershipInput } from '../schema';
-import { eq, and } from 'drizzle-orm';
+import { db, type DbExecutor } from '../db';
+import { organizationsTable, membershipsTable, usersTable, teamsTable, teamMembersTable } from '../db/schema';
+import { type CreateOrganizationInput, type Organization, type UpdateOrganizationInput, type CreateMembershipInput, type Membership, type UpdateMembershipInput, type MembershipRole } from '../schema';
+import { eq, and, inArray } from 'drizzle-orm';
 import { sql } from 'drizzle-orm';
+import { getSeatUsage } from './billing';
+import { logAuditEvent } from './audit';
+
+type OrganizationRow = typeof organizationsTable.$inferSelect;
+
+// Row lock that serializes membership changes within one organization
+async function lockOrganization(tx: DbExecutor, orgId: string): Promise<OrganizationRow> {
+  const org = await tx.select()
+    .from(organizationsTable)
+    .where(eq(organizationsTable.id, orgId))
+    .for('update')
+    .execute();
+
+  if (org.length === 0) {
+    throw new Error('Organization not found');
+  }
+
+  return org[0];
+}
+
+async function getMembershipForChange(tx: DbExecutor, membershipId: string): Promise<Membership> {
+  const result = await tx.select()
+    .from(membershipsTable)
+    .where(eq(membershipsTable.id, membershipId))
+    .execute();
+
+  if (result.length === 0) {
+    throw new Error('Membership not found');
+  }
+
+  return result[0];
+}
+
+// Checks a role change (or removal, when newRole is null) against the org's ownership invariants
+async function assertMembershipChangeAllowed(
+  tx: DbExecutor,
+  org: OrganizationRow,
+  membership: Membership,
+  newRole: MembershipRole | null,
+  actorUserId: string
+): Promise<void> {
+  const members = await tx.select()
+    .from(membershipsTable)
+    .where(eq(membershipsTable.org_id, org.id))
+    .execute();
+
+  const actor = members.find(member => member.user_id === actorUserId);
+  const touchesOwner = membership.role === 'owner' || newRole === 'owner';
+  if (touchesOwner && actor?.role !== 'owner') {
+    throw new Error('Only owners can grant or remove the owner role');
+  }
+
+  if (membership.role === 'owner' && newRole !== 'owner') {
+    if (membership.user_id === org.owner_user_id) {
+      throw new Error('Transfer ownership before changing the primary owner\'s membership');
+    }
+    if (members.filter(member => member.role === 'owner').length <= 1) {
+      throw new Error('Organization must have at least one owner');
+    }
+  }
+
+  const isManager = (role: MembershipRole) => role === 'owner' || role === 'admin';
+  if (membership.user_id === actorUserId && isManager(membership.role) && (newRole === null || !isManager(newRole))) {
+    if (members.filter(member => isManager(member.role)).length <= 1) {
+      throw new Error('Cannot remove yourself as the last admin');
+    }
+  }
+}
 
 export async function createOrganization(input: CreateOrganizationInput): Promise<Organization> {
   try {
@@ -91,6 +159,9 @@ export async function updateOrganization(input: UpdateOrganizationInput): Promis
     if (input.plan !== undefined) {
       updateValues.plan = input.plan;
     }
+    if (input.require_two_factor !== undefined) {
+      updateValues.require_two_factor = input.require_two_factor;
+    }
 
     const result = await db.update(organizationsTable)
       .set(updateValues)
@@ -117,6 +188,9 @@ export async function getOrganizationsByUserId(userId: string): Promise<Organiza
       slug: organizationsTable.slug,
       owner_user_id: organizationsTable.owner_user_id,
       plan: organizationsTable.plan,
+      require_two_factor: organizationsTable.require_two_factor,
+      deleted_at: organizationsTable.deleted_at,
+      purge_after: organizationsTable.purge_after,
       created_at: organizationsTable.created_at,
     })
       .from(organizationsTable)
@@ -131,7 +205,8 @@ export async function getOrganizationsByUserId(userId: string): Promise<Organiza
   }
 }
 
-export async function createMembership(input: CreateMembershipInput): Promise<Membership> {
+// With an actor, adding an owner is held to the same rule as promoting one: only owners may do it
+export async function createMembership(input: CreateMembershipInput, actorUserId?: string): Promise<Membership> {
   try {
     // Verify the organization exists
     const org = await db.select()
@@ -156,37 +231,74 @@ export async function createMembership(input: CreateMembershipInput): Promise<Me
     // Generate a unique ID
     const id = `mem_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
 
-    // Insert membership record
-    const result = await db.insert(membershipsTable)
-      .values({
-        id,
-        org_id: input.org_id,
-        user_id: input.user_id,
-        role: input.role,
-      })
-      .returning()
-      .execute();
-
-    return result[0];
+    return await db.transaction(async (tx) => {
+      // Lock the org row so concurrent adds cannot both take the last seat
+      await tx.select({ id: organizationsTable.id })
+        .from(organizationsTable)
+        .where(eq(organizationsTable.id, input.org_id))
+        .for('update')
+        .execute();
+
+      if (input.role === 'owner' && actorUserId !== undefined) {
+        const actor = await tx.select({ role: membershipsTable.role })
+          .from(membershipsTable)
+          .where(and(eq(membershipsTable.org_id, input.org_id), eq(membershipsTable.user_id, actorUserId)))
+          .execute();
+        if (actor[0]?.role !== 'owner') {
+          throw new Error('Only owners can grant or remove the owner role');
+        }
+      }
+
+      const seats = await getSeatUsage(input.org_id, tx);
+      if (seats.used >= seats.limit) {
+        throw new Error(`Seat limit reached: ${seats.used} of ${seats.limit} seats in use`);
+      }
+
+      // Insert membership record
+      const result = await tx.insert(membershipsTable)
+        .values({
+          id,
+          org_id: input.org_id,
+          user_id: input.user_id,
+          role: input.role,
+        })
+        .returning()
+        .execute();
+
+      return result[0];
+    });
   } catch (error) {
     console.error('Membership creation failed:', error);
     throw error;
   }
 }
 
-export async function updateMembership(input: UpdateMembershipInput): Promise<Membership> {
+export async function updateMembership(input: UpdateMembershipInput, actorUserId: string): Promise<Membership> {
   try {
-    const result = await db.update(membershipsTable)
-      .set({ role: input.role })
-      .where(eq(membershipsTable.id, input.id))
-      .returning()
-      .execute();
-
-    if (result.length === 0) {
-      throw new Error('Membership not found');
-    }
-
-    return result[0];
+    return await db.transaction(async (tx) => {
+      const membership = await getMembershipForChange(tx, input.id);
+      const org = await lockOrganization(tx, membership.org_id);
+
+      if (membership.role === input.role) {
+        return membership;
+      }
+
+      await assertMembershipChangeAllowed(tx, org, membership, input.role, actorUserId);
+
+      const result = await tx.update(membershipsTable)
+        .set({ role: input.role })
+        .where(eq(membershipsTable.id, input.id))
+        .returning()
+        .execute();
+
+      await logAuditEvent(org.id, actorUserId, 'membership.update', 'membership', membership.id, {
+        user_id: membership.user_id,
+        from: membership.role,
+        to: input.role
+      }, tx);
+
+      return result[0];
+    });
   } catch (error) {
     console.error('Membership update failed:', error);
     throw error;
@@ -224,18 +336,103 @@ export async function getUserMembership(userId: string, orgId: string): Promise<
   }
 }
 
-export async function deleteMembership(membershipId: string): Promise<void> {
+// Deletes the membership and the user's teams in that org; callers enforce the owner/admin invariants
+export async function removeMembershipRecords(membership: Membership, executor: DbExecutor = db): Promise<void> {
   try {
-    const result = await db.delete(membershipsTable)
-      .where(eq(membershipsTable.id, membershipId))
-      .returning()
+    await executor.delete(membershipsTable)
+      .where(eq(membershipsTable.id, membership.id))
       .execute();
 
-    if (result.length === 0) {
-      throw new Error('Membership not found');
-    }
+    // Team grants only apply to org members, so drop the user from this org's teams too
+    await executor.delete(teamMembersTable)
+      .where(and(
+        eq(teamMembersTable.user_id, membership.user_id),
+        inArray(teamMembersTable.team_id, executor.select({ id: teamsTable.id })
+          .from(teamsTable)
+          .where(eq(teamsTable.org_id, membership.org_id)))
+      ))
+      .execute();
+  } catch (error) {
+    console.error('Membership removal failed:', error);
+    throw error;
+  }
+}
+
+export async function deleteMembership(membershipId: string, actorUserId: string): Promise<void> {
+  try {
+    await db.transaction(async (tx) => {
+      const membership = await getMembershipForChange(tx, membershipId);
+      const org = await lockOrganization(tx, membership.org_id);
+
+      await assertMembershipChangeAllowed(tx, org, membership, null, actorUserId);
+
+      await removeMembershipRecords(membership, tx);
+
+      await logAuditEvent(org.id, actorUserId, 'membership.delete', 'membership', membership.id, {
+        user_id: membership.user_id,
+        role: membership.role
+      }, tx);
+    });
   } catch (error) {
     console.error('Membership deletion failed:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
+
+// Moves owner_user_id to another member; the new owner gets the owner role and the previous one becomes an admin
+export async function transferOwnership(orgId: string, newOwnerUserId: string, actorUserId: string): Promise<Organization> {
+  try {
+    return await db.transaction(async (tx) => {
+      const org = await lockOrganization(tx, orgId);
+
+      if (org.owner_user_id !== actorUserId) {
+        throw new Error('Only the current owner can transfer ownership');
+      }
+
+      if (newOwnerUserId === org.owner_user_id) {
+        throw new Error('User already owns this organization');
+      }
+
+      const newOwnerMembership = await tx.select()
+        .from(membershipsTable)
+        .where(and(
+          eq(membershipsTable.org_id, orgId),
+          eq(membershipsTable.user_id, newOwnerUserId)
+        ))
+        .execute();
+
+      if (newOwnerMembership.length === 0) {
+        throw new Error('New owner must be a member of the organization');
+      }
+
+      await tx.update(membershipsTable)
+        .set({ role: 'owner' })
+        .where(eq(membershipsTable.id, newOwnerMembership[0].id))
+        .execute();
+
+      await tx.update(membershipsTable)
+        .set({ role: 'admin' })
+        .where(and(
+          eq(membershipsTable.org_id, orgId),
+          eq(membershipsTable.user_id, org.owner_user_id)
+        ))
+        .execute();
+
+      const result = await tx.update(organizationsTable)
+        .set({ owner_user_id: newOwnerUserId })
+        .where(eq(organizationsTable.id, orgId))
+        .returning()
+        .execute();
+
+      await logAuditEvent(orgId, actorUserId, 'organization.transfer_ownership', 'organization', orgId, {
+        from: org.owner_user_id,
+        to: newOwnerUserId
+      }, tx);
+
+      return result[0];
+    });
+  } catch (error) {
+    console.error('Ownership transfer failed:', error);
+    throw error;
+  }
+}
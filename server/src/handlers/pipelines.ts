@@ -1,6 +1,11 @@
 import { db } from '../db';
-import { pipelinesTable, projectsTable, organizationsTable, apiKeysTable } from '../db/schema';
-import { type CreatePipelineInput, type Pipeline, type UpdatePipelineInput } from '../schema';
+import { pipelinesTable, projectsTable } from '../db/schema';
+import { type CreatePipelineInput, type Pipeline, type UpdatePipelineInput, type ModelMessage, type ModelRequest, type ModelResponse } from '../schema';
+import { authenticateApiKey, hasApiKeyScope } from './api_keys';
+import { completeModelRequest, routingFlags, runModelName, ModelRoutingError } from './gateway';
+import { createRun } from './runs';
+import { renderTemplate, validateTemplate } from './prompt_templates';
+import { RateLimitError } from './rate_limits';
 import { eq, and } from 'drizzle-orm';
 
 export async function createPipeline(input: CreatePipelineInput): Promise<Pipeline> {
@@ -163,16 +168,15 @@ export async function executePipeline(slug: string, input: Record<string, any>,
     const startTime = Date.now();
 
     // Verify API key and get organization
-    const apiKeyResults = await db.select()
-      .from(apiKeysTable)
-      .innerJoin(organizationsTable, eq(apiKeysTable.org_id, organizationsTable.id))
-      .where(eq(apiKeysTable.token_hash, orgApiKey))
-      .execute();
-
-    if (apiKeyResults.length === 0) {
+    const apiKey = await authenticateApiKey(orgApiKey);
+    if (!apiKey) {
       throw new Error('Invalid API key');
     }
 
+    if (!hasApiKeyScope(apiKey, 'pipelines:execute')) {
+      throw new Error('API key is missing the pipelines:execute scope');
+    }
+
     // Find published pipeline by slug
     const pipelineResults = await db.select()
       .from(pipelinesTable)
@@ -181,7 +185,7 @@ export async function executePipeline(slug: string, input: Record<string, any>,
         and(
           eq(pipelinesTable.endpoint_slug, slug),
           eq(pipelinesTable.status, 'published'),
-          eq(projectsTable.org_id, apiKeyResults[0].organizations.id)
+          eq(projectsTable.org_id, apiKey.org_id)
         )
       )
       .execute();
@@ -192,28 +196,31 @@ export async function executePipeline(slug: string, input: Record<string, any>,
 
     const pipeline = pipelineResults[0].pipelines;
 
-    // Simple execution simulation based on graph structure
-    const nodeResults: Array<{ nodeId: string; output: any; duration: number }> = [];
     const graph = pipeline.graph as Record<string, any>;
-    
-    // Process nodes in the graph (simplified execution)
-    if (graph && typeof graph === 'object' && graph['nodes']) {
-      for (const node of graph['nodes']) {
-        const nodeStartTime = Date.now();
-        // Simulate node processing
-        const nodeOutput = {
-          nodeId: node.id,
-          type: node.type,
-          result: `Processed ${node.type} with input: ${JSON.stringify(input)}`
-        };
-        const nodeDuration = Date.now() - nodeStartTime + Math.random() * 100; // Simulate processing time
-        
-        nodeResults.push({
-          nodeId: node.id,
-          output: nodeOutput,
-          duration: Math.round(nodeDuration)
-        });
-      }
+    const validation = await validatePipelineGraph(graph);
+    if (!validation.valid) {
+      throw new Error(`Pipeline graph is invalid: ${validation.errors.join('; ')}`);
+    }
+
+    // Run nodes in dependency order; each node receives its upstream outputs (or the request input)
+    const nodeResults: Array<{ nodeId: string; output: any; duration: number }> = [];
+    const outputs = new Map<string, any>();
+
+    for (const node of topologicalOrder(graph['nodes'], graph['edges'])) {
+      const nodeStartTime = Date.now();
+      const upstream = graph['edges']
+        .filter((edge: any) => edge.target === node.id)
+        .map((edge: any) => outputs.get(edge.source));
+      const nodeInput = upstream.length === 0 ? input : upstream.length === 1 ? upstream[0] : upstream;
+
+      const nodeOutput = await executeNode({ orgId: apiKey.org_id, projectId: pipeline.project_id, pipelineId: pipeline.id }, node, nodeInput, input);
+      outputs.set(node.id, nodeOutput);
+
+      nodeResults.push({
+        nodeId: node.id,
+        output: nodeOutput,
+        duration: Date.now() - nodeStartTime
+      });
     }
 
     const executionTime = Date.now() - startTime;
@@ -229,6 +236,10 @@ export async function executePipeline(slug: string, input: Record<string, any>,
       nodeResults
     };
   } catch (error) {
+    // Surfaces as TOO_MANY_REQUESTS so callers know to back off rather than fix their input
+    if (error instanceof RateLimitError) {
+      throw error;
+    }
     console.error('Pipeline execution failed:', error);
     return {
       success: false,
@@ -281,6 +292,18 @@ export async function validatePipelineGraph(graph: Record<string, any>): Promise
       if (!node.type || typeof node.type !== 'string') {
         errors.push(`Node ${node.id} must have a string type`);
       }
+
+      // A broken model node template fails the whole graph before any node has called a model
+      for (const field of ['prompt', 'system']) {
+        const template = node.type === 'model' ? node.data?.[field] : undefined;
+        if (typeof template === 'string') {
+          try {
+            validateTemplate(template);
+          } catch (error) {
+            errors.push(`Node ${node.id} ${field}: ${error instanceof Error ? error.message : String(error)}`);
+          }
+        }
+      }
     }
 
     // Validate edges
@@ -323,6 +346,120 @@ export async function validatePipelineGraph(graph: Record<string, any>): Promise
   }
 }
 
+interface PipelineRunContext {
+  orgId: string;
+  projectId: string;
+  pipelineId: string;
+}
+
+// Logging must not fail a node whose call was served, so failures here are only reported
+async function logNodeRun(
+  context: PipelineRunContext,
+  nodeId: string,
+  request: ModelRequest,
+  result: { response: ModelResponse } | { error: unknown; latency_ms: number }
+): Promise<void> {
+  try {
+    const run = { project_id: context.projectId, input: { messages: request.messages } };
+    const source = { source: 'pipeline', pipeline_id: context.pipelineId, node_id: nodeId };
+    if ('response' in result) {
+      const { response } = result;
+      await createRun({
+        ...run,
+        model: `${response.provider}/${response.model}`,
+        output: { content: response.content, tool_calls: response.tool_calls },
+        tokens_in: response.usage.input_tokens,
+        tokens_out: response.usage.output_tokens,
+        latency_ms: response.latency_ms,
+        success: true,
+        flags: { ...source, ...routingFlags(response.attempts), cache_hit: response.cache_hit }
+      });
+      return;
+    }
+
+    const { error } = result;
+    await createRun({
+      ...run,
+      model: runModelName(request.model),
+      output: { error: error instanceof Error ? error.message : String(error) },
+      tokens_in: 0,
+      tokens_out: 0,
+      latency_ms: result.latency_ms,
+      success: false,
+      flags: { ...source, ...routingFlags(error instanceof ModelRoutingError ? error.attempts : []) }
+    });
+  } catch (error) {
+    console.error('Logging a pipeline model call failed:', error);
+  }
+}
+
+// Model nodes call the gateway with data: { model, prompt?, system?, temperature?, max_tokens?, response_format? }.
+// The prompt and system templates get {{input}} from the upstream output and other variables from the request input;
+// every other node type passes its input through unchanged. Each model call is recorded as a run of the pipeline's project.
+async function executeNode(context: PipelineRunContext, node: any, nodeInput: any, requestInput: Record<string, any>): Promise<any> {
+  if (node.type !== 'model') {
+    return nodeInput;
+  }
+
+  const data = node.data ?? {};
+  if (typeof data.model !== 'string') {
+    throw new Error(`Model node ${node.id} must specify a model`);
+  }
+
+  const variables = { ...requestInput, input: nodeInput };
+  const messages: ModelMessage[] = [];
+  if (typeof data.system === 'string') {
+    messages.push({ role: 'system', content: renderTemplate(data.system, variables) });
+  }
+  messages.push({ role: 'user', content: renderTemplate(typeof data.prompt === 'string' ? data.prompt : '{{input}}', variables) });
+
+  const request: ModelRequest = {
+    model: data.model,
+    messages,
+    temperature: data.temperature,
+    max_tokens: data.max_tokens,
+    response_format: data.response_format
+  };
+  const startTime = Date.now();
+
+  let response: ModelResponse;
+  try {
+    response = await completeModelRequest({ orgId: context.orgId, projectId: context.projectId }, request);
+  } catch (error) {
+    await logNodeRun(context, node.id, request, { error, latency_ms: Date.now() - startTime });
+    throw error;
+  }
+
+  await logNodeRun(context, node.id, request, { response });
+  return response.content;
+}
+
+// Kahn's algorithm; callers validate the graph first, so every node is reached
+function topologicalOrder(nodes: any[], edges: any[]): any[] {
+  const inDegree = new Map<string, number>(nodes.map(node => [node.id, 0]));
+  for (const edge of edges) {
+    inDegree.set(edge.target, (inDegree.get(edge.target) ?? 0) + 1);
+  }
+
+  const ready = nodes.filter(node => inDegree.get(node.id) === 0);
+  const ordered: any[] = [];
+
+  while (ready.length > 0) {
+    const node = ready.shift();
+    ordered.push(node);
+
+    for (const edge of edges.filter(edge => edge.source === node.id)) {
+      const remaining = (inDegree.get(edge.target) ?? 0) - 1;
+      inDegree.set(edge.target, remaining);
+      if (remaining === 0) {
+        ready.push(nodes.find(candidate => candidate.id === edge.target));
+      }
+    }
+  }
+
+  return ordered;
+}
+
 // Helper function to detect cycles in the graph
 function hasCycle(nodes: any[], edges: any[]): boolean {
   const visited = new Set<string>();
@@ -1,6 +1,7 @@
 import { db } from '../db';
 import { projectsTable } from '../db/schema';
-import { type CreateProjectInput, type Project, type UpdateProjectInput } from '../schema';
+import { type CreateProjectInput, type Project, type UpdateProjectInput, type SetProjectRestrictedInput } from '../schema';
+import { getAccessibleProjectIds } from './authorization';
 import { eq } from 'drizzle-orm';
 import { randomUUID } from 'crypto';
 
@@ -51,14 +52,17 @@ export async function getProjectById(id: string): Promise<Project | null> {
   }
 }
 
-export async function getProjectsByOrgId(orgId: string): Promise<Project[]> {
+// With a userId, only the projects that user can access (see getEffectiveProjectRole)
+export async function getProjectsByOrgId(orgId: string, userId?: string): Promise<Project[]> {
   try {
     const results = await db.select()
       .from(projectsTable)
       .where(eq(projectsTable.org_id, orgId))
       .execute();
 
-    return results.map(project => ({
+    const accessibleIds = userId ? new Set(await getAccessibleProjectIds(userId, orgId)) : null;
+
+    return results.filter(project => !accessibleIds || accessibleIds.has(project.id)).map(project => ({
       ...project,
       tags: project.tags as string[] // Cast jsonb back to string array
     }));
@@ -106,6 +110,29 @@ export async function updateProject(input: UpdateProjectInput): Promise<Project>
   }
 }
 
+export async function setProjectRestricted(input: SetProjectRestrictedInput): Promise<Project> {
+  try {
+    const result = await db.update(projectsTable)
+      .set({ restricted: input.restricted, updated_at: new Date() })
+      .where(eq(projectsTable.id, input.id))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error('Project not found');
+    }
+
+    const project = result[0];
+    return {
+      ...project,
+      tags: project.tags as string[] // Cast jsonb back to string array
+    };
+  } catch (error) {
+    console.error('Project restriction update failed:', error);
+    throw error;
+  }
+}
+
 export async function deleteProject(id: string): Promise<void> {
   try {
     const result = await db.delete(projectsTable)
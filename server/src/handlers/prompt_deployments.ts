@@ -0,0 +1,213 @@
+import { db } from '../db';
+import { promptsTable, projectsTable, promptDeploymentsTable, promptDeploymentHistoryTable } from '../db/schema';
+import {
+  type PromptVersion,
+  type PromptDeployment,
+  type PromptDeploymentEvent,
+  type PromptEnvironmentInput,
+  type DeployPromptVersionInput
+} from '../schema';
+import { getPromptVersionById } from './prompts';
+import { logAuditEvent } from './audit';
+import { eq, and, desc, isNull } from 'drizzle-orm';
+import { nanoid } from 'nanoid';
+
+async function getPromptOrgId(promptId: string): Promise<string> {
+  const prompt = await db.select({ org_id: projectsTable.org_id })
+    .from(promptsTable)
+    .innerJoin(projectsTable, eq(promptsTable.project_id, projectsTable.id))
+    .where(eq(promptsTable.id, promptId))
+    .execute();
+
+  if (prompt.length === 0) {
+    throw new Error('Prompt not found');
+  }
+  return prompt[0].org_id;
+}
+
+function isEnvironment(input: PromptEnvironmentInput) {
+  return and(
+    eq(promptDeploymentsTable.prompt_id, input.prompt_id),
+    eq(promptDeploymentsTable.environment, input.environment)
+  );
+}
+
+// Points the environment at the version, creating the environment on its first deploy
+export async function deployPromptVersion(input: DeployPromptVersionInput, actorUserId: string): Promise<PromptDeployment> {
+  try {
+    const orgId = await getPromptOrgId(input.prompt_id);
+    const version = await getPromptVersionById(input.version_id);
+    if (!version || version.prompt_id !== input.prompt_id) {
+      throw new Error('Version not found or does not belong to prompt');
+    }
+
+    return await db.transaction(async (tx) => {
+      // Locks the environment's row, so concurrent redeploys each record the version they replaced
+      const current = await tx.select()
+        .from(promptDeploymentsTable)
+        .where(isEnvironment(input))
+        .for('update')
+        .execute();
+      const previousVersionId = current[0]?.version_id ?? null;
+
+      const deployed = { version_id: input.version_id, deployed_by: actorUserId, deployed_at: new Date() };
+      const result = await tx.insert(promptDeploymentsTable)
+        .values({ prompt_id: input.prompt_id, environment: input.environment, ...deployed })
+        .onConflictDoUpdate({
+          target: [promptDeploymentsTable.prompt_id, promptDeploymentsTable.environment],
+          set: deployed,
+        })
+        .returning()
+        .execute();
+
+      await tx.insert(promptDeploymentHistoryTable)
+        .values({
+          id: nanoid(),
+          prompt_id: input.prompt_id,
+          environment: input.environment,
+          action: 'deploy',
+          version_id: input.version_id,
+          previous_version_id: previousVersionId,
+          deployed_by: actorUserId
+        })
+        .execute();
+
+      await logAuditEvent(orgId, actorUserId, 'prompt.deploy', 'prompt', input.prompt_id, {
+        environment: input.environment,
+        version_id: input.version_id,
+        version: version.version,
+        previous_version_id: previousVersionId
+      }, tx);
+
+      return result[0];
+    });
+  } catch (error) {
+    console.error('Prompt deployment failed:', error);
+    throw error;
+  }
+}
+
+// Undoes the environment's latest deploy that has not been rolled back yet, so repeated rollbacks keep
+// stepping back through earlier deploys instead of toggling between the last two versions
+export async function rollbackPromptDeployment(input: PromptEnvironmentInput, actorUserId: string): Promise<PromptDeployment> {
+  try {
+    const orgId = await getPromptOrgId(input.prompt_id);
+
+    return await db.transaction(async (tx) => {
+      const current = await tx.select()
+        .from(promptDeploymentsTable)
+        .where(isEnvironment(input))
+        .for('update')
+        .execute();
+
+      if (current.length === 0) {
+        throw new Error(`Nothing is deployed to ${input.environment}`);
+      }
+
+      const live = await tx.select()
+        .from(promptDeploymentHistoryTable)
+        .where(and(
+          eq(promptDeploymentHistoryTable.prompt_id, input.prompt_id),
+          eq(promptDeploymentHistoryTable.environment, input.environment),
+          eq(promptDeploymentHistoryTable.action, 'deploy'),
+          isNull(promptDeploymentHistoryTable.rolled_back_at)
+        ))
+        .orderBy(desc(promptDeploymentHistoryTable.created_at))
+        .limit(1)
+        .execute();
+
+      const targetVersionId = live[0]?.previous_version_id;
+      if (!targetVersionId) {
+        throw new Error(`No earlier deployment of ${input.environment} to roll back to`);
+      }
+
+      await tx.update(promptDeploymentHistoryTable)
+        .set({ rolled_back_at: new Date() })
+        .where(eq(promptDeploymentHistoryTable.id, live[0].id))
+        .execute();
+
+      const result = await tx.update(promptDeploymentsTable)
+        .set({ version_id: targetVersionId, deployed_by: actorUserId, deployed_at: new Date() })
+        .where(isEnvironment(input))
+        .returning()
+        .execute();
+
+      await tx.insert(promptDeploymentHistoryTable)
+        .values({
+          id: nanoid(),
+          prompt_id: input.prompt_id,
+          environment: input.environment,
+          action: 'rollback',
+          version_id: targetVersionId,
+          previous_version_id: current[0].version_id,
+          deployed_by: actorUserId
+        })
+        .execute();
+
+      await logAuditEvent(orgId, actorUserId, 'prompt.rollback', 'prompt', input.prompt_id, {
+        environment: input.environment,
+        version_id: targetVersionId,
+        previous_version_id: current[0].version_id
+      }, tx);
+
+      return result[0];
+    });
+  } catch (error) {
+    console.error('Prompt deployment rollback failed:', error);
+    throw error;
+  }
+}
+
+// The version the environment serves
+export async function resolvePromptVersion(input: PromptEnvironmentInput): Promise<PromptVersion> {
+  try {
+    const deployment = await db.select({ version_id: promptDeploymentsTable.version_id })
+      .from(promptDeploymentsTable)
+      .where(isEnvironment(input))
+      .execute();
+
+    if (deployment.length === 0) {
+      throw new Error(`No version is deployed to ${input.environment}`);
+    }
+
+    const version = await getPromptVersionById(deployment[0].version_id);
+    if (!version) {
+      throw new Error('Prompt version not found');
+    }
+    return version;
+  } catch (error) {
+    console.error('Prompt version resolution failed:', error);
+    throw error;
+  }
+}
+
+export async function getPromptDeployments(promptId: string): Promise<PromptDeployment[]> {
+  try {
+    return await db.select()
+      .from(promptDeploymentsTable)
+      .where(eq(promptDeploymentsTable.prompt_id, promptId))
+      .orderBy(promptDeploymentsTable.environment)
+      .execute();
+  } catch (error) {
+    console.error('Failed to get prompt deployments:', error);
+    throw error;
+  }
+}
+
+// Newest first; every environment of the prompt unless one is given
+export async function getPromptDeploymentHistory(promptId: string, environment?: string, limit: number = 50): Promise<PromptDeploymentEvent[]> {
+  try {
+    return await db.select()
+      .from(promptDeploymentHistoryTable)
+      .where(and(
+        eq(promptDeploymentHistoryTable.prompt_id, promptId),
+        environment !== undefined ? eq(promptDeploymentHistoryTable.environment, environment) : undefined
+      ))
+      .orderBy(desc(promptDeploymentHistoryTable.created_at))
+      .limit(limit)
+      .execute();
+  } catch (error) {
+    console.error('Failed to get prompt deployment history:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,242 @@
+import {
+  type PromptVersion,
+  type PromptVersionDiff,
+  type DiffHunk,
+  type DiffLine,
+  type DiffSegment,
+  type JsonChange
+} from '../schema';
+import { getTemplateVariables } from './prompt_templates';
+
+// Unchanged lines shown around each change; changes closer than twice this share a hunk
+const CONTEXT_LINES = 3;
+
+type Edit = { type: 'equal' | 'added' | 'removed'; value: string };
+
+// Longest-common-subsequence diff. The common prefix and suffix are trimmed first, which keeps the
+// table small for the usual edit of a few lines in a long prompt.
+function diffSequences(a: string[], b: string[]): Edit[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) {
+    suffix++;
+  }
+
+  const oldMiddle = a.slice(prefix, a.length - suffix);
+  const newMiddle = b.slice(prefix, b.length - suffix);
+  const width = newMiddle.length + 1;
+  // lcs[i * width + j] is the LCS length of oldMiddle[i..] and newMiddle[j..]
+  const lcs = new Uint32Array((oldMiddle.length + 1) * width);
+  for (let i = oldMiddle.length - 1; i >= 0; i--) {
+    for (let j = newMiddle.length - 1; j >= 0; j--) {
+      lcs[i * width + j] = oldMiddle[i] === newMiddle[j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const edits: Edit[] = a.slice(0, prefix).map(value => ({ type: 'equal', value }));
+  let i = 0;
+  let j = 0;
+  while (i < oldMiddle.length || j < newMiddle.length) {
+    if (i < oldMiddle.length && j < newMiddle.length && oldMiddle[i] === newMiddle[j]) {
+      edits.push({ type: 'equal', value: oldMiddle[i++] });
+      j++;
+    } else if (j >= newMiddle.length || (i < oldMiddle.length && lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])) {
+      edits.push({ type: 'removed', value: oldMiddle[i++] });
+    } else {
+      edits.push({ type: 'added', value: newMiddle[j++] });
+    }
+  }
+  return edits.concat(a.slice(a.length - suffix).map(value => ({ type: 'equal', value })));
+}
+
+function splitLines(text: string): string[] {
+  if (text === '') {
+    return [];
+  }
+  const lines = text.split('\n');
+  return lines[lines.length - 1] === '' ? lines.slice(0, -1) : lines;
+}
+
+// Words, runs of whitespace and single punctuation marks
+function splitWords(line: string): string[] {
+  return line.match(/\w+|\s+|[^\w\s]/g) ?? [];
+}
+
+// Highlights for a removed line and the added line that replaced it
+function diffWords(oldLine: string, newLine: string): { removed: DiffSegment[]; added: DiffSegment[] } {
+  const removed: DiffSegment[] = [];
+  const added: DiffSegment[] = [];
+  const push = (segments: DiffSegment[], type: DiffSegment['type'], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last && last.type === type) {
+      last.text += text;
+    } else {
+      segments.push({ type, text });
+    }
+  };
+
+  for (const edit of diffSequences(splitWords(oldLine), splitWords(newLine))) {
+    if (edit.type !== 'added') {
+      push(removed, edit.type, edit.value);
+    }
+    if (edit.type !== 'removed') {
+      push(added, edit.type, edit.value);
+    }
+  }
+  return { removed, added };
+}
+
+function toDiffLines(edits: Edit[]): DiffLine[] {
+  const lines: DiffLine[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  for (const edit of edits) {
+    lines.push({
+      type: edit.type === 'equal' ? 'context' : edit.type,
+      content: edit.value,
+      old_line: edit.type === 'added' ? null : oldLine++,
+      new_line: edit.type === 'removed' ? null : newLine++,
+      segments: null,
+    });
+  }
+
+  // Within each run of removed lines followed by added lines, the nth removed line is paired with the
+  // nth added one; lines left without a partner are wholly removed or added and get no highlights
+  for (let start = 0; start < lines.length;) {
+    let removedEnd = start;
+    while (removedEnd < lines.length && lines[removedEnd].type === 'removed') {
+      removedEnd++;
+    }
+    let addedEnd = removedEnd;
+    while (addedEnd < lines.length && lines[addedEnd].type === 'added') {
+      addedEnd++;
+    }
+    const pairs = Math.min(removedEnd - start, addedEnd - removedEnd);
+    for (let k = 0; k < pairs; k++) {
+      const segments = diffWords(lines[start + k].content, lines[removedEnd + k].content);
+      lines[start + k].segments = segments.removed;
+      lines[removedEnd + k].segments = segments.added;
+    }
+    start = Math.max(addedEnd, start + 1);
+  }
+  return lines;
+}
+
+function toHunks(lines: DiffLine[]): DiffHunk[] {
+  const changed = lines.flatMap((line, index) => line.type === 'context' ? [] : [index]);
+  const hunks: DiffHunk[] = [];
+
+  let first = 0;
+  while (first < changed.length) {
+    let last = first;
+    while (last + 1 < changed.length && changed[last + 1] - changed[last] <= 2 * CONTEXT_LINES) {
+      last++;
+    }
+
+    const hunkLines = lines.slice(Math.max(0, changed[first] - CONTEXT_LINES), Math.min(lines.length, changed[last] + CONTEXT_LINES + 1));
+    const oldLines = hunkLines.filter(line => line.type !== 'added');
+    const newLines = hunkLines.filter(line => line.type !== 'removed');
+    // As in unified diffs, a side without lines starts at the line before the change
+    const lineBefore = (side: 'old_line' | 'new_line') =>
+      lines.slice(0, changed[first]).reduce((count, line) => line[side] !== null ? count + 1 : count, 0);
+    hunks.push({
+      old_start: oldLines.length > 0 ? oldLines[0].old_line! : lineBefore('old_line'),
+      old_lines: oldLines.length,
+      new_start: newLines.length > 0 ? newLines[0].new_line! : lineBefore('new_line'),
+      new_lines: newLines.length,
+      lines: hunkLines,
+    });
+    first = last + 1;
+  }
+  return hunks;
+}
+
+export function formatUnifiedDiff(oldLabel: string, newLabel: string, hunks: DiffHunk[]): string {
+  if (hunks.length === 0) {
+    return '';
+  }
+  const output = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+  for (const hunk of hunks) {
+    output.push(`@@ -${hunk.old_start},${hunk.old_lines} +${hunk.new_start},${hunk.new_lines} @@`);
+    for (const line of hunk.lines) {
+      output.push(`${line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' '}${line.content}`);
+    }
+  }
+  return output.join('\n') + '\n';
+}
+
+export function diffText(oldText: string, newText: string): PromptVersionDiff['content'] {
+  const lines = toDiffLines(diffSequences(splitLines(oldText), splitLines(newText)));
+  return {
+    hunks: toHunks(lines),
+    additions: lines.filter(line => line.type === 'added').length,
+    deletions: lines.filter(line => line.type === 'removed').length,
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Changes between two JSON values, descending into objects; arrays and other values compare whole
+export function diffJson(oldValue: unknown, newValue: unknown, path: string[] = []): JsonChange[] {
+  if (isRecord(oldValue) && isRecord(newValue)) {
+    const keys = [...new Set([...Object.keys(oldValue), ...Object.keys(newValue)])].sort();
+    return keys.flatMap(key => {
+      const keyPath = [...path, key];
+      if (!(key in newValue)) {
+        return [{ path: keyPath.join('.'), type: 'removed' as const, old_value: oldValue[key] }];
+      }
+      if (!(key in oldValue)) {
+        return [{ path: keyPath.join('.'), type: 'added' as const, new_value: newValue[key] }];
+      }
+      return diffJson(oldValue[key], newValue[key], keyPath);
+    });
+  }
+  return JSON.stringify(oldValue) === JSON.stringify(newValue)
+    ? []
+    : [{ path: path.join('.'), type: 'changed', old_value: oldValue, new_value: newValue }];
+}
+
+// A chat version diffs as its messages, each under a "### role" heading
+function getVersionText(version: PromptVersion): string {
+  if (version.format === 'text') {
+    return version.content;
+  }
+  return (version.messages ?? []).map(message => `### ${message.role}\n${message.content}`).join('\n\n');
+}
+
+function getVersionTemplateVariables(version: PromptVersion): Set<string> {
+  const templates = version.format === 'chat' ? (version.messages ?? []).map(message => message.content) : [version.content];
+  const names = new Set<string>();
+  for (const template of templates) {
+    try {
+      getTemplateVariables(template).forEach(name => names.add(name));
+    } catch {
+      // Templates saved before validation may not parse; they contribute no names
+    }
+  }
+  return names;
+}
+
+export function diffPromptVersions(version1: PromptVersion, version2: PromptVersion): PromptVersionDiff {
+  const content = diffText(getVersionText(version1), getVersionText(version2));
+  const names1 = getVersionTemplateVariables(version1);
+  const names2 = getVersionTemplateVariables(version2);
+
+  return {
+    content,
+    variables: diffJson(version1.variables, version2.variables),
+    test_inputs: diffJson(version1.test_inputs, version2.test_inputs),
+    template_variables: {
+      added: [...names2].filter(name => !names1.has(name)).sort(),
+      removed: [...names1].filter(name => !names2.has(name)).sort(),
+    },
+    unified: formatUnifiedDiff(version1.version, version2.version, content.hunks),
+  };
+}
@@ -0,0 +1,325 @@
+import { type PromptVariable } from '../schema';
+
+// Prompt templates use a small Handlebars-like syntax:
+//   {{name}}, {{user.name}}                 interpolation; objects and arrays render as JSON
+//   {{name | default: "there"}}             fallback (a JSON literal) for missing or empty values
+//   {{#if premium}}…{{else}}…{{/if}}         conditionals, also {{#if tone == "formal"}} and !=
+//   {{#each items}}{{@index}}: {{this}}{{else}}none{{/each}}
+// Inside a loop, names resolve against the current item first. Missing values render as ''.
+
+// Thrown for malformed templates, so they can be rejected when a version is saved
+export class TemplateSyntaxError extends Error {
+  constructor(message: string, readonly line: number) {
+    super(`${message} (line ${line})`);
+    this.name = 'TemplateSyntaxError';
+  }
+}
+
+// Thrown when inputs do not match a version's declared variables; lists every problem at once
+export class PromptInputError extends Error {
+  constructor(readonly issues: string[]) {
+    super(`Invalid prompt variables: ${issues.join('; ')}`);
+    this.name = 'PromptInputError';
+  }
+}
+
+type Path = string[];
+
+interface Condition {
+  path: Path;
+  operator: '==' | '!=' | null;
+  value: unknown;
+}
+
+type TemplateNode =
+  | { type: 'text'; text: string }
+  | { type: 'variable'; path: Path; fallback: { value: unknown } | null }
+  | { type: 'if'; condition: Condition; body: TemplateNode[]; otherwise: TemplateNode[] }
+  | { type: 'each'; path: Path; body: TemplateNode[]; otherwise: TemplateNode[] };
+
+type BlockNode = Extract<TemplateNode, { type: 'if' | 'each' }>;
+
+interface OpenBlock {
+  node: BlockNode;
+  line: number;
+  inElse: boolean;
+}
+
+interface LoopScope {
+  item: unknown;
+  index: number;
+}
+
+const TAG_PATTERN = /\{\{\s*([\s\S]*?)\s*\}\}/g;
+const PATH_PATTERN = /^(?:@index|[\w-]+(?:\.[\w-]+)*)$/;
+
+function lineAt(template: string, offset: number): number {
+  return template.slice(0, offset).split('\n').length;
+}
+
+function parsePath(expression: string, line: number): Path {
+  if (!PATH_PATTERN.test(expression)) {
+    throw new TemplateSyntaxError(`Invalid variable "${expression}"`, line);
+  }
+  return expression.split('.');
+}
+
+function parseLiteral(expression: string, line: number): unknown {
+  try {
+    return JSON.parse(expression);
+  } catch {
+    throw new TemplateSyntaxError(`Invalid literal ${expression}; use JSON, e.g. "text" or 3`, line);
+  }
+}
+
+function parseCondition(expression: string, line: number): Condition {
+  const comparison = expression.match(/^(.+?)\s*(==|!=)\s*(.+)$/);
+  if (comparison) {
+    return {
+      path: parsePath(comparison[1], line),
+      operator: comparison[2] as '==' | '!=',
+      value: parseLiteral(comparison[3], line),
+    };
+  }
+  return { path: parsePath(expression, line), operator: null, value: undefined };
+}
+
+function parseTemplate(template: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: OpenBlock[] = [];
+  const current = (): TemplateNode[] => {
+    const block = stack[stack.length - 1];
+    return !block ? root : block.inElse ? block.node.otherwise : block.node.body;
+  };
+
+  let offset = 0;
+  for (const match of template.matchAll(TAG_PATTERN)) {
+    const index = match.index ?? 0;
+    const line = lineAt(template, index);
+    const tag = match[1];
+    if (index > offset) {
+      current().push({ type: 'text', text: template.slice(offset, index) });
+    }
+    offset = index + match[0].length;
+
+    const open = tag.match(/^#(\w+)\s*([\s\S]*)$/);
+    if (open) {
+      const [, keyword, expression] = open;
+      if (!expression) {
+        throw new TemplateSyntaxError(`{{#${keyword}}} needs an expression`, line);
+      }
+      let node: BlockNode;
+      if (keyword === 'if') {
+        node = { type: 'if', condition: parseCondition(expression, line), body: [], otherwise: [] };
+      } else if (keyword === 'each') {
+        node = { type: 'each', path: parsePath(expression, line), body: [], otherwise: [] };
+      } else {
+        throw new TemplateSyntaxError(`Unknown block {{#${keyword}}}`, line);
+      }
+      current().push(node);
+      stack.push({ node, line, inElse: false });
+      continue;
+    }
+
+    if (tag === 'else') {
+      const block = stack[stack.length - 1];
+      if (!block || block.inElse) {
+        throw new TemplateSyntaxError('{{else}} outside of an {{#if}} or {{#each}} block', line);
+      }
+      block.inElse = true;
+      continue;
+    }
+
+    const close = tag.match(/^\/(\w+)$/);
+    if (close) {
+      const block = stack.pop();
+      if (!block || block.node.type !== close[1]) {
+        throw new TemplateSyntaxError(`Unexpected {{/${close[1]}}}`, line);
+      }
+      continue;
+    }
+
+    const withDefault = tag.match(/^(.+?)\s*\|\s*default:\s*([\s\S]+)$/);
+    current().push(withDefault
+      ? { type: 'variable', path: parsePath(withDefault[1], line), fallback: { value: parseLiteral(withDefault[2], line) } }
+      : { type: 'variable', path: parsePath(tag, line), fallback: null });
+  }
+
+  if (offset < template.length) {
+    current().push({ type: 'text', text: template.slice(offset) });
+  }
+  const unclosed = stack.pop();
+  if (unclosed) {
+    throw new TemplateSyntaxError(`{{#${unclosed.node.type}}} is never closed`, unclosed.line);
+  }
+  return root;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function lookup(path: Path, values: Record<string, unknown>, scopes: LoopScope[]): unknown {
+  const [head, ...rest] = path;
+  const scope = scopes[scopes.length - 1];
+
+  let value: unknown;
+  if (head === '@index') {
+    value = scope?.index;
+  } else if (head === 'this') {
+    value = scope ? scope.item : values;
+  } else {
+    const owner = [...scopes].reverse().find(candidate => isRecord(candidate.item) && head in candidate.item);
+    value = owner ? (owner.item as Record<string, unknown>)[head] : values[head];
+  }
+
+  for (const key of rest) {
+    value = value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined;
+  }
+  return value;
+}
+
+function isTruthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+function format(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  return typeof value === 'string' ? value : typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function renderNodes(nodes: TemplateNode[], values: Record<string, unknown>, scopes: LoopScope[]): string {
+  let output = '';
+  for (const node of nodes) {
+    switch (node.type) {
+      case 'text':
+        output += node.text;
+        break;
+      case 'variable': {
+        const value = lookup(node.path, values, scopes);
+        output += format(node.fallback && (value === undefined || value === null || value === '') ? node.fallback.value : value);
+        break;
+      }
+      case 'if': {
+        const value = lookup(node.condition.path, values, scopes);
+        const passed = node.condition.operator === '=='
+          ? isEqual(value, node.condition.value)
+          : node.condition.operator === '!=' ? !isEqual(value, node.condition.value) : isTruthy(value);
+        output += renderNodes(passed ? node.body : node.otherwise, values, scopes);
+        break;
+      }
+      case 'each': {
+        const items = lookup(node.path, values, scopes);
+        if (items !== undefined && items !== null && !Array.isArray(items)) {
+          throw new Error(`{{#each ${node.path.join('.')}}} needs a list`);
+        }
+        output += items && items.length > 0
+          ? items.map((item, index) => renderNodes(node.body, values, [...scopes, { item, index }])).join('')
+          : renderNodes(node.otherwise, values, scopes);
+        break;
+      }
+    }
+  }
+  return output;
+}
+
+// Throws a TemplateSyntaxError for malformed templates
+export function validateTemplate(template: string): void {
+  parseTemplate(template);
+}
+
+export function renderTemplate(template: string, values: Record<string, unknown>): string {
+  return renderNodes(parseTemplate(template), values, []);
+}
+
+function collectVariables(nodes: TemplateNode[], names: Set<string>): void {
+  for (const node of nodes) {
+    const path = node.type === 'variable' || node.type === 'each' ? node.path : node.type === 'if' ? node.condition.path : null;
+    if (path && path[0] !== 'this' && path[0] !== '@index') {
+      names.add(path[0]);
+    }
+    // Names inside a loop body may be fields of the item rather than inputs, so they are left out
+    if (node.type === 'if') {
+      collectVariables(node.body, names);
+    }
+    if (node.type === 'if' || node.type === 'each') {
+      collectVariables(node.otherwise, names);
+    }
+  }
+}
+
+// The input names a template reads, sorted; throws a TemplateSyntaxError for malformed templates
+export function getTemplateVariables(template: string): string[] {
+  const names = new Set<string>();
+  collectVariables(parseTemplate(template), names);
+  return [...names].sort();
+}
+
+function checkVariableValue(name: string, variable: PromptVariable, value: unknown): string | null {
+  switch (variable.type) {
+    case 'string':
+      return typeof value === 'string' ? null : `${name} must be a string`;
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value) ? null : `${name} must be a number`;
+    case 'enum':
+      return typeof value === 'string' && (variable.options ?? []).includes(value)
+        ? null
+        : `${name} must be one of ${(variable.options ?? []).join(', ')}`;
+    case 'json':
+      return null;
+  }
+}
+
+// Enum variables need options, and declared defaults must be valid values themselves
+export function validatePromptVariables(variables: Record<string, PromptVariable>): void {
+  const issues: string[] = [];
+  for (const [name, variable] of Object.entries(variables)) {
+    if (variable.type === 'enum' && !variable.options?.length) {
+      issues.push(`${name} is an enum without options`);
+    } else if (variable.default !== undefined) {
+      const issue = checkVariableValue(name, variable, variable.default);
+      if (issue) {
+        issues.push(`default of ${issue}`);
+      }
+    }
+  }
+  if (issues.length > 0) {
+    throw new PromptInputError(issues);
+  }
+}
+
+// Checks inputs against the declared variables and fills in declared defaults. Undeclared inputs pass
+// through unchecked, so templates can also use values the caller adds (such as pipeline node outputs).
+// Issues are listed by variable name, since stored declarations (jsonb) do not keep their order.
+export function resolvePromptInput(variables: Record<string, PromptVariable>, input: Record<string, unknown>): Record<string, unknown> {
+  const values = { ...input };
+  const issues: string[] = [];
+
+  for (const name of Object.keys(variables).sort()) {
+    const variable = variables[name];
+    if (values[name] === undefined || values[name] === null) {
+      if (variable.default !== undefined) {
+        values[name] = variable.default;
+      } else if (variable.required) {
+        issues.push(`${name} is required`);
+      }
+      continue;
+    }
+
+    const issue = checkVariableValue(name, variable, values[name]);
+    if (issue) {
+      issues.push(issue);
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new PromptInputError(issues);
+  }
+  return values;
+}
@@ -1,9 +1,168 @@
 import { db } from '../db';
 import { promptsTable, promptVersionsTable, projectsTable, usersTable } from '../db/schema';
-import { type CreatePromptInput, type Prompt, type UpdatePromptInput, type CreatePromptVersionInput, type PromptVersion } from '../schema';
-import { eq, and } from 'drizzle-orm';
+import {
+  promptVariableInputSchema,
+  type CreatePromptInput,
+  type Prompt,
+  type UpdatePromptInput,
+  type CreatePromptVersionInput,
+  type PromptVersion,
+  type PromptVariable,
+  type PromptVariableInput,
+  type RenderPromptInput,
+  type RenderedPrompt,
+  type PromptMessage,
+  type PromptModelParams,
+  type ModelTool,
+  type VersionBump,
+  type PromptVersionDiff
+} from '../schema';
+import { renderTemplate, resolvePromptInput, validateTemplate, validatePromptVariables } from './prompt_templates';
+import { diffPromptVersions } from './prompt_diff';
+import { eq, and, sql } from 'drizzle-orm';
 import { randomUUID } from 'crypto';
 
+type PromptVersionRow = typeof promptVersionsTable.$inferSelect;
+
+interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: string[];
+}
+
+// MAJOR.MINOR.PATCH with an optional pre-release such as -rc.1; a leading "v" is accepted and dropped
+const SEMVER_PATTERN = /^v?(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-((?:0|[1-9]\d*|\d*[a-zA-Z-][\da-zA-Z-]*)(?:\.(?:0|[1-9]\d*|\d*[a-zA-Z-][\da-zA-Z-]*))*))?$/;
+
+function parseVersion(version: string): SemVer | null {
+  const match = version.trim().match(SEMVER_PATTERN);
+  if (!match) {
+    return null;
+  }
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: match[4] ? match[4].split('.') : [],
+  };
+}
+
+function formatVersion(version: SemVer): string {
+  const core = `${version.major}.${version.minor}.${version.patch}`;
+  return version.prerelease.length > 0 ? `${core}-${version.prerelease.join('.')}` : core;
+}
+
+// Semver precedence: a pre-release sorts before its release, and numeric identifiers before alphanumeric ones
+function compareVersions(a: SemVer, b: SemVer): number {
+  const core = a.major - b.major || a.minor - b.minor || a.patch - b.patch;
+  if (core !== 0) {
+    return core;
+  }
+  if (a.prerelease.length === 0 || b.prerelease.length === 0) {
+    return b.prerelease.length - a.prerelease.length;
+  }
+  for (let i = 0; i < Math.min(a.prerelease.length, b.prerelease.length); i++) {
+    const [x, y] = [a.prerelease[i], b.prerelease[i]];
+    if (x === y) {
+      continue;
+    }
+    const [xNumeric, yNumeric] = [/^\d+$/.test(x), /^\d+$/.test(y)];
+    if (xNumeric && yNumeric) {
+      return Number(x) - Number(y);
+    }
+    return xNumeric ? -1 : yNumeric ? 1 : x < y ? -1 : 1;
+  }
+  return a.prerelease.length - b.prerelease.length;
+}
+
+// Bumping a pre-release releases it (1.3.0-rc.1 → minor → 1.3.0); a prompt's first bump starts from 0.0.0
+function bumpVersion(latest: SemVer | null, bump: VersionBump): SemVer {
+  const { major, minor, patch, prerelease } = latest ?? { major: 0, minor: 0, patch: 0, prerelease: [] };
+  const release = prerelease.length > 0;
+  switch (bump) {
+    case 'major':
+      return release && minor === 0 && patch === 0
+        ? { major, minor, patch, prerelease: [] }
+        : { major: major + 1, minor: 0, patch: 0, prerelease: [] };
+    case 'minor':
+      return release && patch === 0
+        ? { major, minor, patch, prerelease: [] }
+        : { major, minor: minor + 1, patch: 0, prerelease: [] };
+    case 'patch':
+      return { major, minor, patch: release ? patch : patch + 1, prerelease: [] };
+  }
+}
+
+// Short forms saved before semver was enforced, such as 1.0 or v2, read as 1.0.0 and 2.0.0
+const SHORT_VERSION_PATTERN = /^v?(0|[1-9]\d*)(?:\.(0|[1-9]\d*))?$/;
+
+// Versions that cannot be read as semver are renumbered under this pre-release, which sorts before
+// every release and keeps them in creation order
+const LEGACY_VERSION_PREFIX = '0.0.0-legacy.';
+
+function coerceLegacyVersion(version: string): string | null {
+  const parsed = parseVersion(version);
+  if (parsed) {
+    return formatVersion(parsed);
+  }
+  const match = version.trim().match(SHORT_VERSION_PATTERN);
+  return match ? `${Number(match[1])}.${Number(match[2] ?? 0)}.0` : null;
+}
+
+// Oldest first by semver. Versions saved before semver was enforced cannot be ordered that way and
+// come first, in the order they were created.
+function sortVersions(versions: PromptVersion[]): PromptVersion[] {
+  const parsed = versions.map(version => ({ version, semver: parseVersion(version.version) }));
+  return parsed
+    .sort((a, b) => {
+      if (a.semver && b.semver) {
+        return compareVersions(a.semver, b.semver);
+      }
+      if (a.semver || b.semver) {
+        return a.semver ? 1 : -1;
+      }
+      return a.version.created_at.getTime() - b.version.created_at.getTime();
+    })
+    .map(({ version }) => version);
+}
+
+function toPromptVariable(input: PromptVariableInput): PromptVariable {
+  const variable = typeof input === 'string' ? { type: input } : input;
+  return {
+    type: variable.type,
+    required: variable.required ?? false,
+    description: variable.description ?? null,
+    options: variable.options ?? null,
+    ...(variable.default !== undefined ? { default: variable.default } : {}),
+  };
+}
+
+// Stored declarations predate typed variables, so anything unreadable is treated as untyped JSON
+function toPromptVariables(stored: unknown): Record<string, PromptVariable> {
+  const variables: Record<string, PromptVariable> = {};
+  for (const [name, declaration] of Object.entries((stored ?? {}) as Record<string, unknown>)) {
+    const parsed = promptVariableInputSchema.safeParse(declaration);
+    variables[name] = toPromptVariable(parsed.success ? parsed.data : 'json');
+  }
+  return variables;
+}
+
+function toPromptVersion(row: PromptVersionRow): PromptVersion {
+  return {
+    ...row,
+    messages: row.messages as PromptMessage[] | null,
+    tools: row.tools as ModelTool[],
+    model_params: row.model_params as PromptModelParams,
+    variables: toPromptVariables(row.variables),
+    test_inputs: row.test_inputs as Record<string, unknown>
+  };
+}
+
+// A text version reads as a single user message, so both formats render to the same shape
+export function getPromptMessages(version: PromptVersion): PromptMessage[] {
+  return version.format === 'chat' ? version.messages ?? [] : [{ role: 'user', content: version.content }];
+}
+
 export async function createPrompt(input: CreatePromptInput): Promise<Prompt> {
   try {
     // Verify project exists
@@ -112,14 +271,66 @@ export async function createPromptVersion(input: CreatePromptVersionInput): Prom
       throw new Error('User not found');
     }
 
+    // Resolve the version number and the parent it was derived from against the prompt's history
+    if ((input.version === undefined) === (input.bump === undefined)) {
+      throw new Error('Provide either a version or a bump');
+    }
+    const existing = await getPromptVersionsByPromptId(input.prompt_id);
+    const latestSemver = existing.map(version => parseVersion(version.version)).filter(semver => semver !== null).pop() ?? null;
+
+    let semver: SemVer;
+    if (input.version !== undefined) {
+      const parsed = parseVersion(input.version);
+      if (!parsed) {
+        throw new Error(`Invalid version "${input.version}"; use semver such as 1.0.0`);
+      }
+      semver = parsed;
+    } else {
+      semver = bumpVersion(latestSemver, input.bump!);
+    }
+    const version = formatVersion(semver);
+
+    if (existing.some(other => {
+      const parsed = parseVersion(other.version);
+      return parsed ? compareVersions(parsed, semver) === 0 : other.version === version;
+    })) {
+      throw new Error(`Version ${version} already exists for this prompt`);
+    }
+
+    if (input.parent_version_id !== undefined && !existing.some(other => other.id === input.parent_version_id)) {
+      throw new Error('Parent version not found for this prompt');
+    }
+    const parentVersionId = input.parent_version_id ?? existing[existing.length - 1]?.id ?? null;
+
+    const format = input.format ?? (input.messages ? 'chat' : 'text');
+    if (format === 'text' && input.content === undefined) {
+      throw new Error('Text prompt versions require content');
+    }
+    if (format === 'chat' && !input.messages) {
+      throw new Error('Chat prompt versions require messages');
+    }
+
+    // Reject templates and declarations that could never render
+    const templates = format === 'chat' ? input.messages!.map(message => message.content) : [input.content!];
+    templates.forEach(validateTemplate);
+    const variables = Object.fromEntries(
+      Object.entries(input.variables ?? {}).map(([name, declaration]) => [name, toPromptVariable(declaration)])
+    );
+    validatePromptVariables(variables);
+
     // Create prompt version
     const result = await db.insert(promptVersionsTable)
       .values({
         id: randomUUID(),
         prompt_id: input.prompt_id,
-        version: input.version,
-        content: input.content,
-        variables: input.variables ?? {},
+        version,
+        parent_version_id: parentVersionId,
+        format,
+        content: format === 'text' ? input.content! : '',
+        messages: format === 'chat' ? input.messages! : null,
+        tools: input.tools ?? [],
+        model_params: input.model_params ?? {},
+        variables,
         test_inputs: input.test_inputs ?? {},
         commit_message: input.commit_message ?? null,
         created_by: input.created_by
@@ -127,18 +338,71 @@ export async function createPromptVersion(input: CreatePromptVersionInput): Prom
       .returning()
       .execute();
 
-    const version = result[0];
-    return {
-      ...version,
-      variables: version.variables as Record<string, unknown>,
-      test_inputs: version.test_inputs as Record<string, unknown>
-    };
+    return toPromptVersion(result[0]);
   } catch (error) {
     console.error('Prompt version creation failed:', error);
     throw error;
   }
 }
 
+// Renumbers versions saved before they had to be unique semver. Runs before db:push, which cannot add the
+// unique (prompt_id, version) constraint while duplicates exist. Versions already in canonical form keep
+// their number; others are normalized (v1.0.0 → 1.0.0, 1.0 → 1.0.0) when that number is free, and the
+// rest become 0.0.0-legacy.N. Safe to run repeatedly; returns the number of versions renumbered.
+export async function migrateLegacyPromptVersions(): Promise<number> {
+  try {
+    return await db.transaction(async (tx) => {
+      const table = await tx.execute<{ found: boolean }>(sql`select to_regclass('prompt_versions') is not null as found`);
+      if (!table.rows[0]?.found) {
+        return 0;
+      }
+
+      const rows = await tx.execute<{ id: string; prompt_id: string; version: string }>(
+        sql`select id, prompt_id, version from prompt_versions order by prompt_id, created_at, id for update`
+      );
+
+      const versionsByPrompt = new Map<string, Array<{ id: string; version: string }>>();
+      for (const row of rows.rows) {
+        versionsByPrompt.set(row.prompt_id, [...(versionsByPrompt.get(row.prompt_id) ?? []), row]);
+      }
+
+      let renumbered = 0;
+      for (const versions of versionsByPrompt.values()) {
+        // Canonical versions are claimed first, oldest first, so they win over normalized duplicates
+        const taken = new Set<string>();
+        const pending: Array<{ id: string; version: string }> = [];
+        for (const row of versions) {
+          if (coerceLegacyVersion(row.version) === row.version && !taken.has(row.version)) {
+            taken.add(row.version);
+          } else {
+            pending.push(row);
+          }
+        }
+
+        let legacyNumber = 1;
+        for (const row of pending) {
+          let version = coerceLegacyVersion(row.version);
+          if (version === null || taken.has(version)) {
+            while (taken.has(`${LEGACY_VERSION_PREFIX}${legacyNumber}`)) {
+              legacyNumber++;
+            }
+            version = `${LEGACY_VERSION_PREFIX}${legacyNumber}`;
+          }
+
+          taken.add(version);
+          await tx.execute(sql`update prompt_versions set version = ${version} where id = ${row.id}`);
+          renumbered++;
+        }
+      }
+
+      return renumbered;
+    });
+  } catch (error) {
+    console.error('Legacy prompt version migration failed:', error);
+    throw error;
+  }
+}
+
 export async function getPromptVersionById(id: string): Promise<PromptVersion | null> {
   try {
     const results = await db.select()
@@ -150,12 +414,7 @@ export async function getPromptVersionById(id: string): Promise<PromptVersion |
       return null;
     }
 
-    const version = results[0];
-    return {
-      ...version,
-      variables: version.variables as Record<string, unknown>,
-      test_inputs: version.test_inputs as Record<string, unknown>
-    };
+    return toPromptVersion(results[0]);
   } catch (error) {
     console.error('Failed to get prompt version by ID:', error);
     throw error;
@@ -169,11 +428,7 @@ export async function getPromptVersionsByPromptId(promptId: string): Promise<Pro
       .where(eq(promptVersionsTable.prompt_id, promptId))
       .execute();
 
-    return results.map(version => ({
-      ...version,
-      variables: version.variables as Record<string, unknown>,
-      test_inputs: version.test_inputs as Record<string, unknown>
-    }));
+    return sortVersions(results.map(toPromptVersion));
   } catch (error) {
     console.error('Failed to get prompt versions by prompt ID:', error);
     throw error;
@@ -218,7 +473,12 @@ export async function promotePromptVersion(versionId: string, promptId: string):
   }
 }
 
-export async function comparePromptVersions(versionId1: string, versionId2: string): Promise<{ version1: PromptVersion; version2: PromptVersion }> {
+// Returns both versions with the changes from version 1 to version 2 (see handlers/prompt_diff.ts)
+export async function comparePromptVersions(versionId1: string, versionId2: string): Promise<{
+  version1: PromptVersion;
+  version2: PromptVersion;
+  diff: PromptVersionDiff;
+}> {
   try {
     // Get both versions
     const [version1Result, version2Result] = await Promise.all([
@@ -241,10 +501,45 @@ export async function comparePromptVersions(versionId1: string, versionId2: stri
 
     return {
       version1: version1Result,
-      version2: version2Result
+      version2: version2Result,
+      diff: diffPromptVersions(version1Result, version2Result)
     };
   } catch (error) {
     console.error('Prompt version comparison failed:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
+
+// Validates the inputs against the version's variables and renders its templates; a text version's text
+// is sent as one user message, a chat version's messages are rendered one by one
+export function renderPromptVersion(version: PromptVersion, input: Record<string, unknown>): RenderedPrompt {
+  const values = resolvePromptInput(version.variables, input);
+  const text = version.format === 'text' ? renderTemplate(version.content, values) : null;
+  const messages = getPromptMessages(version).map(message => ({
+    role: message.role,
+    content: text ?? renderTemplate(message.content, values)
+  }));
+
+  return {
+    version_id: version.id,
+    format: version.format,
+    text,
+    messages,
+    tools: version.tools,
+    model_params: version.model_params
+  };
+}
+
+export async function renderPrompt(input: RenderPromptInput): Promise<RenderedPrompt> {
+  try {
+    const version = await getPromptVersionById(input.version_id);
+    if (!version) {
+      throw new Error('Prompt version not found');
+    }
+
+    return renderPromptVersion(version, input.variables);
+  } catch (error) {
+    console.error('Prompt rendering failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,681 @@
+import {
+  providerTypeSchema,
+  type ProviderType,
+  type ModelRequest,
+  type ModelResponse,
+  type ModelMessage,
+  type ModelToolCall,
+  type ModelResponseFormat
+} from '../schema';
+import { nanoid } from 'nanoid';
+
+const REQUEST_TIMEOUT_MS = 10_000;
+const DEFAULT_ANTHROPIC_MAX_TOKENS = 4096;
+
+export interface ProviderKeyCheck {
+  valid: boolean;
+  error?: string;
+}
+
+// What an adapter returns; the gateway adds provider, model, latency, attempts and the cache flag
+export type ModelCompletion = Omit<ModelResponse, 'provider' | 'model' | 'latency_ms' | 'attempts' | 'cache_hit'>;
+
+export type ModelStreamChunk =
+  | { type: 'delta'; content: string }
+  | { type: 'done'; completion: ModelCompletion };
+
+export interface EmbeddingRequest {
+  model: string;
+  input: string[];
+}
+
+export interface ProviderCallOptions {
+  apiKey: string;
+  signal?: AbortSignal;
+}
+
+// request.model is always the provider's own model id, without a provider prefix
+export interface ProviderAdapter {
+  verifyKey(apiKey: string): Promise<ProviderKeyCheck>;
+  complete(request: ModelRequest, options: ProviderCallOptions): Promise<ModelCompletion>;
+  // Resolves once the provider has accepted the request, so HTTP errors reject here rather than mid-stream
+  stream(request: ModelRequest, options: ProviderCallOptions): Promise<AsyncIterable<ModelStreamChunk>>;
+  // One vector per input text, in input order
+  embed(request: EmbeddingRequest, options: ProviderCallOptions): Promise<number[][]>;
+}
+
+// status is null when the provider could not be reached at all
+export class ProviderRequestError extends Error {
+  constructor(
+    readonly provider: ProviderType,
+    readonly status: number | null,
+    message: string,
+    readonly retryAfterMs: number | null = null
+  ) {
+    super(message);
+    this.name = 'ProviderRequestError';
+  }
+}
+
+export interface ResolvedModel {
+  provider: ProviderType;
+  model: string; // The provider's own id, without the prefix
+}
+
+// An explicit "provider/" prefix wins; otherwise well-known model name prefixes pick the provider
+export function resolveModel(model: string): ResolvedModel {
+  const separatorIndex = model.indexOf('/');
+  if (separatorIndex > 0) {
+    const provider = providerTypeSchema.safeParse(model.slice(0, separatorIndex));
+    if (provider.success) {
+      return { provider: provider.data, model: model.slice(separatorIndex + 1) };
+    }
+  }
+
+  if (/^(gpt-|chatgpt-|o\d)/.test(model)) {
+    return { provider: 'openai', model };
+  }
+  if (model.startsWith('claude-')) {
+    return { provider: 'anthropic', model };
+  }
+  if (model.startsWith('gemini-')) {
+    return { provider: 'gemini', model };
+  }
+
+  throw new Error(`Cannot determine the provider for model ${model}; prefix it with one, e.g. local/${model}`);
+}
+
+// Each base URL can be pointed elsewhere (a proxy, or a stub server in tests) through its env variable
+const providerBaseUrls: Record<ProviderType, { env: string; fallback: string }> = {
+  openai: { env: 'OPENAI_BASE_URL', fallback: 'https://api.openai.com/v1' },
+  anthropic: { env: 'ANTHROPIC_BASE_URL', fallback: 'https://api.anthropic.com/v1' },
+  gemini: { env: 'GEMINI_BASE_URL', fallback: 'https://generativelanguage.googleapis.com/v1beta' },
+  local: { env: 'LOCAL_MODEL_BASE_URL', fallback: 'http://localhost:11434/v1' },
+};
+
+export function getProviderBaseUrl(provider: ProviderType): string {
+  const { env, fallback } = providerBaseUrls[provider];
+  return (process.env[env] || fallback).replace(/\/+$/, '');
+}
+
+export function getProviderAuthHeaders(provider: ProviderType, apiKey: string): Record<string, string> {
+  switch (provider) {
+    case 'anthropic':
+      return { 'x-api-key': apiKey, 'anthropic-version': '2023-06-01' };
+    case 'gemini':
+      return { 'x-goog-api-key': apiKey };
+    case 'local':
+      // Local servers usually run without auth
+      return apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+    default:
+      return { Authorization: `Bearer ${apiKey}` };
+  }
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+async function postJson(
+  provider: ProviderType,
+  path: string,
+  apiKey: string,
+  body: Record<string, unknown>,
+  signal?: AbortSignal
+): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(`${getProviderBaseUrl(provider)}${path}`, {
+      method: 'POST',
+      headers: { ...getProviderAuthHeaders(provider, apiKey), 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (error) {
+    throw new ProviderRequestError(provider, null, `Could not reach ${provider}: ${describeError(error)}`);
+  }
+
+  if (!response.ok) {
+    // All providers wrap failures as { error: { message } }
+    const text = await response.text().catch(() => '');
+    let detail = text.slice(0, 500);
+    try {
+      detail = JSON.parse(text).error?.message ?? detail;
+    } catch {
+      // Not JSON; keep the raw text
+    }
+    // Retry-After is given in seconds by all three hosted providers
+    const retryAfter = Number(response.headers.get('retry-after'));
+    throw new ProviderRequestError(
+      provider,
+      response.status,
+      `${provider} returned HTTP ${response.status}${detail ? `: ${detail}` : ''}`,
+      Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : null
+    );
+  }
+
+  return response;
+}
+
+// Yields the data payload of each server-sent event
+async function* readEventData(response: Response): AsyncGenerator<string> {
+  if (!response.body) {
+    return;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let data: string[] = [];
+
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+    const lines = buffer.split(/\r?\n/);
+    buffer = done ? '' : lines.pop() ?? '';
+
+    for (const line of lines) {
+      if (line === '') {
+        if (data.length > 0) {
+          yield data.join('\n');
+          data = [];
+        }
+      } else if (line.startsWith('data:')) {
+        data.push(line.slice(5).trimStart());
+      }
+    }
+
+    if (done) {
+      if (data.length > 0) {
+        yield data.join('\n');
+      }
+      return;
+    }
+  }
+}
+
+function parseToolArguments(value: string): Record<string, unknown> {
+  try {
+    return value ? JSON.parse(value) : {};
+  } catch {
+    return {};
+  }
+}
+
+// For providers without a native JSON mode, the format is requested in the system prompt instead
+function describeResponseFormat(format: ModelResponseFormat): string | null {
+  switch (format.type) {
+    case 'json_object':
+      return 'Respond with a single JSON object and no other text.';
+    case 'json_schema':
+      return `Respond with a single JSON object matching this JSON Schema and no other text:\n${JSON.stringify(format.schema)}`;
+    default:
+      return null;
+  }
+}
+
+function collectSystemPrompt(request: ModelRequest): string | undefined {
+  const parts = request.messages.filter(message => message.role === 'system').map(message => message.content);
+  return parts.length > 0 ? parts.join('\n\n') : undefined;
+}
+
+function emptyUsage(): ModelCompletion['usage'] {
+  return { input_tokens: 0, output_tokens: 0 };
+}
+
+// Translation between the gateway's request/response shape and one provider's wire format
+interface ProviderProtocol {
+  path(model: string, stream: boolean): string;
+  buildBody(request: ModelRequest, stream: boolean): Record<string, unknown>;
+  parseCompletion(data: any): ModelCompletion;
+  parseStream(events: AsyncIterable<string>): AsyncGenerator<ModelStreamChunk>;
+  embedding?: {
+    path(model: string): string;
+    buildBody(model: string, input: string[]): Record<string, unknown>;
+    parseEmbeddings(data: any): number[][];
+  };
+}
+
+// OpenAI chat completions; also spoken by Ollama, vLLM, LM Studio and llama.cpp, which is what 'local' targets
+function openAiProtocol(provider: ProviderType): ProviderProtocol {
+  const toFinishReason = (reason: string | null | undefined): ModelCompletion['finish_reason'] => {
+    switch (reason) {
+      case 'length':
+        return 'length';
+      case 'tool_calls':
+      case 'function_call':
+        return 'tool_calls';
+      case 'content_filter':
+        return 'content_filter';
+      default:
+        return 'stop';
+    }
+  };
+
+  const toMessage = (message: ModelMessage) => {
+    if (message.role === 'tool') {
+      return { role: 'tool', tool_call_id: message.tool_call_id, content: message.content };
+    }
+    if (message.role === 'assistant' && message.tool_calls?.length) {
+      return {
+        role: 'assistant',
+        content: message.content || null,
+        tool_calls: message.tool_calls.map(call => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.name, arguments: call.arguments },
+        })),
+      };
+    }
+    return { role: message.role, content: message.content };
+  };
+
+  const toResponseFormat = (format: ModelResponseFormat | undefined) => {
+    if (format?.type === 'json_schema') {
+      return { type: 'json_schema', json_schema: { name: format.name, schema: format.schema } };
+    }
+    return format;
+  };
+
+  return {
+    path: () => '/chat/completions',
+
+    buildBody(request, stream) {
+      return {
+        model: request.model,
+        messages: request.messages.map(toMessage),
+        tools: request.tools?.length
+          ? request.tools.map(tool => ({ type: 'function', function: tool }))
+          : undefined,
+        temperature: request.temperature,
+        // OpenAI renamed the field; local servers still expect the original one
+        [provider === 'openai' ? 'max_completion_tokens' : 'max_tokens']: request.max_tokens,
+        stop: request.stop,
+        response_format: toResponseFormat(request.response_format),
+        stream: stream || undefined,
+        stream_options: stream && provider === 'openai' ? { include_usage: true } : undefined,
+      };
+    },
+
+    parseCompletion(data) {
+      const choice = data.choices?.[0];
+      return {
+        content: choice?.message?.content ?? '',
+        tool_calls: (choice?.message?.tool_calls ?? []).map((call: any) => ({
+          id: call.id,
+          name: call.function?.name ?? '',
+          arguments: call.function?.arguments ?? '',
+        })),
+        finish_reason: toFinishReason(choice?.finish_reason),
+        usage: {
+          input_tokens: data.usage?.prompt_tokens ?? 0,
+          output_tokens: data.usage?.completion_tokens ?? 0,
+        },
+      };
+    },
+
+    async *parseStream(events) {
+      let content = '';
+      let finishReason: string | undefined;
+      let usage = emptyUsage();
+      const toolCalls: ModelToolCall[] = [];
+
+      for await (const data of events) {
+        if (data === '[DONE]') {
+          break;
+        }
+
+        const chunk = JSON.parse(data);
+        if (chunk.usage) {
+          usage = { input_tokens: chunk.usage.prompt_tokens ?? 0, output_tokens: chunk.usage.completion_tokens ?? 0 };
+        }
+
+        const choice = chunk.choices?.[0];
+        if (!choice) {
+          continue;
+        }
+
+        if (choice.delta?.content) {
+          content += choice.delta.content;
+          yield { type: 'delta', content: choice.delta.content };
+        }
+
+        // Tool calls arrive in fragments keyed by index
+        for (const fragment of choice.delta?.tool_calls ?? []) {
+          const index = fragment.index ?? 0;
+          const call = toolCalls[index] ?? (toolCalls[index] = { id: '', name: '', arguments: '' });
+          call.id = fragment.id ?? call.id;
+          call.name += fragment.function?.name ?? '';
+          call.arguments += fragment.function?.arguments ?? '';
+        }
+
+        finishReason = choice.finish_reason ?? finishReason;
+      }
+
+      yield {
+        type: 'done',
+        completion: { content, tool_calls: toolCalls.filter(Boolean), finish_reason: toFinishReason(finishReason), usage },
+      };
+    },
+
+    embedding: {
+      path: () => '/embeddings',
+      buildBody: (model, input) => ({ model, input }),
+      // Results carry their input index and are not guaranteed to come back in order
+      parseEmbeddings: data => [...(data.data ?? [])]
+        .sort((a: any, b: any) => a.index - b.index)
+        .map((item: any) => item.embedding),
+    },
+  };
+}
+
+function anthropicProtocol(): ProviderProtocol {
+  const toFinishReason = (reason: string | null | undefined): ModelCompletion['finish_reason'] => {
+    switch (reason) {
+      case 'max_tokens':
+        return 'length';
+      case 'tool_use':
+        return 'tool_calls';
+      case 'refusal':
+        return 'content_filter';
+      default:
+        return 'stop';
+    }
+  };
+
+  const toMessage = (message: ModelMessage) => {
+    if (message.role === 'tool') {
+      return { role: 'user', content: [{ type: 'tool_result', tool_use_id: message.tool_call_id, content: message.content }] };
+    }
+    if (message.role === 'assistant' && message.tool_calls?.length) {
+      return {
+        role: 'assistant',
+        content: [
+          ...(message.content ? [{ type: 'text', text: message.content }] : []),
+          ...message.tool_calls.map(call => ({ type: 'tool_use', id: call.id, name: call.name, input: parseToolArguments(call.arguments) })),
+        ],
+      };
+    }
+    return { role: message.role, content: message.content };
+  };
+
+  return {
+    path: () => '/messages',
+
+    buildBody(request, stream) {
+      const formatInstruction = request.response_format ? describeResponseFormat(request.response_format) : null;
+      const system = [collectSystemPrompt(request), formatInstruction].filter(Boolean).join('\n\n');
+
+      return {
+        model: request.model,
+        system: system || undefined,
+        messages: request.messages.filter(message => message.role !== 'system').map(toMessage),
+        tools: request.tools?.length
+          ? request.tools.map(tool => ({ name: tool.name, description: tool.description, input_schema: tool.parameters }))
+          : undefined,
+        temperature: request.temperature,
+        // Required by the Messages API
+        max_tokens: request.max_tokens ?? DEFAULT_ANTHROPIC_MAX_TOKENS,
+        stop_sequences: request.stop,
+        stream: stream || undefined,
+      };
+    },
+
+    parseCompletion(data) {
+      const blocks: any[] = data.content ?? [];
+      return {
+        content: blocks.filter(block => block.type === 'text').map(block => block.text).join(''),
+        tool_calls: blocks
+          .filter(block => block.type === 'tool_use')
+          .map(block => ({ id: block.id, name: block.name, arguments: JSON.stringify(block.input ?? {}) })),
+        finish_reason: toFinishReason(data.stop_reason),
+        usage: {
+          input_tokens: data.usage?.input_tokens ?? 0,
+          output_tokens: data.usage?.output_tokens ?? 0,
+        },
+      };
+    },
+
+    async *parseStream(events) {
+      let content = '';
+      let stopReason: string | undefined;
+      const usage = emptyUsage();
+      const toolCalls = new Map<number, ModelToolCall>();
+
+      for await (const data of events) {
+        const event = JSON.parse(data);
+
+        switch (event.type) {
+          case 'message_start':
+            usage.input_tokens = event.message?.usage?.input_tokens ?? 0;
+            usage.output_tokens = event.message?.usage?.output_tokens ?? 0;
+            break;
+          case 'content_block_start':
+            if (event.content_block?.type === 'tool_use') {
+              toolCalls.set(event.index, { id: event.content_block.id, name: event.content_block.name, arguments: '' });
+            }
+            break;
+          case 'content_block_delta':
+            if (event.delta?.type === 'text_delta') {
+              content += event.delta.text;
+              yield { type: 'delta', content: event.delta.text };
+            } else if (event.delta?.type === 'input_json_delta') {
+              const call = toolCalls.get(event.index);
+              if (call) {
+                call.arguments += event.delta.partial_json;
+              }
+            }
+            break;
+          case 'message_delta':
+            stopReason = event.delta?.stop_reason ?? stopReason;
+            usage.output_tokens = event.usage?.output_tokens ?? usage.output_tokens;
+            break;
+          case 'error':
+            throw new ProviderRequestError('anthropic', null, event.error?.message ?? 'anthropic stream failed');
+        }
+      }
+
+      yield {
+        type: 'done',
+        completion: {
+          content,
+          // Tools without parameters stream no argument fragments at all
+          tool_calls: [...toolCalls.values()].map(call => ({ ...call, arguments: call.arguments || '{}' })),
+          finish_reason: toFinishReason(stopReason),
+          usage,
+        },
+      };
+    },
+  };
+}
+
+function geminiProtocol(): ProviderProtocol {
+  const toFinishReason = (reason: string | undefined, hasToolCalls: boolean): ModelCompletion['finish_reason'] => {
+    if (hasToolCalls) {
+      return 'tool_calls';
+    }
+    switch (reason) {
+      case 'MAX_TOKENS':
+        return 'length';
+      case 'SAFETY':
+      case 'RECITATION':
+      case 'BLOCKLIST':
+      case 'PROHIBITED_CONTENT':
+      case 'SPII':
+        return 'content_filter';
+      default:
+        return 'stop';
+    }
+  };
+
+  // Gemini has no tool call ids; function responses are matched to calls by name instead
+  const toContents = (messages: ModelMessage[]) => {
+    const toolNames = new Map<string, string>();
+
+    return messages.filter(message => message.role !== 'system').map(message => {
+      if (message.role === 'tool') {
+        const name = toolNames.get(message.tool_call_id ?? '') ?? message.tool_call_id ?? '';
+        return { role: 'user', parts: [{ functionResponse: { name, response: { content: message.content } } }] };
+      }
+      if (message.role === 'assistant') {
+        const calls = message.tool_calls ?? [];
+        calls.forEach(call => toolNames.set(call.id, call.name));
+        const parts = [
+          ...(message.content ? [{ text: message.content }] : []),
+          ...calls.map(call => ({ functionCall: { name: call.name, args: parseToolArguments(call.arguments) } })),
+        ];
+        return { role: 'model', parts: parts.length > 0 ? parts : [{ text: '' }] };
+      }
+      return { role: 'user', parts: [{ text: message.content }] };
+    });
+  };
+
+  const readParts = (data: any) => {
+    const candidate = data.candidates?.[0];
+    const parts: any[] = candidate?.content?.parts ?? [];
+    return {
+      text: parts.filter(part => typeof part.text === 'string' && !part.thought).map(part => part.text).join(''),
+      toolCalls: parts
+        .filter(part => part.functionCall)
+        .map(part => ({
+          id: part.functionCall.id ?? `call_${nanoid()}`,
+          name: part.functionCall.name,
+          arguments: JSON.stringify(part.functionCall.args ?? {}),
+        })),
+      // A prompt blocked outright comes back with no candidates
+      finishReason: candidate?.finishReason ?? (data.promptFeedback?.blockReason ? 'SAFETY' : undefined),
+      usage: data.usageMetadata
+        ? { input_tokens: data.usageMetadata.promptTokenCount ?? 0, output_tokens: data.usageMetadata.candidatesTokenCount ?? 0 }
+        : null,
+    };
+  };
+
+  return {
+    path: (model, stream) => `/models/${encodeURIComponent(model)}:${stream ? 'streamGenerateContent?alt=sse' : 'generateContent'}`,
+
+    buildBody(request) {
+      const system = collectSystemPrompt(request);
+      const format = request.response_format;
+      const json = format !== undefined && format.type !== 'text';
+
+      return {
+        contents: toContents(request.messages),
+        systemInstruction: system ? { parts: [{ text: system }] } : undefined,
+        tools: request.tools?.length ? [{ functionDeclarations: request.tools }] : undefined,
+        generationConfig: {
+          temperature: request.temperature,
+          maxOutputTokens: request.max_tokens,
+          stopSequences: request.stop,
+          responseMimeType: json ? 'application/json' : undefined,
+          responseSchema: format?.type === 'json_schema' ? format.schema : undefined,
+        },
+      };
+    },
+
+    parseCompletion(data) {
+      const parsed = readParts(data);
+      return {
+        content: parsed.text,
+        tool_calls: parsed.toolCalls,
+        finish_reason: toFinishReason(parsed.finishReason, parsed.toolCalls.length > 0),
+        usage: parsed.usage ?? emptyUsage(),
+      };
+    },
+
+    async *parseStream(events) {
+      let content = '';
+      let finishReason: string | undefined;
+      let usage = emptyUsage();
+      const toolCalls: ModelToolCall[] = [];
+
+      for await (const data of events) {
+        const parsed = readParts(JSON.parse(data));
+
+        if (parsed.text) {
+          content += parsed.text;
+          yield { type: 'delta', content: parsed.text };
+        }
+        toolCalls.push(...parsed.toolCalls);
+        finishReason = parsed.finishReason ?? finishReason;
+        usage = parsed.usage ?? usage;
+      }
+
+      yield {
+        type: 'done',
+        completion: { content, tool_calls: toolCalls, finish_reason: toFinishReason(finishReason, toolCalls.length > 0), usage },
+      };
+    },
+
+    // Embeds texts in one call; Gemini wants the model named again in every request
+    embedding: {
+      path: model => `/models/${encodeURIComponent(model)}:batchEmbedContents`,
+      buildBody: (model, input) => ({
+        requests: input.map(text => ({ model: `models/${model}`, content: { parts: [{ text }] } })),
+      }),
+      parseEmbeddings: data => (data.embeddings ?? []).map((embedding: any) => embedding.values ?? []),
+    },
+  };
+}
+
+function createHttpAdapter(provider: ProviderType, protocol: ProviderProtocol): ProviderAdapter {
+  return {
+    // All four providers list models at GET /models, which is the cheapest authenticated call
+    async verifyKey(apiKey) {
+      let response: Response;
+      try {
+        response = await fetch(`${getProviderBaseUrl(provider)}/models`, {
+          headers: getProviderAuthHeaders(provider, apiKey),
+          signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        });
+      } catch (error) {
+        return { valid: false, error: `Could not reach ${provider}: ${describeError(error)}` };
+      }
+
+      if (response.ok) {
+        return { valid: true };
+      }
+      if (response.status === 401 || response.status === 403) {
+        return { valid: false, error: 'The provider rejected this API key' };
+      }
+      return { valid: false, error: `${provider} returned HTTP ${response.status}` };
+    },
+
+    async complete(request, options) {
+      const response = await postJson(provider, protocol.path(request.model, false), options.apiKey, protocol.buildBody(request, false), options.signal);
+      return protocol.parseCompletion(await response.json());
+    },
+
+    async stream(request, options) {
+      const response = await postJson(provider, protocol.path(request.model, true), options.apiKey, protocol.buildBody(request, true), options.signal);
+      return protocol.parseStream(readEventData(response));
+    },
+
+    async embed(request, options) {
+      const embedding = protocol.embedding;
+      if (!embedding) {
+        throw new Error(`${provider} does not offer an embeddings API`);
+      }
+      const response = await postJson(provider, embedding.path(request.model), options.apiKey, embedding.buildBody(request.model, request.input), options.signal);
+      return embedding.parseEmbeddings(await response.json());
+    },
+  };
+}
+
+const defaultAdapters: Record<ProviderType, ProviderAdapter> = {
+  openai: createHttpAdapter('openai', openAiProtocol('openai')),
+  anthropic: createHttpAdapter('anthropic', anthropicProtocol()),
+  gemini: createHttpAdapter('gemini', geminiProtocol()),
+  local: createHttpAdapter('local', openAiProtocol('local')),
+};
+
+let activeAdapters: Record<ProviderType, ProviderAdapter> = { ...defaultAdapters };
+
+export function getProviderAdapter(provider: ProviderType): ProviderAdapter {
+  return activeAdapters[provider];
+}
+
+// Replaces one provider's adapter; pass null to restore the built-in one
+export function setProviderAdapter(provider: ProviderType, adapter: ProviderAdapter | null): void {
+  activeAdapters = { ...activeAdapters, [provider]: adapter ?? defaultAdapters[provider] };
+}
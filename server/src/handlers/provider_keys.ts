@@ -1,49 +1,309 @@
-import { type CreateProviderKeyInput, type ProviderKey } from '../schema';
+import { db, type DbExecutor } from '../db';
+import { providerKeysTable } from '../db/schema';
+import { type CreateProviderKeyInput, type ProviderKey, type ProviderKeyRefInput, type ProviderType } from '../schema';
+import { encryptSecret, decryptSecret, rewrapDataKey, getActiveMasterKeyId } from './encryption';
+import { getProviderAdapter } from './provider_adapters';
+import { logAuditEvent } from './audit';
+import { eq, ne, and, asc, desc, sql } from 'drizzle-orm';
+import { nanoid } from 'nanoid';
 
-export async function createProviderKey(input: CreateProviderKeyInput): Promise<ProviderKey> {
-    // This is a placeholder declaration! Real code should be implemented here.
-    // The goal of this handler is creating and encrypting API keys for AI providers.
-    return Promise.resolve({
-        id: 'key_1',
-        org_id: input.org_id,
-        provider: input.provider,
-        label: input.label,
-        encrypted_api_key: 'encrypted_' + input.api_key, // Placeholder encryption
-        created_at: new Date()
-    });
+const KEY_SUFFIX_LENGTH = 4;
+
+// How the original placeholder scheme stored keys: this prefix, then the plaintext key
+const LEGACY_KEY_PREFIX = 'encrypted_';
+
+type ProviderKeyRow = typeof providerKeysTable.$inferSelect;
+
+function toProviderKey(row: ProviderKeyRow): ProviderKey {
+    return {
+        id: row.id,
+        org_id: row.org_id,
+        provider: row.provider,
+        label: row.label,
+        masked_key: `****${row.key_suffix}`,
+        is_default: row.is_default,
+        created_at: row.created_at
+    };
+}
+
+// Binds each ciphertext to its row so it cannot be replayed under another key id
+function getEncryptionContext(keyId: string): string {
+    return `provider_key:${keyId}`;
+}
+
+async function clearDefaultProviderKey(executor: DbExecutor, orgId: string, provider: ProviderType): Promise<void> {
+    await executor.update(providerKeysTable)
+        .set({ is_default: false })
+        .where(and(
+            eq(providerKeysTable.org_id, orgId),
+            eq(providerKeysTable.provider, provider),
+            eq(providerKeysTable.is_default, true)
+        ))
+        .execute();
+}
+
+export async function createProviderKey(input: CreateProviderKeyInput, actorUserId: string): Promise<ProviderKey> {
+    try {
+        const id = nanoid();
+        const secret = encryptSecret(input.api_key, getEncryptionContext(id));
+
+        const key = await db.transaction(async (tx) => {
+            const existing = await tx.select({ id: providerKeysTable.id })
+                .from(providerKeysTable)
+                .where(and(eq(providerKeysTable.org_id, input.org_id), eq(providerKeysTable.provider, input.provider)))
+                .execute();
+
+            const isDefault = existing.length === 0 || input.is_default === true;
+            if (isDefault) {
+                await clearDefaultProviderKey(tx, input.org_id, input.provider);
+            }
+
+            const result = await tx.insert(providerKeysTable)
+                .values({
+                    id,
+                    org_id: input.org_id,
+                    provider: input.provider,
+                    label: input.label,
+                    encrypted_api_key: secret.ciphertext,
+                    encrypted_data_key: secret.encrypted_data_key,
+                    master_key_id: secret.master_key_id,
+                    key_suffix: input.api_key.slice(-KEY_SUFFIX_LENGTH),
+                    is_default: isDefault
+                })
+                .returning()
+                .execute();
+
+            await logAuditEvent(input.org_id, actorUserId, 'provider_key.create', 'provider_key', id, {
+                provider: input.provider,
+                label: input.label,
+                is_default: isDefault
+            }, tx);
+
+            return result[0];
+        });
+
+        return toProviderKey(key);
+    } catch (error) {
+        console.error('Provider key creation failed:', error);
+        throw error;
+    }
 }
 
 export async function getProviderKeysByOrgId(orgId: string): Promise<ProviderKey[]> {
-    // This is a placeholder declaration! Real code should be implemented here.
-    // The goal of this handler is fetching all provider keys for an organization.
-    return [];
+    try {
+        const results = await db.select()
+            .from(providerKeysTable)
+            .where(eq(providerKeysTable.org_id, orgId))
+            .orderBy(asc(providerKeysTable.provider), asc(providerKeysTable.created_at))
+            .execute();
+
+        return results.map(toProviderKey);
+    } catch (error) {
+        console.error('Failed to get provider keys:', error);
+        throw error;
+    }
+}
+
+// The key used for calls to this provider: the default, or the newest key if none is flagged
+export async function getProviderKey(orgId: string, provider: ProviderType): Promise<ProviderKey | null> {
+    try {
+        const results = await db.select()
+            .from(providerKeysTable)
+            .where(and(eq(providerKeysTable.org_id, orgId), eq(providerKeysTable.provider, provider)))
+            .orderBy(desc(providerKeysTable.is_default), desc(providerKeysTable.created_at))
+            .limit(1)
+            .execute();
+
+        return results.length > 0 ? toProviderKey(results[0]) : null;
+    } catch (error) {
+        console.error('Failed to get provider key:', error);
+        throw error;
+    }
+}
+
+export async function setDefaultProviderKey(input: ProviderKeyRefInput, actorUserId: string): Promise<ProviderKey> {
+    try {
+        const key = await db.transaction(async (tx) => {
+            const existing = await tx.select()
+                .from(providerKeysTable)
+                .where(and(eq(providerKeysTable.id, input.id), eq(providerKeysTable.org_id, input.org_id)))
+                .execute();
+
+            if (existing.length === 0) {
+                throw new Error('Provider key not found');
+            }
+
+            await clearDefaultProviderKey(tx, input.org_id, existing[0].provider);
+            const result = await tx.update(providerKeysTable)
+                .set({ is_default: true })
+                .where(eq(providerKeysTable.id, input.id))
+                .returning()
+                .execute();
+
+            await logAuditEvent(input.org_id, actorUserId, 'provider_key.set_default', 'provider_key', input.id, {
+                provider: existing[0].provider,
+                label: existing[0].label
+            }, tx);
+
+            return result[0];
+        });
+
+        return toProviderKey(key);
+    } catch (error) {
+        console.error('Setting default provider key failed:', error);
+        throw error;
+    }
+}
+
+// Scoped by org_id as well as id, so a key id from another organization is treated as missing
+export async function deleteProviderKey(input: ProviderKeyRefInput, actorUserId: string): Promise<void> {
+    try {
+        await db.transaction(async (tx) => {
+            const result = await tx.delete(providerKeysTable)
+                .where(and(eq(providerKeysTable.id, input.id), eq(providerKeysTable.org_id, input.org_id)))
+                .returning()
+                .execute();
+
+            if (result.length === 0) {
+                throw new Error('Provider key not found');
+            }
+
+            const deleted = result[0];
+
+            // Keep a default for the provider while any key remains
+            if (deleted.is_default) {
+                const remaining = await tx.select({ id: providerKeysTable.id })
+                    .from(providerKeysTable)
+                    .where(and(eq(providerKeysTable.org_id, input.org_id), eq(providerKeysTable.provider, deleted.provider)))
+                    .orderBy(desc(providerKeysTable.created_at))
+                    .limit(1)
+                    .execute();
+
+                if (remaining.length > 0) {
+                    await tx.update(providerKeysTable)
+                        .set({ is_default: true })
+                        .where(eq(providerKeysTable.id, remaining[0].id))
+                        .execute();
+                }
+            }
+
+            await logAuditEvent(input.org_id, actorUserId, 'provider_key.delete', 'provider_key', input.id, {
+                provider: deleted.provider,
+                label: deleted.label
+            }, tx);
+        });
+    } catch (error) {
+        console.error('Provider key deletion failed:', error);
+        throw error;
+    }
 }
 
-export async function getProviderKey(orgId: string, provider: string): Promise<ProviderKey | null> {
-    // This is a placeholder declaration! Real code should be implemented here.
-    // The goal of this handler is fetching a specific provider key for API calls.
-    return null;
+// Server-side only: the plaintext key must never be sent to clients
+export async function decryptProviderKey(keyId: string): Promise<string> {
+    try {
+        const result = await db.select()
+            .from(providerKeysTable)
+            .where(eq(providerKeysTable.id, keyId))
+            .execute();
+
+        if (result.length === 0) {
+            throw new Error('Provider key not found');
+        }
+
+        const row = result[0];
+        return decryptSecret({
+            ciphertext: row.encrypted_api_key,
+            encrypted_data_key: row.encrypted_data_key,
+            master_key_id: row.master_key_id
+        }, getEncryptionContext(row.id));
+    } catch (error) {
+        console.error('Provider key decryption failed:', error);
+        throw error;
+    }
 }
 
-export async function deleteProviderKey(keyId: string): Promise<void> {
-    // This is a placeholder declaration! Real code should be implemented here.
-    // The goal of this handler is deleting a provider API key.
-    return Promise.resolve();
+// Re-wraps every data key still under an older master key; run after adding a new active key,
+// then drop the old key from MASTER_ENCRYPTION_KEYS once this reports nothing left to rotate
+export async function rotateProviderKeyEncryption(): Promise<number> {
+    try {
+        const activeKeyId = getActiveMasterKeyId();
+        const stale = await db.select()
+            .from(providerKeysTable)
+            .where(ne(providerKeysTable.master_key_id, activeKeyId))
+            .execute();
+
+        for (const row of stale) {
+            const rewrapped = rewrapDataKey({
+                ciphertext: row.encrypted_api_key,
+                encrypted_data_key: row.encrypted_data_key,
+                master_key_id: row.master_key_id
+            });
+
+            await db.update(providerKeysTable)
+                .set(rewrapped)
+                .where(eq(providerKeysTable.id, row.id))
+                .execute();
+        }
+
+        return stale.length;
+    } catch (error) {
+        console.error('Provider key rotation failed:', error);
+        throw error;
+    }
 }
 
-export async function decryptProviderKey(encryptedKey: string): Promise<string> {
-    // This is a placeholder declaration! Real code should be implemented here.
-    // The goal of this handler is decrypting a provider API key for use.
-    return encryptedKey.replace('encrypted_', ''); // Placeholder decryption
+// Moves rows stored under the legacy scheme onto envelope encryption. Runs before db:push, which would
+// otherwise drop them to make the envelope columns NOT NULL, so it uses raw SQL against a table that may
+// not have those columns yet. Safe to run repeatedly; returns the number of rows migrated.
+export async function migrateLegacyProviderKeys(): Promise<number> {
+    try {
+        return await db.transaction(async (tx) => {
+            const table = await tx.execute<{ found: boolean }>(sql`select to_regclass('provider_keys') is not null as found`);
+            if (!table.rows[0]?.found) {
+                return 0;
+            }
+
+            await tx.execute(sql`alter table provider_keys
+                add column if not exists encrypted_data_key text,
+                add column if not exists master_key_id text,
+                add column if not exists key_suffix text`);
+
+            const legacy = await tx.execute<{ id: string; encrypted_api_key: string }>(
+                sql`select id, encrypted_api_key from provider_keys where encrypted_data_key is null for update`
+            );
+
+            for (const row of legacy.rows) {
+                if (!row.encrypted_api_key.startsWith(LEGACY_KEY_PREFIX)) {
+                    throw new Error(`Provider key ${row.id} is neither envelope-encrypted nor in the legacy format`);
+                }
+
+                const apiKey = row.encrypted_api_key.slice(LEGACY_KEY_PREFIX.length);
+                const secret = encryptSecret(apiKey, getEncryptionContext(row.id));
+                await tx.execute(sql`update provider_keys set
+                    encrypted_api_key = ${secret.ciphertext},
+                    encrypted_data_key = ${secret.encrypted_data_key},
+                    master_key_id = ${secret.master_key_id},
+                    key_suffix = ${apiKey.slice(-KEY_SUFFIX_LENGTH)}
+                    where id = ${row.id}`);
+            }
+
+            return legacy.rows.length;
+        });
+    } catch (error) {
+        console.error('Legacy provider key migration failed:', error);
+        throw error;
+    }
 }
 
-export async function testProviderKey(provider: string, apiKey: string): Promise<{
+// Makes a cheap authenticated call through the provider's adapter; nothing is stored
+export async function testProviderKey(provider: ProviderType, apiKey: string): Promise<{
     valid: boolean;
     error?: string;
 }> {
-    // This is a placeholder declaration! Real code should be implemented here.
-    // The goal of this handler is testing if a provider API key is valid.
-    return Promise.resolve({
-        valid: true
-    });
-}
\ No newline at end of file
+    try {
+        return await getProviderAdapter(provider).verifyKey(apiKey);
+    } catch (error) {
+        console.error('Provider key test failed:', error);
+        throw error;
+    }
+}
@@ -0,0 +1,295 @@
+import { db, type DbExecutor } from '../db';
+import { organizationsTable, rateLimitOverridesTable, rateLimitBucketsTable, modelCallLeasesTable } from '../db/schema';
+import {
+  type OrganizationPlan,
+  type RateLimits,
+  type RateLimitSettings,
+  type UpsertRateLimitOverridesInput
+} from '../schema';
+import { logAuditEvent } from './audit';
+import { TRPCError } from '@trpc/server';
+import { type ServerResponse } from 'http';
+import { eq, and, lte, count, sql } from 'drizzle-orm';
+import { nanoid } from 'nanoid';
+
+// Leases of calls that crashed or whose streams were abandoned stop counting after this long
+const MODEL_CALL_LEASE_TTL_MS = 10 * 60 * 1000;
+
+// Limits for orgs without overrides; each bucket holds a minute's worth of requests
+export const PLAN_RATE_LIMITS: Record<OrganizationPlan, RateLimitSettings> = {
+  free: {
+    org_requests_per_minute: 60,
+    api_key_requests_per_minute: 60,
+    pipeline_requests_per_minute: 30,
+    max_concurrent_model_calls: 2,
+  },
+  pro: {
+    org_requests_per_minute: 600,
+    api_key_requests_per_minute: 300,
+    pipeline_requests_per_minute: 300,
+    max_concurrent_model_calls: 10,
+  },
+  enterprise: {
+    org_requests_per_minute: 3000,
+    api_key_requests_per_minute: 1500,
+    pipeline_requests_per_minute: 1500,
+    max_concurrent_model_calls: 50,
+  },
+};
+
+const RATE_LIMIT_FIELDS = [
+  'org_requests_per_minute',
+  'api_key_requests_per_minute',
+  'pipeline_requests_per_minute',
+  'max_concurrent_model_calls',
+] as const;
+
+// What a call counts against: always its org, plus the API key and pipeline endpoint when it has them
+export interface RateLimitSubjects {
+  orgId: string;
+  apiKeyId?: string | null;
+  pipelineSlug?: string | null;
+}
+
+// The tightest bucket after a call; resetSeconds is how long until it is full again
+export interface RateLimitStatus {
+  limit: number;
+  remaining: number;
+  resetSeconds: number;
+}
+
+// A TRPCError so tRPC answers 429 wherever it is thrown; status is null for concurrency caps
+export class RateLimitError extends TRPCError {
+  constructor(message: string, readonly status: RateLimitStatus | null, readonly retryAfterSeconds: number) {
+    super({ code: 'TOO_MANY_REQUESTS', message });
+    this.name = 'RateLimitError';
+  }
+}
+
+interface RateLimitBucket {
+  key: string;
+  label: string;
+  requestsPerMinute: number;
+}
+
+type RateLimitOverrideRow = typeof rateLimitOverridesTable.$inferSelect;
+
+function toRateLimits(orgId: string, plan: OrganizationPlan, row: RateLimitOverrideRow | null): RateLimits {
+  const defaults = PLAN_RATE_LIMITS[plan];
+  const limits = { ...defaults };
+  const overrides: RateLimits['overrides'] = {
+    org_requests_per_minute: null,
+    api_key_requests_per_minute: null,
+    pipeline_requests_per_minute: null,
+    max_concurrent_model_calls: null,
+  };
+
+  for (const field of RATE_LIMIT_FIELDS) {
+    overrides[field] = row?.[field] ?? null;
+    limits[field] = row?.[field] ?? defaults[field];
+  }
+
+  return { org_id: orgId, plan, defaults, overrides, limits, updated_at: row?.updated_at ?? null };
+}
+
+function getBuckets(subjects: RateLimitSubjects, limits: RateLimitSettings): RateLimitBucket[] {
+  const buckets: RateLimitBucket[] = [
+    { key: `org:${subjects.orgId}`, label: 'Organization', requestsPerMinute: limits.org_requests_per_minute },
+  ];
+  if (subjects.apiKeyId) {
+    buckets.push({ key: `api_key:${subjects.apiKeyId}`, label: 'API key', requestsPerMinute: limits.api_key_requests_per_minute });
+  }
+  if (subjects.pipelineSlug) {
+    buckets.push({
+      key: `pipeline:${subjects.orgId}:${subjects.pipelineSlug}`,
+      label: 'Pipeline',
+      requestsPerMinute: limits.pipeline_requests_per_minute,
+    });
+  }
+  return buckets;
+}
+
+// Refills the bucket for the time since its last update and takes a token in one statement, so
+// concurrent requests cannot both spend the last one. Timestamps come from the database clock.
+async function takeToken(executor: DbExecutor, bucket: RateLimitBucket): Promise<RateLimitStatus> {
+  const capacity = bucket.requestsPerMinute;
+  const perSecond = capacity / 60;
+  const refilled = sql<number>`least(
+    ${capacity}::double precision,
+    ${rateLimitBucketsTable.tokens} + greatest(extract(epoch from now() - ${rateLimitBucketsTable.updated_at}), 0) * ${perSecond}::double precision
+  )`;
+
+  const taken = await executor.insert(rateLimitBucketsTable)
+    .values({ key: bucket.key, tokens: capacity - 1, updated_at: sql`now()` })
+    .onConflictDoUpdate({
+      target: rateLimitBucketsTable.key,
+      set: { tokens: sql`${refilled} - 1`, updated_at: sql`now()` },
+      setWhere: sql`${refilled} >= 1`,
+    })
+    .returning({ tokens: rateLimitBucketsTable.tokens })
+    .execute();
+
+  if (taken.length > 0) {
+    const tokens = taken[0].tokens;
+    return { limit: capacity, remaining: Math.floor(tokens), resetSeconds: Math.ceil((capacity - tokens) / perSecond) };
+  }
+
+  const current = await executor.select({ tokens: refilled })
+    .from(rateLimitBucketsTable)
+    .where(eq(rateLimitBucketsTable.key, bucket.key))
+    .execute();
+  const tokens = current[0]?.tokens ?? 0;
+  throw new RateLimitError(
+    `${bucket.label} rate limit of ${capacity} requests per minute exceeded`,
+    { limit: capacity, remaining: 0, resetSeconds: Math.ceil((capacity - tokens) / perSecond) },
+    Math.max(1, Math.ceil((1 - tokens) / perSecond))
+  );
+}
+
+export async function getRateLimits(orgId: string): Promise<RateLimits> {
+  try {
+    const rows = await db.select({ plan: organizationsTable.plan, overrides: rateLimitOverridesTable })
+      .from(organizationsTable)
+      .leftJoin(rateLimitOverridesTable, eq(rateLimitOverridesTable.org_id, organizationsTable.id))
+      .where(eq(organizationsTable.id, orgId))
+      .execute();
+
+    if (rows.length === 0) {
+      throw new Error('Organization not found');
+    }
+
+    return toRateLimits(orgId, rows[0].plan, rows[0].overrides);
+  } catch (error) {
+    console.error('Failed to get rate limits:', error);
+    throw error;
+  }
+}
+
+export async function upsertRateLimitOverrides(input: UpsertRateLimitOverridesInput, actorUserId: string): Promise<RateLimits> {
+  try {
+    const current = await getRateLimits(input.org_id);
+    const values = { ...current.overrides };
+    for (const field of RATE_LIMIT_FIELDS) {
+      const value = input[field];
+      if (value !== undefined) {
+        values[field] = value;
+      }
+    }
+
+    await db.insert(rateLimitOverridesTable)
+      .values({ org_id: input.org_id, ...values })
+      .onConflictDoUpdate({
+        target: rateLimitOverridesTable.org_id,
+        set: { ...values, updated_at: new Date() },
+      })
+      .execute();
+
+    await logAuditEvent(input.org_id, actorUserId, 'rate_limits.update', 'organization', input.org_id, values);
+
+    return await getRateLimits(input.org_id);
+  } catch (error) {
+    console.error('Rate limit update failed:', error);
+    throw error;
+  }
+}
+
+// Returns the org to its plan's defaults
+export async function deleteRateLimitOverrides(orgId: string, actorUserId: string): Promise<RateLimits> {
+  try {
+    const result = await db.delete(rateLimitOverridesTable)
+      .where(eq(rateLimitOverridesTable.org_id, orgId))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error('Rate limit overrides not found');
+    }
+
+    await logAuditEvent(orgId, actorUserId, 'rate_limits.delete', 'organization', orgId);
+
+    return await getRateLimits(orgId);
+  } catch (error) {
+    console.error('Rate limit override deletion failed:', error);
+    throw error;
+  }
+}
+
+// Takes a token from every bucket the call counts against, or from none of them when one is empty
+export async function consumeRateLimits(subjects: RateLimitSubjects): Promise<RateLimitStatus> {
+  try {
+    const { limits } = await getRateLimits(subjects.orgId);
+
+    return await db.transaction(async (tx) => {
+      const statuses: RateLimitStatus[] = [];
+      for (const bucket of getBuckets(subjects, limits)) {
+        statuses.push(await takeToken(tx, bucket));
+      }
+      return statuses.reduce((tightest, status) => status.remaining < tightest.remaining ? status : tightest);
+    });
+  } catch (error) {
+    if (!(error instanceof RateLimitError)) {
+      console.error('Rate limit check failed:', error);
+    }
+    throw error;
+  }
+}
+
+// Holds one of the org's concurrent model call slots until releaseModelCallSlot; returns the lease id
+export async function acquireModelCallSlot(orgId: string): Promise<string> {
+  try {
+    const { limits } = await getRateLimits(orgId);
+    const leaseId = nanoid();
+
+    await db.transaction(async (tx) => {
+      // Serializes acquisitions per org, so two callers cannot both take the last slot
+      await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${`model_calls:${orgId}`}))`);
+
+      await tx.delete(modelCallLeasesTable)
+        .where(and(eq(modelCallLeasesTable.org_id, orgId), lte(modelCallLeasesTable.expires_at, new Date())))
+        .execute();
+
+      const [{ inFlight }] = await tx.select({ inFlight: count() })
+        .from(modelCallLeasesTable)
+        .where(eq(modelCallLeasesTable.org_id, orgId))
+        .execute();
+
+      if (inFlight >= limits.max_concurrent_model_calls) {
+        throw new RateLimitError(`Concurrency limit of ${limits.max_concurrent_model_calls} in-flight model calls reached`, null, 1);
+      }
+
+      await tx.insert(modelCallLeasesTable)
+        .values({ id: leaseId, org_id: orgId, expires_at: new Date(Date.now() + MODEL_CALL_LEASE_TTL_MS) })
+        .execute();
+    });
+
+    return leaseId;
+  } catch (error) {
+    if (!(error instanceof RateLimitError)) {
+      console.error('Model call slot acquisition failed:', error);
+    }
+    throw error;
+  }
+}
+
+// Failures are only logged: the call itself is over, and the lease expires on its own
+export async function releaseModelCallSlot(leaseId: string): Promise<void> {
+  try {
+    await db.delete(modelCallLeasesTable)
+      .where(eq(modelCallLeasesTable.id, leaseId))
+      .execute();
+  } catch (error) {
+    console.error('Model call slot release failed:', error);
+  }
+}
+
+// RateLimit-* fields from the IETF httpapi draft, plus Retry-After once a limit is hit
+export function setRateLimitHeaders(res: ServerResponse, status: RateLimitStatus | null, retryAfterSeconds: number | null = null): void {
+  if (status) {
+    res.setHeader('RateLimit-Limit', status.limit);
+    res.setHeader('RateLimit-Remaining', status.remaining);
+    res.setHeader('RateLimit-Reset', status.resetSeconds);
+  }
+  if (retryAfterSeconds !== null) {
+    res.setHeader('Retry-After', retryAfterSeconds);
+  }
+}
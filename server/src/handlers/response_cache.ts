@@ -0,0 +1,253 @@
+import { db } from '../db';
+import { cachePoliciesTable, responseCacheTable, projectsTable } from '../db/schema';
+import { type CachePolicy, type UpsertCachePolicyInput, type ModelRequest, type ModelResponse } from '../schema';
+import { resolveModel } from './provider_adapters';
+import { logAuditEvent } from './audit';
+import { eq, and, gt, lte, desc, isNotNull } from 'drizzle-orm';
+import { createHash } from 'crypto';
+import { nanoid } from 'nanoid';
+
+// Newest entries compared against in semantic mode; older ones can still hit exactly
+const SEMANTIC_CANDIDATE_LIMIT = 500;
+
+// Used for projects that have never saved a policy
+export const DEFAULT_CACHE_POLICY: Omit<CachePolicy, 'project_id' | 'updated_at'> = {
+  ttl_seconds: 0,
+  semantic: false,
+  similarity_threshold: 0.95,
+  embedding_model: null,
+};
+
+export interface CacheKeys {
+  cacheKey: string;
+  paramsKey: string;
+}
+
+type CachePolicyRow = typeof cachePoliciesTable.$inferSelect;
+
+function toCachePolicy(row: CachePolicyRow): CachePolicy {
+  return {
+    project_id: row.project_id,
+    ttl_seconds: row.ttl_seconds,
+    semantic: row.semantic,
+    similarity_threshold: parseFloat(row.similarity_threshold),
+    embedding_model: row.embedding_model,
+    updated_at: row.updated_at,
+  };
+}
+
+// JSON with sorted keys, so equal requests hash the same however their objects were built
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function hash(value: unknown): string {
+  return createHash('sha256').update(stableStringify(value)).digest('hex');
+}
+
+export function getCacheKeys(request: ModelRequest): CacheKeys {
+  const { messages, ...params } = request;
+  return { cacheKey: hash({ messages, params }), paramsKey: hash(params) };
+}
+
+// The rendered prompt as embedded in semantic mode
+export function getPromptText(request: ModelRequest): string {
+  return request.messages.map(message => `${message.role}: ${message.content}`).join('\n');
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) {
+    return 0;
+  }
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+export async function getCachePolicy(projectId: string): Promise<CachePolicy> {
+  try {
+    const rows = await db.select()
+      .from(cachePoliciesTable)
+      .where(eq(cachePoliciesTable.project_id, projectId))
+      .execute();
+
+    return rows.length > 0
+      ? toCachePolicy(rows[0])
+      : { ...DEFAULT_CACHE_POLICY, project_id: projectId, updated_at: null };
+  } catch (error) {
+    console.error('Failed to get cache policy:', error);
+    throw error;
+  }
+}
+
+// Omitted fields keep their current value (or the default for a new policy)
+export async function upsertCachePolicy(input: UpsertCachePolicyInput, actorUserId: string): Promise<CachePolicy> {
+  try {
+    const project = await db.select({ org_id: projectsTable.org_id })
+      .from(projectsTable)
+      .where(eq(projectsTable.id, input.project_id))
+      .execute();
+
+    if (project.length === 0) {
+      throw new Error('Project not found');
+    }
+
+    const current = await getCachePolicy(input.project_id);
+    const values = {
+      ttl_seconds: input.ttl_seconds ?? current.ttl_seconds,
+      semantic: input.semantic ?? current.semantic,
+      similarity_threshold: input.similarity_threshold ?? current.similarity_threshold,
+      embedding_model: input.embedding_model !== undefined ? input.embedding_model : current.embedding_model,
+    };
+
+    if (values.semantic) {
+      if (!values.embedding_model) {
+        throw new Error('Semantic caching requires an embedding model');
+      }
+      // Fails early for model names the gateway could not route
+      resolveModel(values.embedding_model);
+    }
+
+    const row = { ...values, similarity_threshold: values.similarity_threshold.toString() };
+    const result = await db.insert(cachePoliciesTable)
+      .values({ project_id: input.project_id, ...row })
+      .onConflictDoUpdate({
+        target: cachePoliciesTable.project_id,
+        set: { ...row, updated_at: new Date() },
+      })
+      .returning()
+      .execute();
+
+    await logAuditEvent(project[0].org_id, actorUserId, 'cache_policy.update', 'project', input.project_id, values);
+
+    return toCachePolicy(result[0]);
+  } catch (error) {
+    console.error('Cache policy update failed:', error);
+    throw error;
+  }
+}
+
+export async function clearResponseCache(projectId: string, actorUserId: string): Promise<{ deleted: number }> {
+  try {
+    const project = await db.select({ org_id: projectsTable.org_id })
+      .from(projectsTable)
+      .where(eq(projectsTable.id, projectId))
+      .execute();
+
+    if (project.length === 0) {
+      throw new Error('Project not found');
+    }
+
+    const result = await db.delete(responseCacheTable)
+      .where(eq(responseCacheTable.project_id, projectId))
+      .returning({ id: responseCacheTable.id })
+      .execute();
+
+    await logAuditEvent(project[0].org_id, actorUserId, 'response_cache.clear', 'project', projectId, { deleted: result.length });
+
+    return { deleted: result.length };
+  } catch (error) {
+    console.error('Response cache clear failed:', error);
+    throw error;
+  }
+}
+
+export async function findCachedResponse(projectId: string, cacheKey: string): Promise<ModelResponse | null> {
+  try {
+    const rows = await db.select({ response: responseCacheTable.response })
+      .from(responseCacheTable)
+      .where(and(
+        eq(responseCacheTable.project_id, projectId),
+        eq(responseCacheTable.cache_key, cacheKey),
+        gt(responseCacheTable.expires_at, new Date())
+      ))
+      .orderBy(desc(responseCacheTable.created_at))
+      .limit(1)
+      .execute();
+
+    return rows.length > 0 ? rows[0].response as ModelResponse : null;
+  } catch (error) {
+    console.error('Response cache lookup failed:', error);
+    throw error;
+  }
+}
+
+// Only entries made with the same model and parameters are candidates
+export async function findSimilarCachedResponse(
+  projectId: string,
+  paramsKey: string,
+  embedding: number[],
+  threshold: number
+): Promise<ModelResponse | null> {
+  try {
+    const rows = await db.select({ response: responseCacheTable.response, embedding: responseCacheTable.embedding })
+      .from(responseCacheTable)
+      .where(and(
+        eq(responseCacheTable.project_id, projectId),
+        eq(responseCacheTable.params_key, paramsKey),
+        isNotNull(responseCacheTable.embedding),
+        gt(responseCacheTable.expires_at, new Date())
+      ))
+      .orderBy(desc(responseCacheTable.created_at))
+      .limit(SEMANTIC_CANDIDATE_LIMIT)
+      .execute();
+
+    let best: { response: ModelResponse; similarity: number } | null = null;
+    for (const row of rows) {
+      const similarity = cosineSimilarity(embedding, row.embedding as number[]);
+      if (similarity >= threshold && (!best || similarity > best.similarity)) {
+        best = { response: row.response as ModelResponse, similarity };
+      }
+    }
+    return best?.response ?? null;
+  } catch (error) {
+    console.error('Semantic response cache lookup failed:', error);
+    throw error;
+  }
+}
+
+// Also drops the project's expired entries, which keeps the table from growing without bound
+export async function storeCachedResponse(
+  projectId: string,
+  keys: CacheKeys,
+  embedding: number[] | null,
+  response: ModelResponse,
+  ttlSeconds: number
+): Promise<void> {
+  try {
+    const now = new Date();
+    await db.delete(responseCacheTable)
+      .where(and(eq(responseCacheTable.project_id, projectId), lte(responseCacheTable.expires_at, now)))
+      .execute();
+
+    await db.insert(responseCacheTable)
+      .values({
+        id: nanoid(),
+        project_id: projectId,
+        cache_key: keys.cacheKey,
+        params_key: keys.paramsKey,
+        response,
+        embedding,
+        expires_at: new Date(now.getTime() + ttlSeconds * 1000),
+      })
+      .execute();
+  } catch (error) {
+    console.error('Response cache store failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,124 @@
+import { db } from '../db';
+import { routingPoliciesTable, projectsTable, providerKeysTable } from '../db/schema';
+import { type RoutingPolicy, type RoutingTarget, type UpsertRoutingPolicyInput } from '../schema';
+import { logAuditEvent } from './audit';
+import { eq, and, inArray } from 'drizzle-orm';
+
+// Used for projects that have never saved a policy
+export const DEFAULT_ROUTING_POLICY: Omit<RoutingPolicy, 'project_id' | 'updated_at'> = {
+  fallbacks: [],
+  max_retries: 2,
+  initial_backoff_ms: 500,
+  timeout_ms: 60_000,
+  key_weights: {},
+};
+
+type RoutingPolicyRow = typeof routingPoliciesTable.$inferSelect;
+
+function toRoutingPolicy(row: RoutingPolicyRow): RoutingPolicy {
+  return {
+    project_id: row.project_id,
+    fallbacks: row.fallbacks as RoutingTarget[],
+    max_retries: row.max_retries,
+    initial_backoff_ms: row.initial_backoff_ms,
+    timeout_ms: row.timeout_ms,
+    key_weights: row.key_weights as Record<string, number>,
+    updated_at: row.updated_at,
+  };
+}
+
+async function getProjectOrgId(projectId: string): Promise<string> {
+  const project = await db.select({ org_id: projectsTable.org_id })
+    .from(projectsTable)
+    .where(eq(projectsTable.id, projectId))
+    .execute();
+
+  if (project.length === 0) {
+    throw new Error('Project not found');
+  }
+  return project[0].org_id;
+}
+
+export async function getRoutingPolicy(projectId: string): Promise<RoutingPolicy> {
+  try {
+    const rows = await db.select()
+      .from(routingPoliciesTable)
+      .where(eq(routingPoliciesTable.project_id, projectId))
+      .execute();
+
+    return rows.length > 0
+      ? toRoutingPolicy(rows[0])
+      : { ...DEFAULT_ROUTING_POLICY, project_id: projectId, updated_at: null };
+  } catch (error) {
+    console.error('Failed to get routing policy:', error);
+    throw error;
+  }
+}
+
+// Omitted fields keep their current value (or the default for a new policy)
+export async function upsertRoutingPolicy(input: UpsertRoutingPolicyInput, actorUserId: string): Promise<RoutingPolicy> {
+  try {
+    const orgId = await getProjectOrgId(input.project_id);
+
+    // Weighted keys must belong to the project's organization
+    const keyIds = Object.keys(input.key_weights ?? {});
+    if (keyIds.length > 0) {
+      const keys = await db.select({ id: providerKeysTable.id })
+        .from(providerKeysTable)
+        .where(and(eq(providerKeysTable.org_id, orgId), inArray(providerKeysTable.id, keyIds)))
+        .execute();
+
+      const found = new Set(keys.map(key => key.id));
+      const unknown = keyIds.filter(id => !found.has(id));
+      if (unknown.length > 0) {
+        throw new Error(`Unknown provider keys: ${unknown.join(', ')}`);
+      }
+    }
+
+    const current = await getRoutingPolicy(input.project_id);
+    const values = {
+      fallbacks: input.fallbacks ?? current.fallbacks,
+      max_retries: input.max_retries ?? current.max_retries,
+      initial_backoff_ms: input.initial_backoff_ms ?? current.initial_backoff_ms,
+      timeout_ms: input.timeout_ms ?? current.timeout_ms,
+      key_weights: input.key_weights ?? current.key_weights,
+    };
+
+    const result = await db.insert(routingPoliciesTable)
+      .values({ project_id: input.project_id, ...values })
+      .onConflictDoUpdate({
+        target: routingPoliciesTable.project_id,
+        set: { ...values, updated_at: new Date() },
+      })
+      .returning()
+      .execute();
+
+    await logAuditEvent(orgId, actorUserId, 'routing_policy.update', 'project', input.project_id, values);
+
+    return toRoutingPolicy(result[0]);
+  } catch (error) {
+    console.error('Routing policy update failed:', error);
+    throw error;
+  }
+}
+
+// Returns the project to the default policy
+export async function deleteRoutingPolicy(projectId: string, actorUserId: string): Promise<void> {
+  try {
+    const orgId = await getProjectOrgId(projectId);
+
+    const result = await db.delete(routingPoliciesTable)
+      .where(eq(routingPoliciesTable.project_id, projectId))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error('Routing policy not found');
+    }
+
+    await logAuditEvent(orgId, actorUserId, 'routing_policy.delete', 'project', projectId);
+  } catch (error) {
+    console.error('Routing policy deletion failed:', error);
+    throw error;
+  }
+}
@@ -1,13 +1,29 @@
 import { db } from '../db';
 import { runsTable, projectsTable, promptsTable, promptVersionsTable, experimentsTable } from '../db/schema';
 import { type CreateRunInput, type Run, type AnalyticsQueryInput } from '../schema';
-import { eq, desc, and, gte, lte, sql, SQL } from 'drizzle-orm';
+import { findModelCatalogEntry, computeModelCost } from './model_catalog';
+import { logAuditEvent } from './audit';
+import { getAccessibleProjectIds } from './authorization';
+import { eq, desc, and, gte, lte, inArray, sql, SQL } from 'drizzle-orm';
+
+// Flags createRun derives itself; callers of the public runs.create route may not set them
+const RESERVED_RUN_FLAGS = ['cache_hit', 'cost_source', 'saved_cost_usd'];
 
 // Generate a unique ID for runs
 function generateRunId(): string {
   return `run_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 }
 
+// For runs reported through the API: only the server's own model calls may mark cache hits or cost sources
+export function withoutReservedRunFlags(input: CreateRunInput): CreateRunInput {
+  if (!input.flags) {
+    return input;
+  }
+
+  const flags = Object.fromEntries(Object.entries(input.flags).filter(([key]) => !RESERVED_RUN_FLAGS.includes(key)));
+  return { ...input, flags };
+}
+
 export async function createRun(input: CreateRunInput): Promise<Run> {
   try {
     // Verify that referenced entities exist
@@ -16,41 +32,76 @@ export async function createRun(input: CreateRunInput): Promise<Run> {
       throw new Error(`Project with id ${input.project_id} not found`);
     }
 
-    const prompt = await db.select().from(promptsTable).where(eq(promptsTable.id, input.prompt_id)).limit(1).execute();
-    if (prompt.length === 0) {
-      throw new Error(`Prompt with id ${input.prompt_id} not found`);
+    // Prompt and version are optional for calls that are not linked to a prompt. Anything referenced
+    // must belong to the run's project (and the version to the prompt), or it counts as not found.
+    if (input.prompt_id) {
+      const prompt = await db.select()
+        .from(promptsTable)
+        .where(and(eq(promptsTable.id, input.prompt_id), eq(promptsTable.project_id, input.project_id)))
+        .limit(1)
+        .execute();
+      if (prompt.length === 0) {
+        throw new Error(`Prompt with id ${input.prompt_id} not found`);
+      }
     }
 
-    const version = await db.select().from(promptVersionsTable).where(eq(promptVersionsTable.id, input.version_id)).limit(1).execute();
-    if (version.length === 0) {
-      throw new Error(`Prompt version with id ${input.version_id} not found`);
+    if (input.version_id) {
+      const version = await db.select({ prompt_id: promptVersionsTable.prompt_id })
+        .from(promptVersionsTable)
+        .innerJoin(promptsTable, eq(promptVersionsTable.prompt_id, promptsTable.id))
+        .where(and(eq(promptVersionsTable.id, input.version_id), eq(promptsTable.project_id, input.project_id)))
+        .limit(1)
+        .execute();
+      if (version.length === 0 || (input.prompt_id && version[0].prompt_id !== input.prompt_id)) {
+        throw new Error(`Prompt version with id ${input.version_id} not found`);
+      }
     }
 
     // Verify experiment exists if provided
     if (input.experiment_id) {
-      const experiment = await db.select().from(experimentsTable).where(eq(experimentsTable.id, input.experiment_id)).limit(1).execute();
+      const experiment = await db.select({ id: experimentsTable.id })
+        .from(experimentsTable)
+        .innerJoin(promptsTable, eq(experimentsTable.prompt_id, promptsTable.id))
+        .where(and(eq(experimentsTable.id, input.experiment_id), eq(promptsTable.project_id, input.project_id)))
+        .limit(1)
+        .execute();
       if (experiment.length === 0) {
         throw new Error(`Experiment with id ${input.experiment_id} not found`);
       }
     }
 
+    // Price the run from the catalog unless the caller supplied a cost; cost_source lets
+    // recomputeRunCosts find derived costs again after a price change. Cache hits are free, and
+    // record what the call would have cost instead.
+    let costUsd = input.cost_usd;
+    let flags = input.flags || {};
+    if (flags['cache_hit'] === true) {
+      const entry = await findModelCatalogEntry(project[0].org_id, input.model);
+      costUsd = 0;
+      flags = { ...flags, cost_source: 'cache', saved_cost_usd: entry ? computeModelCost(entry, input.tokens_in, input.tokens_out) : 0 };
+    } else if (costUsd === undefined) {
+      const entry = await findModelCatalogEntry(project[0].org_id, input.model);
+      costUsd = entry ? computeModelCost(entry, input.tokens_in, input.tokens_out) : 0;
+      flags = { ...flags, cost_source: entry ? 'catalog' : 'unpriced' };
+    }
+
     // Insert run record
     const result = await db.insert(runsTable)
       .values({
         id: generateRunId(),
         project_id: input.project_id,
-        prompt_id: input.prompt_id,
-        version_id: input.version_id,
+        prompt_id: input.prompt_id || null,
+        version_id: input.version_id || null,
         experiment_id: input.experiment_id || null,
         model: input.model,
         input: input.input,
         output: input.output,
         tokens_in: input.tokens_in,
         tokens_out: input.tokens_out,
-        cost_usd: input.cost_usd.toString(), // Convert number to string for numeric column
+        cost_usd: costUsd.toString(), // Convert number to string for numeric column
         latency_ms: input.latency_ms,
         success: input.success,
-        flags: input.flags || {}
+        flags
       })
       .returning()
       .execute();
@@ -118,12 +169,16 @@ export async function getRunsByProjectId(projectId: string, limit: number = 50):
   }
 }
 
-export async function getAnalytics(input: AnalyticsQueryInput): Promise<{
+// With a userId, only runs of the projects that user can access (see getEffectiveProjectRole)
+export async function getAnalytics(input: AnalyticsQueryInput, userId?: string): Promise<{
   totalRuns: number;
   totalTokens: number;
   totalCost: number;
   avgLatency: number;
   successRate: number;
+  fallbackRate: number;
+  cacheHitRate: number;
+  cacheSavings: number;
   runsByModel: Record<string, number>;
   costByDay: Array<{ date: string; cost: number }>;
 }> {
@@ -141,6 +196,10 @@ export async function getAnalytics(input: AnalyticsQueryInput): Promise<{
       conditions.push(eq(runsTable.project_id, input.project_id));
     }
 
+    if (userId) {
+      conditions.push(inArray(runsTable.project_id, await getAccessibleProjectIds(userId, input.org_id)));
+    }
+
     if (input.start_date) {
       conditions.push(gte(runsTable.created_at, input.start_date));
     }
@@ -168,6 +227,20 @@ export async function getAnalytics(input: AnalyticsQueryInput): Promise<{
     const successfulRuns = runs.filter(run => run.runs.success).length;
     const successRate = runs.length > 0 ? (successfulRuns / runs.length) * 100 : 0;
 
+    // Share of gateway-routed runs (those with recorded attempts) that were served by a fallback target
+    const flagsOf = (run: typeof runs[number]) => run.runs.flags as Record<string, unknown>;
+    const routedRuns = runs.filter(run => {
+      const attempts = flagsOf(run)['attempts'];
+      return Array.isArray(attempts) && attempts.length > 0;
+    });
+    const fallbackRuns = routedRuns.filter(run => flagsOf(run)['fallback'] === true).length;
+    const fallbackRate = routedRuns.length > 0 ? (fallbackRuns / routedRuns.length) * 100 : 0;
+
+    // Cache hits cost nothing; their saved_cost_usd is what the provider call would have cost
+    const cacheHits = runs.filter(run => flagsOf(run)['cache_hit'] === true);
+    const cacheHitRate = runs.length > 0 ? (cacheHits.length / runs.length) * 100 : 0;
+    const cacheSavings = cacheHits.reduce((sum, run) => sum + (Number(flagsOf(run)['saved_cost_usd']) || 0), 0);
+
     // Group runs by model
     const runsByModel: Record<string, number> = {};
     runs.forEach(run => {
@@ -193,6 +266,9 @@ export async function getAnalytics(input: AnalyticsQueryInput): Promise<{
       totalCost,
       avgLatency: Math.round(avgLatency),
       successRate: Math.round(successRate * 100) / 100,
+      fallbackRate: Math.round(fallbackRate * 100) / 100,
+      cacheHitRate: Math.round(cacheHitRate * 100) / 100,
+      cacheSavings: Math.round(cacheSavings * 1e6) / 1e6,
       runsByModel,
       costByDay
     };
@@ -202,7 +278,8 @@ export async function getAnalytics(input: AnalyticsQueryInput): Promise<{
   }
 }
 
-export async function exportRunsData(input: AnalyticsQueryInput, format: 'csv' | 'json'): Promise<string> {
+// With a userId, only runs of the projects that user can access (see getEffectiveProjectRole)
+export async function exportRunsData(input: AnalyticsQueryInput, format: 'csv' | 'json', userId?: string): Promise<string> {
   try {
     // Build the base query with conditions
     let query = db.select().from(runsTable);
@@ -217,6 +294,10 @@ export async function exportRunsData(input: AnalyticsQueryInput, format: 'csv' |
       conditions.push(eq(runsTable.project_id, input.project_id));
     }
 
+    if (userId) {
+      conditions.push(inArray(runsTable.project_id, await getAccessibleProjectIds(userId, input.org_id)));
+    }
+
     if (input.start_date) {
       conditions.push(gte(runsTable.created_at, input.start_date));
     }
@@ -243,8 +324,8 @@ export async function exportRunsData(input: AnalyticsQueryInput, format: 'csv' |
         return [
           run.id,
           run.project_id,
-          run.prompt_id,
-          run.version_id,
+          run.prompt_id || '',
+          run.version_id || '',
           run.experiment_id || '',
           run.model,
           run.tokens_in,
@@ -272,4 +353,67 @@ export async function exportRunsData(input: AnalyticsQueryInput, format: 'csv' |
     console.error('Failed to export runs data:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
+
+// Re-prices runs whose cost came from the catalog (or had no price yet) at current catalog prices.
+// Costs supplied by the caller and cache hits (which stay free) are left alone.
+export async function recomputeRunCosts(input: AnalyticsQueryInput, actorUserId: string): Promise<{ updated: number }> {
+  try {
+    const conditions: SQL<unknown>[] = [
+      inArray(runsTable.project_id, db.select({ id: projectsTable.id }).from(projectsTable).where(eq(projectsTable.org_id, input.org_id))),
+      sql`${runsTable.flags}->>'cost_source' in ('catalog', 'unpriced')`
+    ];
+
+    if (input.project_id) {
+      conditions.push(eq(runsTable.project_id, input.project_id));
+    }
+
+    if (input.start_date) {
+      conditions.push(gte(runsTable.created_at, input.start_date));
+    }
+
+    if (input.end_date) {
+      conditions.push(lte(runsTable.created_at, input.end_date));
+    }
+
+    if (input.model) {
+      conditions.push(eq(runsTable.model, input.model));
+    }
+
+    const models = await db.selectDistinct({ model: runsTable.model })
+      .from(runsTable)
+      .where(and(...conditions))
+      .execute();
+
+    // One update per model, so the arithmetic happens in Postgres rather than row by row
+    let updated = 0;
+    for (const { model } of models) {
+      const entry = await findModelCatalogEntry(input.org_id, model);
+      const cost = entry
+        ? sql`round((${runsTable.tokens_in} * ${entry.input_price_per_1k}::numeric + ${runsTable.tokens_out} * ${entry.output_price_per_1k}::numeric) / 1000, 6)`
+        : sql`0`;
+
+      const result = await db.update(runsTable)
+        .set({
+          cost_usd: cost,
+          flags: sql`${runsTable.flags} || ${JSON.stringify({ cost_source: entry ? 'catalog' : 'unpriced' })}::jsonb`
+        })
+        .where(and(...conditions, eq(runsTable.model, model)))
+        .returning({ id: runsTable.id })
+        .execute();
+
+      updated += result.length;
+    }
+
+    await logAuditEvent(input.org_id, actorUserId, 'runs.recompute_costs', 'organization', input.org_id, {
+      project_id: input.project_id ?? null,
+      model: input.model ?? null,
+      updated
+    });
+
+    return { updated };
+  } catch (error) {
+    console.error('Run cost recomputation failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,934 @@
+import { db } from '../db';
+import {
+  usersTable,
+  organizationsTable,
+  membershipsTable,
+  scimUsersTable,
+  ssoConnectionsTable,
+  teamsTable,
+  teamMembersTable
+} from '../db/schema';
+import {
+  scimUserInputSchema,
+  scimGroupInputSchema,
+  scimPatchInputSchema,
+  type MembershipRole,
+  type ScimUserInput,
+  type ScimPatchInput
+} from '../schema';
+import { createMembership, removeMembershipRecords } from './organizations';
+import { authenticateApiKey, hasApiKeyScope } from './api_keys';
+import { revokeUserSessions } from './sessions';
+import { eq, and, ne, inArray, asc } from 'drizzle-orm';
+import { type IncomingMessage, type ServerResponse } from 'http';
+import { randomUUID } from 'crypto';
+import { nanoid } from 'nanoid';
+import { ZodError } from 'zod';
+
+export const SCIM_BASE_PATH = '/scim/v2';
+
+const USER_SCHEMA = 'urn:ietf:params:scim:schemas:core:2.0:User';
+const GROUP_SCHEMA = 'urn:ietf:params:scim:schemas:core:2.0:Group';
+const LIST_RESPONSE_SCHEMA = 'urn:ietf:params:scim:api:messages:2.0:ListResponse';
+const ERROR_SCHEMA = 'urn:ietf:params:scim:api:messages:2.0:Error';
+const SERVICE_PROVIDER_CONFIG_SCHEMA = 'urn:ietf:params:scim:schemas:core:2.0:ServiceProviderConfig';
+
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 200;
+const MAX_BODY_BYTES = 1024 * 1024;
+
+// Carries the HTTP status and SCIM error type back to handleScimRequest
+export class ScimError extends Error {
+  constructor(readonly status: number, message: string, readonly scimType?: string) {
+    super(message);
+    this.name = 'ScimError';
+  }
+}
+
+export interface ScimUser {
+  schemas: string[];
+  id: string;
+  externalId: string | null;
+  userName: string;
+  displayName: string;
+  name: { formatted: string };
+  emails: Array<{ value: string; primary: boolean }>;
+  active: boolean;
+  meta: { resourceType: 'User'; created: string; lastModified: string };
+}
+
+export interface ScimGroup {
+  schemas: string[];
+  id: string;
+  displayName: string;
+  members: Array<{ value: string; display: string }>;
+  meta: { resourceType: 'Group'; created: string; lastModified: string };
+}
+
+export interface ScimListResponse<T> {
+  schemas: string[];
+  totalResults: number;
+  startIndex: number;
+  itemsPerPage: number;
+  Resources: T[];
+}
+
+export interface ScimPage {
+  filter?: string;
+  startIndex?: number;
+  count?: number;
+}
+
+interface ScimUserChanges {
+  email?: string;
+  name?: string;
+  externalId?: string | null;
+  active?: boolean;
+}
+
+type ScimFilterClause = { path: string[]; op: string; value: unknown };
+
+// Everyone the org's SCIM client can see: current members plus users it deactivated
+interface ScimUserEntry {
+  user: typeof usersTable.$inferSelect;
+  membership: typeof membershipsTable.$inferSelect | null;
+  scim: typeof scimUsersTable.$inferSelect | null;
+}
+
+// Supports `attr op value` clauses joined with `and`, which covers what IdPs send in practice
+const FILTER_CLAUSE = /^\s*([\w.]+)\s+(eq|ne|co|sw|ew|pr)\b(?:\s+("(?:[^"\\]|\\.)*"|true|false|null|-?\d+(?:\.\d+)?))?\s*/i;
+
+function parseScimFilter(filter: string): ScimFilterClause[] {
+  const clauses: ScimFilterClause[] = [];
+  let rest = filter;
+
+  while (true) {
+    const match = rest.match(FILTER_CLAUSE);
+    const op = match?.[2]?.toLowerCase();
+    if (!match || !op || (op !== 'pr' && match[3] === undefined)) {
+      throw new ScimError(400, `Unsupported filter: ${filter}`, 'invalidFilter');
+    }
+
+    clauses.push({
+      path: match[1].toLowerCase().split('.'),
+      op,
+      value: op === 'pr' ? undefined : JSON.parse(match[3]),
+    });
+
+    rest = rest.slice(match[0].length);
+    if (rest.length === 0) {
+      return clauses;
+    }
+
+    const joiner = rest.match(/^and\s+/i);
+    if (!joiner) {
+      throw new ScimError(400, `Unsupported filter: ${filter}`, 'invalidFilter');
+    }
+    rest = rest.slice(joiner[0].length);
+  }
+}
+
+// Collects the values at a path, flattening multi-valued attributes; attribute names are case-insensitive
+function getAttributeValues(resource: unknown, path: string[]): unknown[] {
+  if (Array.isArray(resource)) {
+    return resource.flatMap(item => getAttributeValues(item, path));
+  }
+  if (path.length === 0) {
+    return resource === undefined || resource === null ? [] : [resource];
+  }
+  if (typeof resource !== 'object' || resource === null) {
+    return [];
+  }
+
+  const key = Object.keys(resource).find(candidate => candidate.toLowerCase() === path[0]);
+  return key ? getAttributeValues((resource as Record<string, unknown>)[key], path.slice(1)) : [];
+}
+
+function matchesClause(resource: object, clause: ScimFilterClause): boolean {
+  const values = getAttributeValues(resource, clause.path);
+  if (clause.op === 'pr') {
+    return values.length > 0;
+  }
+
+  const expected = typeof clause.value === 'string' ? clause.value.toLowerCase() : clause.value;
+  const matches = values.some(value => {
+    const actual = typeof value === 'string' ? value.toLowerCase() : value;
+    switch (clause.op) {
+      case 'eq':
+      case 'ne':
+        return actual === expected;
+      case 'co':
+        return typeof actual === 'string' && actual.includes(String(expected));
+      case 'sw':
+        return typeof actual === 'string' && actual.startsWith(String(expected));
+      case 'ew':
+        return typeof actual === 'string' && actual.endsWith(String(expected));
+      default:
+        return false;
+    }
+  });
+
+  return clause.op === 'ne' ? !matches : matches;
+}
+
+function toListResponse<T extends object>(resources: T[], page: ScimPage): ScimListResponse<T> {
+  const clauses = page.filter ? parseScimFilter(page.filter) : [];
+  const matching = resources.filter(resource => clauses.every(clause => matchesClause(resource, clause)));
+
+  const startIndex = Math.max(1, page.startIndex ?? 1);
+  const count = Math.min(Math.max(0, page.count ?? DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE);
+  const pageResources = matching.slice(startIndex - 1, startIndex - 1 + count);
+
+  return {
+    schemas: [LIST_RESPONSE_SCHEMA],
+    totalResults: matching.length,
+    startIndex,
+    itemsPerPage: pageResources.length,
+    Resources: pageResources,
+  };
+}
+
+function toScimUser(entry: ScimUserEntry): ScimUser {
+  const lastModified = entry.scim?.updated_at ?? entry.membership?.created_at ?? entry.user.created_at;
+
+  return {
+    schemas: [USER_SCHEMA],
+    id: entry.user.id,
+    externalId: entry.scim?.external_id ?? null,
+    userName: entry.user.email,
+    displayName: entry.user.name,
+    name: { formatted: entry.user.name },
+    emails: [{ value: entry.user.email, primary: true }],
+    active: entry.membership !== null,
+    meta: {
+      resourceType: 'User',
+      created: entry.user.created_at.toISOString(),
+      lastModified: lastModified.toISOString(),
+    },
+  };
+}
+
+async function getScimUserEntries(orgId: string, userId?: string): Promise<ScimUserEntry[]> {
+  const members = await db.select()
+    .from(membershipsTable)
+    .innerJoin(usersTable, eq(membershipsTable.user_id, usersTable.id))
+    .where(userId
+      ? and(eq(membershipsTable.org_id, orgId), eq(membershipsTable.user_id, userId))
+      : eq(membershipsTable.org_id, orgId))
+    .orderBy(asc(membershipsTable.created_at))
+    .execute();
+
+  const provisioned = await db.select()
+    .from(scimUsersTable)
+    .innerJoin(usersTable, eq(scimUsersTable.user_id, usersTable.id))
+    .where(userId
+      ? and(eq(scimUsersTable.org_id, orgId), eq(scimUsersTable.user_id, userId))
+      : eq(scimUsersTable.org_id, orgId))
+    .orderBy(asc(scimUsersTable.created_at))
+    .execute();
+
+  const entries = new Map<string, ScimUserEntry>();
+  for (const row of members) {
+    entries.set(row.users.id, { user: row.users, membership: row.memberships, scim: null });
+  }
+  for (const row of provisioned) {
+    const entry = entries.get(row.users.id);
+    if (entry) {
+      entry.scim = row.scim_users;
+    } else {
+      entries.set(row.users.id, { user: row.users, membership: null, scim: row.scim_users });
+    }
+  }
+
+  return [...entries.values()];
+}
+
+async function getScimUserEntryOrThrow(orgId: string, userId: string): Promise<ScimUserEntry> {
+  const entries = await getScimUserEntries(orgId, userId);
+  if (entries.length === 0) {
+    throw new ScimError(404, 'User not found');
+  }
+  return entries[0];
+}
+
+// New SCIM members get the same role SSO would give them
+async function getProvisioningRole(orgId: string): Promise<MembershipRole> {
+  const connection = await db.select({ defaultRole: ssoConnectionsTable.default_role })
+    .from(ssoConnectionsTable)
+    .where(eq(ssoConnectionsTable.org_id, orgId))
+    .execute();
+
+  return connection[0]?.defaultRole ?? 'viewer';
+}
+
+async function addProvisionedMembership(orgId: string, userId: string): Promise<void> {
+  try {
+    await createMembership({ org_id: orgId, user_id: userId, role: await getProvisioningRole(orgId) });
+  } catch (error) {
+    if (error instanceof Error && error.message.startsWith('Seat limit reached')) {
+      throw new ScimError(409, error.message);
+    }
+    throw error;
+  }
+}
+
+async function upsertScimUserRow(orgId: string, userId: string, values: { external_id?: string | null; active?: boolean }): Promise<void> {
+  await db.insert(scimUsersTable)
+    .values({ org_id: orgId, user_id: userId, ...values })
+    .onConflictDoUpdate({
+      target: [scimUsersTable.org_id, scimUsersTable.user_id],
+      set: { ...values, updated_at: new Date() },
+    })
+    .execute();
+}
+
+async function deactivateScimUser(orgId: string, entry: ScimUserEntry): Promise<void> {
+  if (entry.membership) {
+    const org = await db.select({ ownerUserId: organizationsTable.owner_user_id })
+      .from(organizationsTable)
+      .where(eq(organizationsTable.id, orgId))
+      .execute();
+
+    if (org[0]?.ownerUserId === entry.user.id) {
+      throw new ScimError(400, 'The organization owner cannot be deprovisioned; transfer ownership first', 'mutability');
+    }
+
+    const membership = entry.membership;
+    await db.transaction(async (tx) => {
+      await removeMembershipRecords(membership, tx);
+    });
+  }
+
+  await upsertScimUserRow(orgId, entry.user.id, { active: false });
+  await revokeUserSessions(entry.user.id);
+}
+
+// Email is the login identity, so it may only be changed for accounts this org alone manages
+async function assertEmailChangeAllowed(orgId: string, entry: ScimUserEntry, email: string): Promise<void> {
+  if (!entry.scim) {
+    throw new ScimError(400, 'Only users provisioned through SCIM can have their email changed', 'mutability');
+  }
+
+  const otherMemberships = await db.select({ id: membershipsTable.id })
+    .from(membershipsTable)
+    .where(and(
+      eq(membershipsTable.user_id, entry.user.id),
+      ne(membershipsTable.org_id, orgId)
+    ))
+    .execute();
+
+  if (otherMemberships.length > 0) {
+    throw new ScimError(400, 'This user belongs to other organizations; their email cannot be changed here', 'mutability');
+  }
+
+  const taken = await db.select({ id: usersTable.id })
+    .from(usersTable)
+    .where(eq(usersTable.email, email))
+    .execute();
+
+  if (taken.length > 0) {
+    throw new ScimError(409, 'Another account already uses this email', 'uniqueness');
+  }
+}
+
+async function applyScimUserChanges(orgId: string, entry: ScimUserEntry, changes: ScimUserChanges): Promise<ScimUser> {
+  const userValues: Partial<typeof usersTable.$inferInsert> = {};
+
+  if (changes.email !== undefined && changes.email.toLowerCase() !== entry.user.email.toLowerCase()) {
+    await assertEmailChangeAllowed(orgId, entry, changes.email);
+    userValues.email = changes.email;
+  }
+  if (changes.name !== undefined && changes.name !== entry.user.name) {
+    userValues.name = changes.name;
+  }
+  if (Object.keys(userValues).length > 0) {
+    await db.update(usersTable)
+      .set(userValues)
+      .where(eq(usersTable.id, entry.user.id))
+      .execute();
+  }
+
+  if (changes.active === false && entry.membership) {
+    await deactivateScimUser(orgId, entry);
+  } else if (changes.active === true && !entry.membership) {
+    await addProvisionedMembership(orgId, entry.user.id);
+  }
+
+  await upsertScimUserRow(orgId, entry.user.id, {
+    ...(changes.externalId !== undefined ? { external_id: changes.externalId } : {}),
+    ...(changes.active !== undefined ? { active: changes.active } : {}),
+  });
+
+  return toScimUser(await getScimUserEntryOrThrow(orgId, entry.user.id));
+}
+
+function getUserInputEmail(input: ScimUserInput): string {
+  const email = input.emails?.find(item => item.primary)?.value ?? input.emails?.[0]?.value ?? input.userName;
+  if (!/^[^\s@]+@[^\s@]+$/.test(email)) {
+    throw new ScimError(400, 'userName or emails must contain an email address', 'invalidValue');
+  }
+  return email.toLowerCase();
+}
+
+function getUserInputName(input: ScimUserInput, fallback: string): string {
+  const composed = [input.name?.givenName, input.name?.familyName].filter(Boolean).join(' ');
+  return input.displayName || input.name?.formatted || composed || fallback;
+}
+
+// Azure AD sends booleans as "True"/"False"
+function toBoolean(value: unknown): boolean {
+  if (typeof value === 'string') {
+    return value.toLowerCase() === 'true';
+  }
+  return Boolean(value);
+}
+
+function toUserChanges(attributes: Record<string, unknown>): ScimUserChanges {
+  const changes: ScimUserChanges = {};
+
+  for (const [attribute, value] of Object.entries(attributes)) {
+    const path = attribute.toLowerCase();
+
+    if (path === 'active') {
+      changes.active = toBoolean(value);
+    } else if (path === 'username' || path.startsWith('emails')) {
+      const email = Array.isArray(value)
+        ? (value.find(item => item?.primary)?.value ?? value[0]?.value)
+        : value;
+      if (typeof email === 'string') {
+        changes.email = email.toLowerCase();
+      }
+    } else if (path === 'displayname' || path === 'name.formatted') {
+      if (typeof value === 'string') {
+        changes.name = value;
+      }
+    } else if (path === 'name' && typeof value === 'object' && value !== null && 'formatted' in value) {
+      if (typeof value.formatted === 'string') {
+        changes.name = value.formatted;
+      }
+    } else if (path === 'externalid') {
+      changes.externalId = typeof value === 'string' ? value : null;
+    }
+  }
+
+  return changes;
+}
+
+export async function listScimUsers(orgId: string, page: ScimPage = {}): Promise<ScimListResponse<ScimUser>> {
+  try {
+    const entries = await getScimUserEntries(orgId);
+    return toListResponse(entries.map(toScimUser), page);
+  } catch (error) {
+    console.error('SCIM user listing failed:', error);
+    throw error;
+  }
+}
+
+export async function getScimUser(orgId: string, userId: string): Promise<ScimUser> {
+  try {
+    return toScimUser(await getScimUserEntryOrThrow(orgId, userId));
+  } catch (error) {
+    console.error('SCIM user fetch failed:', error);
+    throw error;
+  }
+}
+
+// Creates the account (or adopts an existing member) and adds it to the org
+export async function createScimUser(orgId: string, body: unknown): Promise<ScimUser> {
+  try {
+    const input = scimUserInputSchema.parse(body);
+    const email = getUserInputEmail(input);
+
+    const existing = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.email, email))
+      .execute();
+
+    if (existing.length > 0) {
+      const entries = await getScimUserEntries(orgId, existing[0].id);
+
+      // Like SSO, an IdP may only link accounts that already belong to the org
+      if (entries.length === 0) {
+        throw new ScimError(409, 'An account with this email already exists; invite it to the organization first', 'uniqueness');
+      }
+      if (entries[0].scim && entries[0].scim.active && entries[0].membership) {
+        throw new ScimError(409, 'User is already provisioned', 'uniqueness');
+      }
+
+      return await applyScimUserChanges(orgId, entries[0], {
+        externalId: input.externalId ?? null,
+        active: input.active ?? true,
+      });
+    }
+
+    const created = await db.insert(usersTable)
+      .values({
+        id: randomUUID(),
+        email,
+        name: getUserInputName(input, email),
+        avatar_url: null,
+      })
+      .returning()
+      .execute();
+
+    const active = input.active ?? true;
+    if (active) {
+      await addProvisionedMembership(orgId, created[0].id);
+    }
+    await upsertScimUserRow(orgId, created[0].id, { external_id: input.externalId ?? null, active });
+
+    return toScimUser(await getScimUserEntryOrThrow(orgId, created[0].id));
+  } catch (error) {
+    console.error('SCIM user creation failed:', error);
+    throw error;
+  }
+}
+
+export async function replaceScimUser(orgId: string, userId: string, body: unknown): Promise<ScimUser> {
+  try {
+    const input = scimUserInputSchema.parse(body);
+    const entry = await getScimUserEntryOrThrow(orgId, userId);
+    const email = getUserInputEmail(input);
+
+    return await applyScimUserChanges(orgId, entry, {
+      email,
+      name: getUserInputName(input, email),
+      externalId: input.externalId ?? null,
+      active: input.active ?? true,
+    });
+  } catch (error) {
+    console.error('SCIM user replace failed:', error);
+    throw error;
+  }
+}
+
+export async function patchScimUser(orgId: string, userId: string, body: unknown): Promise<ScimUser> {
+  try {
+    const { Operations } = scimPatchInputSchema.parse(body);
+    const entry = await getScimUserEntryOrThrow(orgId, userId);
+
+    const changes: ScimUserChanges = {};
+    for (const operation of Operations) {
+      if (operation.op === 'remove') {
+        if (operation.path?.toLowerCase() === 'externalid') {
+          changes.externalId = null;
+        }
+        continue;
+      }
+
+      const attributes = operation.path
+        ? { [operation.path]: operation.value }
+        : (typeof operation.value === 'object' && operation.value !== null ? operation.value as Record<string, unknown> : {});
+      Object.assign(changes, toUserChanges(attributes));
+    }
+
+    return await applyScimUserChanges(orgId, entry, changes);
+  } catch (error) {
+    console.error('SCIM user patch failed:', error);
+    throw error;
+  }
+}
+
+// Deprovisions the user from this org; the account itself is kept since it may belong to other orgs
+export async function deleteScimUser(orgId: string, userId: string): Promise<void> {
+  try {
+    const entry = await getScimUserEntryOrThrow(orgId, userId);
+
+    await deactivateScimUser(orgId, entry);
+    await db.delete(scimUsersTable)
+      .where(and(
+        eq(scimUsersTable.org_id, orgId),
+        eq(scimUsersTable.user_id, userId)
+      ))
+      .execute();
+  } catch (error) {
+    console.error('SCIM user deletion failed:', error);
+    throw error;
+  }
+}
+
+async function getScimGroups(orgId: string, teamId?: string): Promise<ScimGroup[]> {
+  const teams = await db.select()
+    .from(teamsTable)
+    .where(teamId
+      ? and(eq(teamsTable.org_id, orgId), eq(teamsTable.id, teamId))
+      : eq(teamsTable.org_id, orgId))
+    .orderBy(asc(teamsTable.name))
+    .execute();
+
+  const members = teams.length > 0
+    ? await db.select({ teamId: teamMembersTable.team_id, userId: usersTable.id, email: usersTable.email })
+      .from(teamMembersTable)
+      .innerJoin(usersTable, eq(teamMembersTable.user_id, usersTable.id))
+      .where(inArray(teamMembersTable.team_id, teams.map(team => team.id)))
+      .orderBy(asc(teamMembersTable.created_at))
+      .execute()
+    : [];
+
+  return teams.map(team => ({
+    schemas: [GROUP_SCHEMA],
+    id: team.id,
+    displayName: team.name,
+    members: members
+      .filter(member => member.teamId === team.id)
+      .map(member => ({ value: member.userId, display: member.email })),
+    meta: {
+      resourceType: 'Group',
+      created: team.created_at.toISOString(),
+      lastModified: team.created_at.toISOString(),
+    },
+  }));
+}
+
+async function getScimGroupOrThrow(orgId: string, groupId: string): Promise<ScimGroup> {
+  const groups = await getScimGroups(orgId, groupId);
+  if (groups.length === 0) {
+    throw new ScimError(404, 'Group not found');
+  }
+  return groups[0];
+}
+
+async function assertGroupNameAvailable(orgId: string, displayName: string, groupId?: string): Promise<void> {
+  const existing = await db.select({ id: teamsTable.id })
+    .from(teamsTable)
+    .where(and(
+      eq(teamsTable.org_id, orgId),
+      eq(teamsTable.name, displayName)
+    ))
+    .execute();
+
+  if (existing.some(team => team.id !== groupId)) {
+    throw new ScimError(409, 'A group with this name already exists', 'uniqueness');
+  }
+}
+
+async function assertOrgMembers(orgId: string, userIds: string[]): Promise<void> {
+  if (userIds.length === 0) {
+    return;
+  }
+
+  const members = await db.select({ userId: membershipsTable.user_id })
+    .from(membershipsTable)
+    .where(and(
+      eq(membershipsTable.org_id, orgId),
+      inArray(membershipsTable.user_id, userIds)
+    ))
+    .execute();
+
+  const memberIds = new Set(members.map(member => member.userId));
+  const missing = userIds.find(userId => !memberIds.has(userId));
+  if (missing) {
+    throw new ScimError(400, `User ${missing} is not an active member of this organization`, 'invalidValue');
+  }
+}
+
+async function addGroupMembers(orgId: string, groupId: string, userIds: string[]): Promise<void> {
+  await assertOrgMembers(orgId, userIds);
+  if (userIds.length === 0) {
+    return;
+  }
+
+  await db.insert(teamMembersTable)
+    .values([...new Set(userIds)].map(userId => ({ team_id: groupId, user_id: userId })))
+    .onConflictDoNothing()
+    .execute();
+}
+
+async function removeGroupMembers(groupId: string, userIds?: string[]): Promise<void> {
+  if (userIds && userIds.length === 0) {
+    return;
+  }
+
+  await db.delete(teamMembersTable)
+    .where(userIds
+      ? and(eq(teamMembersTable.team_id, groupId), inArray(teamMembersTable.user_id, userIds))
+      : eq(teamMembersTable.team_id, groupId))
+    .execute();
+}
+
+function toMemberIds(value: unknown): string[] {
+  const items = Array.isArray(value) ? value : [value];
+  return items
+    .map(item => (typeof item === 'object' && item !== null && 'value' in item ? item.value : undefined))
+    .filter((id): id is string => typeof id === 'string');
+}
+
+// Handles `members[value eq "id"]` paths used by Okta and Azure AD for removals
+function getMemberFilterId(path: string): string | null {
+  const match = path.match(/^members\[\s*value\s+eq\s+"([^"]+)"\s*\]$/i);
+  return match ? match[1] : null;
+}
+
+export async function listScimGroups(orgId: string, page: ScimPage = {}): Promise<ScimListResponse<ScimGroup>> {
+  try {
+    return toListResponse(await getScimGroups(orgId), page);
+  } catch (error) {
+    console.error('SCIM group listing failed:', error);
+    throw error;
+  }
+}
+
+export async function getScimGroup(orgId: string, groupId: string): Promise<ScimGroup> {
+  try {
+    return await getScimGroupOrThrow(orgId, groupId);
+  } catch (error) {
+    console.error('SCIM group fetch failed:', error);
+    throw error;
+  }
+}
+
+export async function createScimGroup(orgId: string, body: unknown): Promise<ScimGroup> {
+  try {
+    const input = scimGroupInputSchema.parse(body);
+    const memberIds = toMemberIds(input.members ?? []);
+    await assertGroupNameAvailable(orgId, input.displayName);
+    await assertOrgMembers(orgId, memberIds);
+
+    const teamId = nanoid();
+    await db.insert(teamsTable)
+      .values({ id: teamId, org_id: orgId, name: input.displayName })
+      .execute();
+    await addGroupMembers(orgId, teamId, memberIds);
+
+    return await getScimGroupOrThrow(orgId, teamId);
+  } catch (error) {
+    console.error('SCIM group creation failed:', error);
+    throw error;
+  }
+}
+
+export async function replaceScimGroup(orgId: string, groupId: string, body: unknown): Promise<ScimGroup> {
+  try {
+    const input = scimGroupInputSchema.parse(body);
+    const memberIds = toMemberIds(input.members ?? []);
+    await getScimGroupOrThrow(orgId, groupId);
+    await assertGroupNameAvailable(orgId, input.displayName, groupId);
+    await assertOrgMembers(orgId, memberIds);
+
+    await db.update(teamsTable)
+      .set({ name: input.displayName })
+      .where(eq(teamsTable.id, groupId))
+      .execute();
+    await removeGroupMembers(groupId);
+    await addGroupMembers(orgId, groupId, memberIds);
+
+    return await getScimGroupOrThrow(orgId, groupId);
+  } catch (error) {
+    console.error('SCIM group replace failed:', error);
+    throw error;
+  }
+}
+
+export async function patchScimGroup(orgId: string, groupId: string, body: unknown): Promise<ScimGroup> {
+  try {
+    const { Operations }: ScimPatchInput = scimPatchInputSchema.parse(body);
+    await getScimGroupOrThrow(orgId, groupId);
+
+    for (const operation of Operations) {
+      const path = operation.path?.toLowerCase();
+      const attributes: Record<string, unknown> = path
+        ? { [path]: operation.value }
+        : Object.fromEntries(Object.entries((operation.value ?? {}) as Record<string, unknown>)
+          .map(([key, value]) => [key.toLowerCase(), value]));
+
+      if ('displayname' in attributes && operation.op !== 'remove') {
+        const displayName = attributes['displayname'];
+        if (typeof displayName !== 'string' || displayName.length === 0) {
+          throw new ScimError(400, 'displayName must be a non-empty string', 'invalidValue');
+        }
+        await assertGroupNameAvailable(orgId, displayName, groupId);
+        await db.update(teamsTable)
+          .set({ name: displayName })
+          .where(eq(teamsTable.id, groupId))
+          .execute();
+      }
+
+      const memberFilterId = operation.path ? getMemberFilterId(operation.path) : null;
+      if (operation.op === 'remove' && memberFilterId) {
+        await removeGroupMembers(groupId, [memberFilterId]);
+      } else if ('members' in attributes) {
+        const memberIds = toMemberIds(attributes['members'] ?? []);
+        if (operation.op === 'remove') {
+          await removeGroupMembers(groupId, operation.value === undefined ? undefined : memberIds);
+        } else {
+          if (operation.op === 'replace') {
+            await assertOrgMembers(orgId, memberIds);
+            await removeGroupMembers(groupId);
+          }
+          await addGroupMembers(orgId, groupId, memberIds);
+        }
+      }
+    }
+
+    return await getScimGroupOrThrow(orgId, groupId);
+  } catch (error) {
+    console.error('SCIM group patch failed:', error);
+    throw error;
+  }
+}
+
+// Deleting a group removes the team and with it any project grants it carried
+export async function deleteScimGroup(orgId: string, groupId: string): Promise<void> {
+  try {
+    const result = await db.delete(teamsTable)
+      .where(and(
+        eq(teamsTable.org_id, orgId),
+        eq(teamsTable.id, groupId)
+      ))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new ScimError(404, 'Group not found');
+    }
+  } catch (error) {
+    console.error('SCIM group deletion failed:', error);
+    throw error;
+  }
+}
+
+function getServiceProviderConfig() {
+  return {
+    schemas: [SERVICE_PROVIDER_CONFIG_SCHEMA],
+    patch: { supported: true },
+    bulk: { supported: false, maxOperations: 0, maxPayloadSize: 0 },
+    filter: { supported: true, maxResults: MAX_PAGE_SIZE },
+    changePassword: { supported: false },
+    sort: { supported: false },
+    etag: { supported: false },
+    authenticationSchemes: [{
+      type: 'oauthbearertoken',
+      name: 'Organization API key',
+      description: 'An organization API key with the scim scope, sent as a Bearer token',
+    }],
+  };
+}
+
+function sendScimResponse(res: ServerResponse, status: number, body?: unknown): void {
+  res.statusCode = status;
+  if (body === undefined) {
+    res.end();
+    return;
+  }
+  res.setHeader('Content-Type', 'application/scim+json');
+  res.end(JSON.stringify(body));
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  let raw = '';
+  for await (const chunk of req) {
+    raw += chunk;
+    if (raw.length > MAX_BODY_BYTES) {
+      throw new ScimError(413, 'Request body too large');
+    }
+  }
+
+  try {
+    return raw.length > 0 ? JSON.parse(raw) : {};
+  } catch {
+    throw new ScimError(400, 'Request body must be JSON', 'invalidSyntax');
+  }
+}
+
+async function authenticateScimRequest(req: IncomingMessage): Promise<string> {
+  const match = req.headers.authorization?.match(/^Bearer\s+(\S+)$/i);
+  const apiKey = match ? await authenticateApiKey(match[1]) : null;
+  if (!apiKey) {
+    throw new ScimError(401, 'Invalid API key');
+  }
+
+  if (!hasApiKeyScope(apiKey, 'scim')) {
+    throw new ScimError(403, 'API key is missing the scim scope');
+  }
+
+  return apiKey.org_id;
+}
+
+function getPage(url: URL): ScimPage {
+  const startIndex = url.searchParams.get('startIndex');
+  const count = url.searchParams.get('count');
+
+  return {
+    filter: url.searchParams.get('filter') ?? undefined,
+    startIndex: startIndex ? parseInt(startIndex, 10) || 1 : undefined,
+    count: count ? parseInt(count, 10) || 0 : undefined,
+  };
+}
+
+async function routeScimRequest(req: IncomingMessage, orgId: string, url: URL): Promise<{ status: number; body?: unknown }> {
+  const [resource, id, ...rest] = url.pathname.slice(SCIM_BASE_PATH.length).split('/').filter(Boolean);
+  const route = rest.length > 0 ? null : `${req.method ?? 'GET'} ${resource ?? ''}${id ? '/:id' : ''}`;
+
+  switch (route) {
+    case 'GET ServiceProviderConfig':
+      return { status: 200, body: getServiceProviderConfig() };
+
+    case 'GET Users':
+      return { status: 200, body: await listScimUsers(orgId, getPage(url)) };
+    case 'POST Users':
+      return { status: 201, body: await createScimUser(orgId, await readJsonBody(req)) };
+    case 'GET Users/:id':
+      return { status: 200, body: await getScimUser(orgId, id) };
+    case 'PUT Users/:id':
+      return { status: 200, body: await replaceScimUser(orgId, id, await readJsonBody(req)) };
+    case 'PATCH Users/:id':
+      return { status: 200, body: await patchScimUser(orgId, id, await readJsonBody(req)) };
+    case 'DELETE Users/:id':
+      await deleteScimUser(orgId, id);
+      return { status: 204 };
+
+    case 'GET Groups':
+      return { status: 200, body: await listScimGroups(orgId, getPage(url)) };
+    case 'POST Groups':
+      return { status: 201, body: await createScimGroup(orgId, await readJsonBody(req)) };
+    case 'GET Groups/:id':
+      return { status: 200, body: await getScimGroup(orgId, id) };
+    case 'PUT Groups/:id':
+      return { status: 200, body: await replaceScimGroup(orgId, id, await readJsonBody(req)) };
+    case 'PATCH Groups/:id':
+      return { status: 200, body: await patchScimGroup(orgId, id, await readJsonBody(req)) };
+    case 'DELETE Groups/:id':
+      await deleteScimGroup(orgId, id);
+      return { status: 204 };
+
+    default:
+      throw new ScimError(404, 'Not found');
+  }
+}
+
+export function isScimRequest(req: IncomingMessage): boolean {
+  const pathname = (req.url ?? '').split('?')[0];
+  return pathname === SCIM_BASE_PATH || pathname.startsWith(`${SCIM_BASE_PATH}/`);
+}
+
+// Entry point for the HTTP server; always answers, with SCIM error bodies for failures
+export async function handleScimRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  try {
+    const orgId = await authenticateScimRequest(req);
+    const { status, body } = await routeScimRequest(req, orgId, new URL(req.url ?? '/', 'http://localhost'));
+    sendScimResponse(res, status, body);
+  } catch (error) {
+    if (error instanceof ScimError) {
+      sendScimResponse(res, error.status, {
+        schemas: [ERROR_SCHEMA],
+        status: String(error.status),
+        detail: error.message,
+        ...(error.scimType ? { scimType: error.scimType } : {}),
+      });
+      return;
+    }
+
+    if (error instanceof ZodError) {
+      sendScimResponse(res, 400, {
+        schemas: [ERROR_SCHEMA],
+        status: '400',
+        scimType: 'invalidValue',
+        detail: error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; '),
+      });
+      return;
+    }
+
+    console.error('SCIM request failed:', error);
+    sendScimResponse(res, 500, { schemas: [ERROR_SCHEMA], status: '500', detail: 'Internal server error' });
+  }
+}
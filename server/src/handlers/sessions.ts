@@ -0,0 +1,167 @@
+import { db } from '../db';
+import { sessionsTable, usersTable } from '../db/schema';
+import { type Session, type User } from '../schema';
+import { eq, and, gt, isNull } from 'drizzle-orm';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+export const SESSION_COOKIE_NAME = 'prismforge_session';
+
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+function getSessionSecret(): string {
+  const secret = process.env['SESSION_SECRET'];
+  if (!secret) {
+    throw new Error('SESSION_SECRET is not configured');
+  }
+  return secret;
+}
+
+function computeSignature(value: string): string {
+  return createHmac('sha256', getSessionSecret()).update(value).digest('base64url');
+}
+
+// Appends an HMAC signature so tokens can be checked before touching the database
+export function signToken(value: string): string {
+  return `${value}.${computeSignature(value)}`;
+}
+
+// Returns the signed value, or null when the signature does not match
+export function verifySignedToken(token: string): string | null {
+  const separatorIndex = token.lastIndexOf('.');
+  if (separatorIndex <= 0) {
+    return null;
+  }
+
+  const value = token.slice(0, separatorIndex);
+  const signature = Buffer.from(token.slice(separatorIndex + 1));
+  const expected = Buffer.from(computeSignature(value));
+
+  if (signature.length !== expected.length || !timingSafeEqual(signature, expected)) {
+    return null;
+  }
+
+  return value;
+}
+
+export async function createSession(userId: string): Promise<{ session: Session; token: string }> {
+  try {
+    const result = await db.insert(sessionsTable)
+      .values({
+        id: randomBytes(24).toString('base64url'),
+        user_id: userId,
+        expires_at: new Date(Date.now() + SESSION_TTL_MS),
+      })
+      .returning()
+      .execute();
+
+    const session = result[0];
+    return {
+      session,
+      token: signToken(session.id)
+    };
+  } catch (error) {
+    console.error('Session creation failed:', error);
+    throw error;
+  }
+}
+
+export async function getUserBySessionToken(token: string): Promise<User | null> {
+  try {
+    const sessionId = verifySignedToken(token);
+    if (!sessionId) {
+      return null;
+    }
+
+    const results = await db.select()
+      .from(sessionsTable)
+      .innerJoin(usersTable, eq(sessionsTable.user_id, usersTable.id))
+      .where(and(
+        eq(sessionsTable.id, sessionId),
+        gt(sessionsTable.expires_at, new Date()),
+        isNull(sessionsTable.revoked_at)
+      ))
+      .limit(1)
+      .execute();
+
+    return results.length > 0 ? results[0].users : null;
+  } catch (error) {
+    console.error('Session lookup failed:', error);
+    throw error;
+  }
+}
+
+export async function revokeSession(token: string): Promise<void> {
+  try {
+    const sessionId = verifySignedToken(token);
+    if (!sessionId) {
+      return;
+    }
+
+    await db.update(sessionsTable)
+      .set({ revoked_at: new Date() })
+      .where(and(
+        eq(sessionsTable.id, sessionId),
+        isNull(sessionsTable.revoked_at)
+      ))
+      .execute();
+  } catch (error) {
+    console.error('Session revocation failed:', error);
+    throw error;
+  }
+}
+
+export async function revokeUserSessions(userId: string): Promise<void> {
+  try {
+    await db.update(sessionsTable)
+      .set({ revoked_at: new Date() })
+      .where(and(
+        eq(sessionsTable.user_id, userId),
+        isNull(sessionsTable.revoked_at)
+      ))
+      .execute();
+  } catch (error) {
+    console.error('User session revocation failed:', error);
+    throw error;
+  }
+}
+
+// Bearer tokens take precedence over the session cookie
+export function getSessionTokenFromHeaders(headers: { authorization?: string; cookie?: string }): string | null {
+  const authorization = headers.authorization;
+  if (authorization && authorization.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim() || null;
+  }
+
+  if (!headers.cookie) {
+    return null;
+  }
+
+  for (const part of headers.cookie.split(';')) {
+    const [name, ...rest] = part.trim().split('=');
+    if (name === SESSION_COOKIE_NAME) {
+      return decodeURIComponent(rest.join('=')) || null;
+    }
+  }
+
+  return null;
+}
+
+export function serializeSessionCookie(token: string, expiresAt: Date): string {
+  const attributes = [
+    `${SESSION_COOKIE_NAME}=${encodeURIComponent(token)}`,
+    'Path=/',
+    'HttpOnly',
+    'SameSite=Lax',
+    `Expires=${expiresAt.toUTCString()}`
+  ];
+
+  if (process.env['NODE_ENV'] === 'production') {
+    attributes.push('Secure');
+  }
+
+  return attributes.join('; ');
+}
+
+export function serializeClearedSessionCookie(): string {
+  return serializeSessionCookie('', new Date(0));
+}
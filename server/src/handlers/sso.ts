@@ -0,0 +1,423 @@
+import { db } from '../db';
+import { ssoConnectionsTable, ssoLoginStatesTable, organizationsTable, membershipsTable, usersTable } from '../db/schema';
+import { type SsoConnection, type UpsertSsoConnectionInput, type CompleteSsoLoginInput, type User } from '../schema';
+import { createMembership } from './organizations';
+import { getAppUrl } from './mailer';
+import { encryptSecret, decryptSecret, rewrapDataKey, getActiveMasterKeyId } from './encryption';
+import { eq, ne, and, gt, isNull } from 'drizzle-orm';
+import { createHash, createPublicKey, randomBytes, randomUUID, verify, type JsonWebKey } from 'crypto';
+
+const LOGIN_STATE_TTL_MS = 10 * 60 * 1000;
+
+interface OidcDiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+type SsoConnectionRow = typeof ssoConnectionsTable.$inferSelect;
+
+function toSsoConnection(row: SsoConnectionRow): SsoConnection {
+  const { encrypted_client_secret, client_secret_data_key, client_secret_master_key_id, ...connection } = row;
+  return {
+    ...connection,
+    has_client_secret: encrypted_client_secret !== null
+  };
+}
+
+// Binds the client secret's ciphertext to its organization's connection
+function getClientSecretContext(orgId: string): string {
+  return `sso_connection:${orgId}`;
+}
+
+function decryptClientSecret(row: SsoConnectionRow): string {
+  if (!row.encrypted_client_secret || !row.client_secret_data_key || !row.client_secret_master_key_id) {
+    throw new Error('SSO connection has no client secret');
+  }
+
+  return decryptSecret({
+    ciphertext: row.encrypted_client_secret,
+    encrypted_data_key: row.client_secret_data_key,
+    master_key_id: row.client_secret_master_key_id
+  }, getClientSecretContext(row.org_id));
+}
+
+export function getSsoRedirectUri(): string {
+  return `${getAppUrl()}/sso/callback`;
+}
+
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    throw new Error(`Identity provider request to ${url} failed with status ${response.status}`);
+  }
+  return await response.json() as T;
+}
+
+async function discoverOidcConfiguration(issuer: string): Promise<OidcDiscoveryDocument> {
+  return await fetchJson<OidcDiscoveryDocument>(`${issuer.replace(/\/$/, '')}/.well-known/openid-configuration`);
+}
+
+function decodeJwtSegment(segment: string): Record<string, any> {
+  return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+}
+
+// Verifies an RS256 ID token against the provider's JWKS and returns its claims
+async function verifyIdToken(idToken: string, discovery: OidcDiscoveryDocument, clientId: string, nonce: string): Promise<Record<string, any>> {
+  const [encodedHeader, encodedPayload, encodedSignature] = idToken.split('.');
+  if (!encodedHeader || !encodedPayload || !encodedSignature) {
+    throw new Error('Malformed ID token');
+  }
+
+  const header = decodeJwtSegment(encodedHeader);
+  if (header['alg'] !== 'RS256') {
+    throw new Error(`Unsupported ID token algorithm: ${header['alg']}`);
+  }
+
+  const jwks = await fetchJson<{ keys: Array<JsonWebKey & { kid?: string }> }>(discovery.jwks_uri);
+  const jwk = jwks.keys.find(key => key.kid === header['kid']) ?? (jwks.keys.length === 1 ? jwks.keys[0] : undefined);
+  if (!jwk) {
+    throw new Error('ID token signing key not found');
+  }
+
+  const signatureValid = verify(
+    'sha256',
+    Buffer.from(`${encodedHeader}.${encodedPayload}`),
+    createPublicKey({ key: jwk, format: 'jwk' }),
+    Buffer.from(encodedSignature, 'base64url')
+  );
+  if (!signatureValid) {
+    throw new Error('Invalid ID token signature');
+  }
+
+  const claims = decodeJwtSegment(encodedPayload);
+  const audiences = Array.isArray(claims['aud']) ? claims['aud'] : [claims['aud']];
+
+  if (claims['iss'] !== discovery.issuer) {
+    throw new Error('ID token issuer mismatch');
+  }
+  if (!audiences.includes(clientId)) {
+    throw new Error('ID token audience mismatch');
+  }
+  if (typeof claims['exp'] !== 'number' || claims['exp'] * 1000 <= Date.now()) {
+    throw new Error('ID token has expired');
+  }
+  if (claims['nonce'] !== nonce) {
+    throw new Error('ID token nonce mismatch');
+  }
+  if (typeof claims['email'] !== 'string' || claims['email_verified'] === false) {
+    throw new Error('ID token does not contain a verified email');
+  }
+
+  return claims;
+}
+
+export async function upsertSsoConnection(input: UpsertSsoConnectionInput): Promise<SsoConnection> {
+  try {
+    const org = await db.select()
+      .from(organizationsTable)
+      .where(eq(organizationsTable.id, input.org_id))
+      .execute();
+
+    if (org.length === 0) {
+      throw new Error('Organization not found');
+    }
+
+    if (org[0].plan !== 'enterprise') {
+      throw new Error('Single sign-on requires the enterprise plan');
+    }
+
+    const existing = await db.select()
+      .from(ssoConnectionsTable)
+      .where(eq(ssoConnectionsTable.org_id, input.org_id))
+      .execute();
+    const current = existing[0];
+
+    const issuer = input.issuer ?? current?.issuer;
+    const clientId = input.client_id ?? current?.client_id ?? null;
+
+    // A new secret replaces the stored one; otherwise the existing ciphertext is kept as is
+    const clientSecret = input.client_secret !== undefined
+      ? encryptSecret(input.client_secret, getClientSecretContext(input.org_id))
+      : current?.encrypted_client_secret
+        ? {
+          ciphertext: current.encrypted_client_secret,
+          encrypted_data_key: current.client_secret_data_key!,
+          master_key_id: current.client_secret_master_key_id!
+        }
+        : null;
+
+    if (!issuer || !clientId || !clientSecret) {
+      throw new Error('OIDC connections require an issuer, client id and client secret');
+    }
+
+    const values = {
+      protocol: input.protocol,
+      issuer,
+      client_id: clientId,
+      encrypted_client_secret: clientSecret.ciphertext,
+      client_secret_data_key: clientSecret.encrypted_data_key,
+      client_secret_master_key_id: clientSecret.master_key_id,
+      saml_metadata: null,
+      default_role: input.default_role ?? current?.default_role ?? 'viewer',
+      sso_required: input.sso_required ?? current?.sso_required ?? false,
+    };
+
+    const result = await db.insert(ssoConnectionsTable)
+      .values({ org_id: input.org_id, ...values })
+      .onConflictDoUpdate({
+        target: ssoConnectionsTable.org_id,
+        set: { ...values, updated_at: new Date() }
+      })
+      .returning()
+      .execute();
+
+    return toSsoConnection(result[0]);
+  } catch (error) {
+    console.error('SSO connection upsert failed:', error);
+    throw error;
+  }
+}
+
+export async function getSsoConnection(orgId: string): Promise<SsoConnection | null> {
+  try {
+    const results = await db.select()
+      .from(ssoConnectionsTable)
+      .where(eq(ssoConnectionsTable.org_id, orgId))
+      .execute();
+
+    return results.length > 0 ? toSsoConnection(results[0]) : null;
+  } catch (error) {
+    console.error('Failed to get SSO connection:', error);
+    throw error;
+  }
+}
+
+export async function deleteSsoConnection(orgId: string): Promise<void> {
+  try {
+    const result = await db.delete(ssoConnectionsTable)
+      .where(eq(ssoConnectionsTable.org_id, orgId))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error('SSO connection not found');
+    }
+  } catch (error) {
+    console.error('SSO connection deletion failed:', error);
+    throw error;
+  }
+}
+
+export async function startSsoLogin(orgSlug: string): Promise<{ authorization_url: string; state: string }> {
+  try {
+    const results = await db.select()
+      .from(ssoConnectionsTable)
+      .innerJoin(organizationsTable, eq(ssoConnectionsTable.org_id, organizationsTable.id))
+      .where(and(
+        eq(organizationsTable.slug, orgSlug),
+        isNull(organizationsTable.deleted_at)
+      ))
+      .execute();
+
+    if (results.length === 0) {
+      throw new Error('SSO is not configured for this organization');
+    }
+
+    const connection = results[0].sso_connections;
+    if (connection.protocol !== 'oidc') {
+      throw new Error('SAML sign-in is not supported yet; configure an OIDC connection to sign in');
+    }
+
+    const discovery = await discoverOidcConfiguration(connection.issuer);
+
+    const state = randomBytes(24).toString('base64url');
+    const nonce = randomBytes(24).toString('base64url');
+    const codeVerifier = randomBytes(32).toString('base64url');
+    const codeChallenge = createHash('sha256').update(codeVerifier).digest('base64url');
+
+    await db.insert(ssoLoginStatesTable)
+      .values({
+        id: state,
+        org_id: connection.org_id,
+        nonce,
+        code_verifier: codeVerifier,
+        expires_at: new Date(Date.now() + LOGIN_STATE_TTL_MS),
+      })
+      .execute();
+
+    const url = new URL(discovery.authorization_endpoint);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', connection.client_id!);
+    url.searchParams.set('redirect_uri', getSsoRedirectUri());
+    url.searchParams.set('scope', 'openid email profile');
+    url.searchParams.set('state', state);
+    url.searchParams.set('nonce', nonce);
+    url.searchParams.set('code_challenge', codeChallenge);
+    url.searchParams.set('code_challenge_method', 'S256');
+
+    return { authorization_url: url.toString(), state };
+  } catch (error) {
+    console.error('SSO login start failed:', error);
+    throw error;
+  }
+}
+
+// Exchanges the authorization code, verifies the ID token and provisions the user just in time
+export async function completeSsoLogin(input: CompleteSsoLoginInput): Promise<User> {
+  try {
+    // Delete the state up front so it cannot be replayed, even if the exchange fails
+    const states = await db.delete(ssoLoginStatesTable)
+      .where(and(
+        eq(ssoLoginStatesTable.id, input.state),
+        gt(ssoLoginStatesTable.expires_at, new Date())
+      ))
+      .returning()
+      .execute();
+
+    if (states.length === 0) {
+      throw new Error('Invalid or expired SSO state');
+    }
+
+    const loginState = states[0];
+    const connections = await db.select()
+      .from(ssoConnectionsTable)
+      .where(eq(ssoConnectionsTable.org_id, loginState.org_id))
+      .execute();
+
+    if (connections.length === 0 || connections[0].protocol !== 'oidc') {
+      throw new Error('SSO is not configured for this organization');
+    }
+
+    const connection = connections[0];
+    const discovery = await discoverOidcConfiguration(connection.issuer);
+
+    const tokens = await fetchJson<{ id_token?: string }>(discovery.token_endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        grant_type: 'authorization_code',
+        code: input.code,
+        redirect_uri: getSsoRedirectUri(),
+        client_id: connection.client_id!,
+        client_secret: decryptClientSecret(connection),
+        code_verifier: loginState.code_verifier,
+      }).toString(),
+    });
+
+    if (!tokens.id_token) {
+      throw new Error('Identity provider did not return an ID token');
+    }
+
+    const claims = await verifyIdToken(tokens.id_token, discovery, connection.client_id!, loginState.nonce);
+    const email = claims['email'] as string;
+
+    const existingUsers = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.email, email))
+      .execute();
+
+    const memberships = existingUsers.length > 0
+      ? await db.select()
+        .from(membershipsTable)
+        .where(and(
+          eq(membershipsTable.org_id, connection.org_id),
+          eq(membershipsTable.user_id, existingUsers[0].id)
+        ))
+        .execute()
+      : [];
+
+    // An IdP can assert any address, so only members may be linked to existing accounts
+    if (existingUsers.length > 0 && memberships.length === 0) {
+      throw new Error('An account with this email already exists; ask an admin to add it to the organization');
+    }
+
+    let userId: string;
+    if (existingUsers.length > 0) {
+      userId = existingUsers[0].id;
+    } else {
+      const created = await db.insert(usersTable)
+        .values({
+          id: randomUUID(),
+          email,
+          name: typeof claims['name'] === 'string' ? claims['name'] : email,
+          avatar_url: typeof claims['picture'] === 'string' ? claims['picture'] : null,
+        })
+        .returning()
+        .execute();
+      userId = created[0].id;
+    }
+
+    if (memberships.length === 0) {
+      await createMembership({
+        org_id: connection.org_id,
+        user_id: userId,
+        role: connection.default_role,
+      });
+    }
+
+    const result = await db.update(usersTable)
+      .set({ last_login_at: new Date() })
+      .where(eq(usersTable.id, userId))
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('SSO login completion failed:', error);
+    throw error;
+  }
+}
+
+// True when the user belongs to any organization that only allows SSO logins
+export async function isSsoRequiredForUser(userId: string): Promise<boolean> {
+  try {
+    const results = await db.select({ orgId: ssoConnectionsTable.org_id })
+      .from(ssoConnectionsTable)
+      .innerJoin(membershipsTable, eq(ssoConnectionsTable.org_id, membershipsTable.org_id))
+      .where(and(
+        eq(membershipsTable.user_id, userId),
+        eq(ssoConnectionsTable.sso_required, true),
+        eq(ssoConnectionsTable.protocol, 'oidc') // Members of SAML orgs have no SSO path to sign in with yet
+      ))
+      .limit(1)
+      .execute();
+
+    return results.length > 0;
+  } catch (error) {
+    console.error('SSO requirement check failed:', error);
+    throw error;
+  }
+}
+
+// Re-wraps client secret data keys still under an older master key; run alongside the provider key rotation
+export async function rotateSsoClientSecretEncryption(): Promise<number> {
+  try {
+    const stale = await db.select()
+      .from(ssoConnectionsTable)
+      .where(ne(ssoConnectionsTable.client_secret_master_key_id, getActiveMasterKeyId()))
+      .execute();
+
+    for (const row of stale) {
+      const rewrapped = rewrapDataKey({
+        ciphertext: row.encrypted_client_secret!,
+        encrypted_data_key: row.client_secret_data_key!,
+        master_key_id: row.client_secret_master_key_id!
+      });
+
+      await db.update(ssoConnectionsTable)
+        .set({
+          client_secret_data_key: rewrapped.encrypted_data_key,
+          client_secret_master_key_id: rewrapped.master_key_id
+        })
+        .where(eq(ssoConnectionsTable.org_id, row.org_id))
+        .execute();
+    }
+
+    return stale.length;
+  } catch (error) {
+    console.error('SSO client secret rotation failed:', error);
+    throw error;
+  }
+}
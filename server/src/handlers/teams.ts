@@ -0,0 +1,278 @@
+import { db } from '../db';
+import { teamsTable, teamMembersTable, teamProjectGrantsTable, projectsTable, membershipsTable } from '../db/schema';
+import {
+  type Team,
+  type TeamMember,
+  type TeamProjectGrant,
+  type CreateTeamInput,
+  type UpdateTeamInput,
+  type TeamMemberInput,
+  type GrantTeamProjectInput,
+  type RevokeTeamProjectInput
+} from '../schema';
+import { logAuditEvent } from './audit';
+import { eq, and, asc } from 'drizzle-orm';
+import { nanoid } from 'nanoid';
+
+type TeamRow = typeof teamsTable.$inferSelect;
+
+async function getTeamOrThrow(teamId: string): Promise<TeamRow> {
+  const teams = await db.select()
+    .from(teamsTable)
+    .where(eq(teamsTable.id, teamId))
+    .execute();
+
+  if (teams.length === 0) {
+    throw new Error('Team not found');
+  }
+
+  return teams[0];
+}
+
+async function assertTeamNameAvailable(orgId: string, name: string, teamId?: string): Promise<void> {
+  const existing = await db.select({ id: teamsTable.id })
+    .from(teamsTable)
+    .where(and(
+      eq(teamsTable.org_id, orgId),
+      eq(teamsTable.name, name)
+    ))
+    .execute();
+
+  if (existing.some(team => team.id !== teamId)) {
+    throw new Error('A team with this name already exists');
+  }
+}
+
+export async function createTeam(input: CreateTeamInput, actorUserId: string): Promise<Team> {
+  try {
+    await assertTeamNameAvailable(input.org_id, input.name);
+
+    const result = await db.insert(teamsTable)
+      .values({
+        id: nanoid(),
+        org_id: input.org_id,
+        name: input.name,
+        description: input.description ?? null,
+      })
+      .returning()
+      .execute();
+
+    const team = result[0];
+    await logAuditEvent(team.org_id, actorUserId, 'team.create', 'team', team.id, { name: team.name });
+
+    return team;
+  } catch (error) {
+    console.error('Team creation failed:', error);
+    throw error;
+  }
+}
+
+export async function getTeamsByOrgId(orgId: string): Promise<Team[]> {
+  try {
+    return await db.select()
+      .from(teamsTable)
+      .where(eq(teamsTable.org_id, orgId))
+      .orderBy(asc(teamsTable.name))
+      .execute();
+  } catch (error) {
+    console.error('Failed to get teams by org ID:', error);
+    throw error;
+  }
+}
+
+export async function updateTeam(input: UpdateTeamInput, actorUserId: string): Promise<Team> {
+  try {
+    const team = await getTeamOrThrow(input.id);
+
+    const updateValues: Partial<typeof teamsTable.$inferInsert> = {};
+    if (input.name !== undefined) {
+      await assertTeamNameAvailable(team.org_id, input.name, team.id);
+      updateValues.name = input.name;
+    }
+    if (input.description !== undefined) {
+      updateValues.description = input.description;
+    }
+
+    if (Object.keys(updateValues).length === 0) {
+      return team;
+    }
+
+    const result = await db.update(teamsTable)
+      .set(updateValues)
+      .where(eq(teamsTable.id, input.id))
+      .returning()
+      .execute();
+
+    await logAuditEvent(team.org_id, actorUserId, 'team.update', 'team', team.id, updateValues);
+
+    return result[0];
+  } catch (error) {
+    console.error('Team update failed:', error);
+    throw error;
+  }
+}
+
+// Members and project grants go with the team
+export async function deleteTeam(teamId: string, actorUserId: string): Promise<void> {
+  try {
+    const result = await db.delete(teamsTable)
+      .where(eq(teamsTable.id, teamId))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error('Team not found');
+    }
+
+    await logAuditEvent(result[0].org_id, actorUserId, 'team.delete', 'team', teamId, { name: result[0].name });
+  } catch (error) {
+    console.error('Team deletion failed:', error);
+    throw error;
+  }
+}
+
+export async function getTeamMembers(teamId: string): Promise<TeamMember[]> {
+  try {
+    return await db.select()
+      .from(teamMembersTable)
+      .where(eq(teamMembersTable.team_id, teamId))
+      .orderBy(asc(teamMembersTable.created_at))
+      .execute();
+  } catch (error) {
+    console.error('Failed to get team members:', error);
+    throw error;
+  }
+}
+
+export async function addTeamMember(input: TeamMemberInput, actorUserId: string): Promise<TeamMember> {
+  try {
+    const team = await getTeamOrThrow(input.team_id);
+
+    const membership = await db.select()
+      .from(membershipsTable)
+      .where(and(
+        eq(membershipsTable.org_id, team.org_id),
+        eq(membershipsTable.user_id, input.user_id)
+      ))
+      .execute();
+
+    if (membership.length === 0) {
+      throw new Error('User is not a member of this organization');
+    }
+
+    const result = await db.insert(teamMembersTable)
+      .values({ team_id: team.id, user_id: input.user_id })
+      .onConflictDoNothing()
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error('User is already a member of this team');
+    }
+
+    await logAuditEvent(team.org_id, actorUserId, 'team.add_member', 'team', team.id, { user_id: input.user_id });
+
+    return result[0];
+  } catch (error) {
+    console.error('Team member addition failed:', error);
+    throw error;
+  }
+}
+
+export async function removeTeamMember(input: TeamMemberInput, actorUserId: string): Promise<void> {
+  try {
+    const team = await getTeamOrThrow(input.team_id);
+
+    const result = await db.delete(teamMembersTable)
+      .where(and(
+        eq(teamMembersTable.team_id, team.id),
+        eq(teamMembersTable.user_id, input.user_id)
+      ))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error('Team member not found');
+    }
+
+    await logAuditEvent(team.org_id, actorUserId, 'team.remove_member', 'team', team.id, { user_id: input.user_id });
+  } catch (error) {
+    console.error('Team member removal failed:', error);
+    throw error;
+  }
+}
+
+export async function getTeamProjectGrants(teamId: string): Promise<TeamProjectGrant[]> {
+  try {
+    return await db.select()
+      .from(teamProjectGrantsTable)
+      .where(eq(teamProjectGrantsTable.team_id, teamId))
+      .orderBy(asc(teamProjectGrantsTable.created_at))
+      .execute();
+  } catch (error) {
+    console.error('Failed to get team project grants:', error);
+    throw error;
+  }
+}
+
+// Granting a project the team already has replaces the role
+export async function grantTeamProject(input: GrantTeamProjectInput, actorUserId: string): Promise<TeamProjectGrant> {
+  try {
+    const team = await getTeamOrThrow(input.team_id);
+
+    const project = await db.select({ orgId: projectsTable.org_id })
+      .from(projectsTable)
+      .where(eq(projectsTable.id, input.project_id))
+      .execute();
+
+    if (project.length === 0) {
+      throw new Error('Project not found');
+    }
+
+    if (project[0].orgId !== team.org_id) {
+      throw new Error('Project belongs to a different organization');
+    }
+
+    const result = await db.insert(teamProjectGrantsTable)
+      .values({ team_id: team.id, project_id: input.project_id, role: input.role })
+      .onConflictDoUpdate({
+        target: [teamProjectGrantsTable.team_id, teamProjectGrantsTable.project_id],
+        set: { role: input.role },
+      })
+      .returning()
+      .execute();
+
+    await logAuditEvent(team.org_id, actorUserId, 'team.grant_project', 'team', team.id, {
+      project_id: input.project_id,
+      role: input.role
+    });
+
+    return result[0];
+  } catch (error) {
+    console.error('Team project grant failed:', error);
+    throw error;
+  }
+}
+
+export async function revokeTeamProject(input: RevokeTeamProjectInput, actorUserId: string): Promise<void> {
+  try {
+    const team = await getTeamOrThrow(input.team_id);
+
+    const result = await db.delete(teamProjectGrantsTable)
+      .where(and(
+        eq(teamProjectGrantsTable.team_id, team.id),
+        eq(teamProjectGrantsTable.project_id, input.project_id)
+      ))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error('Project grant not found');
+    }
+
+    await logAuditEvent(team.org_id, actorUserId, 'team.revoke_project', 'team', team.id, { project_id: input.project_id });
+  } catch (error) {
+    console.error('Team project revocation failed:', error);
+    throw error;
+  }
+}
@@ -1,7 +1,7 @@
 import { db } from '../db';
-import { templatesTable, promptsTable, promptVersionsTable } from '../db/schema';
+import { templatesTable, promptsTable, promptVersionsTable, projectsTable } from '../db/schema';
 import { type Template } from '../schema';
-import { eq, isNull } from 'drizzle-orm';
+import { eq, isNull, or, and } from 'drizzle-orm';
 import { nanoid } from 'nanoid';
 
 export async function getPublicTemplates(): Promise<Template[]> {
@@ -38,11 +38,15 @@ export async function getTemplatesByCategory(category: string): Promise<Template
   }
 }
 
-export async function getTemplateById(id: string): Promise<Template | null> {
+// With an org, only public templates and that org's own are found
+export async function getTemplateById(id: string, orgId?: string): Promise<Template | null> {
   try {
     const results = await db.select()
       .from(templatesTable)
-      .where(eq(templatesTable.id, id))
+      .where(and(
+        eq(templatesTable.id, id),
+        orgId !== undefined ? or(isNull(templatesTable.org_id), eq(templatesTable.org_id, orgId)) : undefined
+      ))
       .execute();
 
     if (!results[0]) {
@@ -106,17 +110,27 @@ export async function getOrganizationTemplates(orgId: string): Promise<Template[
   }
 }
 
+// Only public templates and those of the project's own org can be installed
 export async function installTemplate(
   templateId: string, 
   projectId: string,
-  createdBy: string = 'system'
+  createdBy: string
 ): Promise<{
   promptId: string;
   versionId: string;
 }> {
   try {
+    const project = await db.select({ org_id: projectsTable.org_id })
+      .from(projectsTable)
+      .where(eq(projectsTable.id, projectId))
+      .execute();
+
+    if (project.length === 0) {
+      throw new Error('Project not found');
+    }
+
     // First, fetch the template
-    const template = await getTemplateById(templateId);
+    const template = await getTemplateById(templateId, project[0].org_id);
     if (!template) {
       throw new Error('Template not found');
     }
@@ -0,0 +1,417 @@
+import { db } from '../db';
+import { userTwoFactorTable, twoFactorRecoveryCodesTable, usersTable, membershipsTable, organizationsTable } from '../db/schema';
+import { type TwoFactorEnrollment } from '../schema';
+import { logAuditEvent } from './audit';
+import { encryptSecret, decryptSecret, rewrapDataKey, getActiveMasterKeyId } from './encryption';
+import { eq, ne, and, or, lt, isNull, inArray } from 'drizzle-orm';
+import { createHash, createHmac, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+
+const TOTP_ISSUER = 'PrismForge';
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DIGITS = 6;
+// Accept one step either side to tolerate clock drift on the authenticator
+const TOTP_WINDOW = 1;
+const RECOVERY_CODE_COUNT = 10;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+function base32Decode(encoded: string): Buffer {
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of encoded.replace(/=+$/, '').toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 secret');
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+function hotp(secret: string, counter: number): string {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+
+  const digest = createHmac('sha1', base32Decode(secret)).update(message).digest();
+  const offset = digest[digest.length - 1] & 0xf;
+  const binary = digest.readUInt32BE(offset) & 0x7fffffff;
+
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0');
+}
+
+function totpStep(timestamp: number): number {
+  return Math.floor(timestamp / 1000 / TOTP_PERIOD_SECONDS);
+}
+
+// RFC 6238 code for the given time, as shown by authenticator apps
+export function generateTotpCode(secret: string, timestamp: number = Date.now()): string {
+  return hotp(secret, totpStep(timestamp));
+}
+
+// Returns the matching time step, or null when the code is not valid right now
+function matchTotpStep(secret: string, code: string): number | null {
+  const currentStep = totpStep(Date.now());
+  const candidate = Buffer.from(code.padEnd(TOTP_DIGITS));
+
+  for (let offset = -TOTP_WINDOW; offset <= TOTP_WINDOW; offset++) {
+    const expected = Buffer.from(hotp(secret, currentStep + offset));
+    if (candidate.length === expected.length && timingSafeEqual(candidate, expected)) {
+      return currentStep + offset;
+    }
+  }
+
+  return null;
+}
+
+type TwoFactorRow = typeof userTwoFactorTable.$inferSelect;
+
+// Binds the TOTP secret's ciphertext to its user
+function getSecretContext(userId: string): string {
+  return `two_factor:${userId}`;
+}
+
+function encryptTotpSecret(userId: string, secret: string) {
+  const encrypted = encryptSecret(secret, getSecretContext(userId));
+  return {
+    encrypted_secret: encrypted.ciphertext,
+    secret_data_key: encrypted.encrypted_data_key,
+    secret_master_key_id: encrypted.master_key_id,
+  };
+}
+
+function decryptTotpSecret(row: TwoFactorRow): string {
+  return decryptSecret({
+    ciphertext: row.encrypted_secret,
+    encrypted_data_key: row.secret_data_key,
+    master_key_id: row.secret_master_key_id
+  }, getSecretContext(row.user_id));
+}
+
+function normalizeRecoveryCode(code: string): string {
+  return code.replace(/[\s-]/g, '').toLowerCase();
+}
+
+function hashRecoveryCode(code: string): string {
+  return createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+}
+
+// Replaces any existing recovery codes; the plaintext codes are only returned here
+async function issueRecoveryCodes(userId: string): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+
+  await db.transaction(async (tx) => {
+    await tx.delete(twoFactorRecoveryCodesTable)
+      .where(eq(twoFactorRecoveryCodesTable.user_id, userId))
+      .execute();
+
+    await tx.insert(twoFactorRecoveryCodesTable)
+      .values(codes.map(code => ({
+        id: randomUUID(),
+        user_id: userId,
+        code_hash: hashRecoveryCode(code),
+      })))
+      .execute();
+  });
+
+  return codes;
+}
+
+// Accepts a current TOTP code (each time step only once) or an unused recovery code
+async function consumeSecondFactor(twoFactor: TwoFactorRow, code: string): Promise<boolean> {
+  const userId = twoFactor.user_id;
+
+  if (/^\d{6}$/.test(code.trim())) {
+    const step = matchTotpStep(decryptTotpSecret(twoFactor), code.trim());
+    if (step === null) {
+      return false;
+    }
+
+    // Only moves forward, so two concurrent requests with the same code cannot both succeed
+    const result = await db.update(userTwoFactorTable)
+      .set({ last_used_step: step })
+      .where(and(
+        eq(userTwoFactorTable.user_id, userId),
+        or(isNull(userTwoFactorTable.last_used_step), lt(userTwoFactorTable.last_used_step, step))
+      ))
+      .returning()
+      .execute();
+    return result.length > 0;
+  }
+
+  const result = await db.update(twoFactorRecoveryCodesTable)
+    .set({ used_at: new Date() })
+    .where(and(
+      eq(twoFactorRecoveryCodesTable.user_id, userId),
+      eq(twoFactorRecoveryCodesTable.code_hash, hashRecoveryCode(code)),
+      isNull(twoFactorRecoveryCodesTable.used_at)
+    ))
+    .returning()
+    .execute();
+
+  return result.length > 0;
+}
+
+async function getEnabledTwoFactor(userId: string) {
+  const results = await db.select()
+    .from(userTwoFactorTable)
+    .where(eq(userTwoFactorTable.user_id, userId))
+    .execute();
+
+  if (results.length === 0 || !results[0].enabled_at) {
+    throw new Error('Two-factor authentication is not enabled');
+  }
+
+  return results[0];
+}
+
+// Two-factor changes affect every organization the user can reach, so each one gets an entry
+async function logTwoFactorEvent(userId: string, action: string): Promise<void> {
+  const memberships = await db.select({ orgId: membershipsTable.org_id })
+    .from(membershipsTable)
+    .where(eq(membershipsTable.user_id, userId))
+    .execute();
+
+  for (const { orgId } of memberships) {
+    await logAuditEvent(orgId, userId, action, 'user', userId);
+  }
+}
+
+export async function startTwoFactorEnrollment(userId: string): Promise<TwoFactorEnrollment> {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error(`User with id ${userId} not found`);
+    }
+
+    const existing = await db.select()
+      .from(userTwoFactorTable)
+      .where(eq(userTwoFactorTable.user_id, userId))
+      .execute();
+
+    if (existing.length > 0 && existing[0].enabled_at) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+
+    const secret = base32Encode(randomBytes(20));
+
+    const encrypted = encryptTotpSecret(userId, secret);
+
+    // Restarting enrollment replaces a secret that was never confirmed
+    await db.insert(userTwoFactorTable)
+      .values({ user_id: userId, ...encrypted })
+      .onConflictDoUpdate({
+        target: userTwoFactorTable.user_id,
+        set: { ...encrypted, last_used_step: null, created_at: new Date() }
+      })
+      .execute();
+
+    const label = encodeURIComponent(`${TOTP_ISSUER}:${users[0].email}`);
+    const params = new URLSearchParams({
+      secret,
+      issuer: TOTP_ISSUER,
+      algorithm: 'SHA1',
+      digits: String(TOTP_DIGITS),
+      period: String(TOTP_PERIOD_SECONDS),
+    });
+
+    return {
+      secret,
+      otpauth_uri: `otpauth://totp/${label}?${params.toString()}`
+    };
+  } catch (error) {
+    console.error('Two-factor enrollment start failed:', error);
+    throw error;
+  }
+}
+
+// Turns 2FA on once the user proves their authenticator works; returns the recovery codes
+export async function confirmTwoFactorEnrollment(userId: string, code: string): Promise<string[]> {
+  try {
+    const results = await db.select()
+      .from(userTwoFactorTable)
+      .where(eq(userTwoFactorTable.user_id, userId))
+      .execute();
+
+    if (results.length === 0 || results[0].enabled_at) {
+      throw new Error('No pending two-factor enrollment');
+    }
+
+    const step = matchTotpStep(decryptTotpSecret(results[0]), code.trim());
+    if (step === null) {
+      throw new Error('Invalid two-factor code');
+    }
+
+    const confirmed = await db.update(userTwoFactorTable)
+      .set({ enabled_at: new Date(), last_used_step: step })
+      .where(and(eq(userTwoFactorTable.user_id, userId), isNull(userTwoFactorTable.enabled_at)))
+      .returning()
+      .execute();
+
+    if (confirmed.length === 0) {
+      throw new Error('No pending two-factor enrollment');
+    }
+
+    const recoveryCodes = await issueRecoveryCodes(userId);
+    await logTwoFactorEvent(userId, 'user.two_factor_enable');
+
+    return recoveryCodes;
+  } catch (error) {
+    console.error('Two-factor enrollment confirmation failed:', error);
+    throw error;
+  }
+}
+
+export async function verifyTwoFactorCode(userId: string, code: string): Promise<boolean> {
+  try {
+    const twoFactor = await getEnabledTwoFactor(userId);
+    return await consumeSecondFactor(twoFactor, code);
+  } catch (error) {
+    console.error('Two-factor verification failed:', error);
+    throw error;
+  }
+}
+
+export async function regenerateRecoveryCodes(userId: string, code: string): Promise<string[]> {
+  try {
+    const twoFactor = await getEnabledTwoFactor(userId);
+    if (!(await consumeSecondFactor(twoFactor, code))) {
+      throw new Error('Invalid two-factor code');
+    }
+
+    return await issueRecoveryCodes(userId);
+  } catch (error) {
+    console.error('Recovery code regeneration failed:', error);
+    throw error;
+  }
+}
+
+export async function disableTwoFactor(userId: string, code: string): Promise<void> {
+  try {
+    const twoFactor = await getEnabledTwoFactor(userId);
+
+    if (await isTwoFactorEnforced(userId)) {
+      throw new Error('Two-factor authentication is required by one of your organizations');
+    }
+
+    if (!(await consumeSecondFactor(twoFactor, code))) {
+      throw new Error('Invalid two-factor code');
+    }
+
+    await db.transaction(async (tx) => {
+      await tx.delete(twoFactorRecoveryCodesTable)
+        .where(eq(twoFactorRecoveryCodesTable.user_id, userId))
+        .execute();
+      await tx.delete(userTwoFactorTable)
+        .where(eq(userTwoFactorTable.user_id, userId))
+        .execute();
+    });
+
+    await logTwoFactorEvent(userId, 'user.two_factor_disable');
+  } catch (error) {
+    console.error('Two-factor disable failed:', error);
+    throw error;
+  }
+}
+
+// Moves TOTP secrets wrapped by a retired master key onto the active one (part of keys:rotate)
+export async function rotateTwoFactorSecretEncryption(): Promise<number> {
+  try {
+    const stale = await db.select()
+      .from(userTwoFactorTable)
+      .where(ne(userTwoFactorTable.secret_master_key_id, getActiveMasterKeyId()))
+      .execute();
+
+    for (const row of stale) {
+      const rewrapped = rewrapDataKey({
+        ciphertext: row.encrypted_secret,
+        encrypted_data_key: row.secret_data_key,
+        master_key_id: row.secret_master_key_id
+      });
+
+      await db.update(userTwoFactorTable)
+        .set({ secret_data_key: rewrapped.encrypted_data_key, secret_master_key_id: rewrapped.master_key_id })
+        .where(eq(userTwoFactorTable.user_id, row.user_id))
+        .execute();
+    }
+
+    return stale.length;
+  } catch (error) {
+    console.error('Two-factor secret rotation failed:', error);
+    throw error;
+  }
+}
+
+export async function isTwoFactorEnabled(userId: string): Promise<boolean> {
+  try {
+    const results = await db.select({ enabledAt: userTwoFactorTable.enabled_at })
+      .from(userTwoFactorTable)
+      .where(eq(userTwoFactorTable.user_id, userId))
+      .execute();
+
+    return results.length > 0 && results[0].enabledAt !== null;
+  } catch (error) {
+    console.error('Two-factor status check failed:', error);
+    throw error;
+  }
+}
+
+// True when the user is an owner/admin of an organization (or the given one) whose policy requires 2FA
+export async function isTwoFactorEnforced(userId: string, orgId?: string): Promise<boolean> {
+  try {
+    const conditions = [
+      eq(membershipsTable.user_id, userId),
+      inArray(membershipsTable.role, ['owner', 'admin']),
+      eq(organizationsTable.require_two_factor, true)
+    ];
+    if (orgId) {
+      conditions.push(eq(organizationsTable.id, orgId));
+    }
+
+    const results = await db.select({ orgId: organizationsTable.id })
+      .from(membershipsTable)
+      .innerJoin(organizationsTable, eq(membershipsTable.org_id, organizationsTable.id))
+      .where(and(...conditions))
+      .limit(1)
+      .execute();
+
+    return results.length > 0;
+  } catch (error) {
+    console.error('Two-factor policy check failed:', error);
+    throw error;
+  }
+}
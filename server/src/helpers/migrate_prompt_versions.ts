@@ -0,0 +1,2 @@
+import { migrateLegacyPromptVersions } from '../handlers/prompts';
+migrateLegacyPromptVersions().then(count => console.log(`Renumbered ${count} legacy prompt version(s) to unique semver`));
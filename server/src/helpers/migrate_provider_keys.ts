@@ -0,0 +1,2 @@
+import { migrateLegacyProviderKeys } from '../handlers/provider_keys';
+migrateLegacyProviderKeys().then(count => console.log(`Migrated ${count} legacy provider key(s) to envelope encryption`));
@@ -0,0 +1,9 @@
+import { rotateProviderKeyEncryption } from '../handlers/provider_keys';
+import { rotateSsoClientSecretEncryption } from '../handlers/sso';
+import { rotateTwoFactorSecretEncryption } from '../handlers/two_factor';
+
+(async () => {
+  console.log(`Re-encrypted ${await rotateProviderKeyEncryption()} provider key(s) under the active master key`);
+  console.log(`Re-encrypted ${await rotateSsoClientSecretEncryption()} SSO client secret(s) under the active master key`);
+  console.log(`Re-encrypted ${await rotateTwoFactorSecretEncryption()} two-factor secret(s) under the active master key`);
+})();
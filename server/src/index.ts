@@ -1,5 +1,5 @@
-import { initTRPC } from '@trpc/server';
-import { createHTTPServer } from '@trpc/server/adapters/standalone';
+import { initTRPC, TRPCError } from '@trpc/server';
+import { createHTTPServer, type CreateHTTPContextOptions } from '@trpc/server/adapters/standalone';
 import 'dotenv/config';
 import cors from 'cors';
 import superjson from 'superjson';
@@ -7,36 +7,76 @@ import { z } from 'zod';
 
 // Import schemas
 import {
-  createUserInputSchema,
   updateUserInputSchema,
+  registerInputSchema,
+  loginInputSchema,
+  resetPasswordInputSchema,
+  twoFactorCodeInputSchema,
+  verifyTwoFactorInputSchema,
+  upsertSsoConnectionInputSchema,
+  completeSsoLoginInputSchema,
   createOrganizationInputSchema,
   updateOrganizationInputSchema,
   createMembershipInputSchema,
   updateMembershipInputSchema,
+  createInvitationInputSchema,
   createProjectInputSchema,
   updateProjectInputSchema,
+  setProjectRestrictedInputSchema,
+  createTeamInputSchema,
+  updateTeamInputSchema,
+  teamMemberInputSchema,
+  grantTeamProjectInputSchema,
+  revokeTeamProjectInputSchema,
   createPromptInputSchema,
   updatePromptInputSchema,
   createPromptVersionInputSchema,
+  renderPromptInputSchema,
+  promptEnvironmentSchema,
+  promptEnvironmentInputSchema,
+  deployPromptVersionInputSchema,
   createChatSessionInputSchema,
   chatMessageInputSchema,
   createRunInputSchema,
   createPipelineInputSchema,
   updatePipelineInputSchema,
   createProviderKeyInputSchema,
+  providerKeyRefInputSchema,
+  upsertModelCatalogEntryInputSchema,
+  upsertRoutingPolicyInputSchema,
+  upsertCachePolicyInputSchema,
+  upsertRateLimitOverridesInputSchema,
+  modelCatalogEntryRefInputSchema,
+  providerTypeSchema,
+  createApiKeyInputSchema,
   analyticsQueryInputSchema,
-  stripeVerificationInputSchema
+  stripeVerificationInputSchema,
+  type User
 } from './schema';
 
 // Import handlers
 import {
-  createUser,
   getUserById,
   getUserByEmail,
   updateUser,
-  updateLastLogin
+  registerUser,
+  loginWithPassword,
+  requestPasswordReset,
+  resetPassword,
+  requestMagicLink,
+  loginWithMagicLink,
+  issueTwoFactorChallenge,
+  verifyTwoFactorLogin
 } from './handlers/auth';
 
+import {
+  startTwoFactorEnrollment,
+  confirmTwoFactorEnrollment,
+  regenerateRecoveryCodes,
+  disableTwoFactor,
+  isTwoFactorEnabled
+} from './handlers/two_factor';
+
 import {
   createOrganization,
   getOrganizationById,
@@ -47,7 +87,8 @@ import {
   updateMembership,
   getMembershipsByOrgId,
   getUserMembership,
-  deleteMembership
+  deleteMembership,
+  transferOwnership
 } from './handlers/organizations';
 
 import {
@@ -55,9 +96,23 @@ import {
   getProjectById,
   getProjectsByOrgId,
   updateProject,
+  setProjectRestricted,
   deleteProject
 } from './handlers/projects';
 
+import {
+  createTeam,
+  getTeamsByOrgId,
+  updateTeam,
+  deleteTeam,
+  getTeamMembers,
+  addTeamMember,
+  removeTeamMember,
+  getTeamProjectGrants,
+  grantTeamProject,
+  revokeTeamProject
+} from './handlers/teams';
+
 import {
   createPrompt,
   getPromptById,
@@ -67,9 +122,18 @@ import {
   getPromptVersionById,
   getPromptVersionsByPromptId,
   promotePromptVersion,
-  comparePromptVersions
+  comparePromptVersions,
+  renderPrompt
 } from './handlers/prompts';
 
+import {
+  deployPromptVersion,
+  rollbackPromptDeployment,
+  resolvePromptVersion,
+  getPromptDeployments,
+  getPromptDeploymentHistory
+} from './handlers/prompt_deployments';
+
 import {
   createChatSession,
   getChatSessionById,
@@ -91,6 +155,8 @@ import {
 
 import {
   createRun,
+  withoutReservedRunFlags,
+  recomputeRunCosts,
   getRunById,
   getRunsByProjectId,
   getAnalytics,
@@ -114,6 +180,7 @@ import {
   getBillingByOrgId,
   createStripePortalSession,
   checkUsageQuota,
+  getSeatUsage,
   handleStripeWebhook
 } from './handlers/billing';
 
@@ -121,10 +188,39 @@ import {
   createProviderKey,
   getProviderKeysByOrgId,
   getProviderKey,
+  setDefaultProviderKey,
   deleteProviderKey,
   testProviderKey
 } from './handlers/provider_keys';
 
+import {
+  getModelCatalog,
+  upsertModelCatalogEntry,
+  deleteModelCatalogEntry
+} from './handlers/model_catalog';
+
+import {
+  getRoutingPolicy,
+  upsertRoutingPolicy,
+  deleteRoutingPolicy
+} from './handlers/routing_policies';
+
+import {
+  getCachePolicy,
+  upsertCachePolicy,
+  clearResponseCache
+} from './handlers/response_cache';
+
+import {
+  getRateLimits,
+  upsertRateLimitOverrides,
+  deleteRateLimitOverrides,
+  consumeRateLimits,
+  setRateLimitHeaders,
+  RateLimitError,
+  type RateLimitSubjects
+} from './handlers/rate_limits';
+
 import {
   getPublicTemplates,
   getTemplatesByCategory,
@@ -141,13 +237,143 @@ import {
   getAuditLogsByTarget
 } from './handlers/audit';
 
-const t = initTRPC.create({
+import {
+  createSession,
+  getUserBySessionToken,
+  revokeSession,
+  getSessionTokenFromHeaders,
+  serializeSessionCookie,
+  serializeClearedSessionCookie
+} from './handlers/sessions';
+
+import {
+  exportOrganizationData,
+  scheduleOrganizationDeletion,
+  restoreOrganization,
+  purgeDeletedOrganizations
+} from './handlers/organization_deletion';
+
+import {
+  createInvitation,
+  getPendingInvitationsByOrgId,
+  resendInvitation,
+  revokeInvitation,
+  acceptInvitation,
+  declineInvitation
+} from './handlers/invitations';
+
+import {
+  upsertSsoConnection,
+  getSsoConnection,
+  deleteSsoConnection,
+  startSsoLogin,
+  completeSsoLogin
+} from './handlers/sso';
+
+import {
+  createApiKey,
+  getApiKeysByOrgId,
+  revokeApiKey,
+  rotateApiKey,
+  isApiKeyToken,
+  authenticateApiKey
+} from './handlers/api_keys';
+
+import { authorizeProcedure, authorizeApiKeyProcedure, resolveTarget, canViewUser } from './handlers/authorization';
+import { isScimRequest, handleScimRequest } from './handlers/scim';
+import { isOpenAiProxyRequest, handleOpenAiProxyRequest } from './handlers/openai_proxy';
+
+async function createContext({ req, res }: CreateHTTPContextOptions) {
+  const bearerToken = getSessionTokenFromHeaders(req.headers);
+
+  // Org API keys share the Bearer header with sessions and are told apart by their prefix
+  const apiKeyToken = bearerToken && isApiKeyToken(bearerToken) ? bearerToken : null;
+  const sessionToken = apiKeyToken ? null : bearerToken;
+  const user = sessionToken ? await getUserBySessionToken(sessionToken) : null;
+
+  return { req, res, sessionToken, apiKeyToken, user };
+}
+
+type Context = Awaited<ReturnType<typeof createContext>>;
+
+const t = initTRPC.context<Context>().create({
   transformer: superjson,
 });
 
 const publicProcedure = t.procedure;
 const router = t.router;
 
+// Rejects calls without a valid session and narrows ctx.user to non-null
+const authedProcedure = t.procedure.use(({ ctx, next }) => {
+  if (!ctx.user) {
+    throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Authentication required' });
+  }
+
+  return next({ ctx: { ...ctx, user: ctx.user } });
+});
+
+// Enforces the membership role required by the procedure's entry in the permission matrix
+const authorizedProcedure = authedProcedure.use(async ({ ctx, path, getRawInput, next }) => {
+  await authorizeProcedure(ctx.user.id, path, await getRawInput());
+  return next();
+});
+
+// Like authorizedProcedure, but also accepts an org API key holding the procedure's scope
+const scopedProcedure = t.procedure.use(async ({ ctx, path, getRawInput, next }) => {
+  if (ctx.apiKeyToken) {
+    const apiKey = await authorizeApiKeyProcedure(ctx.apiKeyToken, path, await getRawInput());
+    return next({ ctx: { ...ctx, apiKey } });
+  }
+
+  if (!ctx.user) {
+    throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Authentication required' });
+  }
+
+  await authorizeProcedure(ctx.user.id, path, await getRawInput());
+  return next({ ctx: { ...ctx, apiKey: null } });
+});
+
+// Spends a token from every bucket the call counts against and reports the tightest in RateLimit-* headers.
+// Calls over a limit fail with TOO_MANY_REQUESTS and a Retry-After header.
+async function enforceRateLimits(ctx: Context, subjects: RateLimitSubjects | null) {
+  if (!subjects) {
+    return;
+  }
+
+  try {
+    setRateLimitHeaders(ctx.res, await consumeRateLimits(subjects));
+  } catch (error) {
+    if (error instanceof RateLimitError) {
+      setRateLimitHeaders(ctx.res, error.status, error.retryAfterSeconds);
+    }
+    throw error;
+  }
+}
+
+// Only lets users query data keyed by their own user id
+function assertSelf(ctx: { user: User }, userId: string) {
+  if (ctx.user.id !== userId) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Forbidden: cannot access another user\'s data' });
+  }
+}
+
+// Issues a session for the user and sets it as an HttpOnly cookie
+async function startSession(ctx: Context, user: User) {
+  const { session, token } = await createSession(user.id);
+  ctx.res.setHeader('Set-Cookie', serializeSessionCookie(token, session.expires_at));
+
+  return { user, token, expires_at: session.expires_at };
+}
+
+// Users with 2FA get a short-lived challenge instead of a session after the first factor
+async function completeLogin(ctx: Context, user: User) {
+  if (await isTwoFactorEnabled(user.id)) {
+    return { two_factor_required: true as const, challenge_token: await issueTwoFactorChallenge(user.id) };
+  }
+
+  return { two_factor_required: false as const, ...(await startSession(ctx, user)) };
+}
+
 const appRouter = router({
   // Health check
   healthcheck: publicProcedure.query(() => {
@@ -156,197 +382,373 @@ const appRouter = router({
 
   // Auth routes
   auth: router({
-    createUser: publicProcedure
-      .input(createUserInputSchema)
-      .mutation(({ input }) => createUser(input)),
-    getUserById: publicProcedure
-      .input(z.string())
-      .query(({ input }) => getUserById(input)),
-    getUserByEmail: publicProcedure
+    register: publicProcedure
+      .input(registerInputSchema)
+      .mutation(async ({ input, ctx }) => startSession(ctx, await registerUser(input))),
+    login: publicProcedure
+      .input(loginInputSchema)
+      .mutation(async ({ input, ctx }) => completeLogin(ctx, await loginWithPassword(input))),
+    requestPasswordReset: publicProcedure
+      .input(z.string().email())
+      .mutation(({ input }) => requestPasswordReset(input)),
+    resetPassword: publicProcedure
+      .input(resetPasswordInputSchema)
+      .mutation(({ input }) => resetPassword(input)),
+    requestMagicLink: publicProcedure
+      .input(z.string().email())
+      .mutation(({ input }) => requestMagicLink(input)),
+    loginWithMagicLink: publicProcedure
+      .input(z.string())
+      .mutation(async ({ input, ctx }) => completeLogin(ctx, await loginWithMagicLink(input))),
+    verifyTwoFactor: publicProcedure
+      .input(verifyTwoFactorInputSchema)
+      .mutation(async ({ input, ctx }) => startSession(ctx, await verifyTwoFactorLogin(input))),
+    me: authedProcedure
+      .query(({ ctx }) => ctx.user),
+    logout: authedProcedure
+      .mutation(async ({ ctx }) => {
+        if (ctx.sessionToken) {
+          await revokeSession(ctx.sessionToken);
+        }
+        ctx.res.setHeader('Set-Cookie', serializeClearedSessionCookie());
+      }),
+    // Users outside the caller's organizations read as not found, so lookups cannot enumerate accounts
+    getUserById: authedProcedure
+      .input(z.string())
+      .query(async ({ input, ctx }) => {
+        const user = await getUserById(input);
+        return user && await canViewUser(ctx.user.id, user.id) ? user : null;
+      }),
+    getUserByEmail: authedProcedure
       .input(z.string().email())
-      .query(({ input }) => getUserByEmail(input)),
-    updateUser: publicProcedure
+      .query(async ({ input, ctx }) => {
+        const user = await getUserByEmail(input);
+        return user && await canViewUser(ctx.user.id, user.id) ? user : null;
+      }),
+    updateUser: authedProcedure
       .input(updateUserInputSchema)
-      .mutation(({ input }) => updateUser(input)),
-    updateLastLogin: publicProcedure
+      .mutation(({ input, ctx }) => {
+        assertSelf(ctx, input.id);
+        return updateUser(input);
+      }),
+    startTwoFactorEnrollment: authedProcedure
+      .mutation(({ ctx }) => startTwoFactorEnrollment(ctx.user.id)),
+    confirmTwoFactorEnrollment: authedProcedure
+      .input(twoFactorCodeInputSchema)
+      .mutation(({ input, ctx }) => confirmTwoFactorEnrollment(ctx.user.id, input.code)),
+    regenerateRecoveryCodes: authedProcedure
+      .input(twoFactorCodeInputSchema)
+      .mutation(({ input, ctx }) => regenerateRecoveryCodes(ctx.user.id, input.code)),
+    disableTwoFactor: authedProcedure
+      .input(twoFactorCodeInputSchema)
+      .mutation(({ input, ctx }) => disableTwoFactor(ctx.user.id, input.code)),
+  }),
+
+  // Invitation routes
+  invitations: router({
+    create: authorizedProcedure
+      .input(createInvitationInputSchema)
+      .mutation(({ input, ctx }) => createInvitation(input, ctx.user.id)),
+    getPendingByOrgId: authorizedProcedure
+      .input(z.string())
+      .query(({ input }) => getPendingInvitationsByOrgId(input)),
+    resend: authorizedProcedure
       .input(z.string())
-      .mutation(({ input }) => updateLastLogin(input)),
+      .mutation(({ input }) => resendInvitation(input)),
+    revoke: authorizedProcedure
+      .input(z.string())
+      .mutation(({ input, ctx }) => revokeInvitation(input, ctx.user.id)),
+    accept: authedProcedure
+      .input(z.string())
+      .mutation(({ input, ctx }) => acceptInvitation(input, ctx.user.id)),
+    decline: authedProcedure
+      .input(z.string())
+      .mutation(({ input, ctx }) => declineInvitation(input, ctx.user.id)),
+  }),
+
+  // Single sign-on routes
+  sso: router({
+    getConnection: authorizedProcedure
+      .input(z.string())
+      .query(({ input }) => getSsoConnection(input)),
+    upsertConnection: authorizedProcedure
+      .input(upsertSsoConnectionInputSchema)
+      .mutation(({ input }) => upsertSsoConnection(input)),
+    deleteConnection: authorizedProcedure
+      .input(z.string())
+      .mutation(({ input }) => deleteSsoConnection(input)),
+    start: publicProcedure
+      .input(z.string())
+      .mutation(({ input }) => startSsoLogin(input)),
+    callback: publicProcedure
+      .input(completeSsoLoginInputSchema)
+      .mutation(async ({ input, ctx }) => completeLogin(ctx, await completeSsoLogin(input))),
   }),
 
   // Organization routes
   organizations: router({
-    create: publicProcedure
+    create: authedProcedure
       .input(createOrganizationInputSchema)
-      .mutation(({ input }) => createOrganization(input)),
-    getById: publicProcedure
+      .mutation(({ input, ctx }) => {
+        assertSelf(ctx, input.owner_user_id);
+        return createOrganization(input);
+      }),
+    getById: authorizedProcedure
       .input(z.string())
       .query(({ input }) => getOrganizationById(input)),
-    getBySlug: publicProcedure
+    getBySlug: authorizedProcedure
       .input(z.string())
       .query(({ input }) => getOrganizationBySlug(input)),
-    update: publicProcedure
+    update: authorizedProcedure
       .input(updateOrganizationInputSchema)
       .mutation(({ input }) => updateOrganization(input)),
-    getByUserId: publicProcedure
+    getByUserId: authedProcedure
       .input(z.string())
-      .query(({ input }) => getOrganizationsByUserId(input)),
+      .query(({ input, ctx }) => {
+        assertSelf(ctx, input);
+        return getOrganizationsByUserId(input);
+      }),
     
     // Membership management
-    addMember: publicProcedure
+    addMember: authorizedProcedure
       .input(createMembershipInputSchema)
-      .mutation(({ input }) => createMembership(input)),
-    updateMember: publicProcedure
+      .mutation(({ input, ctx }) => createMembership(input, ctx.user.id)),
+    updateMember: authorizedProcedure
       .input(updateMembershipInputSchema)
-      .mutation(({ input }) => updateMembership(input)),
-    getMembers: publicProcedure
+      .mutation(({ input, ctx }) => updateMembership(input, ctx.user.id)),
+    getMembers: authorizedProcedure
       .input(z.string())
       .query(({ input }) => getMembershipsByOrgId(input)),
-    getUserMembership: publicProcedure
+    getUserMembership: authorizedProcedure
       .input(z.object({ userId: z.string(), orgId: z.string() }))
       .query(({ input }) => getUserMembership(input.userId, input.orgId)),
-    removeMember: publicProcedure
+    removeMember: authorizedProcedure
+      .input(z.string())
+      .mutation(({ input, ctx }) => deleteMembership(input, ctx.user.id)),
+    transferOwnership: authorizedProcedure
+      .input(z.object({ orgId: z.string(), newOwnerUserId: z.string() }))
+      .mutation(({ input, ctx }) => transferOwnership(input.orgId, input.newOwnerUserId, ctx.user.id)),
+
+    // Deletion lifecycle
+    exportData: authorizedProcedure
+      .input(z.string())
+      .query(({ input }) => exportOrganizationData(input)),
+    scheduleDeletion: authorizedProcedure
       .input(z.string())
-      .mutation(({ input }) => deleteMembership(input)),
+      .mutation(({ input, ctx }) => scheduleOrganizationDeletion(input, ctx.user.id)),
+    restore: authorizedProcedure
+      .input(z.string())
+      .mutation(({ input, ctx }) => restoreOrganization(input, ctx.user.id)),
   }),
 
   // Project routes
   projects: router({
-    create: publicProcedure
+    create: authorizedProcedure
       .input(createProjectInputSchema)
       .mutation(({ input }) => createProject(input)),
-    getById: publicProcedure
+    getById: authorizedProcedure
       .input(z.string())
       .query(({ input }) => getProjectById(input)),
-    getByOrgId: publicProcedure
+    getByOrgId: authorizedProcedure
       .input(z.string())
-      .query(({ input }) => getProjectsByOrgId(input)),
-    update: publicProcedure
+      .query(({ input, ctx }) => getProjectsByOrgId(input, ctx.user.id)),
+    update: authorizedProcedure
       .input(updateProjectInputSchema)
       .mutation(({ input }) => updateProject(input)),
-    delete: publicProcedure
+    setRestricted: authorizedProcedure
+      .input(setProjectRestrictedInputSchema)
+      .mutation(({ input }) => setProjectRestricted(input)),
+    delete: authorizedProcedure
       .input(z.string())
       .mutation(({ input }) => deleteProject(input)),
   }),
 
+  // Team routes
+  teams: router({
+    create: authorizedProcedure
+      .input(createTeamInputSchema)
+      .mutation(({ input, ctx }) => createTeam(input, ctx.user.id)),
+    getByOrgId: authorizedProcedure
+      .input(z.string())
+      .query(({ input }) => getTeamsByOrgId(input)),
+    update: authorizedProcedure
+      .input(updateTeamInputSchema)
+      .mutation(({ input, ctx }) => updateTeam(input, ctx.user.id)),
+    delete: authorizedProcedure
+      .input(z.string())
+      .mutation(({ input, ctx }) => deleteTeam(input, ctx.user.id)),
+    getMembers: authorizedProcedure
+      .input(z.string())
+      .query(({ input }) => getTeamMembers(input)),
+    addMember: authorizedProcedure
+      .input(teamMemberInputSchema)
+      .mutation(({ input, ctx }) => addTeamMember(input, ctx.user.id)),
+    removeMember: authorizedProcedure
+      .input(teamMemberInputSchema)
+      .mutation(({ input, ctx }) => removeTeamMember(input, ctx.user.id)),
+    getProjectGrants: authorizedProcedure
+      .input(z.string())
+      .query(({ input }) => getTeamProjectGrants(input)),
+    grantProject: authorizedProcedure
+      .input(grantTeamProjectInputSchema)
+      .mutation(({ input, ctx }) => grantTeamProject(input, ctx.user.id)),
+    revokeProject: authorizedProcedure
+      .input(revokeTeamProjectInputSchema)
+      .mutation(({ input, ctx }) => revokeTeamProject(input, ctx.user.id)),
+  }),
+
   // Prompt routes
   prompts: router({
-    create: publicProcedure
+    create: authorizedProcedure
       .input(createPromptInputSchema)
       .mutation(({ input }) => createPrompt(input)),
-    getById: publicProcedure
+    getById: authorizedProcedure
       .input(z.string())
       .query(({ input }) => getPromptById(input)),
-    getByProjectId: publicProcedure
+    getByProjectId: authorizedProcedure
       .input(z.string())
       .query(({ input }) => getPromptsByProjectId(input)),
-    update: publicProcedure
+    update: authorizedProcedure
       .input(updatePromptInputSchema)
       .mutation(({ input }) => updatePrompt(input)),
     
     // Version management (CI/CD)
-    createVersion: publicProcedure
-      .input(createPromptVersionInputSchema)
-      .mutation(({ input }) => createPromptVersion(input)),
-    getVersionById: publicProcedure
+    createVersion: authorizedProcedure
+      .input(createPromptVersionInputSchema.omit({ created_by: true }))
+      .mutation(({ input, ctx }) => createPromptVersion({ ...input, created_by: ctx.user.id })),
+    getVersionById: authorizedProcedure
       .input(z.string())
       .query(({ input }) => getPromptVersionById(input)),
-    getVersionsByPromptId: publicProcedure
+    getVersionsByPromptId: authorizedProcedure
       .input(z.string())
       .query(({ input }) => getPromptVersionsByPromptId(input)),
-    promoteVersion: publicProcedure
+    promoteVersion: authorizedProcedure
       .input(z.object({ versionId: z.string(), promptId: z.string() }))
       .mutation(({ input }) => promotePromptVersion(input.versionId, input.promptId)),
-    compareVersions: publicProcedure
+    compareVersions: authorizedProcedure
       .input(z.object({ versionId1: z.string(), versionId2: z.string() }))
       .query(({ input }) => comparePromptVersions(input.versionId1, input.versionId2)),
+    render: authorizedProcedure
+      .input(renderPromptInputSchema)
+      .query(({ input }) => renderPrompt(input)),
+    deploy: authorizedProcedure
+      .input(deployPromptVersionInputSchema)
+      .mutation(({ input, ctx }) => deployPromptVersion(input, ctx.user.id)),
+    rollback: authorizedProcedure
+      .input(promptEnvironmentInputSchema)
+      .mutation(({ input, ctx }) => rollbackPromptDeployment(input, ctx.user.id)),
+    resolve: authorizedProcedure
+      .input(promptEnvironmentInputSchema)
+      .query(({ input }) => resolvePromptVersion(input)),
+    getDeployments: authorizedProcedure
+      .input(z.string())
+      .query(({ input }) => getPromptDeployments(input)),
+    getDeploymentHistory: authorizedProcedure
+      .input(z.object({ prompt_id: z.string(), environment: promptEnvironmentSchema.optional(), limit: z.number().optional() }))
+      .query(({ input }) => getPromptDeploymentHistory(input.prompt_id, input.environment, input.limit)),
   }),
 
   // Chat routes
   chat: router({
-    createSession: publicProcedure
-      .input(createChatSessionInputSchema)
-      .mutation(({ input }) => createChatSession(input)),
-    getSessionById: publicProcedure
+    createSession: authorizedProcedure
+      .input(createChatSessionInputSchema.omit({ user_id: true }))
+      .mutation(({ input, ctx }) => createChatSession({ ...input, user_id: ctx.user.id })),
+    getSessionById: authorizedProcedure
       .input(z.string())
       .query(({ input }) => getChatSessionById(input)),
-    getSessionsByProjectId: publicProcedure
+    getSessionsByProjectId: authorizedProcedure
       .input(z.string())
       .query(({ input }) => getChatSessionsByProjectId(input)),
-    getSessionsByUserId: publicProcedure
+    getSessionsByUserId: authedProcedure
       .input(z.string())
-      .query(({ input }) => getChatSessionsByUserId(input)),
-    sendMessage: publicProcedure
+      .query(({ input, ctx }) => {
+        assertSelf(ctx, input);
+        return getChatSessionsByUserId(input);
+      }),
+    sendMessage: authorizedProcedure
       .input(chatMessageInputSchema)
       .mutation(({ input }) => sendChatMessage(input)),
-    updateSession: publicProcedure
+    updateSession: authorizedProcedure
       .input(z.object({ sessionId: z.string(), messages: z.array(z.any()) }))
       .mutation(({ input }) => updateChatSession(input.sessionId, input.messages)),
-    deleteSession: publicProcedure
+    deleteSession: authorizedProcedure
       .input(z.string())
       .mutation(({ input }) => deleteChatSession(input)),
   }),
 
   // Experiment routes (A/B testing)
   experiments: router({
-    create: publicProcedure
+    create: authorizedProcedure
       .input(z.object({ promptId: z.string(), name: z.string(), variants: z.record(z.any()) }))
       .mutation(({ input }) => createExperiment(input.promptId, input.name, input.variants)),
-    getById: publicProcedure
+    getById: authorizedProcedure
       .input(z.string())
       .query(({ input }) => getExperimentById(input)),
-    getByPromptId: publicProcedure
+    getByPromptId: authorizedProcedure
       .input(z.string())
       .query(({ input }) => getExperimentsByPromptId(input)),
-    start: publicProcedure
+    start: authorizedProcedure
       .input(z.string())
       .mutation(({ input }) => startExperiment(input)),
-    stop: publicProcedure
+    stop: authorizedProcedure
       .input(z.string())
       .mutation(({ input }) => stopExperiment(input)),
-    runComparison: publicProcedure
+    runComparison: authorizedProcedure
       .input(z.object({ experimentId: z.string(), input: z.record(z.any()) }))
       .mutation(({ input }) => runExperimentComparison(input.experimentId, input.input)),
   }),
 
   // Run and Analytics routes
   runs: router({
-    create: publicProcedure
+    create: scopedProcedure
       .input(createRunInputSchema)
-      .mutation(({ input }) => createRun(input)),
-    getById: publicProcedure
+      .mutation(async ({ input, ctx }) => {
+        const project = await resolveTarget('project', input.project_id);
+        await enforceRateLimits(ctx, project && { orgId: project.orgId, apiKeyId: ctx.apiKey?.id });
+        return createRun(withoutReservedRunFlags(input));
+      }),
+    getById: authorizedProcedure
       .input(z.string())
       .query(({ input }) => getRunById(input)),
-    getByProjectId: publicProcedure
+    getByProjectId: authorizedProcedure
       .input(z.object({ projectId: z.string(), limit: z.number().optional() }))
       .query(({ input }) => getRunsByProjectId(input.projectId, input.limit)),
-    getAnalytics: publicProcedure
+    getAnalytics: authorizedProcedure
       .input(analyticsQueryInputSchema)
-      .query(({ input }) => getAnalytics(input)),
-    exportData: publicProcedure
+      .query(({ input, ctx }) => getAnalytics(input, ctx.user.id)),
+    exportData: authorizedProcedure
       .input(z.object({ query: analyticsQueryInputSchema, format: z.enum(['csv', 'json']) }))
-      .query(({ input }) => exportRunsData(input.query, input.format)),
+      .query(({ input, ctx }) => exportRunsData(input.query, input.format, ctx.user.id)),
+    recomputeCosts: authorizedProcedure
+      .input(analyticsQueryInputSchema)
+      .mutation(({ input, ctx }) => recomputeRunCosts(input, ctx.user.id)),
   }),
 
   // Pipeline routes
   pipelines: router({
-    create: publicProcedure
+    create: authorizedProcedure
       .input(createPipelineInputSchema)
       .mutation(({ input }) => createPipeline(input)),
-    getById: publicProcedure
+    getById: authorizedProcedure
       .input(z.string())
       .query(({ input }) => getPipelineById(input)),
-    getByProjectId: publicProcedure
+    getByProjectId: authorizedProcedure
       .input(z.string())
       .query(({ input }) => getPipelinesByProjectId(input)),
-    update: publicProcedure
+    update: authorizedProcedure
       .input(updatePipelineInputSchema)
       .mutation(({ input }) => updatePipeline(input)),
-    publish: publicProcedure
+    publish: authorizedProcedure
       .input(z.string())
       .mutation(({ input }) => publishPipeline(input)),
     execute: publicProcedure
       .input(z.object({ slug: z.string(), input: z.record(z.any()), apiKey: z.string() }))
-      .mutation(({ input }) => executePipeline(input.slug, input.input, input.apiKey)),
+      .mutation(async ({ input, ctx }) => {
+        // Invalid keys are not limited here; executePipeline reports them
+        const apiKey = await authenticateApiKey(input.apiKey);
+        await enforceRateLimits(ctx, apiKey && { orgId: apiKey.org_id, apiKeyId: apiKey.id, pipelineSlug: input.slug });
+        return executePipeline(input.slug, input.input, input.apiKey);
+      }),
     validateGraph: publicProcedure
       .input(z.record(z.any()))
       .query(({ input }) => validatePipelineGraph(input)),
@@ -354,24 +756,27 @@ const appRouter = router({
 
   // Billing routes
   billing: router({
-    createCheckoutSession: publicProcedure
+    createCheckoutSession: authorizedProcedure
       .input(z.object({ orgId: z.string(), plan: z.string(), successUrl: z.string() }))
       .mutation(({ input }) => createStripeCheckoutSession(input.orgId, input.plan, input.successUrl)),
-    verifySession: publicProcedure
+    verifySession: authedProcedure
       .input(stripeVerificationInputSchema)
       .mutation(({ input }) => verifyStripeSession(input)),
-    updatePlan: publicProcedure
+    updatePlan: authorizedProcedure
       .input(z.object({ orgId: z.string(), plan: z.string(), stripeCustomerId: z.string() }))
       .mutation(({ input }) => updateOrganizationPlan(input.orgId, input.plan, input.stripeCustomerId)),
-    getByOrgId: publicProcedure
+    getByOrgId: authorizedProcedure
       .input(z.string())
       .query(({ input }) => getBillingByOrgId(input)),
-    createPortalSession: publicProcedure
+    createPortalSession: authorizedProcedure
       .input(z.object({ orgId: z.string(), returnUrl: z.string() }))
       .mutation(({ input }) => createStripePortalSession(input.orgId, input.returnUrl)),
-    checkQuota: publicProcedure
+    checkQuota: authorizedProcedure
       .input(z.string())
       .query(({ input }) => checkUsageQuota(input)),
+    getSeatUsage: authorizedProcedure
+      .input(z.string())
+      .query(({ input }) => getSeatUsage(input)),
     webhook: publicProcedure
       .input(z.any())
       .mutation(({ input }) => handleStripeWebhook(input)),
@@ -379,23 +784,94 @@ const appRouter = router({
 
   // Provider keys routes
   providerKeys: router({
-    create: publicProcedure
+    create: authorizedProcedure
       .input(createProviderKeyInputSchema)
-      .mutation(({ input }) => createProviderKey(input)),
-    getByOrgId: publicProcedure
+      .mutation(({ input, ctx }) => createProviderKey(input, ctx.user.id)),
+    getByOrgId: authorizedProcedure
       .input(z.string())
       .query(({ input }) => getProviderKeysByOrgId(input)),
-    getByProvider: publicProcedure
-      .input(z.object({ orgId: z.string(), provider: z.string() }))
+    getByProvider: authorizedProcedure
+      .input(z.object({ orgId: z.string(), provider: providerTypeSchema }))
       .query(({ input }) => getProviderKey(input.orgId, input.provider)),
-    delete: publicProcedure
-      .input(z.string())
-      .mutation(({ input }) => deleteProviderKey(input)),
-    test: publicProcedure
-      .input(z.object({ provider: z.string(), apiKey: z.string() }))
+    setDefault: authorizedProcedure
+      .input(providerKeyRefInputSchema)
+      .mutation(({ input, ctx }) => setDefaultProviderKey(input, ctx.user.id)),
+    delete: authorizedProcedure
+      .input(providerKeyRefInputSchema)
+      .mutation(({ input, ctx }) => deleteProviderKey(input, ctx.user.id)),
+    test: authorizedProcedure
+      .input(z.object({ org_id: z.string(), provider: providerTypeSchema, apiKey: z.string() }))
       .mutation(({ input }) => testProviderKey(input.provider, input.apiKey)),
   }),
 
+  // Model catalog routes
+  modelCatalog: router({
+    getByOrgId: authorizedProcedure
+      .input(z.string())
+      .query(({ input }) => getModelCatalog(input)),
+    upsert: authorizedProcedure
+      .input(upsertModelCatalogEntryInputSchema)
+      .mutation(({ input, ctx }) => upsertModelCatalogEntry(input, ctx.user.id)),
+    delete: authorizedProcedure
+      .input(modelCatalogEntryRefInputSchema)
+      .mutation(({ input, ctx }) => deleteModelCatalogEntry(input, ctx.user.id)),
+  }),
+
+  // Routing policy routes
+  routingPolicies: router({
+    getByProjectId: authorizedProcedure
+      .input(z.string())
+      .query(({ input }) => getRoutingPolicy(input)),
+    upsert: authorizedProcedure
+      .input(upsertRoutingPolicyInputSchema)
+      .mutation(({ input, ctx }) => upsertRoutingPolicy(input, ctx.user.id)),
+    delete: authorizedProcedure
+      .input(z.string())
+      .mutation(({ input, ctx }) => deleteRoutingPolicy(input, ctx.user.id)),
+  }),
+
+  // Response cache routes
+  responseCache: router({
+    getPolicy: authorizedProcedure
+      .input(z.string())
+      .query(({ input }) => getCachePolicy(input)),
+    upsertPolicy: authorizedProcedure
+      .input(upsertCachePolicyInputSchema)
+      .mutation(({ input, ctx }) => upsertCachePolicy(input, ctx.user.id)),
+    clear: authorizedProcedure
+      .input(z.string())
+      .mutation(({ input, ctx }) => clearResponseCache(input, ctx.user.id)),
+  }),
+
+  // Rate limit routes
+  rateLimits: router({
+    getByOrgId: authorizedProcedure
+      .input(z.string())
+      .query(({ input }) => getRateLimits(input)),
+    upsert: authorizedProcedure
+      .input(upsertRateLimitOverridesInputSchema)
+      .mutation(({ input, ctx }) => upsertRateLimitOverrides(input, ctx.user.id)),
+    delete: authorizedProcedure
+      .input(z.string())
+      .mutation(({ input, ctx }) => deleteRateLimitOverrides(input, ctx.user.id)),
+  }),
+
+  // Organization API key routes
+  apiKeys: router({
+    create: authorizedProcedure
+      .input(createApiKeyInputSchema)
+      .mutation(({ input }) => createApiKey(input)),
+    getByOrgId: authorizedProcedure
+      .input(z.string())
+      .query(({ input }) => getApiKeysByOrgId(input)),
+    revoke: authorizedProcedure
+      .input(z.string())
+      .mutation(({ input }) => revokeApiKey(input)),
+    rotate: authorizedProcedure
+      .input(z.string())
+      .mutation(({ input }) => rotateApiKey(input)),
+  }),
+
   // Templates routes
   templates: router({
     getPublic: publicProcedure
@@ -403,59 +879,76 @@ const appRouter = router({
     getByCategory: publicProcedure
       .input(z.string())
       .query(({ input }) => getTemplatesByCategory(input)),
-    getById: publicProcedure
-      .input(z.string())
-      .query(({ input }) => getTemplateById(input)),
-    createOrganizationTemplate: publicProcedure
+    getById: authorizedProcedure
+      .input(z.object({ orgId: z.string(), id: z.string() }))
+      .query(({ input }) => getTemplateById(input.id, input.orgId)),
+    createOrganizationTemplate: authorizedProcedure
       .input(z.object({ orgId: z.string(), name: z.string(), category: z.string(), content: z.record(z.any()) }))
       .mutation(({ input }) => createOrganizationTemplate(input.orgId, input.name, input.category, input.content)),
-    getByOrgId: publicProcedure
+    getByOrgId: authorizedProcedure
       .input(z.string())
       .query(({ input }) => getOrganizationTemplates(input)),
-    install: publicProcedure
+    install: authorizedProcedure
       .input(z.object({ templateId: z.string(), projectId: z.string() }))
-      .mutation(({ input }) => installTemplate(input.templateId, input.projectId)),
+      .mutation(({ input, ctx }) => installTemplate(input.templateId, input.projectId, ctx.user.id)),
   }),
 
   // Audit routes
   audit: router({
-    log: publicProcedure
+    log: authorizedProcedure
       .input(z.object({
         orgId: z.string(),
-        actorUserId: z.string(),
         action: z.string(),
         targetType: z.string(),
         targetId: z.string(),
         metadata: z.record(z.any()).optional()
       }))
-      .mutation(({ input }) => logAuditEvent(input.orgId, input.actorUserId, input.action, input.targetType, input.targetId, input.metadata)),
-    getByOrgId: publicProcedure
+      .mutation(({ input, ctx }) => logAuditEvent(input.orgId, ctx.user.id, input.action, input.targetType, input.targetId, input.metadata)),
+    getByOrgId: authorizedProcedure
       .input(z.object({ orgId: z.string(), limit: z.number().optional(), offset: z.number().optional() }))
       .query(({ input }) => getAuditLogsByOrgId(input.orgId, input.limit, input.offset)),
-    getByUser: publicProcedure
+    getByUser: authedProcedure
       .input(z.object({ userId: z.string(), limit: z.number().optional() }))
-      .query(({ input }) => getAuditLogsByUser(input.userId, input.limit)),
-    getByTarget: publicProcedure
-      .input(z.object({ targetType: z.string(), targetId: z.string() }))
-      .query(({ input }) => getAuditLogsByTarget(input.targetType, input.targetId)),
+      .query(({ input, ctx }) => {
+        assertSelf(ctx, input.userId);
+        return getAuditLogsByUser(input.userId, input.limit);
+      }),
+    getByTarget: authorizedProcedure
+      .input(z.object({ orgId: z.string(), targetType: z.string(), targetId: z.string() }))
+      .query(({ input }) => getAuditLogsByTarget(input.orgId, input.targetType, input.targetId)),
   }),
 });
 
 export type AppRouter = typeof appRouter;
 
+const ORG_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
 async function start() {
   const port = process.env['SERVER_PORT'] || 2022;
   const server = createHTTPServer({
     middleware: (req, res, next) => {
+      // SCIM is plain REST for identity providers, so it is served beside tRPC
+      if (isScimRequest(req)) {
+        handleScimRequest(req, res);
+        return;
+      }
+      // OpenAI-compatible chat completions, so existing SDKs can point their base URL here
+      if (isOpenAiProxyRequest(req)) {
+        handleOpenAiProxyRequest(req, res);
+        return;
+      }
       cors()(req, res, next);
     },
     router: appRouter,
-    createContext() {
-      return {};
-    },
+    createContext,
   });
   server.listen(port);
   console.log(`PrismForge AI Studio TRPC server listening at port: ${port}`);
+
+  // Failures are logged by the handler; the next tick retries
+  setInterval(() => {
+    purgeDeletedOrganizations().catch(() => undefined);
+  }, ORG_PURGE_INTERVAL_MS);
 }
 
 start();
\ No newline at end of file
@@ -16,6 +16,31 @@ export type ExperimentStatus = z.infer<typeof experimentStatusSchema>;
 export const pipelineStatusSchema = z.enum(['draft', 'published']);
 export type PipelineStatus = z.infer<typeof pipelineStatusSchema>;
 
+export const ssoProtocolSchema = z.enum(['oidc', 'saml']);
+export type SsoProtocol = z.infer<typeof ssoProtocolSchema>;
+
+export const invitationStatusSchema = z.enum(['pending', 'accepted', 'declined', 'revoked']);
+export type InvitationStatus = z.infer<typeof invitationStatusSchema>;
+
+export const apiKeyScopeSchema = z.enum(['pipelines:execute', 'runs:write', 'scim', 'chat:completions']);
+export type ApiKeyScope = z.infer<typeof apiKeyScopeSchema>;
+
+export const promptFormatSchema = z.enum(['text', 'chat']);
+export type PromptFormat = z.infer<typeof promptFormatSchema>;
+
+export const versionBumpSchema = z.enum(['major', 'minor', 'patch']);
+export type VersionBump = z.infer<typeof versionBumpSchema>;
+
+export const promptDeploymentActionSchema = z.enum(['deploy', 'rollback']);
+export type PromptDeploymentAction = z.infer<typeof promptDeploymentActionSchema>;
+
+// Roles a team can be granted on a single project
+export const projectRoleSchema = z.enum(['editor', 'viewer']);
+export type ProjectRole = z.infer<typeof projectRoleSchema>;
+
+export const authTokenPurposeSchema = z.enum(['password_reset', 'magic_link', 'two_factor_challenge']);
+export type AuthTokenPurpose = z.infer<typeof authTokenPurposeSchema>;
+
 // User schema
 export const userSchema = z.object({
   id: z.string(),
@@ -27,6 +52,33 @@ export const userSchema = z.object({
 });
 export type User = z.infer<typeof userSchema>;
 
+// Session schema
+export const sessionSchema = z.object({
+  id: z.string(),
+  user_id: z.string(),
+  expires_at: z.coerce.date(),
+  revoked_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date(),
+});
+export type Session = z.infer<typeof sessionSchema>;
+
+// TwoFactorEnrollment schema (the secret is only shown while enrolling)
+export const twoFactorEnrollmentSchema = z.object({
+  secret: z.string(),
+  otpauth_uri: z.string(),
+});
+export type TwoFactorEnrollment = z.infer<typeof twoFactorEnrollmentSchema>;
+
+// EmailOutboxMessage schema
+export const emailOutboxMessageSchema = z.object({
+  id: z.string(),
+  to_address: z.string(),
+  subject: z.string(),
+  body: z.string(),
+  created_at: z.coerce.date(),
+});
+export type EmailOutboxMessage = z.infer<typeof emailOutboxMessageSchema>;
+
 // Organization schema
 export const organizationSchema = z.object({
   id: z.string(),
@@ -34,6 +86,9 @@ export const organizationSchema = z.object({
   slug: z.string(),
   owner_user_id: z.string(),
   plan: organizationPlanSchema,
+  require_two_factor: z.boolean(),
+  deleted_at: z.coerce.date().nullable(),
+  purge_after: z.coerce.date().nullable(),
   created_at: z.coerce.date(),
 });
 export type Organization = z.infer<typeof organizationSchema>;
@@ -48,6 +103,35 @@ export const membershipSchema = z.object({
 });
 export type Membership = z.infer<typeof membershipSchema>;
 
+// Invitation schema
+export const invitationSchema = z.object({
+  id: z.string(),
+  org_id: z.string(),
+  email: z.string().email(),
+  role: membershipRoleSchema,
+  status: invitationStatusSchema,
+  invited_by_user_id: z.string(),
+  expires_at: z.coerce.date(),
+  responded_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date(),
+});
+export type Invitation = z.infer<typeof invitationSchema>;
+
+// SsoConnection schema (the client secret is write-only and never returned)
+export const ssoConnectionSchema = z.object({
+  org_id: z.string(),
+  protocol: ssoProtocolSchema,
+  issuer: z.string(),
+  client_id: z.string().nullable(),
+  has_client_secret: z.boolean(),
+  saml_metadata: z.string().nullable(),
+  default_role: membershipRoleSchema,
+  sso_required: z.boolean(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date(),
+});
+export type SsoConnection = z.infer<typeof ssoConnectionSchema>;
+
 // Project schema
 export const projectSchema = z.object({
   id: z.string(),
@@ -55,22 +139,181 @@ export const projectSchema = z.object({
   name: z.string(),
   description: z.string().nullable(),
   tags: z.array(z.string()),
+  restricted: z.boolean(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date(),
 });
 export type Project = z.infer<typeof projectSchema>;
 
-// ProviderKey schema
+// Team schema
+export const teamSchema = z.object({
+  id: z.string(),
+  org_id: z.string(),
+  name: z.string(),
+  description: z.string().nullable(),
+  created_at: z.coerce.date(),
+});
+export type Team = z.infer<typeof teamSchema>;
+
+// TeamMember schema
+export const teamMemberSchema = z.object({
+  team_id: z.string(),
+  user_id: z.string(),
+  created_at: z.coerce.date(),
+});
+export type TeamMember = z.infer<typeof teamMemberSchema>;
+
+// TeamProjectGrant schema
+export const teamProjectGrantSchema = z.object({
+  team_id: z.string(),
+  project_id: z.string(),
+  role: projectRoleSchema,
+  created_at: z.coerce.date(),
+});
+export type TeamProjectGrant = z.infer<typeof teamProjectGrantSchema>;
+
+// ProviderKey schema (the key is never returned; masked_key shows only its last characters)
 export const providerKeySchema = z.object({
   id: z.string(),
   org_id: z.string(),
   provider: providerTypeSchema,
   label: z.string(),
-  encrypted_api_key: z.string(),
+  masked_key: z.string(),
+  is_default: z.boolean(),
   created_at: z.coerce.date(),
 });
 export type ProviderKey = z.infer<typeof providerKeySchema>;
 
+// ModelCatalogEntry schema (prices in USD per 1K tokens; source says whether an org entry overrides the built-in one)
+export const modelCatalogEntrySchema = z.object({
+  provider: providerTypeSchema,
+  model_id: z.string(),
+  context_window: z.number().int(),
+  input_price_per_1k: z.number(),
+  output_price_per_1k: z.number(),
+  supports_tools: z.boolean(),
+  supports_vision: z.boolean(),
+  supports_json: z.boolean(),
+  supports_streaming: z.boolean(),
+  source: z.enum(['builtin', 'organization']),
+});
+export type ModelCatalogEntry = z.infer<typeof modelCatalogEntrySchema>;
+
+// RoutingPolicy schema (per project; projects without a stored policy get the defaults)
+export const routingTargetSchema = z.object({
+  provider: providerTypeSchema,
+  model: z.string(),
+});
+export type RoutingTarget = z.infer<typeof routingTargetSchema>;
+
+export const routingPolicySchema = z.object({
+  project_id: z.string(),
+  fallbacks: z.array(routingTargetSchema), // Tried in order once the requested model has failed
+  max_retries: z.number().int(), // Per target, on 429, 5xx and timeouts
+  initial_backoff_ms: z.number().int(), // Doubles on every retry
+  timeout_ms: z.number().int(),
+  key_weights: z.record(z.number()), // Provider key id -> weight; keys without a weight are not balanced across
+  updated_at: z.coerce.date().nullable(),
+});
+export type RoutingPolicy = z.infer<typeof routingPolicySchema>;
+
+// CachePolicy schema (per project; caching is off for projects without a stored policy)
+export const cachePolicySchema = z.object({
+  project_id: z.string(),
+  ttl_seconds: z.number().int(), // 0 disables caching
+  semantic: z.boolean(), // Also serve responses to prompts whose embedding is close enough
+  similarity_threshold: z.number(), // Minimum cosine similarity for a semantic hit
+  embedding_model: z.string().nullable(),
+  updated_at: z.coerce.date().nullable(),
+});
+export type CachePolicy = z.infer<typeof cachePolicySchema>;
+
+// RateLimitSettings schema (the limits an org's calls are held to)
+export const rateLimitSettingsSchema = z.object({
+  org_requests_per_minute: z.number().int(), // Shared by every rate limited call of the org
+  api_key_requests_per_minute: z.number().int(), // Per API key
+  pipeline_requests_per_minute: z.number().int(), // Per pipeline endpoint slug
+  max_concurrent_model_calls: z.number().int(), // In-flight gateway calls across the org
+});
+export type RateLimitSettings = z.infer<typeof rateLimitSettingsSchema>;
+
+// RateLimits schema (plan defaults, admin overrides and the limits in effect)
+export const rateLimitsSchema = z.object({
+  org_id: z.string(),
+  plan: organizationPlanSchema,
+  defaults: rateLimitSettingsSchema,
+  overrides: z.object({
+    org_requests_per_minute: z.number().int().nullable(),
+    api_key_requests_per_minute: z.number().int().nullable(),
+    pipeline_requests_per_minute: z.number().int().nullable(),
+    max_concurrent_model_calls: z.number().int().nullable(),
+  }),
+  limits: rateLimitSettingsSchema,
+  updated_at: z.coerce.date().nullable(),
+});
+export type RateLimits = z.infer<typeof rateLimitsSchema>;
+
+// Model gateway schemas (one provider-neutral shape that every adapter translates to and from)
+export const modelToolCallSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  arguments: z.string(), // JSON-encoded, as produced by the model
+});
+export type ModelToolCall = z.infer<typeof modelToolCallSchema>;
+
+export const modelMessageSchema = z.object({
+  role: z.enum(['system', 'user', 'assistant', 'tool']),
+  content: z.string(),
+  tool_calls: z.array(modelToolCallSchema).optional(), // Assistant messages only
+  tool_call_id: z.string().optional(), // Tool messages only
+});
+export type ModelMessage = z.infer<typeof modelMessageSchema>;
+
+export const modelToolSchema = z.object({
+  name: z.string(),
+  description: z.string().optional(),
+  parameters: z.record(z.unknown()), // JSON Schema for the arguments
+});
+export type ModelTool = z.infer<typeof modelToolSchema>;
+
+export const modelResponseFormatSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('text') }),
+  z.object({ type: z.literal('json_object') }),
+  z.object({ type: z.literal('json_schema'), name: z.string(), schema: z.record(z.unknown()) }),
+]);
+export type ModelResponseFormat = z.infer<typeof modelResponseFormatSchema>;
+
+export const modelUsageSchema = z.object({
+  input_tokens: z.number().int(),
+  output_tokens: z.number().int(),
+});
+export type ModelUsage = z.infer<typeof modelUsageSchema>;
+
+// One provider call made while serving a request; retries and fallbacks each add an attempt
+export const modelAttemptSchema = z.object({
+  provider: providerTypeSchema,
+  model: z.string(),
+  key_id: z.string().nullable(), // Null when no stored key was used (local servers)
+  success: z.boolean(),
+  status: z.number().int().nullable(), // HTTP status of a failed call; null if the provider was unreachable
+  error: z.string().nullable(),
+  latency_ms: z.number().int(),
+});
+export type ModelAttempt = z.infer<typeof modelAttemptSchema>;
+
+export const modelResponseSchema = z.object({
+  provider: providerTypeSchema,
+  model: z.string(),
+  content: z.string(),
+  tool_calls: z.array(modelToolCallSchema),
+  finish_reason: z.enum(['stop', 'length', 'tool_calls', 'content_filter']),
+  usage: modelUsageSchema,
+  latency_ms: z.number().int(),
+  attempts: z.array(modelAttemptSchema), // Empty for cache hits
+  cache_hit: z.boolean(),
+});
+export type ModelResponse = z.infer<typeof modelResponseSchema>;
+
 // Prompt schema
 export const promptSchema = z.object({
   id: z.string(),
@@ -83,13 +326,46 @@ export const promptSchema = z.object({
 });
 export type Prompt = z.infer<typeof promptSchema>;
 
+// PromptVariable schema (one declared template variable)
+export const promptVariableTypeSchema = z.enum(['string', 'number', 'enum', 'json']);
+export type PromptVariableType = z.infer<typeof promptVariableTypeSchema>;
+
+export const promptVariableSchema = z.object({
+  type: promptVariableTypeSchema,
+  required: z.boolean(),
+  description: z.string().nullable(),
+  options: z.array(z.string()).nullable(), // Allowed values of enum variables
+  default: z.unknown().optional(), // Used when the input omits the variable
+});
+export type PromptVariable = z.infer<typeof promptVariableSchema>;
+
+// PromptMessage schema (one message of a chat-format version; content is a template)
+export const promptMessageSchema = z.object({
+  role: z.enum(['system', 'user', 'assistant']),
+  content: z.string(),
+});
+export type PromptMessage = z.infer<typeof promptMessageSchema>;
+
+// Model parameters a version is meant to run with; callers may override each of them
+export const promptModelParamsSchema = z.object({
+  model: z.string().optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  max_tokens: z.number().int().positive().optional(),
+});
+export type PromptModelParams = z.infer<typeof promptModelParamsSchema>;
+
 // PromptVersion schema
 export const promptVersionSchema = z.object({
   id: z.string(),
   prompt_id: z.string(),
-  version: z.string(),
-  content: z.string(),
-  variables: z.record(z.unknown()),
+  version: z.string(), // Semver, e.g. 1.4.0 or 2.0.0-rc.1
+  parent_version_id: z.string().nullable(),
+  format: promptFormatSchema,
+  content: z.string(), // Template of text versions (see handlers/prompt_templates.ts); empty for chat versions
+  messages: z.array(promptMessageSchema).nullable(), // Chat versions only
+  tools: z.array(modelToolSchema),
+  model_params: promptModelParamsSchema,
+  variables: z.record(promptVariableSchema),
   test_inputs: z.record(z.unknown()),
   commit_message: z.string().nullable(),
   created_by: z.string(),
@@ -97,6 +373,90 @@ export const promptVersionSchema = z.object({
 });
 export type PromptVersion = z.infer<typeof promptVersionSchema>;
 
+// RenderedPrompt schema (a prompt version with its variables filled in, ready for the gateway)
+export const renderedPromptSchema = z.object({
+  version_id: z.string(),
+  format: promptFormatSchema,
+  text: z.string().nullable(), // Text versions only
+  messages: z.array(modelMessageSchema), // A text version's text becomes a single user message
+  tools: z.array(modelToolSchema),
+  model_params: promptModelParamsSchema,
+});
+export type RenderedPrompt = z.infer<typeof renderedPromptSchema>;
+
+// PromptDeployment schema (the version an environment of a prompt currently serves)
+export const promptDeploymentSchema = z.object({
+  prompt_id: z.string(),
+  environment: z.string(),
+  version_id: z.string(),
+  deployed_by: z.string(),
+  deployed_at: z.coerce.date(),
+});
+export type PromptDeployment = z.infer<typeof promptDeploymentSchema>;
+
+// PromptDeploymentEvent schema (an entry of an environment's deployment history)
+export const promptDeploymentEventSchema = z.object({
+  id: z.string(),
+  prompt_id: z.string(),
+  environment: z.string(),
+  action: promptDeploymentActionSchema,
+  version_id: z.string(),
+  previous_version_id: z.string().nullable(),
+  deployed_by: z.string(),
+  rolled_back_at: z.coerce.date().nullable(), // Set on deploys a later rollback undid
+  created_at: z.coerce.date(),
+});
+export type PromptDeploymentEvent = z.infer<typeof promptDeploymentEventSchema>;
+
+// Prompt version diff schemas (computed by handlers/prompt_diff.ts)
+export const diffSegmentSchema = z.object({
+  type: z.enum(['equal', 'added', 'removed']),
+  text: z.string(),
+});
+export type DiffSegment = z.infer<typeof diffSegmentSchema>;
+
+export const diffLineSchema = z.object({
+  type: z.enum(['context', 'added', 'removed']),
+  content: z.string(),
+  old_line: z.number().int().nullable(), // 1-based; null for added lines
+  new_line: z.number().int().nullable(), // 1-based; null for removed lines
+  segments: z.array(diffSegmentSchema).nullable(), // Word-level highlights of a changed line paired with its replacement
+});
+export type DiffLine = z.infer<typeof diffLineSchema>;
+
+export const diffHunkSchema = z.object({
+  old_start: z.number().int(),
+  old_lines: z.number().int(),
+  new_start: z.number().int(),
+  new_lines: z.number().int(),
+  lines: z.array(diffLineSchema),
+});
+export type DiffHunk = z.infer<typeof diffHunkSchema>;
+
+export const jsonChangeSchema = z.object({
+  path: z.string(), // Dotted path of the changed key, e.g. tone.options
+  type: z.enum(['added', 'removed', 'changed']),
+  old_value: z.unknown().optional(),
+  new_value: z.unknown().optional(),
+});
+export type JsonChange = z.infer<typeof jsonChangeSchema>;
+
+export const promptVersionDiffSchema = z.object({
+  content: z.object({
+    hunks: z.array(diffHunkSchema),
+    additions: z.number().int(),
+    deletions: z.number().int(),
+  }),
+  variables: z.array(jsonChangeSchema),
+  test_inputs: z.array(jsonChangeSchema),
+  template_variables: z.object({ // Names the templates reference, not the declarations
+    added: z.array(z.string()),
+    removed: z.array(z.string()),
+  }),
+  unified: z.string(), // The content diff as unified diff text
+});
+export type PromptVersionDiff = z.infer<typeof promptVersionDiffSchema>;
+
 // Experiment schema
 export const experimentSchema = z.object({
   id: z.string(),
@@ -112,8 +472,8 @@ export type Experiment = z.infer<typeof experimentSchema>;
 export const runSchema = z.object({
   id: z.string(),
   project_id: z.string(),
-  prompt_id: z.string(),
-  version_id: z.string(),
+  prompt_id: z.string().nullable(), // Null for proxied calls not linked to a prompt
+  version_id: z.string().nullable(),
   experiment_id: z.string().nullable(),
   model: z.string(),
   input: z.record(z.unknown()),
@@ -189,18 +549,25 @@ export const auditLogSchema = z.object({
 });
 export type AuditLog = z.infer<typeof auditLogSchema>;
 
-// ApiKey schema
+// ApiKey schema (only the hash is stored, so the token itself is never returned after creation)
 export const apiKeySchema = z.object({
   id: z.string(),
   org_id: z.string(),
   label: z.string(),
-  token_hash: z.string(),
-  scopes: z.array(z.string()),
+  token_prefix: z.string(),
+  scopes: z.array(apiKeyScopeSchema),
+  expires_at: z.coerce.date().nullable(),
+  revoked_at: z.coerce.date().nullable(),
   created_at: z.coerce.date(),
   last_used_at: z.coerce.date().nullable(),
 });
 export type ApiKey = z.infer<typeof apiKeySchema>;
 
+export const issuedApiKeySchema = apiKeySchema.extend({
+  token: z.string(),
+});
+export type IssuedApiKey = z.infer<typeof issuedApiKeySchema>;
+
 // Webhook schema
 export const webhookSchema = z.object({
   id: z.string(),
@@ -229,6 +596,38 @@ export const updateUserInputSchema = z.object({
 });
 export type UpdateUserInput = z.infer<typeof updateUserInputSchema>;
 
+// Sign-in input schemas
+export const registerInputSchema = z.object({
+  email: z.string().email(),
+  name: z.string(),
+  password: z.string().min(8),
+  avatar_url: z.string().url().nullable().optional(),
+});
+export type RegisterInput = z.infer<typeof registerInputSchema>;
+
+export const loginInputSchema = z.object({
+  email: z.string().email(),
+  password: z.string(),
+});
+export type LoginInput = z.infer<typeof loginInputSchema>;
+
+export const resetPasswordInputSchema = z.object({
+  token: z.string(),
+  password: z.string().min(8),
+});
+export type ResetPasswordInput = z.infer<typeof resetPasswordInputSchema>;
+
+export const twoFactorCodeInputSchema = z.object({
+  code: z.string().min(6),
+});
+export type TwoFactorCodeInput = z.infer<typeof twoFactorCodeInputSchema>;
+
+export const verifyTwoFactorInputSchema = z.object({
+  challenge_token: z.string(),
+  code: z.string().min(6),
+});
+export type VerifyTwoFactorInput = z.infer<typeof verifyTwoFactorInputSchema>;
+
 // Organization input schemas
 export const createOrganizationInputSchema = z.object({
   name: z.string(),
@@ -243,6 +642,7 @@ export const updateOrganizationInputSchema = z.object({
   name: z.string().optional(),
   slug: z.string().optional(),
   plan: organizationPlanSchema.optional(),
+  require_two_factor: z.boolean().optional(),
 });
 export type UpdateOrganizationInput = z.infer<typeof updateOrganizationInputSchema>;
 
@@ -263,6 +663,47 @@ export const updateProjectInputSchema = z.object({
 });
 export type UpdateProjectInput = z.infer<typeof updateProjectInputSchema>;
 
+// Admin-only, since editors could otherwise open up a project they were granted through a team
+export const setProjectRestrictedInputSchema = z.object({
+  id: z.string(),
+  restricted: z.boolean(),
+});
+export type SetProjectRestrictedInput = z.infer<typeof setProjectRestrictedInputSchema>;
+
+// Team input schemas
+export const createTeamInputSchema = z.object({
+  org_id: z.string(),
+  name: z.string().min(1),
+  description: z.string().nullable().optional(),
+});
+export type CreateTeamInput = z.infer<typeof createTeamInputSchema>;
+
+export const updateTeamInputSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1).optional(),
+  description: z.string().nullable().optional(),
+});
+export type UpdateTeamInput = z.infer<typeof updateTeamInputSchema>;
+
+export const teamMemberInputSchema = z.object({
+  team_id: z.string(),
+  user_id: z.string(),
+});
+export type TeamMemberInput = z.infer<typeof teamMemberInputSchema>;
+
+export const grantTeamProjectInputSchema = z.object({
+  team_id: z.string(),
+  project_id: z.string(),
+  role: projectRoleSchema,
+});
+export type GrantTeamProjectInput = z.infer<typeof grantTeamProjectInputSchema>;
+
+export const revokeTeamProjectInputSchema = z.object({
+  team_id: z.string(),
+  project_id: z.string(),
+});
+export type RevokeTeamProjectInput = z.infer<typeof revokeTeamProjectInputSchema>;
+
 // Prompt input schemas
 export const createPromptInputSchema = z.object({
   project_id: z.string(),
@@ -279,23 +720,67 @@ export const updatePromptInputSchema = z.object({
 export type UpdatePromptInput = z.infer<typeof updatePromptInputSchema>;
 
 // PromptVersion input schemas
+// Variables may also be declared by type name alone, e.g. { name: 'string' }, as older versions did
+export const promptVariableInputSchema = z.union([
+  promptVariableTypeSchema,
+  z.object({
+    type: promptVariableTypeSchema,
+    required: z.boolean().optional(),
+    description: z.string().nullable().optional(),
+    options: z.array(z.string()).min(1).nullable().optional(),
+    default: z.unknown().optional(),
+  }),
+]);
+export type PromptVariableInput = z.infer<typeof promptVariableInputSchema>;
+
+// Versions are text unless they have messages; text versions need content and chat versions need messages
 export const createPromptVersionInputSchema = z.object({
   prompt_id: z.string(),
-  version: z.string(),
-  content: z.string(),
-  variables: z.record(z.unknown()).optional(),
+  // Either an explicit semver or a bump of the prompt's latest version
+  version: z.string().optional(),
+  bump: versionBumpSchema.optional(),
+  parent_version_id: z.string().optional(), // Defaults to the prompt's latest version
+  format: promptFormatSchema.optional(),
+  content: z.string().optional(),
+  messages: z.array(promptMessageSchema).min(1).optional(),
+  tools: z.array(modelToolSchema).optional(),
+  model_params: promptModelParamsSchema.optional(),
+  variables: z.record(promptVariableInputSchema).optional(),
   test_inputs: z.record(z.unknown()).optional(),
   commit_message: z.string().nullable().optional(),
   created_by: z.string(),
 });
 export type CreatePromptVersionInput = z.infer<typeof createPromptVersionInputSchema>;
 
+export const renderPromptInputSchema = z.object({
+  version_id: z.string(),
+  variables: z.record(z.unknown()),
+});
+export type RenderPromptInput = z.infer<typeof renderPromptInputSchema>;
+
+// Prompt deployment input schemas
+export const promptEnvironmentSchema = z.string()
+  .regex(/^[a-z0-9][a-z0-9_-]{0,63}$/, 'Environment names use lowercase letters, digits, - and _, e.g. production');
+
+export const promptEnvironmentInputSchema = z.object({
+  prompt_id: z.string(),
+  environment: promptEnvironmentSchema,
+});
+export type PromptEnvironmentInput = z.infer<typeof promptEnvironmentInputSchema>;
+
+export const deployPromptVersionInputSchema = promptEnvironmentInputSchema.extend({
+  version_id: z.string(),
+});
+export type DeployPromptVersionInput = z.infer<typeof deployPromptVersionInputSchema>;
+
 // Chat input schemas
 export const createChatSessionInputSchema = z.object({
   project_id: z.string(),
   user_id: z.string(),
   title: z.string().nullable().optional(),
   model: z.string(),
+  prompt_version_id: z.string().nullable().optional(), // Rendered with variables into the opening system message
+  variables: z.record(z.unknown()).optional(),
 });
 export type CreateChatSessionInput = z.infer<typeof createChatSessionInputSchema>;
 
@@ -309,15 +794,15 @@ export type ChatMessageInput = z.infer<typeof chatMessageInputSchema>;
 // Run input schemas
 export const createRunInputSchema = z.object({
   project_id: z.string(),
-  prompt_id: z.string(),
-  version_id: z.string(),
+  prompt_id: z.string().nullable().optional(),
+  version_id: z.string().nullable().optional(),
   experiment_id: z.string().nullable().optional(),
   model: z.string(),
   input: z.record(z.unknown()),
   output: z.record(z.unknown()),
   tokens_in: z.number().int(),
   tokens_out: z.number().int(),
-  cost_usd: z.number(),
+  cost_usd: z.number().optional(), // Derived from the model catalog when omitted
   latency_ms: z.number().int(),
   success: z.boolean(),
   flags: z.record(z.unknown()).optional(),
@@ -356,15 +841,159 @@ export const updateMembershipInputSchema = z.object({
 });
 export type UpdateMembershipInput = z.infer<typeof updateMembershipInputSchema>;
 
+// Invitation input schemas
+export const createInvitationInputSchema = z.object({
+  org_id: z.string(),
+  email: z.string().email(),
+  role: membershipRoleSchema.exclude(['owner']),
+});
+export type CreateInvitationInput = z.infer<typeof createInvitationInputSchema>;
+
+// SSO input schemas
+// Only OIDC connections can be saved until SAML sign-in is implemented
+export const upsertSsoConnectionInputSchema = z.object({
+  org_id: z.string(),
+  protocol: ssoProtocolSchema.extract(['oidc']),
+  issuer: z.string().url().optional(),
+  client_id: z.string().optional(),
+  client_secret: z.string().optional(),
+  default_role: membershipRoleSchema.exclude(['owner']).optional(),
+  sso_required: z.boolean().optional(),
+});
+export type UpsertSsoConnectionInput = z.infer<typeof upsertSsoConnectionInputSchema>;
+
+export const completeSsoLoginInputSchema = z.object({
+  state: z.string(),
+  code: z.string(),
+});
+export type CompleteSsoLoginInput = z.infer<typeof completeSsoLoginInputSchema>;
+
 // Provider key input schemas
 export const createProviderKeyInputSchema = z.object({
   org_id: z.string(),
   provider: providerTypeSchema,
   label: z.string(),
   api_key: z.string(), // Raw key before encryption
+  is_default: z.boolean().optional(), // The first key for a provider becomes the default regardless
 });
 export type CreateProviderKeyInput = z.infer<typeof createProviderKeyInputSchema>;
 
+export const providerKeyRefInputSchema = z.object({
+  org_id: z.string(),
+  id: z.string(),
+});
+export type ProviderKeyRefInput = z.infer<typeof providerKeyRefInputSchema>;
+
+// Model gateway input schemas
+// model is either provider-qualified ("anthropic/claude-3-5-sonnet-latest", "local/llama3.1")
+// or a bare id whose provider is inferred from its name ("gpt-4o", "claude-…", "gemini-…")
+export const modelRequestSchema = z.object({
+  model: z.string(),
+  messages: z.array(modelMessageSchema).min(1),
+  tools: z.array(modelToolSchema).optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  max_tokens: z.number().int().positive().optional(),
+  stop: z.array(z.string()).optional(),
+  response_format: modelResponseFormatSchema.optional(),
+});
+export type ModelRequest = z.infer<typeof modelRequestSchema>;
+
+// Model catalog input schemas
+// Fields left out of an override of a built-in model keep the built-in values
+export const upsertModelCatalogEntryInputSchema = z.object({
+  org_id: z.string(),
+  provider: providerTypeSchema,
+  model_id: z.string().min(1),
+  context_window: z.number().int().positive().optional(),
+  input_price_per_1k: z.number().nonnegative(),
+  output_price_per_1k: z.number().nonnegative(),
+  supports_tools: z.boolean().optional(),
+  supports_vision: z.boolean().optional(),
+  supports_json: z.boolean().optional(),
+  supports_streaming: z.boolean().optional(),
+});
+export type UpsertModelCatalogEntryInput = z.infer<typeof upsertModelCatalogEntryInputSchema>;
+
+export const modelCatalogEntryRefInputSchema = z.object({
+  org_id: z.string(),
+  provider: providerTypeSchema,
+  model_id: z.string(),
+});
+export type ModelCatalogEntryRefInput = z.infer<typeof modelCatalogEntryRefInputSchema>;
+
+// Routing policy input schemas
+export const upsertRoutingPolicyInputSchema = z.object({
+  project_id: z.string(),
+  fallbacks: z.array(routingTargetSchema).max(5).optional(),
+  max_retries: z.number().int().min(0).max(5).optional(),
+  initial_backoff_ms: z.number().int().min(0).max(60_000).optional(),
+  timeout_ms: z.number().int().min(1_000).max(600_000).optional(),
+  key_weights: z.record(z.number().int().min(0)).optional(),
+});
+export type UpsertRoutingPolicyInput = z.infer<typeof upsertRoutingPolicyInputSchema>;
+
+// Cache policy input schemas
+export const upsertCachePolicyInputSchema = z.object({
+  project_id: z.string(),
+  ttl_seconds: z.number().int().min(0).max(30 * 24 * 60 * 60).optional(),
+  semantic: z.boolean().optional(),
+  similarity_threshold: z.number().min(0.5).max(1).optional(),
+  embedding_model: z.string().nullable().optional(),
+});
+export type UpsertCachePolicyInput = z.infer<typeof upsertCachePolicyInputSchema>;
+
+// Rate limit input schemas (null clears an override, omitted fields keep theirs)
+export const upsertRateLimitOverridesInputSchema = z.object({
+  org_id: z.string(),
+  org_requests_per_minute: z.number().int().min(1).max(1_000_000).nullable().optional(),
+  api_key_requests_per_minute: z.number().int().min(1).max(1_000_000).nullable().optional(),
+  pipeline_requests_per_minute: z.number().int().min(1).max(1_000_000).nullable().optional(),
+  max_concurrent_model_calls: z.number().int().min(1).max(10_000).nullable().optional(),
+});
+export type UpsertRateLimitOverridesInput = z.infer<typeof upsertRateLimitOverridesInputSchema>;
+
+// API key input schemas
+export const createApiKeyInputSchema = z.object({
+  org_id: z.string(),
+  label: z.string().min(1),
+  scopes: z.array(apiKeyScopeSchema).min(1),
+  expires_at: z.coerce.date().nullable().optional(),
+});
+export type CreateApiKeyInput = z.infer<typeof createApiKeyInputSchema>;
+
+// SCIM input schemas (RFC 7643 resources; attributes we do not store are ignored)
+export const scimUserInputSchema = z.object({
+  userName: z.string().min(1),
+  externalId: z.string().nullable().optional(),
+  displayName: z.string().optional(),
+  name: z.object({
+    formatted: z.string().optional(),
+    givenName: z.string().optional(),
+    familyName: z.string().optional(),
+  }).optional(),
+  emails: z.array(z.object({
+    value: z.string().email(),
+    primary: z.boolean().optional(),
+  })).optional(),
+  active: z.boolean().optional(),
+});
+export type ScimUserInput = z.infer<typeof scimUserInputSchema>;
+
+export const scimGroupInputSchema = z.object({
+  displayName: z.string().min(1),
+  members: z.array(z.object({ value: z.string() })).optional(),
+});
+export type ScimGroupInput = z.infer<typeof scimGroupInputSchema>;
+
+export const scimPatchInputSchema = z.object({
+  Operations: z.array(z.object({
+    op: z.string().transform(op => op.toLowerCase()).pipe(z.enum(['add', 'replace', 'remove'])),
+    path: z.string().optional(),
+    value: z.unknown().optional(),
+  })).min(1),
+});
+export type ScimPatchInput = z.infer<typeof scimPatchInputSchema>;
+
 // Analytics input schemas
 export const analyticsQueryInputSchema = z.object({
   org_id: z.string(),
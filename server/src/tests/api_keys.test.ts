@@ -0,0 +1,156 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, membershipsTable, projectsTable, apiKeysTable } from '../db/schema';
+import {
+  createApiKey,
+  getApiKeysByOrgId,
+  revokeApiKey,
+  rotateApiKey,
+  authenticateApiKey,
+  hashApiKeyToken
+} from '../handlers/api_keys';
+import { authorizeApiKeyProcedure } from '../handlers/authorization';
+import { eq } from 'drizzle-orm';
+
+const testUser = { id: 'user_keys', email: 'keys@example.com', name: 'Keys', avatar_url: null };
+
+const testOrganization = {
+  id: 'org_keys',
+  name: 'Keys Org',
+  slug: 'keys-org',
+  owner_user_id: 'user_keys',
+  plan: 'pro' as const,
+};
+
+describe('api keys', () => {
+  beforeEach(async () => {
+    await createDB();
+
+    await db.insert(usersTable).values(testUser).execute();
+    await db.insert(organizationsTable).values(testOrganization).execute();
+    await db.insert(membershipsTable).values({ id: 'mem_keys', org_id: 'org_keys', user_id: 'user_keys', role: 'owner' }).execute();
+    await db.insert(projectsTable).values({ id: 'project_keys', org_id: 'org_keys', name: 'Project', tags: [] }).execute();
+  });
+
+  afterEach(resetDB);
+
+  describe('createApiKey', () => {
+    it('should return the token once and store only its hash', async () => {
+      const issued = await createApiKey({ org_id: 'org_keys', label: 'CI', scopes: ['runs:write'] });
+
+      expect(issued.token).toStartWith('pf_');
+      expect(issued.token_prefix).toEqual(issued.token.slice(0, 9));
+      expect(issued.scopes).toEqual(['runs:write']);
+      expect((issued as any).token_hash).toBeUndefined();
+
+      const stored = await db.select().from(apiKeysTable).where(eq(apiKeysTable.id, issued.id)).execute();
+      expect(stored[0].token_hash).toEqual(hashApiKeyToken(issued.token));
+      expect(stored[0].token_hash).not.toEqual(issued.token);
+    });
+
+    it('should reject an expiry in the past', async () => {
+      await expect(createApiKey({ org_id: 'org_keys', label: 'Old', scopes: ['runs:write'], expires_at: new Date(Date.now() - 1000) }))
+        .rejects.toThrow(/must be in the future/i);
+    });
+
+    it('should reject unknown organizations', async () => {
+      await expect(createApiKey({ org_id: 'missing_org', label: 'CI', scopes: ['runs:write'] }))
+        .rejects.toThrow(/organization not found/i);
+    });
+  });
+
+  describe('getApiKeysByOrgId', () => {
+    it('should list keys without tokens or hashes', async () => {
+      await createApiKey({ org_id: 'org_keys', label: 'First', scopes: ['runs:write'] });
+      await createApiKey({ org_id: 'org_keys', label: 'Second', scopes: ['pipelines:execute'] });
+
+      const keys = await getApiKeysByOrgId('org_keys');
+
+      expect(keys).toHaveLength(2);
+      keys.forEach(key => {
+        expect((key as any).token).toBeUndefined();
+        expect((key as any).token_hash).toBeUndefined();
+      });
+    });
+  });
+
+  describe('authenticateApiKey', () => {
+    it('should resolve active keys and record the use', async () => {
+      const issued = await createApiKey({ org_id: 'org_keys', label: 'CI', scopes: ['runs:write'] });
+      expect(issued.last_used_at).toBeNull();
+
+      const apiKey = await authenticateApiKey(issued.token);
+
+      expect(apiKey?.id).toEqual(issued.id);
+      expect(apiKey?.last_used_at).toBeInstanceOf(Date);
+    });
+
+    it('should reject revoked keys', async () => {
+      const issued = await createApiKey({ org_id: 'org_keys', label: 'CI', scopes: ['runs:write'] });
+      await revokeApiKey(issued.id);
+
+      expect(await authenticateApiKey(issued.token)).toBeNull();
+      await expect(revokeApiKey(issued.id)).rejects.toThrow(/already revoked/i);
+    });
+
+    it('should reject expired keys', async () => {
+      const issued = await createApiKey({ org_id: 'org_keys', label: 'CI', scopes: ['runs:write'], expires_at: new Date(Date.now() + 60 * 1000) });
+      await db.update(apiKeysTable).set({ expires_at: new Date(Date.now() - 1000) }).where(eq(apiKeysTable.id, issued.id)).execute();
+
+      expect(await authenticateApiKey(issued.token)).toBeNull();
+    });
+  });
+
+  describe('rotateApiKey', () => {
+    it('should replace the token and keep the key settings', async () => {
+      const issued = await createApiKey({ org_id: 'org_keys', label: 'CI', scopes: ['runs:write'] });
+      const rotated = await rotateApiKey(issued.id);
+
+      expect(rotated.id).toEqual(issued.id);
+      expect(rotated.label).toEqual('CI');
+      expect(rotated.token).not.toEqual(issued.token);
+      expect(await authenticateApiKey(issued.token)).toBeNull();
+      expect((await authenticateApiKey(rotated.token))?.id).toEqual(issued.id);
+    });
+  });
+
+  describe('authorizeApiKeyProcedure', () => {
+    it('should allow scoped procedures within the key organization', async () => {
+      const issued = await createApiKey({ org_id: 'org_keys', label: 'CI', scopes: ['runs:write'] });
+
+      const apiKey = await authorizeApiKeyProcedure(issued.token, 'runs.create', { project_id: 'project_keys' });
+
+      expect(apiKey.id).toEqual(issued.id);
+      expect(apiKey.org_id).toEqual('org_keys');
+    });
+
+    it('should require the procedure scope', async () => {
+      const issued = await createApiKey({ org_id: 'org_keys', label: 'CI', scopes: ['pipelines:execute'] });
+
+      await expect(authorizeApiKeyProcedure(issued.token, 'runs.create', { project_id: 'project_keys' }))
+        .rejects.toThrow(/missing the runs:write scope/i);
+    });
+
+    it('should reject procedures that do not accept API keys', async () => {
+      const issued = await createApiKey({ org_id: 'org_keys', label: 'CI', scopes: ['runs:write'] });
+
+      await expect(authorizeApiKeyProcedure(issued.token, 'billing.getByOrgId', 'org_keys'))
+        .rejects.toThrow(/cannot be called with an api key/i);
+    });
+
+    it('should reject targets in other organizations', async () => {
+      await db.insert(organizationsTable).values({ ...testOrganization, id: 'org_other', slug: 'other-org' }).execute();
+      await db.insert(projectsTable).values({ id: 'project_other', org_id: 'org_other', name: 'Other', tags: [] }).execute();
+      const issued = await createApiKey({ org_id: 'org_keys', label: 'CI', scopes: ['runs:write'] });
+
+      await expect(authorizeApiKeyProcedure(issued.token, 'runs.create', { project_id: 'project_other' }))
+        .rejects.toThrow(/another organization/i);
+    });
+
+    it('should reject unknown tokens', async () => {
+      await expect(authorizeApiKeyProcedure('pf_not_a_key', 'runs.create', { project_id: 'project_keys' }))
+        .rejects.toThrow(/invalid api key/i);
+    });
+  });
+});
@@ -292,7 +292,7 @@ describe('Audit Handler', () => {
         });
 
         it('should fetch audit logs for specific target type and ID', async () => {
-            const result = await getAuditLogsByTarget('project', 'test-target-123');
+            const result = await getAuditLogsByTarget(testOrg.id, 'project', 'test-target-123');
 
             expect(result).toHaveLength(3);
             result.forEach(log => {
@@ -303,7 +303,7 @@ describe('Audit Handler', () => {
         });
 
         it('should return logs in descending order by created_at', async () => {
-            const result = await getAuditLogsByTarget('project', 'test-target-123');
+            const result = await getAuditLogsByTarget(testOrg.id, 'project', 'test-target-123');
 
             expect(result).toHaveLength(3);
             for (let i = 1; i < result.length; i++) {
@@ -313,14 +313,19 @@ describe('Audit Handler', () => {
 
         it('should filter by both target type and ID', async () => {
             // Should not return logs with same ID but different type
-            const result = await getAuditLogsByTarget('user', 'test-target-123');
+            const result = await getAuditLogsByTarget(testOrg.id, 'user', 'test-target-123');
             expect(result).toHaveLength(1);
             expect(result[0].target_type).toEqual('user');
             expect(result[0].target_id).toEqual('test-target-123');
         });
 
+        it('should not return logs of other organizations', async () => {
+            const result = await getAuditLogsByTarget('other-org', 'project', 'test-target-123');
+            expect(result).toHaveLength(0);
+        });
+
         it('should return empty array for nonexistent target', async () => {
-            const result = await getAuditLogsByTarget('nonexistent-type', 'nonexistent-id');
+            const result = await getAuditLogsByTarget(testOrg.id, 'nonexistent-type', 'nonexistent-id');
             expect(result).toHaveLength(0);
         });
 
@@ -340,7 +345,7 @@ describe('Audit Handler', () => {
                 complexMetadata
             );
 
-            const result = await getAuditLogsByTarget('complex', 'complex-target');
+            const result = await getAuditLogsByTarget(testOrg.id, 'complex', 'complex-target');
             expect(result).toHaveLength(1);
             expect(result[0].metadata).toEqual(complexMetadata);
         });
@@ -1,17 +1,25 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable } from '../db/schema';
-import { type CreateUserInput, type UpdateUserInput } from '../schema';
+import { usersTable, userCredentialsTable, authTokensTable, emailOutboxTable, sessionsTable } from '../db/schema';
+import { type CreateUserInput, type UpdateUserInput, type RegisterInput } from '../schema';
 import { 
   createUser, 
   getUserById, 
   getUserByEmail, 
   updateUser, 
-  updateLastLogin 
+  updateLastLogin,
+  registerUser,
+  loginWithPassword,
+  requestPasswordReset,
+  resetPassword,
+  requestMagicLink,
+  loginWithMagicLink
 } from '../handlers/auth';
 import { eq } from 'drizzle-orm';
 
+process.env['SESSION_SECRET'] = 'test_session_secret';
+
 // Test input data
 const testUserInput: CreateUserInput = {
   email: 'test@example.com',
@@ -24,6 +32,24 @@ const minimalUserInput: CreateUserInput = {
   name: 'Minimal User',
 };
 
+const registerInput: RegisterInput = {
+  email: 'register@example.com',
+  name: 'Registered User',
+  password: 'correct horse battery',
+  avatar_url: null,
+};
+
+// Reads the token out of the most recent email sent to the address
+const getEmailedToken = async (toAddress: string): Promise<string> => {
+  const messages = await db.select()
+    .from(emailOutboxTable)
+    .where(eq(emailOutboxTable.to_address, toAddress))
+    .execute();
+
+  const match = messages[messages.length - 1].body.match(/token=([\w-]+)/);
+  return match![1];
+};
+
 describe('auth handlers', () => {
   beforeEach(createDB);
   afterEach(resetDB);
@@ -240,4 +266,150 @@ describe('auth handlers', () => {
       await expect(updateLastLogin('non-existent-id')).resolves.toBeUndefined();
     });
   });
-});
\ No newline at end of file
+
+  describe('registerUser', () => {
+    it('should create a user with hashed credentials', async () => {
+      const result = await registerUser(registerInput);
+
+      expect(result.email).toEqual('register@example.com');
+      expect(result.name).toEqual('Registered User');
+      expect(result.last_login_at).toBeInstanceOf(Date);
+      expect((result as Record<string, unknown>)['password_hash']).toBeUndefined();
+
+      const credentials = await db.select()
+        .from(userCredentialsTable)
+        .where(eq(userCredentialsTable.user_id, result.id))
+        .execute();
+
+      expect(credentials).toHaveLength(1);
+      expect(credentials[0].password_hash.startsWith('scrypt$')).toBe(true);
+      expect(credentials[0].password_hash).not.toContain(registerInput.password);
+    });
+
+    it('should salt each password hash', async () => {
+      const first = await registerUser(registerInput);
+      const second = await registerUser({ ...registerInput, email: 'other@example.com' });
+
+      const credentials = await db.select().from(userCredentialsTable).execute();
+      const hashes = credentials.map(c => c.password_hash);
+
+      expect(hashes).toHaveLength(2);
+      expect(first.id).not.toEqual(second.id);
+      expect(hashes[0]).not.toEqual(hashes[1]);
+    });
+
+    it('should reject duplicate emails', async () => {
+      await registerUser(registerInput);
+      await expect(registerUser(registerInput)).rejects.toThrow(/already registered/i);
+    });
+  });
+
+  describe('loginWithPassword', () => {
+    it('should return the user and update last login', async () => {
+      const registered = await registerUser(registerInput);
+      await db.update(usersTable).set({ last_login_at: null }).where(eq(usersTable.id, registered.id)).execute();
+
+      const result = await loginWithPassword({ email: registerInput.email, password: registerInput.password });
+
+      expect(result.id).toEqual(registered.id);
+      expect(result.last_login_at).toBeInstanceOf(Date);
+    });
+
+    it('should reject a wrong password', async () => {
+      await registerUser(registerInput);
+      await expect(loginWithPassword({ email: registerInput.email, password: 'wrong password' }))
+        .rejects.toThrow(/invalid email or password/i);
+    });
+
+    it('should reject users without a password', async () => {
+      await createUser(testUserInput);
+      await expect(loginWithPassword({ email: testUserInput.email, password: 'anything at all' }))
+        .rejects.toThrow(/invalid email or password/i);
+    });
+  });
+
+  describe('password reset', () => {
+    it('should email a reset link and accept the new password', async () => {
+      const user = await registerUser(registerInput);
+
+      await requestPasswordReset(registerInput.email);
+      const token = await getEmailedToken(registerInput.email);
+
+      await resetPassword({ token, password: 'a brand new password' });
+
+      const result = await loginWithPassword({ email: registerInput.email, password: 'a brand new password' });
+      expect(result.id).toEqual(user.id);
+      await expect(loginWithPassword({ email: registerInput.email, password: registerInput.password }))
+        .rejects.toThrow(/invalid email or password/i);
+    });
+
+    it('should revoke existing sessions after a reset', async () => {
+      const user = await registerUser(registerInput);
+      await db.insert(sessionsTable).values({
+        id: 'session_before_reset',
+        user_id: user.id,
+        expires_at: new Date(Date.now() + 60000),
+      }).execute();
+
+      await requestPasswordReset(registerInput.email);
+      await resetPassword({ token: await getEmailedToken(registerInput.email), password: 'a brand new password' });
+
+      const sessions = await db.select().from(sessionsTable).where(eq(sessionsTable.id, 'session_before_reset')).execute();
+      expect(sessions[0].revoked_at).toBeInstanceOf(Date);
+    });
+
+    it('should only accept a reset token once', async () => {
+      await registerUser(registerInput);
+      await requestPasswordReset(registerInput.email);
+      const token = await getEmailedToken(registerInput.email);
+
+      await resetPassword({ token, password: 'a brand new password' });
+      await expect(resetPassword({ token, password: 'another new password' })).rejects.toThrow(/invalid or expired/i);
+    });
+
+    it('should not send email for unknown addresses', async () => {
+      await requestPasswordReset('nobody@example.com');
+
+      const messages = await db.select().from(emailOutboxTable).execute();
+      expect(messages).toHaveLength(0);
+    });
+  });
+
+  describe('magic links', () => {
+    it('should log in with an emailed link', async () => {
+      const user = await createUser(testUserInput);
+
+      await requestMagicLink(testUserInput.email);
+      const result = await loginWithMagicLink(await getEmailedToken(testUserInput.email));
+
+      expect(result.id).toEqual(user.id);
+      expect(result.last_login_at).toBeInstanceOf(Date);
+    });
+
+    it('should only accept a link once', async () => {
+      await createUser(testUserInput);
+      await requestMagicLink(testUserInput.email);
+      const token = await getEmailedToken(testUserInput.email);
+
+      await loginWithMagicLink(token);
+      await expect(loginWithMagicLink(token)).rejects.toThrow(/invalid or expired/i);
+    });
+
+    it('should reject expired links', async () => {
+      await createUser(testUserInput);
+      await requestMagicLink(testUserInput.email);
+      const token = await getEmailedToken(testUserInput.email);
+
+      await db.update(authTokensTable).set({ expires_at: new Date(Date.now() - 1000) }).execute();
+
+      await expect(loginWithMagicLink(token)).rejects.toThrow(/invalid or expired/i);
+    });
+
+    it('should not accept a password reset token as a magic link', async () => {
+      await registerUser(registerInput);
+      await requestPasswordReset(registerInput.email);
+
+      await expect(loginWithMagicLink(await getEmailedToken(registerInput.email))).rejects.toThrow(/invalid or expired/i);
+    });
+  });
+});
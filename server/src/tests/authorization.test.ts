@@ -0,0 +1,190 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  usersTable,
+  organizationsTable,
+  membershipsTable,
+  projectsTable,
+  promptsTable,
+  promptVersionsTable,
+  pipelinesTable
+} from '../db/schema';
+import {
+  authorizeProcedure,
+  resolveTargetOrgId,
+  hasMinimumRole,
+  procedurePermissions,
+  canViewUser
+} from '../handlers/authorization';
+import { eq } from 'drizzle-orm';
+
+const users = [
+  { id: 'user_owner', email: 'owner@example.com', name: 'Owner', avatar_url: null },
+  { id: 'user_admin', email: 'admin@example.com', name: 'Admin', avatar_url: null },
+  { id: 'user_editor', email: 'editor@example.com', name: 'Editor', avatar_url: null },
+  { id: 'user_viewer', email: 'viewer@example.com', name: 'Viewer', avatar_url: null },
+  { id: 'user_outsider', email: 'outsider@example.com', name: 'Outsider', avatar_url: null },
+];
+
+const testOrganization = {
+  id: 'org_authz',
+  name: 'Authz Org',
+  slug: 'authz-org',
+  owner_user_id: 'user_owner',
+  plan: 'pro' as const,
+};
+
+describe('authorization', () => {
+  beforeEach(async () => {
+    await createDB();
+
+    await db.insert(usersTable).values(users).execute();
+    await db.insert(organizationsTable).values(testOrganization).execute();
+    await db.insert(membershipsTable).values([
+      { id: 'mem_owner', org_id: 'org_authz', user_id: 'user_owner', role: 'owner' },
+      { id: 'mem_admin', org_id: 'org_authz', user_id: 'user_admin', role: 'admin' },
+      { id: 'mem_editor', org_id: 'org_authz', user_id: 'user_editor', role: 'editor' },
+      { id: 'mem_viewer', org_id: 'org_authz', user_id: 'user_viewer', role: 'viewer' },
+    ]).execute();
+    await db.insert(projectsTable).values({ id: 'project_authz', org_id: 'org_authz', name: 'Project', tags: [] }).execute();
+    await db.insert(promptsTable).values({ id: 'prompt_authz', project_id: 'project_authz', name: 'Prompt' }).execute();
+    await db.insert(promptVersionsTable).values({
+      id: 'version_authz',
+      prompt_id: 'prompt_authz',
+      version: '1.0.0',
+      content: 'Hello',
+      created_by: 'user_owner',
+    }).execute();
+    await db.insert(pipelinesTable).values({ id: 'pipeline_authz', project_id: 'project_authz', name: 'Pipeline', graph: {} }).execute();
+  });
+
+  afterEach(resetDB);
+
+  describe('hasMinimumRole', () => {
+    it('should rank roles from viewer to owner', () => {
+      expect(hasMinimumRole('owner', 'admin')).toBe(true);
+      expect(hasMinimumRole('admin', 'admin')).toBe(true);
+      expect(hasMinimumRole('editor', 'admin')).toBe(false);
+      expect(hasMinimumRole('viewer', 'editor')).toBe(false);
+    });
+  });
+
+  describe('resolveTargetOrgId', () => {
+    it('should resolve nested targets to their organization', async () => {
+      expect(await resolveTargetOrgId('project', 'project_authz')).toEqual('org_authz');
+      expect(await resolveTargetOrgId('prompt', 'prompt_authz')).toEqual('org_authz');
+      expect(await resolveTargetOrgId('promptVersion', 'version_authz')).toEqual('org_authz');
+      expect(await resolveTargetOrgId('pipeline', 'pipeline_authz')).toEqual('org_authz');
+      expect(await resolveTargetOrgId('membership', 'mem_viewer')).toEqual('org_authz');
+    });
+
+    it('should return null for missing targets', async () => {
+      expect(await resolveTargetOrgId('prompt', 'missing_prompt')).toBeNull();
+    });
+  });
+
+  describe('authorizeProcedure', () => {
+    it('should let a viewer read', async () => {
+      await expect(authorizeProcedure('user_viewer', 'projects.getById', 'project_authz')).resolves.toBeUndefined();
+      await expect(authorizeProcedure('user_viewer', 'prompts.getVersionsByPromptId', 'prompt_authz')).resolves.toBeUndefined();
+    });
+
+    it('should stop a viewer from mutating', async () => {
+      await expect(authorizeProcedure('user_viewer', 'projects.update', { id: 'project_authz', name: 'Renamed' }))
+        .rejects.toThrow(/forbidden/i);
+      await expect(authorizeProcedure('user_viewer', 'prompts.createVersion', { prompt_id: 'prompt_authz', version: '2.0.0', content: 'x' }))
+        .rejects.toThrow(/forbidden/i);
+      await expect(authorizeProcedure('user_viewer', 'pipelines.update', { id: 'pipeline_authz', name: 'Renamed' }))
+        .rejects.toThrow(/forbidden/i);
+    });
+
+    it('should stop an editor from touching billing', async () => {
+      await expect(authorizeProcedure('user_editor', 'billing.updatePlan', { orgId: 'org_authz', plan: 'enterprise', stripeCustomerId: 'cus_1' }))
+        .rejects.toThrow(/forbidden/i);
+      await expect(authorizeProcedure('user_editor', 'billing.createCheckoutSession', { orgId: 'org_authz', plan: 'pro', successUrl: 'https://example.com' }))
+        .rejects.toThrow(/forbidden/i);
+      await expect(authorizeProcedure('user_editor', 'billing.getByOrgId', 'org_authz'))
+        .rejects.toThrow(/forbidden/i);
+    });
+
+    it('should stop an editor from promoting, publishing or removing members', async () => {
+      await expect(authorizeProcedure('user_editor', 'prompts.promoteVersion', { versionId: 'version_authz', promptId: 'prompt_authz' }))
+        .rejects.toThrow(/forbidden/i);
+      await expect(authorizeProcedure('user_editor', 'pipelines.publish', 'pipeline_authz'))
+        .rejects.toThrow(/forbidden/i);
+      await expect(authorizeProcedure('user_editor', 'organizations.removeMember', 'mem_viewer'))
+        .rejects.toThrow(/forbidden/i);
+    });
+
+    it('should let an editor create versions', async () => {
+      await expect(authorizeProcedure('user_editor', 'prompts.createVersion', { prompt_id: 'prompt_authz', version: '2.0.0', content: 'x' }))
+        .resolves.toBeUndefined();
+    });
+
+    it('should let admins manage billing and promotions', async () => {
+      await expect(authorizeProcedure('user_admin', 'billing.updatePlan', { orgId: 'org_authz', plan: 'enterprise', stripeCustomerId: 'cus_1' }))
+        .resolves.toBeUndefined();
+      await expect(authorizeProcedure('user_admin', 'prompts.promoteVersion', { versionId: 'version_authz', promptId: 'prompt_authz' }))
+        .resolves.toBeUndefined();
+    });
+
+    it('should reject users outside the organization', async () => {
+      await expect(authorizeProcedure('user_outsider', 'prompts.getById', 'prompt_authz'))
+        .rejects.toThrow(/forbidden/i);
+    });
+
+    it('should check every target of multi-target procedures', async () => {
+      await db.insert(organizationsTable).values({ ...testOrganization, id: 'org_other', slug: 'other-org', owner_user_id: 'user_outsider' }).execute();
+      await db.insert(projectsTable).values({ id: 'project_other', org_id: 'org_other', name: 'Other', tags: [] }).execute();
+      await db.insert(promptsTable).values({ id: 'prompt_other', project_id: 'project_other', name: 'Other' }).execute();
+      await db.insert(promptVersionsTable).values({
+        id: 'version_other',
+        prompt_id: 'prompt_other',
+        version: '1.0.0',
+        content: 'Other',
+        created_by: 'user_outsider',
+      }).execute();
+
+      await expect(authorizeProcedure('user_viewer', 'prompts.compareVersions', { versionId1: 'version_authz', versionId2: 'version_other' }))
+        .rejects.toThrow(/forbidden/i);
+    });
+
+    it('should report missing targets as not found', async () => {
+      await expect(authorizeProcedure('user_owner', 'prompts.getById', 'missing_prompt'))
+        .rejects.toThrow(/not found/i);
+    });
+
+    it('should reject procedures without a permission rule', async () => {
+      await expect(authorizeProcedure('user_owner', 'projects.unknown', 'project_authz'))
+        .rejects.toThrow(/no permission rule/i);
+    });
+  });
+
+  describe('canViewUser', () => {
+    it('should only show users who share an organization', async () => {
+      expect(await canViewUser('user_viewer', 'user_owner')).toBe(true);
+      expect(await canViewUser('user_outsider', 'user_outsider')).toBe(true);
+      expect(await canViewUser('user_outsider', 'user_owner')).toBe(false);
+      expect(await canViewUser('user_owner', 'user_outsider')).toBe(false);
+    });
+
+    it('should not count deleted organizations', async () => {
+      await db.update(organizationsTable).set({ deleted_at: new Date() }).where(eq(organizationsTable.id, 'org_authz')).execute();
+
+      expect(await canViewUser('user_viewer', 'user_owner')).toBe(false);
+    });
+  });
+
+  describe('procedurePermissions', () => {
+    it('should require admin or higher for billing', () => {
+      const billingRules = Object.entries(procedurePermissions)
+        .filter(([path]) => path.startsWith('billing.') && path !== 'billing.checkQuota');
+
+      expect(billingRules.length).toBeGreaterThan(0);
+      billingRules.forEach(([, permission]) => {
+        expect(hasMinimumRole(permission.role, 'admin')).toBe(true);
+      });
+    });
+  });
+});
@@ -1,7 +1,7 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { billingTable, organizationsTable, usersTable, projectsTable, runsTable, promptsTable, promptVersionsTable } from '../db/schema';
+import { billingTable, organizationsTable, usersTable, projectsTable, runsTable, promptsTable, promptVersionsTable, membershipsTable } from '../db/schema';
 import { type StripeVerificationInput } from '../schema';
 import {
     createStripeCheckoutSession,
@@ -10,8 +10,10 @@ import {
     getBillingByOrgId,
     createStripePortalSession,
     checkUsageQuota,
+    getSeatUsage,
     handleStripeWebhook
 } from '../handlers/billing';
+import { createMembership } from '../handlers/organizations';
 import { eq } from 'drizzle-orm';
 
 // Test data
@@ -346,6 +348,78 @@ describe('Billing Handlers', () => {
         });
     });
 
+    describe('getSeatUsage', () => {
+        const addUsers = async (count: number) => {
+            const users = Array.from({ length: count }, (_, index) => ({
+                id: `user_seat_${index}`,
+                email: `seat${index}@example.com`,
+                name: `Seat User ${index}`
+            }));
+            await db.insert(usersTable).values(users).execute();
+            return users;
+        };
+
+        beforeEach(async () => {
+            await db.insert(membershipsTable).values({ id: 'mem_owner', org_id: 'org_1', user_id: 'user_1', role: 'owner' }).execute();
+        });
+
+        it('should fall back to plan seats when there is no billing record', async () => {
+            const result = await getSeatUsage('org_1');
+
+            expect(result).toEqual({ used: 1, limit: 1, available: 0, exceeded: false });
+        });
+
+        it('should use purchased seats from billing', async () => {
+            await updateOrganizationPlan('org_1', 'pro', 'cus_seats');
+            await db.update(billingTable).set({ seats: 8 }).where(eq(billingTable.org_id, 'org_1')).execute();
+
+            const result = await getSeatUsage('org_1');
+
+            expect(result).toEqual({ used: 1, limit: 8, available: 7, exceeded: false });
+        });
+
+        it('should block new members once the seats are used up', async () => {
+            const [user] = await addUsers(1);
+
+            await expect(createMembership({ org_id: 'org_1', user_id: user.id, role: 'editor' }))
+                .rejects.toThrow(/seat limit reached: 1 of 1 seats in use/i);
+        });
+
+        it('should allow new members after an upgrade', async () => {
+            const [user] = await addUsers(1);
+            await updateOrganizationPlan('org_1', 'pro', 'cus_upgrade');
+
+            const membership = await createMembership({ org_id: 'org_1', user_id: user.id, role: 'editor' });
+
+            expect(membership.org_id).toBe('org_1');
+            expect((await getSeatUsage('org_1')).used).toBe(2);
+        });
+
+        it('should keep existing members but block adds after a downgrade', async () => {
+            const users = await addUsers(4);
+            await updateOrganizationPlan('org_1', 'pro', 'cus_downgrade');
+            for (const user of users.slice(0, 3)) {
+                await createMembership({ org_id: 'org_1', user_id: user.id, role: 'viewer' });
+            }
+
+            await updateOrganizationPlan('org_1', 'free', 'cus_downgrade');
+
+            const result = await getSeatUsage('org_1');
+            expect(result).toEqual({ used: 4, limit: 1, available: 0, exceeded: true });
+
+            const memberships = await db.select().from(membershipsTable).where(eq(membershipsTable.org_id, 'org_1')).execute();
+            expect(memberships).toHaveLength(4);
+
+            await expect(createMembership({ org_id: 'org_1', user_id: users[3].id, role: 'viewer' }))
+                .rejects.toThrow(/seat limit reached: 4 of 1 seats in use/i);
+        });
+
+        it('should throw error for non-existent organization', async () => {
+            await expect(getSeatUsage('nonexistent'))
+                .rejects.toThrow(/organization not found/i);
+        });
+    });
+
     describe('handleStripeWebhook', () => {
         it('should handle payment succeeded event', async () => {
             const event = {
@@ -1,7 +1,7 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { chatSessionsTable, projectsTable, usersTable, organizationsTable } from '../db/schema';
+import { chatSessionsTable, projectsTable, usersTable, organizationsTable, promptsTable, promptVersionsTable, runsTable } from '../db/schema';
 import { type CreateChatSessionInput, type ChatMessageInput } from '../schema';
 import {
   createChatSession,
@@ -12,6 +12,9 @@ import {
   updateChatSession,
   deleteChatSession
 } from '../handlers/chat';
+import { getProviderAdapter, setProviderAdapter, ProviderRequestError } from '../handlers/provider_adapters';
+import { upsertCachePolicy } from '../handlers/response_cache';
+import { upsertRoutingPolicy } from '../handlers/routing_policies';
 import { eq } from 'drizzle-orm';
 import { nanoid } from 'nanoid';
 
@@ -118,6 +121,28 @@ describe('createChatSession', () => {
     await expect(createChatSession(invalidInput))
       .rejects.toThrow(/User with id nonexistent-user not found/i);
   });
+
+  it('should open with a rendered prompt version', async () => {
+    await db.insert(promptsTable).values({ id: 'prompt_1', project_id: testProject.id, name: 'Support' }).execute();
+    await db.insert(promptVersionsTable).values({
+      id: 'version_1',
+      prompt_id: 'prompt_1',
+      version: '1.0.0',
+      content: 'You support {{product}}.',
+      variables: { product: { type: 'string', required: true } },
+      created_by: testUser.id
+    }).execute();
+
+    const session = await createChatSession({ ...testChatInput, prompt_version_id: 'version_1', variables: { product: 'PrismForge' } });
+
+    expect(session.messages).toHaveLength(1);
+    expect(session.messages[0]).toMatchObject({ role: 'system', content: 'You support PrismForge.', prompt_version_id: 'version_1' });
+
+    await expect(createChatSession({ ...testChatInput, prompt_version_id: 'version_1' }))
+      .rejects.toThrow(/product is required/);
+    await expect(createChatSession({ ...testChatInput, prompt_version_id: 'missing_version' }))
+      .rejects.toThrow(/not found in this project/);
+  });
 });
 
 describe('getChatSessionById', () => {
@@ -213,15 +238,33 @@ describe('sendChatMessage', () => {
     await db.insert(usersTable).values(testUser).execute();
     await db.insert(organizationsTable).values(testOrg).execute();
     await db.insert(projectsTable).values(testProject).execute();
+
+    // Stands in for a local model server: streams back the last message word by word
+    setProviderAdapter('local', {
+      ...getProviderAdapter('local'),
+      stream: async request => (async function* () {
+        const reply = `${request.model} heard: ${request.messages[request.messages.length - 1].content}`;
+        for (const word of reply.split(' ')) {
+          yield { type: 'delta' as const, content: `${word} ` };
+        }
+        yield {
+          type: 'done' as const,
+          completion: { content: reply, tool_calls: [], finish_reason: 'stop' as const, usage: { input_tokens: request.messages.length, output_tokens: 4 } }
+        };
+      })()
+    });
+  });
+  afterEach(async () => {
+    setProviderAdapter('local', null);
+    await resetDB();
   });
-  afterEach(resetDB);
 
   it('should send chat message and return stream', async () => {
     const session = await createChatSession(testChatInput);
     const messageInput: ChatMessageInput = {
       session_id: session.id,
       content: 'Hello, AI!',
-      model: 'gpt-4'
+      model: 'local/llama3.1'
     };
 
     const stream = await sendChatMessage(messageInput);
@@ -239,9 +282,9 @@ describe('sendChatMessage', () => {
 
     const fullResponse = chunks.join('');
     // The response should contain the message split across chunks
-    expect(fullResponse).toContain('Hello,');
+    expect(fullResponse).toContain('data: {"content":"Hello, "}');
     expect(fullResponse).toContain('AI!');
-    expect(fullResponse).toContain('gpt-4');
+    expect(fullResponse).toContain('llama3.1');
     expect(fullResponse).toContain('[DONE]');
   });
 
@@ -250,7 +293,7 @@ describe('sendChatMessage', () => {
     const messageInput: ChatMessageInput = {
       session_id: session.id,
       content: 'Test message',
-      model: 'gpt-3.5-turbo'
+      model: 'local/qwen2.5'
     };
 
     // Send message and consume stream
@@ -263,16 +306,73 @@ describe('sendChatMessage', () => {
       if (done) break;
     }
 
-    // Give a small delay for async operations to complete
-    await new Promise(resolve => setTimeout(resolve, 100));
-
     const updatedSession = await getChatSessionById(session.id);
     expect(updatedSession).not.toBeNull();
     expect(updatedSession!.messages).toHaveLength(2); // user + assistant
     expect(updatedSession!.messages[0]['role']).toEqual('user');
     expect(updatedSession!.messages[0]['content']).toEqual('Test message');
     expect(updatedSession!.messages[1]['role']).toEqual('assistant');
-    expect(updatedSession!.model).toEqual('gpt-3.5-turbo');
+    expect(updatedSession!.messages[1]['content']).toEqual('qwen2.5 heard: Test message');
+    expect(updatedSession!.model).toEqual('local/qwen2.5');
+  });
+
+  it('should record each reply as a run, free when served from the cache', async () => {
+    await upsertCachePolicy({ project_id: testProject.id, ttl_seconds: 300 }, testUser.id);
+    const consume = async (stream: ReadableStream<Uint8Array>) => {
+      const reader = stream.getReader();
+      while (!(await reader.read()).done);
+    };
+
+    const first = await createChatSession(testChatInput);
+    const second = await createChatSession(testChatInput);
+    await consume(await sendChatMessage({ session_id: first.id, content: 'Hello', model: 'local/llama3.1' }));
+    await consume(await sendChatMessage({ session_id: second.id, content: 'Hello', model: 'local/llama3.1' }));
+
+    const runs = await db.select().from(runsTable).where(eq(runsTable.project_id, testProject.id)).execute();
+    expect(runs).toHaveLength(2);
+    const served = runs.find(run => (run.flags as Record<string, unknown>)['session_id'] === first.id)!;
+    const cached = runs.find(run => (run.flags as Record<string, unknown>)['session_id'] === second.id)!;
+    expect(served).toMatchObject({ model: 'local/llama3.1', tokens_in: 1, tokens_out: 4, success: true });
+    expect(served.flags).toMatchObject({ source: 'playground', cache_hit: false });
+    expect(cached.flags).toMatchObject({ source: 'playground', cache_hit: true, cost_source: 'cache' });
+    expect(parseFloat(cached.cost_usd)).toEqual(0);
+  });
+
+  it('should record how each reply was routed', async () => {
+    const session = await createChatSession(testChatInput);
+    await expect(sendChatMessage({ session_id: session.id, content: 'Hello', model: 'gpt-4' })).rejects.toThrow();
+
+    await upsertRoutingPolicy({ project_id: testProject.id, max_retries: 0, fallbacks: [{ provider: 'local', model: 'qwen2.5' }] }, testUser.id);
+    const streamReply = getProviderAdapter('local').stream;
+    setProviderAdapter('local', {
+      ...getProviderAdapter('local'),
+      stream: async (request, options) => {
+        if (request.model === 'llama3.1') {
+          throw new ProviderRequestError('local', 503, 'Overloaded');
+        }
+        return streamReply(request, options);
+      }
+    });
+    const reader = (await sendChatMessage({ session_id: session.id, content: 'Hello', model: 'local/llama3.1' })).getReader();
+    while (!(await reader.read()).done);
+
+    const runs = await db.select().from(runsTable).where(eq(runsTable.project_id, testProject.id)).execute();
+    const failed = runs.find(run => !run.success)!;
+    expect(failed.model).toEqual('openai/gpt-4');
+    expect(failed.flags).toMatchObject({ source: 'playground', fallback: false, attempts: [{ provider: 'openai', success: false }] });
+    const served = runs.find(run => run.success)!;
+    expect(served.model).toEqual('local/qwen2.5');
+    expect(served.flags).toMatchObject({ fallback: true, attempts: [{ model: 'llama3.1', success: false }, { model: 'qwen2.5', success: true }] });
+  });
+
+  it('should not store the message when the model cannot be called', async () => {
+    const session = await createChatSession(testChatInput);
+
+    await expect(sendChatMessage({ session_id: session.id, content: 'Hello', model: 'gpt-4' }))
+      .rejects.toThrow(/no openai api key/i);
+
+    const unchanged = await getChatSessionById(session.id);
+    expect(unchanged!.messages).toHaveLength(0);
   });
 
   it('should throw error for nonexistent session', async () => {
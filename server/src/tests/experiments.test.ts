@@ -6,7 +6,9 @@ import {
   promptsTable, 
   projectsTable, 
   organizationsTable, 
-  usersTable 
+  usersTable,
+  promptVersionsTable,
+  runsTable
 } from '../db/schema';
 import {
   createExperiment,
@@ -16,6 +18,7 @@ import {
   stopExperiment,
   runExperimentComparison
 } from '../handlers/experiments';
+import { getProviderAdapter, setProviderAdapter } from '../handlers/provider_adapters';
 import { eq } from 'drizzle-orm';
 import { randomUUID } from 'crypto';
 
@@ -223,36 +226,101 @@ describe('experiments', () => {
   });
 
   describe('runExperimentComparison', () => {
+    // Stands in for a local model server: answers with the model id and the prompt it was sent
+    beforeEach(async () => {
+      setProviderAdapter('local', {
+        ...getProviderAdapter('local'),
+        complete: async request => ({
+          content: `${request.model} says: ${request.messages[0].content}`,
+          tool_calls: [],
+          finish_reason: 'stop',
+          usage: { input_tokens: 12, output_tokens: 8 }
+        })
+      });
+
+      await db.insert(promptVersionsTable).values([
+        { id: 'version_1', prompt_id: testPromptId, version: '1.0.0', content: 'Greet {{name}}', created_by: testUserId },
+        { id: 'version_2', prompt_id: testPromptId, version: '2.0.0', content: 'Welcome {{name}} warmly', created_by: testUserId }
+      ]);
+      await db.update(promptsTable).set({ current_version_id: 'version_1' }).where(eq(promptsTable.id, testPromptId));
+    });
+
+    afterEach(() => setProviderAdapter('local', null));
+
     it('should run comparison for running experiment', async () => {
       const variants = {
-        modelA: { model: 'gpt-4', temperature: 0.7 },
-        modelB: { model: 'claude-3', temperature: 0.9 }
+        modelA: { model: 'local/llama3.1', temperature: 0.7 },
+        modelB: { model: 'local/qwen2.5', temperature: 0.9, version_id: 'version_2' }
       };
       const created = await createExperiment(testPromptId, 'Test Experiment', variants);
       await startExperiment(created.id);
 
-      const input = { prompt: 'Hello, world!' };
+      const input = { name: 'Ada' };
       const result = await runExperimentComparison(created.id, input);
 
-      expect(result.variantA).toBeDefined();
-      expect(result.variantB).toBeDefined();
-      expect(result.variantA.content).toContain('modelA');
-      expect(result.variantB.content).toContain('modelB');
-      expect(typeof result.variantA.tokens).toBe('number');
+      expect(result.variantA.content).toEqual('llama3.1 says: Greet Ada');
+      expect(result.variantB.content).toEqual('qwen2.5 says: Welcome Ada warmly');
+      expect(result.variantA.tokens).toEqual(20);
       expect(typeof result.variantA.latency).toBe('number');
-      expect(typeof result.variantB.tokens).toBe('number');
-      expect(typeof result.variantB.latency).toBe('number');
+      expect(result.variantA.version_id).toEqual('version_1');
+      expect(result.variantB.version_id).toEqual('version_2');
       expect(result.variantA.variant_config).toEqual(variants.modelA);
       expect(result.variantB.variant_config).toEqual(variants.modelB);
+
+      // Both calls are recorded as runs of the experiment, with how they were routed
+      const runs = await db.select().from(runsTable).where(eq(runsTable.experiment_id, created.id));
+      expect(runs.map(run => run.model).sort()).toEqual(['local/llama3.1', 'local/qwen2.5']);
+      const runA = runs.find(run => run.model === 'local/llama3.1')!;
+      expect(runA).toMatchObject({ version_id: 'version_1', tokens_in: 12, tokens_out: 8, success: true });
+      expect(runA.flags).toMatchObject({ variant: 'modelA', fallback: false, attempts: [{ provider: 'local', model: 'llama3.1', success: true }] });
+    });
+
+    it('should fall back to the model parameters of chat versions', async () => {
+      await db.insert(promptVersionsTable).values({
+        id: 'version_chat',
+        prompt_id: testPromptId,
+        version: '3.0.0',
+        content: '',
+        format: 'chat',
+        messages: [{ role: 'user', content: 'Hi {{name}}' }],
+        model_params: { model: 'local/mistral' },
+        created_by: testUserId
+      });
+      const variants = {
+        modelA: { version_id: 'version_chat' },
+        modelB: { model: 'local/qwen2.5', version_id: 'version_chat' }
+      };
+      const created = await createExperiment(testPromptId, 'Test Experiment', variants);
+      await startExperiment(created.id);
+
+      const result = await runExperimentComparison(created.id, { name: 'Ada' });
+
+      expect(result.variantA.content).toEqual('mistral says: Hi Ada');
+      expect(result.variantB.content).toEqual('qwen2.5 says: Hi Ada');
+    });
+
+    it('should require a provider key for hosted models', async () => {
+      const variants = {
+        modelA: { model: 'gpt-4o' },
+        modelB: { model: 'local/llama3.1' }
+      };
+      const created = await createExperiment(testPromptId, 'Test Experiment', variants);
+      await startExperiment(created.id);
+
+      await expect(
+        runExperimentComparison(created.id, { name: 'Ada' })
+      ).rejects.toThrow(/no openai api key/i);
+
+      const runs = await db.select().from(runsTable).where(eq(runsTable.experiment_id, created.id));
+      const failed = runs.find(run => run.model === 'openai/gpt-4o')!;
+      expect(failed).toMatchObject({ success: false, tokens_in: 0 });
+      expect(failed.flags).toMatchObject({ variant: 'modelA', attempts: [{ provider: 'openai', success: false }] });
     });
 
     it('should throw error for non-existent experiment', async () => {
       const nonExistentId = randomUUID();
-      const input = { prompt: 'Test' };
 
-      await expect(
-        runExperimentComparison(nonExistentId, input)
-      ).rejects.toThrow(/not found/i);
+      await expect(runExperimentComparison(nonExistentId, { name: 'Ada' })).rejects.toThrow(/not found/i);
     });
 
     it('should throw error for non-running experiment', async () => {
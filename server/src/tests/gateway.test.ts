@@ -0,0 +1,399 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, projectsTable } from '../db/schema';
+import { completeModelRequest, streamModelRequest, routingFlags, ModelRoutingError, type ModelStreamEvent } from '../handlers/gateway';
+import { resolveModel, getProviderAdapter } from '../handlers/provider_adapters';
+import { createProviderKey } from '../handlers/provider_keys';
+import { upsertRoutingPolicy } from '../handlers/routing_policies';
+import { createServer, type IncomingMessage, type ServerResponse, type Server } from 'http';
+import { type AddressInfo } from 'net';
+
+const testUser = { id: 'user_1', email: 'test@example.com', name: 'Test User', avatar_url: null };
+
+const testOrganization = {
+  id: 'org_1',
+  name: 'Test Org',
+  slug: 'test-org',
+  owner_user_id: 'user_1',
+  plan: 'pro' as const,
+};
+
+const providerEnv = ['OPENAI_BASE_URL', 'ANTHROPIC_BASE_URL', 'GEMINI_BASE_URL', 'LOCAL_MODEL_BASE_URL'];
+
+interface RecordedRequest {
+  path: string;
+  headers: IncomingMessage['headers'];
+  body: any;
+}
+
+let server: Server;
+let received: RecordedRequest[];
+let respond: (request: RecordedRequest, res: ServerResponse) => void;
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const sendEvents = (res: ServerResponse, events: unknown[]) => {
+  res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+  for (const event of events) {
+    res.write(`data: ${typeof event === 'string' ? event : JSON.stringify(event)}\n\n`);
+  }
+  res.end();
+};
+
+const collect = async (events: AsyncIterable<ModelStreamEvent>) => {
+  const collected: ModelStreamEvent[] = [];
+  for await (const event of events) {
+    collected.push(event);
+  }
+  return collected;
+};
+
+describe('gateway', () => {
+  beforeEach(async () => {
+    process.env['MASTER_ENCRYPTION_KEYS'] = `v1:${Buffer.alloc(32, 1).toString('base64')}`;
+    delete process.env['MASTER_ENCRYPTION_KEY_ID'];
+
+    await createDB();
+    await db.insert(usersTable).values(testUser).execute();
+    await db.insert(organizationsTable).values(testOrganization).execute();
+    await db.insert(projectsTable).values({ id: 'project_1', org_id: 'org_1', name: 'Project', tags: [] }).execute();
+
+    // One stub stands in for every provider; each test decides how it answers
+    received = [];
+    server = createServer((req, res) => {
+      let raw = '';
+      req.on('data', chunk => raw += chunk);
+      req.on('end', () => {
+        const request = { path: req.url ?? '', headers: req.headers, body: raw ? JSON.parse(raw) : null };
+        received.push(request);
+        respond(request, res);
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, resolve));
+
+    const port = (server.address() as AddressInfo).port;
+    for (const name of providerEnv) {
+      process.env[name] = `http://localhost:${port}/v1`;
+    }
+  });
+
+  afterEach(async () => {
+    for (const name of providerEnv) {
+      delete process.env[name];
+    }
+    await new Promise(resolve => server.close(resolve));
+    await resetDB();
+  });
+
+  describe('resolveModel', () => {
+    it('should honour provider prefixes and infer well-known model names', () => {
+      expect(resolveModel('local/meta-llama/Llama-3.1-8B')).toEqual({ provider: 'local', model: 'meta-llama/Llama-3.1-8B' });
+      expect(resolveModel('gpt-4o-mini')).toEqual({ provider: 'openai', model: 'gpt-4o-mini' });
+      expect(resolveModel('o3-mini')).toEqual({ provider: 'openai', model: 'o3-mini' });
+      expect(resolveModel('claude-3-5-haiku-latest')).toEqual({ provider: 'anthropic', model: 'claude-3-5-haiku-latest' });
+      expect(resolveModel('gemini-2.0-flash')).toEqual({ provider: 'gemini', model: 'gemini-2.0-flash' });
+      expect(() => resolveModel('mistral-large')).toThrow(/cannot determine the provider/i);
+    });
+  });
+
+  describe('completeModelRequest', () => {
+    it('should call an OpenAI-compatible local server without a key', async () => {
+      respond = (_, res) => sendJson(res, 200, {
+        choices: [{ message: { role: 'assistant', content: '{"ok":true}' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 11, completion_tokens: 3 },
+      });
+
+      const response = await completeModelRequest({ orgId: 'org_1' }, {
+        model: 'local/llama3.1',
+        messages: [{ role: 'system', content: 'Answer in JSON' }, { role: 'user', content: 'Status?' }],
+        temperature: 0.2,
+        max_tokens: 50,
+        stop: ['\n\n'],
+        response_format: { type: 'json_object' },
+      });
+
+      expect(response).toMatchObject({
+        provider: 'local',
+        model: 'llama3.1',
+        content: '{"ok":true}',
+        finish_reason: 'stop',
+        usage: { input_tokens: 11, output_tokens: 3 },
+      });
+      expect(received[0].path).toEqual('/v1/chat/completions');
+      expect(received[0].headers['authorization']).toBeUndefined();
+      expect(received[0].body).toEqual({
+        model: 'llama3.1',
+        messages: [{ role: 'system', content: 'Answer in JSON' }, { role: 'user', content: 'Status?' }],
+        temperature: 0.2,
+        max_tokens: 50,
+        stop: ['\n\n'],
+        response_format: { type: 'json_object' },
+      });
+    });
+
+    it('should use the organization default key for hosted providers', async () => {
+      await expect(completeModelRequest({ orgId: 'org_1' }, { model: 'gpt-4o', messages: [{ role: 'user', content: 'Hi' }] }))
+        .rejects.toThrow(/no openai api key/i);
+      expect(received).toHaveLength(0);
+
+      await createProviderKey({ org_id: 'org_1', provider: 'openai', label: 'Old', api_key: 'sk-old' }, 'user_1');
+      await createProviderKey({ org_id: 'org_1', provider: 'openai', label: 'Current', api_key: 'sk-current', is_default: true }, 'user_1');
+      respond = (_, res) => sendJson(res, 200, {
+        choices: [{
+          message: { role: 'assistant', content: null, tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'lookup', arguments: '{"q":"x"}' } }] },
+          finish_reason: 'tool_calls',
+        }],
+        usage: { prompt_tokens: 20, completion_tokens: 7 },
+      });
+
+      const response = await completeModelRequest({ orgId: 'org_1' }, {
+        model: 'gpt-4o',
+        messages: [{ role: 'user', content: 'Look it up' }],
+        tools: [{ name: 'lookup', parameters: { type: 'object' } }],
+        max_tokens: 100,
+      });
+
+      expect(received[0].headers['authorization']).toEqual('Bearer sk-current');
+      expect(received[0].body.max_completion_tokens).toEqual(100);
+      expect(received[0].body.tools).toEqual([{ type: 'function', function: { name: 'lookup', parameters: { type: 'object' } } }]);
+      expect(response.content).toEqual('');
+      expect(response.finish_reason).toEqual('tool_calls');
+      expect(response.tool_calls).toEqual([{ id: 'call_1', name: 'lookup', arguments: '{"q":"x"}' }]);
+    });
+
+    it('should translate requests and responses for Anthropic', async () => {
+      await createProviderKey({ org_id: 'org_1', provider: 'anthropic', label: 'Claude', api_key: 'sk-ant-test' }, 'user_1');
+      respond = (_, res) => sendJson(res, 200, {
+        content: [{ type: 'text', text: 'Checking. ' }, { type: 'tool_use', id: 'toolu_2', name: 'weather', input: { city: 'Oslo' } }],
+        stop_reason: 'tool_use',
+        usage: { input_tokens: 30, output_tokens: 12 },
+      });
+
+      const response = await completeModelRequest({ orgId: 'org_1' }, {
+        model: 'claude-3-5-haiku-latest',
+        messages: [
+          { role: 'system', content: 'You are terse' },
+          { role: 'user', content: 'Weather in Bergen?' },
+          { role: 'assistant', content: '', tool_calls: [{ id: 'toolu_1', name: 'weather', arguments: '{"city":"Bergen"}' }] },
+          { role: 'tool', content: 'Rain', tool_call_id: 'toolu_1' },
+        ],
+        tools: [{ name: 'weather', description: 'Current weather', parameters: { type: 'object' } }],
+        response_format: { type: 'json_object' },
+      });
+
+      expect(received[0].path).toEqual('/v1/messages');
+      expect(received[0].headers['x-api-key']).toEqual('sk-ant-test');
+      expect(received[0].body.system).toEqual('You are terse\n\nRespond with a single JSON object and no other text.');
+      expect(received[0].body.max_tokens).toEqual(4096);
+      expect(received[0].body.messages).toEqual([
+        { role: 'user', content: 'Weather in Bergen?' },
+        { role: 'assistant', content: [{ type: 'tool_use', id: 'toolu_1', name: 'weather', input: { city: 'Bergen' } }] },
+        { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'toolu_1', content: 'Rain' }] },
+      ]);
+      expect(received[0].body.tools).toEqual([{ name: 'weather', description: 'Current weather', input_schema: { type: 'object' } }]);
+
+      expect(response.content).toEqual('Checking. ');
+      expect(response.finish_reason).toEqual('tool_calls');
+      expect(response.tool_calls).toEqual([{ id: 'toolu_2', name: 'weather', arguments: '{"city":"Oslo"}' }]);
+      expect(response.usage).toEqual({ input_tokens: 30, output_tokens: 12 });
+    });
+
+    it('should translate requests and responses for Gemini', async () => {
+      await createProviderKey({ org_id: 'org_1', provider: 'gemini', label: 'Gemini', api_key: 'gm-test' }, 'user_1');
+      respond = (_, res) => sendJson(res, 200, {
+        candidates: [{ content: { role: 'model', parts: [{ text: 'Hei' }] }, finishReason: 'MAX_TOKENS' }],
+        usageMetadata: { promptTokenCount: 6, candidatesTokenCount: 1 },
+      });
+
+      const response = await completeModelRequest({ orgId: 'org_1' }, {
+        model: 'gemini-2.0-flash',
+        messages: [{ role: 'system', content: 'Reply in Norwegian' }, { role: 'user', content: 'Hello' }],
+        max_tokens: 1,
+        response_format: { type: 'json_schema', name: 'reply', schema: { type: 'object' } },
+      });
+
+      expect(received[0].path).toEqual('/v1/models/gemini-2.0-flash:generateContent');
+      expect(received[0].headers['x-goog-api-key']).toEqual('gm-test');
+      expect(received[0].body).toEqual({
+        contents: [{ role: 'user', parts: [{ text: 'Hello' }] }],
+        systemInstruction: { parts: [{ text: 'Reply in Norwegian' }] },
+        generationConfig: { maxOutputTokens: 1, responseMimeType: 'application/json', responseSchema: { type: 'object' } },
+      });
+      expect(response).toMatchObject({ provider: 'gemini', content: 'Hei', finish_reason: 'length', usage: { input_tokens: 6, output_tokens: 1 } });
+    });
+
+    it('should surface provider errors with their status once retries run out', async () => {
+      respond = (_, res) => sendJson(res, 429, { error: { message: 'Slow down' } });
+
+      const error = await completeModelRequest({ orgId: 'org_1' }, { model: 'local/llama3.1', messages: [{ role: 'user', content: 'Hi' }] })
+        .catch(error => error);
+
+      expect(error).toBeInstanceOf(ModelRoutingError);
+      expect(error.message).toMatch(/slow down/i);
+      expect(error.attempts.map((attempt: any) => attempt.status)).toEqual([429, 429, 429]);
+    });
+  });
+
+  describe('streamModelRequest', () => {
+    it('should stream deltas from an OpenAI-compatible server', async () => {
+      respond = (_, res) => sendEvents(res, [
+        { choices: [{ delta: { role: 'assistant', content: 'Hel' } }] },
+        { choices: [{ delta: { content: 'lo' } }] },
+        { choices: [{ delta: {}, finish_reason: 'stop' }] },
+        { choices: [], usage: { prompt_tokens: 4, completion_tokens: 2 } },
+        '[DONE]',
+      ]);
+
+      const events = await collect(await streamModelRequest({ orgId: 'org_1' }, { model: 'local/llama3.1', messages: [{ role: 'user', content: 'Hi' }] }));
+
+      expect(received[0].body.stream).toBe(true);
+      expect(events.slice(0, 2)).toEqual([{ type: 'delta', content: 'Hel' }, { type: 'delta', content: 'lo' }]);
+      expect(events[2]).toMatchObject({ type: 'done', response: { content: 'Hello', finish_reason: 'stop', usage: { input_tokens: 4, output_tokens: 2 } } });
+    });
+
+    it('should assemble streamed Anthropic tool calls', async () => {
+      await createProviderKey({ org_id: 'org_1', provider: 'anthropic', label: 'Claude', api_key: 'sk-ant-test' }, 'user_1');
+      respond = (_, res) => sendEvents(res, [
+        { type: 'message_start', message: { usage: { input_tokens: 9, output_tokens: 1 } } },
+        { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+        { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'On it' } },
+        { type: 'content_block_start', index: 1, content_block: { type: 'tool_use', id: 'toolu_1', name: 'weather', input: {} } },
+        { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '{"city":' } },
+        { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '"Oslo"}' } },
+        { type: 'message_delta', delta: { stop_reason: 'tool_use' }, usage: { output_tokens: 15 } },
+        { type: 'message_stop' },
+      ]);
+
+      const events = await collect(await streamModelRequest({ orgId: 'org_1' }, { model: 'claude-3-5-haiku-latest', messages: [{ role: 'user', content: 'Weather?' }] }));
+
+      expect(events[0]).toEqual({ type: 'delta', content: 'On it' });
+      expect(events[1]).toMatchObject({
+        type: 'done',
+        response: {
+          content: 'On it',
+          tool_calls: [{ id: 'toolu_1', name: 'weather', arguments: '{"city":"Oslo"}' }],
+          finish_reason: 'tool_calls',
+          usage: { input_tokens: 9, output_tokens: 15 },
+        },
+      });
+    });
+
+    it('should reject before streaming when the provider refuses the request', async () => {
+      respond = (_, res) => sendJson(res, 503, { error: { message: 'Overloaded' } });
+
+      await expect(streamModelRequest({ orgId: 'org_1' }, { model: 'local/llama3.1', messages: [{ role: 'user', content: 'Hi' }] }))
+        .rejects.toThrow(/HTTP 503: Overloaded/);
+    });
+  });
+
+  describe('embeddings', () => {
+    it('should return vectors in input order', async () => {
+      respond = (_, res) => sendJson(res, 200, { data: [{ index: 1, embedding: [0, 1] }, { index: 0, embedding: [1, 0] }] });
+
+      const vectors = await getProviderAdapter('openai').embed({ model: 'text-embedding-3-small', input: ['a', 'b'] }, { apiKey: 'sk-test' });
+
+      expect(received[0]).toMatchObject({ path: '/v1/embeddings', body: { model: 'text-embedding-3-small', input: ['a', 'b'] } });
+      expect(vectors).toEqual([[1, 0], [0, 1]]);
+    });
+
+    it('should batch Gemini embeddings', async () => {
+      respond = (_, res) => sendJson(res, 200, { embeddings: [{ values: [0.5, 0.5] }] });
+
+      const vectors = await getProviderAdapter('gemini').embed({ model: 'text-embedding-004', input: ['a'] }, { apiKey: 'gm-test' });
+
+      expect(received[0].path).toEqual('/v1/models/text-embedding-004:batchEmbedContents');
+      expect(received[0].body).toEqual({ requests: [{ model: 'models/text-embedding-004', content: { parts: [{ text: 'a' }] } }] });
+      expect(vectors).toEqual([[0.5, 0.5]]);
+    });
+
+    it('should reject providers without an embeddings API', async () => {
+      await expect(getProviderAdapter('anthropic').embed({ model: 'claude-3-5-haiku-latest', input: ['a'] }, { apiKey: 'sk-ant' }))
+        .rejects.toThrow(/does not offer an embeddings api/i);
+    });
+  });
+
+  describe('routing policies', () => {
+    const request = { model: 'local/llama3.1', messages: [{ role: 'user' as const, content: 'Hi' }] };
+    const completion = { choices: [{ message: { role: 'assistant', content: 'Hello' }, finish_reason: 'stop' }] };
+
+    it('should retry rate-limited requests with backoff', async () => {
+      await upsertRoutingPolicy({ project_id: 'project_1', max_retries: 3, initial_backoff_ms: 10 }, 'user_1');
+      let calls = 0;
+      respond = (_, res) => ++calls < 3 ? sendJson(res, 429, { error: { message: 'Slow down' } }) : sendJson(res, 200, completion);
+
+      const response = await completeModelRequest({ orgId: 'org_1', projectId: 'project_1' }, request);
+
+      expect(response.content).toEqual('Hello');
+      expect(response.attempts.map(attempt => [attempt.success, attempt.status])).toEqual([[false, 429], [false, 429], [true, null]]);
+      expect(routingFlags(response.attempts).fallback).toBe(false);
+    });
+
+    it('should fall back to the next target without retrying client errors', async () => {
+      await createProviderKey({ org_id: 'org_1', provider: 'openai', label: 'OpenAI', api_key: 'sk-test' }, 'user_1');
+      await upsertRoutingPolicy({
+        project_id: 'project_1',
+        initial_backoff_ms: 10,
+        fallbacks: [{ provider: 'anthropic', model: 'claude-3-5-haiku-latest' }, { provider: 'openai', model: 'gpt-4o-mini' }],
+      }, 'user_1');
+      respond = (request, res) => request.body.model === 'llama3.1'
+        ? sendJson(res, 400, { error: { message: 'Unknown model' } })
+        : sendJson(res, 200, completion);
+
+      const response = await completeModelRequest({ orgId: 'org_1', projectId: 'project_1' }, request);
+
+      expect(response).toMatchObject({ provider: 'openai', model: 'gpt-4o-mini', content: 'Hello' });
+      expect(response.attempts).toMatchObject([
+        { provider: 'local', model: 'llama3.1', success: false, status: 400 },
+        { provider: 'anthropic', success: false, error: 'No anthropic API key is configured for this organization' },
+        { provider: 'openai', success: true },
+      ]);
+      expect(routingFlags(response.attempts).fallback).toBe(true);
+    });
+
+    it('should time out slow providers', async () => {
+      await upsertRoutingPolicy({ project_id: 'project_1', max_retries: 0, timeout_ms: 1000 }, 'user_1');
+      respond = (_, res) => setTimeout(() => sendJson(res, 200, completion), 1500);
+
+      const error = await completeModelRequest({ orgId: 'org_1', projectId: 'project_1' }, request).catch(error => error);
+
+      expect(error).toBeInstanceOf(ModelRoutingError);
+      expect(error.message).toMatch(/did not respond within 1000ms/);
+      expect(error.attempts).toHaveLength(1);
+    });
+
+    it('should balance requests across weighted keys', async () => {
+      const heavy = await createProviderKey({ org_id: 'org_1', provider: 'local', label: 'Heavy', api_key: 'local-heavy' }, 'user_1');
+      const unused = await createProviderKey({ org_id: 'org_1', provider: 'local', label: 'Unused', api_key: 'local-unused' }, 'user_1');
+      const light = await createProviderKey({ org_id: 'org_1', provider: 'local', label: 'Light', api_key: 'local-light' }, 'user_1');
+      await upsertRoutingPolicy({ project_id: 'project_1', key_weights: { [heavy.id]: 3, [light.id]: 1, [unused.id]: 0 } }, 'user_1');
+      respond = (_, res) => sendJson(res, 200, completion);
+
+      for (let i = 0; i < 40; i++) {
+        await completeModelRequest({ orgId: 'org_1', projectId: 'project_1' }, request);
+      }
+
+      const counts = new Map<string, number>();
+      for (const { headers } of received) {
+        counts.set(headers['authorization']!, (counts.get(headers['authorization']!) ?? 0) + 1);
+      }
+      expect(counts.has('Bearer local-unused')).toBe(false);
+      expect(counts.get('Bearer local-heavy')!).toBeGreaterThan(counts.get('Bearer local-light')!);
+    });
+
+    it('should stream from a fallback when the first target refuses the request', async () => {
+      await upsertRoutingPolicy({ project_id: 'project_1', max_retries: 0, fallbacks: [{ provider: 'local', model: 'qwen2.5' }] }, 'user_1');
+      respond = (request, res) => request.body.model === 'llama3.1'
+        ? sendJson(res, 503, { error: { message: 'Overloaded' } })
+        : sendEvents(res, [{ choices: [{ delta: { content: 'Hi' }, finish_reason: 'stop' }] }, '[DONE]']);
+
+      const events = await collect(await streamModelRequest({ orgId: 'org_1', projectId: 'project_1' }, request));
+
+      expect(events[1]).toMatchObject({ type: 'done', response: { model: 'qwen2.5', content: 'Hi' } });
+      expect((events[1] as any).response.attempts.map((attempt: any) => attempt.success)).toEqual([false, true]);
+    });
+  });
+});
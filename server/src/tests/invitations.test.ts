@@ -0,0 +1,185 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, membershipsTable, invitationsTable, auditLogsTable, billingTable } from '../db/schema';
+import {
+  createInvitation,
+  getPendingInvitationsByOrgId,
+  resendInvitation,
+  revokeInvitation,
+  acceptInvitation,
+  declineInvitation
+} from '../handlers/invitations';
+import { getOutboxMessages } from '../handlers/mailer';
+import { and, eq } from 'drizzle-orm';
+
+process.env['SESSION_SECRET'] = 'test_session_secret';
+
+const users = [
+  { id: 'user_inviter', email: 'inviter@example.com', name: 'Inviter', avatar_url: null },
+  { id: 'user_invitee', email: 'invitee@example.com', name: 'Invitee', avatar_url: null },
+  { id: 'user_stranger', email: 'stranger@example.com', name: 'Stranger', avatar_url: null },
+];
+
+const testOrganization = {
+  id: 'org_invites',
+  name: 'Invites Org',
+  slug: 'invites-org',
+  owner_user_id: 'user_inviter',
+  plan: 'pro' as const,
+};
+
+const getInvitationToken = async (email: string): Promise<string> => {
+  const messages = await getOutboxMessages(email);
+  const match = messages[0].body.match(/token=([\w.-]+)/);
+  return match![1];
+};
+
+describe('invitations', () => {
+  beforeEach(async () => {
+    await createDB();
+
+    await db.insert(usersTable).values(users).execute();
+    await db.insert(organizationsTable).values(testOrganization).execute();
+    await db.insert(membershipsTable).values({ id: 'mem_inviter', org_id: 'org_invites', user_id: 'user_inviter', role: 'owner' }).execute();
+  });
+
+  afterEach(resetDB);
+
+  describe('createInvitation', () => {
+    it('should email a signed token and store only its hash', async () => {
+      const invitation = await createInvitation({ org_id: 'org_invites', email: 'Invitee@Example.com', role: 'editor' }, 'user_inviter');
+
+      expect(invitation.email).toEqual('invitee@example.com');
+      expect(invitation.status).toEqual('pending');
+      expect(invitation.expires_at.getTime()).toBeGreaterThan(Date.now());
+      expect((invitation as any).token_hash).toBeUndefined();
+
+      const token = await getInvitationToken('invitee@example.com');
+      const stored = await db.select().from(invitationsTable).where(eq(invitationsTable.id, invitation.id)).execute();
+      expect(stored[0].token_hash).not.toEqual(token);
+    });
+
+    it('should reject existing members and duplicate pending invitations', async () => {
+      await expect(createInvitation({ org_id: 'org_invites', email: 'inviter@example.com', role: 'editor' }, 'user_inviter'))
+        .rejects.toThrow(/already a member/i);
+
+      await createInvitation({ org_id: 'org_invites', email: 'invitee@example.com', role: 'editor' }, 'user_inviter');
+      await expect(createInvitation({ org_id: 'org_invites', email: 'invitee@example.com', role: 'viewer' }, 'user_inviter'))
+        .rejects.toThrow(/already pending/i);
+    });
+
+    it('should invite people who have not signed up yet', async () => {
+      const invitation = await createInvitation({ org_id: 'org_invites', email: 'newcomer@example.com', role: 'viewer' }, 'user_inviter');
+
+      expect(invitation.status).toEqual('pending');
+      expect(await getOutboxMessages('newcomer@example.com')).toHaveLength(1);
+    });
+  });
+
+  describe('acceptInvitation', () => {
+    it('should create the membership and write an audit entry', async () => {
+      const invitation = await createInvitation({ org_id: 'org_invites', email: 'invitee@example.com', role: 'editor' }, 'user_inviter');
+      const token = await getInvitationToken('invitee@example.com');
+
+      const membership = await acceptInvitation(token, 'user_invitee');
+
+      expect(membership.org_id).toEqual('org_invites');
+      expect(membership.user_id).toEqual('user_invitee');
+      expect(membership.role).toEqual('editor');
+
+      const stored = await db.select().from(invitationsTable).where(eq(invitationsTable.id, invitation.id)).execute();
+      expect(stored[0].status).toEqual('accepted');
+      expect(stored[0].responded_at).toBeInstanceOf(Date);
+
+      const logs = await db.select()
+        .from(auditLogsTable)
+        .where(and(eq(auditLogsTable.org_id, 'org_invites'), eq(auditLogsTable.action, 'invitation.accept')))
+        .execute();
+      expect(logs).toHaveLength(1);
+      expect(logs[0].actor_user_id).toEqual('user_invitee');
+      expect(logs[0].target_id).toEqual(membership.id);
+    });
+
+    it('should only be usable once', async () => {
+      await createInvitation({ org_id: 'org_invites', email: 'invitee@example.com', role: 'editor' }, 'user_inviter');
+      const token = await getInvitationToken('invitee@example.com');
+
+      await acceptInvitation(token, 'user_invitee');
+      await expect(acceptInvitation(token, 'user_invitee')).rejects.toThrow(/invalid or expired invitation/i);
+    });
+
+    it('should reject users the invitation was not sent to', async () => {
+      await createInvitation({ org_id: 'org_invites', email: 'invitee@example.com', role: 'editor' }, 'user_inviter');
+      const token = await getInvitationToken('invitee@example.com');
+
+      await expect(acceptInvitation(token, 'user_stranger')).rejects.toThrow(/different email address/i);
+    });
+
+    it('should reject tampered and expired tokens', async () => {
+      const invitation = await createInvitation({ org_id: 'org_invites', email: 'invitee@example.com', role: 'editor' }, 'user_inviter');
+      const token = await getInvitationToken('invitee@example.com');
+
+      await expect(acceptInvitation(`${token}x`, 'user_invitee')).rejects.toThrow(/invalid or expired invitation/i);
+
+      await db.update(invitationsTable).set({ expires_at: new Date(Date.now() - 1000) }).where(eq(invitationsTable.id, invitation.id)).execute();
+      await expect(acceptInvitation(token, 'user_invitee')).rejects.toThrow(/invalid or expired invitation/i);
+    });
+
+    it('should be blocked when the organization has no free seats', async () => {
+      const invitation = await createInvitation({ org_id: 'org_invites', email: 'invitee@example.com', role: 'editor' }, 'user_inviter');
+      const token = await getInvitationToken('invitee@example.com');
+      await db.insert(billingTable).values({ org_id: 'org_invites', plan: 'pro', seats: 1 }).execute();
+
+      await expect(acceptInvitation(token, 'user_invitee')).rejects.toThrow(/seat limit reached/i);
+
+      // The invitation stays usable once a seat frees up
+      const stored = await db.select().from(invitationsTable).where(eq(invitationsTable.id, invitation.id)).execute();
+      expect(stored[0].status).toEqual('pending');
+    });
+  });
+
+  describe('declineInvitation', () => {
+    it('should mark the invitation declined without creating a membership', async () => {
+      const invitation = await createInvitation({ org_id: 'org_invites', email: 'invitee@example.com', role: 'editor' }, 'user_inviter');
+      const token = await getInvitationToken('invitee@example.com');
+
+      await declineInvitation(token, 'user_invitee');
+
+      const stored = await db.select().from(invitationsTable).where(eq(invitationsTable.id, invitation.id)).execute();
+      expect(stored[0].status).toEqual('declined');
+
+      const memberships = await db.select().from(membershipsTable).where(eq(membershipsTable.user_id, 'user_invitee')).execute();
+      expect(memberships).toHaveLength(0);
+    });
+  });
+
+  describe('resendInvitation', () => {
+    it('should issue a new token and invalidate the old one', async () => {
+      const invitation = await createInvitation({ org_id: 'org_invites', email: 'invitee@example.com', role: 'editor' }, 'user_inviter');
+      const oldToken = await getInvitationToken('invitee@example.com');
+
+      await resendInvitation(invitation.id);
+      const newToken = await getInvitationToken('invitee@example.com');
+
+      expect(newToken).not.toEqual(oldToken);
+      await expect(acceptInvitation(oldToken, 'user_invitee')).rejects.toThrow(/invalid or expired invitation/i);
+      await expect(acceptInvitation(newToken, 'user_invitee')).resolves.toBeDefined();
+    });
+  });
+
+  describe('revokeInvitation', () => {
+    it('should remove the invitation from the pending list', async () => {
+      const invitation = await createInvitation({ org_id: 'org_invites', email: 'invitee@example.com', role: 'editor' }, 'user_inviter');
+      await createInvitation({ org_id: 'org_invites', email: 'other@example.com', role: 'viewer' }, 'user_inviter');
+      const token = await getInvitationToken('invitee@example.com');
+
+      await revokeInvitation(invitation.id, 'user_inviter');
+
+      const pending = await getPendingInvitationsByOrgId('org_invites');
+      expect(pending.map(item => item.email)).toEqual(['other@example.com']);
+      await expect(acceptInvitation(token, 'user_invitee')).rejects.toThrow(/invalid or expired invitation/i);
+      await expect(revokeInvitation(invitation.id, 'user_inviter')).rejects.toThrow(/pending invitation not found/i);
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, auditLogsTable } from '../db/schema';
+import {
+  getModelCatalog,
+  findModelCatalogEntry,
+  upsertModelCatalogEntry,
+  deleteModelCatalogEntry,
+  computeModelCost
+} from '../handlers/model_catalog';
+import { eq } from 'drizzle-orm';
+
+const testUser = { id: 'user_1', email: 'test@example.com', name: 'Test User', avatar_url: null };
+
+const organizations = [
+  { id: 'org_1', name: 'Test Org', slug: 'test-org', owner_user_id: 'user_1', plan: 'pro' as const },
+  { id: 'org_2', name: 'Other Org', slug: 'other-org', owner_user_id: 'user_1', plan: 'pro' as const },
+];
+
+describe('model catalog', () => {
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(usersTable).values(testUser).execute();
+    await db.insert(organizationsTable).values(organizations).execute();
+  });
+
+  afterEach(resetDB);
+
+  describe('getModelCatalog', () => {
+    it('should list built-in models with their list prices', async () => {
+      const catalog = await getModelCatalog('org_1');
+
+      const gpt4o = catalog.find(entry => entry.provider === 'openai' && entry.model_id === 'gpt-4o');
+      expect(gpt4o).toMatchObject({ input_price_per_1k: 0.0025, output_price_per_1k: 0.01, supports_tools: true, source: 'builtin' });
+      expect(catalog.some(entry => entry.provider === 'local')).toBe(false);
+    });
+  });
+
+  describe('upsertModelCatalogEntry', () => {
+    it('should override prices for one organization only', async () => {
+      const entry = await upsertModelCatalogEntry({
+        org_id: 'org_1',
+        provider: 'anthropic',
+        model_id: 'claude-3-5-sonnet-latest',
+        input_price_per_1k: 0.0024,
+        output_price_per_1k: 0.012
+      }, 'user_1');
+
+      // Unspecified fields keep the built-in values
+      expect(entry).toMatchObject({ context_window: 200000, supports_vision: true, input_price_per_1k: 0.0024, source: 'organization' });
+
+      expect((await findModelCatalogEntry('org_1', 'claude-3-5-sonnet-latest'))!.input_price_per_1k).toEqual(0.0024);
+      expect((await findModelCatalogEntry('org_2', 'claude-3-5-sonnet-latest'))!.input_price_per_1k).toEqual(0.003);
+
+      const updated = await upsertModelCatalogEntry({
+        org_id: 'org_1',
+        provider: 'anthropic',
+        model_id: 'claude-3-5-sonnet-latest',
+        input_price_per_1k: 0.002,
+        output_price_per_1k: 0.01
+      }, 'user_1');
+      expect(updated.input_price_per_1k).toEqual(0.002);
+      expect((await getModelCatalog('org_1')).filter(item => item.model_id === 'claude-3-5-sonnet-latest')).toHaveLength(1);
+
+      const logs = await db.select().from(auditLogsTable).where(eq(auditLogsTable.org_id, 'org_1')).execute();
+      expect(logs.map(log => log.action)).toEqual(['model_catalog.upsert', 'model_catalog.upsert']);
+    });
+
+    it('should add custom models when the context window is given', async () => {
+      await expect(upsertModelCatalogEntry({ org_id: 'org_1', provider: 'local', model_id: 'llama3.1', input_price_per_1k: 0, output_price_per_1k: 0 }, 'user_1'))
+        .rejects.toThrow(/context_window is required/i);
+
+      await upsertModelCatalogEntry({ org_id: 'org_1', provider: 'local', model_id: 'llama3.1', context_window: 131072, input_price_per_1k: 0, output_price_per_1k: 0 }, 'user_1');
+
+      const entry = await findModelCatalogEntry('org_1', 'local/llama3.1');
+      expect(entry).toMatchObject({ context_window: 131072, supports_streaming: true, supports_tools: false });
+      expect(await findModelCatalogEntry('org_1', 'llama3.1')).toBeNull();
+    });
+  });
+
+  describe('deleteModelCatalogEntry', () => {
+    it('should fall back to the built-in price', async () => {
+      await upsertModelCatalogEntry({ org_id: 'org_1', provider: 'openai', model_id: 'gpt-4o', input_price_per_1k: 0.001, output_price_per_1k: 0.004 }, 'user_1');
+
+      await deleteModelCatalogEntry({ org_id: 'org_1', provider: 'openai', model_id: 'gpt-4o' }, 'user_1');
+
+      expect((await findModelCatalogEntry('org_1', 'gpt-4o'))!.source).toEqual('builtin');
+      await expect(deleteModelCatalogEntry({ org_id: 'org_1', provider: 'openai', model_id: 'gpt-4o' }, 'user_1'))
+        .rejects.toThrow(/not found/i);
+    });
+  });
+
+  describe('computeModelCost', () => {
+    it('should price input and output tokens separately', () => {
+      expect(computeModelCost({ input_price_per_1k: 0.003, output_price_per_1k: 0.015 }, 1200, 300)).toEqual(0.0081);
+      expect(computeModelCost({ input_price_per_1k: 0.000075, output_price_per_1k: 0.0003 }, 1, 1)).toEqual(0);
+    });
+  });
+});
@@ -0,0 +1,226 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, projectsTable, promptsTable, promptVersionsTable, runsTable } from '../db/schema';
+import { handleOpenAiProxyRequest } from '../handlers/openai_proxy';
+import { createApiKey } from '../handlers/api_keys';
+import { upsertRoutingPolicy } from '../handlers/routing_policies';
+import { upsertRateLimitOverrides } from '../handlers/rate_limits';
+import { getProviderAdapter, setProviderAdapter, ProviderRequestError } from '../handlers/provider_adapters';
+import { createServer, type Server } from 'http';
+import { type AddressInfo } from 'net';
+
+const testUser = { id: 'user_1', email: 'test@example.com', name: 'Test User', avatar_url: null };
+
+const organizations = [
+  { id: 'org_1', name: 'Test Org', slug: 'test-org', owner_user_id: 'user_1', plan: 'pro' as const },
+  { id: 'org_2', name: 'Other Org', slug: 'other-org', owner_user_id: 'user_1', plan: 'pro' as const },
+];
+
+let server: Server;
+let baseUrl: string;
+let token: string;
+
+const chatCompletion = async (body: unknown, headers: Record<string, string> = {}, authToken: string = token) =>
+  fetch(`${baseUrl}/v1/chat/completions`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${authToken}`, 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  });
+
+const json = (response: Response): Promise<any> => response.json();
+
+const hello = { model: 'local/llama3.1', messages: [{ role: 'user', content: 'Hi' }] };
+
+describe('openai proxy', () => {
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(usersTable).values(testUser).execute();
+    await db.insert(organizationsTable).values(organizations).execute();
+    await db.insert(projectsTable).values([
+      { id: 'project_1', org_id: 'org_1', name: 'Project', tags: [] },
+      { id: 'project_2', org_id: 'org_2', name: 'Other', tags: [] },
+    ]).execute();
+    await db.insert(promptsTable).values({ id: 'prompt_1', project_id: 'project_1', name: 'Greeter' }).execute();
+    await db.insert(promptVersionsTable).values([
+      { id: 'version_1', prompt_id: 'prompt_1', version: '1.0.0', content: 'Hi', created_by: 'user_1' },
+      { id: 'version_2', prompt_id: 'prompt_1', version: '1.1.0', content: 'Hello', created_by: 'user_1' },
+    ]).execute();
+    await db.update(promptsTable).set({ current_version_id: 'version_2' }).execute();
+
+    token = (await createApiKey({ org_id: 'org_1', label: 'App', scopes: ['chat:completions'] })).token;
+
+    setProviderAdapter('local', {
+      ...getProviderAdapter('local'),
+      complete: async request => ({
+        content: `Echo: ${request.messages[request.messages.length - 1].content}`,
+        tool_calls: [],
+        finish_reason: 'stop',
+        usage: { input_tokens: 7, output_tokens: 3 },
+      }),
+      stream: async () => (async function* () {
+        yield { type: 'delta' as const, content: 'Hel' };
+        yield { type: 'delta' as const, content: 'lo' };
+        yield { type: 'done' as const, completion: { content: 'Hello', tool_calls: [], finish_reason: 'stop' as const, usage: { input_tokens: 5, output_tokens: 2 } } };
+      })(),
+    });
+
+    server = createServer(handleOpenAiProxyRequest);
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    setProviderAdapter('local', null);
+    await new Promise(resolve => server.close(resolve));
+    await resetDB();
+  });
+
+  describe('authentication', () => {
+    it('should require an API key with the chat:completions scope', async () => {
+      expect((await chatCompletion(hello, { 'X-Project-Id': 'project_1' }, 'pf_not_a_key')).status).toEqual(401);
+
+      const runsKey = await createApiKey({ org_id: 'org_1', label: 'CI', scopes: ['runs:write'] });
+      const forbidden = await chatCompletion(hello, { 'X-Project-Id': 'project_1' }, runsKey.token);
+      expect(forbidden.status).toEqual(403);
+      expect((await json(forbidden)).error.type).toEqual('permission_error');
+    });
+
+    it('should only log to projects of the key organization', async () => {
+      expect((await chatCompletion(hello)).status).toEqual(400);
+      expect((await chatCompletion(hello, { 'X-Project-Id': 'project_2' })).status).toEqual(404);
+    });
+
+    it('should enforce the API key rate limit', async () => {
+      await upsertRateLimitOverrides({ org_id: 'org_1', api_key_requests_per_minute: 1 }, 'user_1');
+
+      const allowed = await chatCompletion(hello, { 'X-Project-Id': 'project_1' });
+      expect(allowed.headers.get('ratelimit-limit')).toEqual('1');
+      expect(allowed.headers.get('ratelimit-remaining')).toEqual('0');
+
+      const limited = await chatCompletion(hello, { 'X-Project-Id': 'project_1' });
+      expect(limited.status).toEqual(429);
+      expect(Number(limited.headers.get('retry-after'))).toBeGreaterThan(0);
+      expect((await json(limited)).error.type).toEqual('rate_limit_error');
+
+      expect(await db.select().from(runsTable).execute()).toHaveLength(1);
+    });
+  });
+
+  describe('completions', () => {
+    it('should answer in the OpenAI format and log a run', async () => {
+      const response = await chatCompletion({
+        ...hello,
+        messages: [{ role: 'developer', content: 'Be brief' }, { role: 'user', content: [{ type: 'text', text: 'Hi' }] }],
+        max_completion_tokens: 20,
+      }, { 'X-Project-Id': 'project_1' });
+
+      expect(response.status).toEqual(200);
+      const body = await json(response);
+      expect(body).toMatchObject({
+        object: 'chat.completion',
+        model: 'local/llama3.1',
+        choices: [{ index: 0, message: { role: 'assistant', content: 'Echo: Hi' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 7, completion_tokens: 3, total_tokens: 10 },
+      });
+
+      const runs = await db.select().from(runsTable).execute();
+      expect(runs).toHaveLength(1);
+      expect(runs[0]).toMatchObject({
+        project_id: 'project_1',
+        prompt_id: null,
+        version_id: null,
+        model: 'local/llama3.1',
+        tokens_in: 7,
+        tokens_out: 3,
+        success: true,
+      });
+      expect(runs[0].flags).toMatchObject({ source: 'proxy', fallback: false, cache_hit: false });
+      expect(runs[0].input).toEqual({ messages: [{ role: 'system', content: 'Be brief' }, { role: 'user', content: 'Hi' }] });
+    });
+
+    it('should link runs to the prompt version named in the headers', async () => {
+      await chatCompletion(hello, { 'X-Prompt-Id': 'prompt_1' });
+      await chatCompletion(hello, { 'X-Prompt-Id': 'prompt_1', 'X-Prompt-Version': '1.0.0' });
+
+      const runs = await db.select().from(runsTable).execute();
+      expect(runs.map(run => [run.project_id, run.prompt_id, run.version_id]).sort()).toEqual([
+        ['project_1', 'prompt_1', 'version_1'],
+        ['project_1', 'prompt_1', 'version_2'],
+      ]);
+
+      expect((await chatCompletion(hello, { 'X-Prompt-Id': 'prompt_1', 'X-Prompt-Version': '9.9.9' })).status).toEqual(404);
+      expect((await chatCompletion(hello, { 'X-Prompt-Id': 'prompt_1', 'X-Project-Id': 'project_2' })).status).toEqual(400);
+    });
+
+    it('should return tool calls', async () => {
+      setProviderAdapter('local', {
+        ...getProviderAdapter('local'),
+        complete: async () => ({
+          content: '',
+          tool_calls: [{ id: 'call_1', name: 'weather', arguments: '{"city":"Oslo"}' }],
+          finish_reason: 'tool_calls',
+          usage: { input_tokens: 9, output_tokens: 4 },
+        }),
+      });
+
+      const response = await chatCompletion({
+        ...hello,
+        tools: [{ type: 'function', function: { name: 'weather', parameters: { type: 'object' } } }],
+      }, { 'X-Project-Id': 'project_1' });
+
+      const body = await json(response);
+      expect(body.choices[0]).toMatchObject({
+        message: { tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'weather', arguments: '{"city":"Oslo"}' } }] },
+        finish_reason: 'tool_calls',
+      });
+    });
+
+    it('should reject malformed requests', async () => {
+      const response = await chatCompletion({ model: 'local/llama3.1', messages: [] }, { 'X-Project-Id': 'project_1' });
+
+      expect(response.status).toEqual(400);
+      expect((await json(response)).error.type).toEqual('invalid_request_error');
+      expect((await chatCompletion({ ...hello, model: 'mistral-large' }, { 'X-Project-Id': 'project_1' })).status).toEqual(400);
+    });
+
+    it('should log failed calls and pass rate limits through', async () => {
+      setProviderAdapter('local', {
+        ...getProviderAdapter('local'),
+        complete: async () => {
+          throw new ProviderRequestError('local', 429, 'local returned HTTP 429: Slow down');
+        },
+      });
+      await upsertRoutingPolicy({ project_id: 'project_1', max_retries: 0 }, 'user_1');
+
+      const response = await chatCompletion(hello, { 'X-Project-Id': 'project_1' });
+
+      expect(response.status).toEqual(429);
+      expect((await json(response)).error.message).toMatch(/slow down/i);
+
+      const runs = await db.select().from(runsTable).execute();
+      expect(runs).toHaveLength(1);
+      expect(runs[0]).toMatchObject({ success: false, tokens_in: 0, model: 'local/llama3.1' });
+      expect(runs[0].flags).toMatchObject({ attempts: [{ provider: 'local', status: 429, success: false }] });
+    });
+  });
+
+  describe('streaming', () => {
+    it('should stream chunks, report usage and log the run', async () => {
+      const response = await chatCompletion({ ...hello, stream: true, stream_options: { include_usage: true } }, { 'X-Project-Id': 'project_1' });
+
+      expect(response.headers.get('content-type')).toEqual('text/event-stream');
+      const events = (await response.text()).split('\n\n').filter(Boolean).map(event => event.replace(/^data: /, ''));
+
+      expect(events[events.length - 1]).toEqual('[DONE]');
+      const chunks = events.slice(0, -1).map(event => JSON.parse(event));
+      expect(chunks.map(chunk => chunk.choices[0]?.delta.content).filter(Boolean)).toEqual(['Hel', 'lo']);
+      expect(chunks[chunks.length - 2].choices[0].finish_reason).toEqual('stop');
+      expect(chunks[chunks.length - 1].usage).toEqual({ prompt_tokens: 5, completion_tokens: 2, total_tokens: 7 });
+
+      const runs = await db.select().from(runsTable).execute();
+      expect(runs).toHaveLength(1);
+      expect(runs[0]).toMatchObject({ tokens_in: 5, tokens_out: 2, success: true, output: { content: 'Hello', tool_calls: [] } });
+    });
+  });
+});
@@ -0,0 +1,187 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  usersTable,
+  organizationsTable,
+  membershipsTable,
+  projectsTable,
+  promptsTable,
+  promptVersionsTable,
+  runsTable,
+  apiKeysTable,
+  providerKeysTable,
+  auditLogsTable
+} from '../db/schema';
+import {
+  exportOrganizationData,
+  scheduleOrganizationDeletion,
+  restoreOrganization,
+  purgeDeletedOrganizations,
+  isOrganizationDeleted
+} from '../handlers/organization_deletion';
+import { createApiKey, authenticateApiKey } from '../handlers/api_keys';
+import { authorizeProcedure } from '../handlers/authorization';
+import { and, eq } from 'drizzle-orm';
+
+const testUser = { id: 'user_deletion', email: 'deletion@example.com', name: 'Deletion', avatar_url: null };
+
+const testOrganization = {
+  id: 'org_deletion',
+  name: 'Deletion Org',
+  slug: 'deletion-org',
+  owner_user_id: 'user_deletion',
+  plan: 'pro' as const,
+};
+
+describe('organization deletion', () => {
+  beforeEach(async () => {
+    await createDB();
+
+    await db.insert(usersTable).values(testUser).execute();
+    await db.insert(organizationsTable).values(testOrganization).execute();
+    await db.insert(membershipsTable).values({ id: 'mem_deletion', org_id: 'org_deletion', user_id: 'user_deletion', role: 'owner' }).execute();
+    await db.insert(projectsTable).values({ id: 'project_deletion', org_id: 'org_deletion', name: 'Project', tags: [] }).execute();
+    await db.insert(promptsTable).values({ id: 'prompt_deletion', project_id: 'project_deletion', name: 'Prompt' }).execute();
+    await db.insert(promptVersionsTable).values({
+      id: 'version_deletion',
+      prompt_id: 'prompt_deletion',
+      version: '1.0.0',
+      content: 'Hello',
+      created_by: 'user_deletion',
+    }).execute();
+    await db.insert(runsTable).values({
+      id: 'run_deletion',
+      project_id: 'project_deletion',
+      prompt_id: 'prompt_deletion',
+      version_id: 'version_deletion',
+      model: 'gpt-4',
+      tokens_in: 100,
+      tokens_out: 50,
+      cost_usd: '0.015',
+      latency_ms: 1000,
+      success: true,
+    }).execute();
+  });
+
+  afterEach(resetDB);
+
+  describe('exportOrganizationData', () => {
+    it('should include org content and leave secrets out', async () => {
+      await db.insert(providerKeysTable).values({
+        id: 'pk_deletion',
+        org_id: 'org_deletion',
+        provider: 'openai',
+        label: 'OpenAI',
+        encrypted_api_key: 'secret',
+        encrypted_data_key: 'secret',
+        master_key_id: 'test',
+        key_suffix: 'cret',
+      }).execute();
+      await createApiKey({ org_id: 'org_deletion', label: 'CI', scopes: ['runs:write'] });
+
+      const data = await exportOrganizationData('org_deletion');
+
+      expect(data.format_version).toEqual(1);
+      expect(data.organization.id).toEqual('org_deletion');
+      expect(data.memberships).toHaveLength(1);
+      expect(data.projects.map(project => project.id)).toEqual(['project_deletion']);
+      expect(data.prompt_versions.map(version => version.id)).toEqual(['version_deletion']);
+      expect(data.runs[0].cost_usd).toEqual(0.015);
+      expect(typeof data.runs[0].cost_usd).toBe('number');
+      expect(data).not.toHaveProperty('provider_keys');
+      expect(data).not.toHaveProperty('api_keys');
+      expect(JSON.stringify(data)).not.toContain('secret');
+    });
+
+    it('should reject unknown organizations', async () => {
+      await expect(exportOrganizationData('missing_org')).rejects.toThrow(/organization not found/i);
+    });
+  });
+
+  describe('scheduleOrganizationDeletion', () => {
+    it('should soft-delete the org with a purge date and audit it', async () => {
+      const org = await scheduleOrganizationDeletion('org_deletion', 'user_deletion');
+
+      expect(org.deleted_at).toBeInstanceOf(Date);
+      expect(org.purge_after!.getTime()).toBeGreaterThan(Date.now() + 29 * 24 * 60 * 60 * 1000);
+      expect(await isOrganizationDeleted('org_deletion')).toBe(true);
+
+      const logs = await db.select()
+        .from(auditLogsTable)
+        .where(and(eq(auditLogsTable.org_id, 'org_deletion'), eq(auditLogsTable.action, 'organization.schedule_deletion')))
+        .execute();
+      expect(logs).toHaveLength(1);
+    });
+
+    it('should not schedule the same org twice', async () => {
+      await scheduleOrganizationDeletion('org_deletion', 'user_deletion');
+
+      await expect(scheduleOrganizationDeletion('org_deletion', 'user_deletion'))
+        .rejects.toThrow(/already scheduled/i);
+    });
+
+    it('should block access to the org except for restore and export', async () => {
+      await scheduleOrganizationDeletion('org_deletion', 'user_deletion');
+
+      await expect(authorizeProcedure('user_deletion', 'projects.getByOrgId', 'org_deletion'))
+        .rejects.toThrow(/scheduled for deletion/i);
+      await expect(authorizeProcedure('user_deletion', 'organizations.restore', 'org_deletion'))
+        .resolves.toBeUndefined();
+      await expect(authorizeProcedure('user_deletion', 'organizations.exportData', 'org_deletion'))
+        .resolves.toBeUndefined();
+    });
+
+    it('should disable the org API keys', async () => {
+      const issued = await createApiKey({ org_id: 'org_deletion', label: 'CI', scopes: ['runs:write'] });
+
+      await scheduleOrganizationDeletion('org_deletion', 'user_deletion');
+
+      expect(await authenticateApiKey(issued.token)).toBeNull();
+    });
+  });
+
+  describe('restoreOrganization', () => {
+    it('should clear the deletion and bring back access', async () => {
+      const issued = await createApiKey({ org_id: 'org_deletion', label: 'CI', scopes: ['runs:write'] });
+      await scheduleOrganizationDeletion('org_deletion', 'user_deletion');
+
+      const org = await restoreOrganization('org_deletion', 'user_deletion');
+
+      expect(org.deleted_at).toBeNull();
+      expect(org.purge_after).toBeNull();
+      expect(await authenticateApiKey(issued.token)).not.toBeNull();
+      await expect(authorizeProcedure('user_deletion', 'projects.getByOrgId', 'org_deletion'))
+        .resolves.toBeUndefined();
+    });
+
+    it('should reject orgs that are not scheduled for deletion', async () => {
+      await expect(restoreOrganization('org_deletion', 'user_deletion'))
+        .rejects.toThrow(/not scheduled for deletion/i);
+    });
+  });
+
+  describe('purgeDeletedOrganizations', () => {
+    it('should only purge orgs past their grace period', async () => {
+      await scheduleOrganizationDeletion('org_deletion', 'user_deletion');
+
+      expect(await purgeDeletedOrganizations()).toEqual([]);
+
+      const purged = await purgeDeletedOrganizations(new Date(Date.now() + 31 * 24 * 60 * 60 * 1000));
+
+      expect(purged).toEqual(['org_deletion']);
+      expect(await db.select().from(organizationsTable).where(eq(organizationsTable.id, 'org_deletion')).execute()).toHaveLength(0);
+      expect(await db.select().from(projectsTable).where(eq(projectsTable.org_id, 'org_deletion')).execute()).toHaveLength(0);
+      expect(await db.select().from(runsTable).where(eq(runsTable.id, 'run_deletion')).execute()).toHaveLength(0);
+      expect(await db.select().from(apiKeysTable).where(eq(apiKeysTable.org_id, 'org_deletion')).execute()).toHaveLength(0);
+
+      // The user account outlives the org
+      expect(await db.select().from(usersTable).where(eq(usersTable.id, 'user_deletion')).execute()).toHaveLength(1);
+    });
+
+    it('should leave active orgs alone', async () => {
+      expect(await purgeDeletedOrganizations(new Date(Date.now() + 365 * 24 * 60 * 60 * 1000))).toEqual([]);
+      expect(await isOrganizationDeleted('org_deletion')).toBe(false);
+    });
+  });
+});
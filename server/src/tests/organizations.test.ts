@@ -1,7 +1,7 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, organizationsTable, membershipsTable } from '../db/schema';
+import { usersTable, organizationsTable, membershipsTable, auditLogsTable } from '../db/schema';
 import { 
   type CreateOrganizationInput, 
   type UpdateOrganizationInput,
@@ -18,7 +18,8 @@ import {
   updateMembership,
   getMembershipsByOrgId,
   getUserMembership,
-  deleteMembership
+  deleteMembership,
+  transferOwnership
 } from '../handlers/organizations';
 import { eq } from 'drizzle-orm';
 
@@ -272,6 +273,19 @@ describe('Organization Handlers', () => {
       const invalidInput = { org_id: org.id, user_id: 'nonexistent_user', role: 'editor' as const };
       await expect(createMembership(invalidInput)).rejects.toThrow(/user not found/i);
     });
+
+    it('should only let owners add owners', async () => {
+      await createTestUsers();
+      await db.insert(usersTable).values({ id: 'user_test_789', email: 'third@example.com', name: 'Third User' }).execute();
+      const org = await createOrganization(testOrgInput);
+      await createMembership({ ...testMembershipInput, org_id: org.id, role: 'admin' });
+
+      await expect(createMembership({ org_id: org.id, user_id: 'user_test_789', role: 'owner' }, 'user_test_456'))
+        .rejects.toThrow(/only owners/i);
+
+      const added = await createMembership({ org_id: org.id, user_id: 'user_test_789', role: 'owner' }, 'user_test_123');
+      expect(added.role).toEqual('owner');
+    });
   });
 
   describe('updateMembership', () => {
@@ -285,7 +299,7 @@ describe('Organization Handlers', () => {
         role: 'admin',
       };
 
-      const result = await updateMembership(updateInput);
+      const result = await updateMembership(updateInput, 'user_test_123');
 
       expect(result.id).toEqual(membership.id);
       expect(result.role).toEqual('admin');
@@ -307,7 +321,47 @@ describe('Organization Handlers', () => {
         role: 'admin',
       };
 
-      await expect(updateMembership(updateInput)).rejects.toThrow(/membership not found/i);
+      await expect(updateMembership(updateInput, 'user_test_123')).rejects.toThrow(/membership not found/i);
+    });
+
+    it('should audit role changes', async () => {
+      await createTestUsers();
+      const org = await createOrganization(testOrgInput);
+      const membership = await createMembership({ ...testMembershipInput, org_id: org.id });
+
+      await updateMembership({ id: membership.id, role: 'viewer' }, 'user_test_123');
+
+      const logs = await db.select().from(auditLogsTable).where(eq(auditLogsTable.target_id, membership.id)).execute();
+      expect(logs).toHaveLength(1);
+      expect(logs[0].action).toEqual('membership.update');
+      expect(logs[0].metadata).toEqual({ user_id: 'user_test_456', from: 'editor', to: 'viewer' });
+    });
+
+    it('should not demote the last owner', async () => {
+      await createTestUsers();
+      const org = await createOrganization(testOrgInput);
+      const ownerMembership = await getUserMembership('user_test_123', org.id);
+
+      await expect(updateMembership({ id: ownerMembership!.id, role: 'admin' }, 'user_test_123'))
+        .rejects.toThrow(/transfer ownership/i);
+    });
+
+    it('should require another owner before demoting a co-owner', async () => {
+      await createTestUsers();
+      const org = await createOrganization(testOrgInput);
+      const membership = await createMembership({ ...testMembershipInput, org_id: org.id, role: 'owner' });
+
+      const result = await updateMembership({ id: membership.id, role: 'editor' }, 'user_test_123');
+      expect(result.role).toEqual('editor');
+    });
+
+    it('should only let owners grant the owner role', async () => {
+      await createTestUsers();
+      const org = await createOrganization(testOrgInput);
+      const membership = await createMembership({ ...testMembershipInput, org_id: org.id, role: 'admin' });
+
+      await expect(updateMembership({ id: membership.id, role: 'owner' }, 'user_test_456'))
+        .rejects.toThrow(/only owners/i);
     });
   });
 
@@ -366,7 +420,7 @@ describe('Organization Handlers', () => {
       const org = await createOrganization(testOrgInput);
       const membership = await createMembership({ ...testMembershipInput, org_id: org.id });
 
-      await deleteMembership(membership.id);
+      await deleteMembership(membership.id, 'user_test_123');
 
       // Verify membership was deleted from database
       const result = await db.select()
@@ -378,7 +432,74 @@ describe('Organization Handlers', () => {
     });
 
     it('should throw error for non-existent membership', async () => {
-      await expect(deleteMembership('nonexistent_membership')).rejects.toThrow(/membership not found/i);
+      await expect(deleteMembership('nonexistent_membership', 'user_test_123')).rejects.toThrow(/membership not found/i);
+    });
+
+    it('should not remove the owner', async () => {
+      await createTestUsers();
+      const org = await createOrganization(testOrgInput);
+      const ownerMembership = await getUserMembership('user_test_123', org.id);
+
+      await expect(deleteMembership(ownerMembership!.id, 'user_test_123')).rejects.toThrow(/transfer ownership/i);
+    });
+
+    it('should not let admins remove owners', async () => {
+      await createTestUsers();
+      const org = await createOrganization(testOrgInput);
+      await createMembership({ ...testMembershipInput, org_id: org.id, role: 'admin' });
+      const ownerMembership = await getUserMembership('user_test_123', org.id);
+
+      await expect(deleteMembership(ownerMembership!.id, 'user_test_456')).rejects.toThrow(/only owners/i);
+    });
+
+    it('should let members leave and audit the removal', async () => {
+      await createTestUsers();
+      const org = await createOrganization(testOrgInput);
+      const membership = await createMembership({ ...testMembershipInput, org_id: org.id, role: 'admin' });
+
+      await deleteMembership(membership.id, 'user_test_456');
+
+      const logs = await db.select().from(auditLogsTable).where(eq(auditLogsTable.target_id, membership.id)).execute();
+      expect(logs).toHaveLength(1);
+      expect(logs[0].action).toEqual('membership.delete');
+    });
+  });
+
+  describe('transferOwnership', () => {
+    it('should move ownership and swap roles atomically', async () => {
+      await createTestUsers();
+      const org = await createOrganization(testOrgInput);
+      await createMembership({ ...testMembershipInput, org_id: org.id });
+
+      const result = await transferOwnership(org.id, 'user_test_456', 'user_test_123');
+
+      expect(result.owner_user_id).toEqual('user_test_456');
+      expect((await getUserMembership('user_test_456', org.id))!.role).toEqual('owner');
+      expect((await getUserMembership('user_test_123', org.id))!.role).toEqual('admin');
+
+      const logs = await db.select().from(auditLogsTable).where(eq(auditLogsTable.action, 'organization.transfer_ownership')).execute();
+      expect(logs).toHaveLength(1);
+      expect(logs[0].metadata).toEqual({ from: 'user_test_123', to: 'user_test_456' });
+    });
+
+    it('should only accept existing members as the new owner', async () => {
+      await createTestUsers();
+      const org = await createOrganization(testOrgInput);
+
+      await expect(transferOwnership(org.id, 'user_test_456', 'user_test_123'))
+        .rejects.toThrow(/must be a member/i);
+    });
+
+    it('should only let the current owner transfer', async () => {
+      await createTestUsers();
+      const org = await createOrganization(testOrgInput);
+      await createMembership({ ...testMembershipInput, org_id: org.id, role: 'admin' });
+
+      await expect(transferOwnership(org.id, 'user_test_456', 'user_test_456'))
+        .rejects.toThrow(/only the current owner/i);
+
+      const dbOrg = await db.select().from(organizationsTable).where(eq(organizationsTable.id, org.id)).execute();
+      expect(dbOrg[0].owner_user_id).toEqual('user_test_123');
     });
   });
 });
\ No newline at end of file
@@ -6,7 +6,8 @@ import {
   projectsTable, 
   organizationsTable, 
   usersTable,
-  apiKeysTable 
+  apiKeysTable,
+  runsTable
 } from '../db/schema';
 import { 
   createPipeline,
@@ -17,6 +18,10 @@ import {
   executePipeline,
   validatePipelineGraph
 } from '../handlers/pipelines';
+import { hashApiKeyToken } from '../handlers/api_keys';
+import { getProviderAdapter, setProviderAdapter, ProviderRequestError } from '../handlers/provider_adapters';
+import { upsertCachePolicy } from '../handlers/response_cache';
+import { upsertRoutingPolicy } from '../handlers/routing_policies';
 import { 
   type CreatePipelineInput, 
   type UpdatePipelineInput 
@@ -47,12 +52,15 @@ const testProject = {
   tags: ['test']
 };
 
+const testApiToken = 'pf_test_token';
+
 const testApiKey = {
   id: 'key_123',
   org_id: testOrg.id,
   label: 'Test API Key',
-  token_hash: 'test_token_hash',
-  scopes: ['pipeline:execute']
+  token_hash: hashApiKeyToken(testApiToken),
+  token_prefix: testApiToken.slice(0, 9),
+  scopes: ['pipelines:execute']
 };
 
 const validGraph = {
@@ -286,7 +294,7 @@ describe('Pipeline Handlers', () => {
       const result = await executePipeline(
         published.endpoint_slug!,
         { input: 'test data' },
-        testApiKey.token_hash
+        testApiToken
       );
 
       expect(result.success).toBe(true);
@@ -296,6 +304,127 @@ describe('Pipeline Handlers', () => {
       expect(result.nodeResults[0].nodeId).toEqual('input');
     });
 
+    it('should run model nodes in order through the gateway', async () => {
+      const prompts: string[] = [];
+      setProviderAdapter('local', {
+        ...getProviderAdapter('local'),
+        complete: async request => {
+          prompts.push(request.messages.map(message => `${message.role}: ${message.content}`).join(' | '));
+          return { content: `[${request.model}] ${request.messages[request.messages.length - 1].content}`, tool_calls: [], finish_reason: 'stop', usage: { input_tokens: 5, output_tokens: 5 } };
+        }
+      });
+
+      try {
+        const created = await createPipeline({
+          ...createPipelineInput,
+          graph: {
+            nodes: [
+              { id: 'input', type: 'input' },
+              { id: 'summarize', type: 'model', data: { model: 'local/llama3.1', system: 'Be brief', prompt: 'Summarize for {{audience}}: {{input}}' } },
+              { id: 'translate', type: 'model', data: { model: 'local/qwen2.5', prompt: 'Translate: {{input}}' } },
+              { id: 'output', type: 'output' }
+            ],
+            edges: [
+              { source: 'summarize', target: 'translate' },
+              { source: 'input', target: 'summarize' },
+              { source: 'translate', target: 'output' }
+            ]
+          }
+        });
+        const published = await publishPipeline(created.id);
+
+        const result = await executePipeline(published.endpoint_slug!, { text: 'long report', audience: 'execs' }, testApiToken);
+
+        expect(result.success).toBe(true);
+        expect(result.nodeResults.map(node => node.nodeId)).toEqual(['input', 'summarize', 'translate', 'output']);
+        expect(prompts[0]).toEqual('system: Be brief | user: Summarize for execs: {"text":"long report","audience":"execs"}');
+        expect(result.output.result).toEqual('[qwen2.5] Translate: [llama3.1] Summarize for execs: {"text":"long report","audience":"execs"}');
+      } finally {
+        setProviderAdapter('local', null);
+      }
+    });
+
+    it('should record model node calls as runs, free when served from the cache', async () => {
+      setProviderAdapter('local', {
+        ...getProviderAdapter('local'),
+        complete: async request => ({ content: `[${request.model}] done`, tool_calls: [], finish_reason: 'stop', usage: { input_tokens: 5, output_tokens: 5 } })
+      });
+
+      try {
+        await upsertCachePolicy({ project_id: testProject.id, ttl_seconds: 300 }, testUser.id);
+        const created = await createPipeline({
+          ...createPipelineInput,
+          graph: {
+            nodes: [
+              { id: 'input', type: 'input' },
+              { id: 'summarize', type: 'model', data: { model: 'local/llama3.1', prompt: 'Summarize: {{text}}' } }
+            ],
+            edges: [{ source: 'input', target: 'summarize' }]
+          }
+        });
+        const published = await publishPipeline(created.id);
+
+        await executePipeline(published.endpoint_slug!, { text: 'long report' }, testApiToken);
+        await executePipeline(published.endpoint_slug!, { text: 'long report' }, testApiToken);
+
+        const runs = await db.select().from(runsTable).where(eq(runsTable.project_id, testProject.id)).orderBy(runsTable.created_at).execute();
+        expect(runs).toHaveLength(2);
+        expect(runs[0].model).toEqual('local/llama3.1');
+        expect(runs[0].flags).toMatchObject({ source: 'pipeline', pipeline_id: created.id, node_id: 'summarize', cache_hit: false });
+        expect(runs[1].flags).toMatchObject({ source: 'pipeline', node_id: 'summarize', cache_hit: true, cost_source: 'cache' });
+        expect(parseFloat(runs[1].cost_usd)).toEqual(0);
+      } finally {
+        setProviderAdapter('local', null);
+      }
+    });
+
+    it('should record how model node calls were routed', async () => {
+      setProviderAdapter('local', {
+        ...getProviderAdapter('local'),
+        complete: async request => {
+          if (request.model !== 'qwen2.5') {
+            throw new ProviderRequestError('local', 503, 'Overloaded');
+          }
+          return { content: 'done', tool_calls: [], finish_reason: 'stop', usage: { input_tokens: 5, output_tokens: 5 } };
+        }
+      });
+
+      try {
+        await upsertRoutingPolicy({ project_id: testProject.id, max_retries: 0, fallbacks: [{ provider: 'local', model: 'qwen2.5' }] }, testUser.id);
+        const created = await createPipeline({
+          ...createPipelineInput,
+          graph: {
+            nodes: [
+              { id: 'input', type: 'input' },
+              { id: 'summarize', type: 'model', data: { model: 'local/llama3.1', prompt: 'Summarize: {{text}}' } }
+            ],
+            edges: [{ source: 'input', target: 'summarize' }]
+          }
+        });
+        const published = await publishPipeline(created.id);
+
+        const result = await executePipeline(published.endpoint_slug!, { text: 'long report' }, testApiToken);
+        expect(result.success).toBe(true);
+
+        const runs = await db.select().from(runsTable).where(eq(runsTable.project_id, testProject.id)).execute();
+        expect(runs).toHaveLength(1);
+        expect(runs[0].model).toEqual('local/qwen2.5');
+        expect(runs[0].flags).toMatchObject({ node_id: 'summarize', fallback: true, attempts: [{ model: 'llama3.1', success: false }, { model: 'qwen2.5', success: true }] });
+
+        // Once every target has failed, the failed call is still recorded with its attempts
+        await upsertRoutingPolicy({ project_id: testProject.id, fallbacks: [] }, testUser.id);
+        const failed = await executePipeline(published.endpoint_slug!, { text: 'long report' }, testApiToken);
+        expect(failed.success).toBe(false);
+
+        const failedRuns = await db.select().from(runsTable).where(eq(runsTable.success, false)).execute();
+        expect(failedRuns).toHaveLength(1);
+        expect(failedRuns[0].model).toEqual('local/llama3.1');
+        expect(failedRuns[0].flags).toMatchObject({ source: 'pipeline', node_id: 'summarize', attempts: [{ model: 'llama3.1', success: false }] });
+      } finally {
+        setProviderAdapter('local', null);
+      }
+    });
+
     it('should fail with invalid API key', async () => {
       const created = await createPipeline(createPipelineInput);
       const published = await publishPipeline(created.id);
@@ -310,11 +439,55 @@ describe('Pipeline Handlers', () => {
       expect(result.output.error).toMatch(/invalid api key/i);
     });
 
+    it('should fail when the stored hash is passed as the key', async () => {
+      const created = await createPipeline(createPipelineInput);
+      const published = await publishPipeline(created.id);
+
+      const result = await executePipeline(
+        published.endpoint_slug!,
+        { input: 'test data' },
+        testApiKey.token_hash
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.output.error).toMatch(/invalid api key/i);
+    });
+
+    it('should fail with a revoked API key', async () => {
+      const created = await createPipeline(createPipelineInput);
+      const published = await publishPipeline(created.id);
+      await db.update(apiKeysTable).set({ revoked_at: new Date() }).where(eq(apiKeysTable.id, testApiKey.id)).execute();
+
+      const result = await executePipeline(
+        published.endpoint_slug!,
+        { input: 'test data' },
+        testApiToken
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.output.error).toMatch(/invalid api key/i);
+    });
+
+    it('should fail without the pipelines:execute scope', async () => {
+      const created = await createPipeline(createPipelineInput);
+      const published = await publishPipeline(created.id);
+      await db.update(apiKeysTable).set({ scopes: ['runs:write'] }).where(eq(apiKeysTable.id, testApiKey.id)).execute();
+
+      const result = await executePipeline(
+        published.endpoint_slug!,
+        { input: 'test data' },
+        testApiToken
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.output.error).toMatch(/missing the pipelines:execute scope/i);
+    });
+
     it('should fail for non-existent pipeline slug', async () => {
       const result = await executePipeline(
         'non-existent-slug',
         { input: 'test data' },
-        testApiKey.token_hash
+        testApiToken
       );
 
       expect(result.success).toBe(false);
@@ -330,7 +503,7 @@ describe('Pipeline Handlers', () => {
       const result = await executePipeline(
         'draft-pipeline',
         { input: 'test data' },
-        testApiKey.token_hash
+        testApiToken
       );
 
       expect(result.success).toBe(false);
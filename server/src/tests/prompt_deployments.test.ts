@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, projectsTable, promptsTable, promptVersionsTable, auditLogsTable } from '../db/schema';
+import {
+  deployPromptVersion,
+  rollbackPromptDeployment,
+  resolvePromptVersion,
+  getPromptDeployments,
+  getPromptDeploymentHistory
+} from '../handlers/prompt_deployments';
+import { eq } from 'drizzle-orm';
+
+const testUser = { id: 'user_1', email: 'test@example.com', name: 'Test User', avatar_url: null };
+
+const testOrganization = { id: 'org_1', name: 'Test Org', slug: 'test-org', owner_user_id: 'user_1', plan: 'pro' as const };
+
+const versions = ['1.0.0', '1.1.0', '2.0.0'].map((version, index) => ({
+  id: `version_${index + 1}`,
+  prompt_id: 'prompt_1',
+  version,
+  content: `Version ${version}`,
+  created_by: 'user_1',
+}));
+
+const production = { prompt_id: 'prompt_1', environment: 'production' };
+
+describe('prompt deployments', () => {
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(usersTable).values(testUser).execute();
+    await db.insert(organizationsTable).values(testOrganization).execute();
+    await db.insert(projectsTable).values({ id: 'project_1', org_id: 'org_1', name: 'Project', tags: [] }).execute();
+    await db.insert(promptsTable).values([
+      { id: 'prompt_1', project_id: 'project_1', name: 'Greeter' },
+      { id: 'prompt_2', project_id: 'project_1', name: 'Other' },
+    ]).execute();
+    await db.insert(promptVersionsTable).values([
+      ...versions,
+      { id: 'other_version', prompt_id: 'prompt_2', version: '1.0.0', content: 'Other', created_by: 'user_1' },
+    ]).execute();
+  });
+
+  afterEach(resetDB);
+
+  describe('deployPromptVersion', () => {
+    it('should point each environment at its own version', async () => {
+      const deployment = await deployPromptVersion({ ...production, version_id: 'version_1' }, 'user_1');
+      await deployPromptVersion({ prompt_id: 'prompt_1', environment: 'staging', version_id: 'version_2' }, 'user_1');
+
+      expect(deployment).toMatchObject({ ...production, version_id: 'version_1', deployed_by: 'user_1' });
+      expect((await resolvePromptVersion(production)).version).toEqual('1.0.0');
+      expect((await resolvePromptVersion({ prompt_id: 'prompt_1', environment: 'staging' })).version).toEqual('1.1.0');
+
+      await deployPromptVersion({ ...production, version_id: 'version_3' }, 'user_1');
+      expect((await resolvePromptVersion(production)).id).toEqual('version_3');
+
+      const deployments = await getPromptDeployments('prompt_1');
+      expect(deployments.map(({ environment, version_id }) => [environment, version_id])).toEqual([
+        ['production', 'version_3'],
+        ['staging', 'version_2'],
+      ]);
+    });
+
+    it('should reject versions of other prompts and unknown environments', async () => {
+      await expect(deployPromptVersion({ ...production, version_id: 'other_version' }, 'user_1')).rejects.toThrow(/does not belong/);
+      await expect(deployPromptVersion({ ...production, prompt_id: 'missing', version_id: 'version_1' }, 'user_1')).rejects.toThrow(/prompt not found/i);
+      await expect(resolvePromptVersion({ prompt_id: 'prompt_1', environment: 'canary' })).rejects.toThrow(/no version is deployed to canary/i);
+    });
+
+    it('should audit every deploy', async () => {
+      await deployPromptVersion({ ...production, version_id: 'version_1' }, 'user_1');
+      await deployPromptVersion({ ...production, version_id: 'version_2' }, 'user_1');
+
+      const logs = await db.select().from(auditLogsTable).where(eq(auditLogsTable.org_id, 'org_1')).execute();
+      expect(logs).toHaveLength(2);
+      expect(logs.find(log => log.metadata && (log.metadata as any).version_id === 'version_2')).toMatchObject({
+        action: 'prompt.deploy',
+        target_type: 'prompt',
+        target_id: 'prompt_1',
+        metadata: { environment: 'production', version: '1.1.0', previous_version_id: 'version_1' },
+      });
+    });
+  });
+
+  describe('rollbackPromptDeployment', () => {
+    it('should step back through earlier deploys', async () => {
+      for (const version of versions) {
+        await deployPromptVersion({ ...production, version_id: version.id }, 'user_1');
+      }
+
+      expect((await rollbackPromptDeployment(production, 'user_1')).version_id).toEqual('version_2');
+      expect((await rollbackPromptDeployment(production, 'user_1')).version_id).toEqual('version_1');
+      await expect(rollbackPromptDeployment(production, 'user_1')).rejects.toThrow(/no earlier deployment/i);
+
+      // A new deploy rolls back to what it replaced
+      await deployPromptVersion({ ...production, version_id: 'version_3' }, 'user_1');
+      expect((await rollbackPromptDeployment(production, 'user_1')).version_id).toEqual('version_1');
+      expect((await resolvePromptVersion(production)).id).toEqual('version_1');
+
+      const logs = await db.select().from(auditLogsTable).where(eq(auditLogsTable.action, 'prompt.rollback')).execute();
+      expect(logs).toHaveLength(3);
+    });
+
+    it('should require a deployment', async () => {
+      await expect(rollbackPromptDeployment(production, 'user_1')).rejects.toThrow(/nothing is deployed to production/i);
+    });
+  });
+
+  describe('getPromptDeploymentHistory', () => {
+    it('should list deploys and rollbacks newest first', async () => {
+      await deployPromptVersion({ ...production, version_id: 'version_1' }, 'user_1');
+      await deployPromptVersion({ prompt_id: 'prompt_1', environment: 'staging', version_id: 'version_2' }, 'user_1');
+      await deployPromptVersion({ ...production, version_id: 'version_2' }, 'user_1');
+      await rollbackPromptDeployment(production, 'user_1');
+
+      const history = await getPromptDeploymentHistory('prompt_1', 'production');
+
+      expect(history.map(({ action, version_id, previous_version_id }) => [action, version_id, previous_version_id])).toEqual([
+        ['rollback', 'version_1', 'version_2'],
+        ['deploy', 'version_2', 'version_1'],
+        ['deploy', 'version_1', null],
+      ]);
+      expect(history[1].rolled_back_at).toBeInstanceOf(Date);
+      expect(history[2].rolled_back_at).toBeNull();
+
+      expect(await getPromptDeploymentHistory('prompt_1')).toHaveLength(4);
+      expect(await getPromptDeploymentHistory('prompt_1', undefined, 1)).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'bun:test';
+import { diffText, diffJson, diffPromptVersions, formatUnifiedDiff } from '../handlers/prompt_diff';
+import { type PromptVersion } from '../schema';
+
+const version = (overrides: Partial<PromptVersion>): PromptVersion => ({
+  id: 'version_1',
+  prompt_id: 'prompt_1',
+  version: '1.0.0',
+  parent_version_id: null,
+  format: 'text',
+  content: '',
+  messages: null,
+  tools: [],
+  model_params: {},
+  variables: {},
+  test_inputs: {},
+  commit_message: null,
+  created_by: 'user_1',
+  created_at: new Date(),
+  ...overrides,
+});
+
+const numbered = (count: number): string => Array.from({ length: count }, (_, i) => `line ${i + 1}`).join('\n');
+
+describe('prompt diff', () => {
+  describe('lines', () => {
+    it('should find no hunks for equal text', () => {
+      expect(diffText('a\nb', 'a\nb\n')).toEqual({ hunks: [], additions: 0, deletions: 0 });
+      expect(formatUnifiedDiff('1.0.0', '1.1.0', [])).toEqual('');
+    });
+
+    it('should keep three lines of context and split distant changes into hunks', () => {
+      const oldText = numbered(20);
+      const newText = oldText.replace('line 2\n', 'line two\n').replace('line 18\n', '');
+
+      const { hunks, additions, deletions } = diffText(oldText, newText);
+
+      expect([additions, deletions]).toEqual([1, 2]);
+      expect(hunks.map(({ lines, ...range }) => range)).toEqual([
+        { old_start: 1, old_lines: 5, new_start: 1, new_lines: 5 },
+        { old_start: 15, old_lines: 6, new_start: 15, new_lines: 5 },
+      ]);
+      expect(hunks[0].lines.map(line => [line.type, line.old_line, line.new_line])).toEqual([
+        ['context', 1, 1],
+        ['removed', 2, null],
+        ['added', null, 2],
+        ['context', 3, 3],
+        ['context', 4, 4],
+        ['context', 5, 5],
+      ]);
+    });
+
+    it('should merge changes whose context overlaps', () => {
+      const oldText = numbered(12);
+      const newText = oldText.replace('line 3', 'line three').replace('line 9', 'line nine');
+
+      expect(diffText(oldText, newText).hunks).toHaveLength(1);
+    });
+
+    it('should start an empty side at the line before the change', () => {
+      const { hunks } = diffText('', 'Hello\nWorld');
+
+      expect(formatUnifiedDiff('1.0.0', '2.0.0', hunks)).toEqual('--- 1.0.0\n+++ 2.0.0\n@@ -0,0 +1,2 @@\n+Hello\n+World\n');
+    });
+  });
+
+  describe('words', () => {
+    it('should highlight the words that changed within paired lines', () => {
+      const { hunks } = diffText('Reply in a formal tone.\nKeep it short.', 'Reply in a friendly, casual tone.\nKeep it short.\nSign off.');
+      const [removed, added, , extra] = hunks[0].lines;
+
+      expect(removed.segments).toEqual([
+        { type: 'equal', text: 'Reply in a ' },
+        { type: 'removed', text: 'formal' },
+        { type: 'equal', text: ' tone.' },
+      ]);
+      expect(added.segments).toEqual([
+        { type: 'equal', text: 'Reply in a ' },
+        { type: 'added', text: 'friendly, casual' },
+        { type: 'equal', text: ' tone.' },
+      ]);
+      // Lines without a counterpart are wholly added
+      expect(extra).toMatchObject({ type: 'added', content: 'Sign off.', segments: null });
+    });
+  });
+
+  describe('json', () => {
+    it('should report added, removed and changed keys by path', () => {
+      const changes = diffJson(
+        { tone: { type: 'enum', options: ['formal'] }, limit: 3, name: 'string' },
+        { tone: { type: 'enum', options: ['formal', 'casual'] }, limit: 3, locale: 'en' }
+      );
+
+      expect(changes).toEqual([
+        { path: 'locale', type: 'added', new_value: 'en' },
+        { path: 'name', type: 'removed', old_value: 'string' },
+        { path: 'tone.options', type: 'changed', old_value: ['formal'], new_value: ['formal', 'casual'] },
+      ]);
+    });
+  });
+
+  describe('versions', () => {
+    it('should summarize the template variables that were added or removed', () => {
+      const diff = diffPromptVersions(
+        version({ content: 'Hi {{name}}. {{#if vip}}Welcome back.{{/if}}' }),
+        version({
+          version: '2.0.0',
+          format: 'chat',
+          messages: [
+            { role: 'system', content: 'Answer in {{language}}.' },
+            { role: 'user', content: 'Hi {{name}}. {{#each orders}}{{title}}{{/each}}' },
+          ],
+        })
+      );
+
+      expect(diff.template_variables).toEqual({ added: ['language', 'orders'], removed: ['vip'] });
+      expect(diff.unified.split('\n').slice(0, 3)).toEqual(['--- 1.0.0', '+++ 2.0.0', '@@ -1,1 +1,5 @@']);
+    });
+  });
+});
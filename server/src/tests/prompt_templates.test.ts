@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  renderTemplate,
+  validateTemplate,
+  resolvePromptInput,
+  TemplateSyntaxError,
+  PromptInputError
+} from '../handlers/prompt_templates';
+import { type PromptVariable } from '../schema';
+
+const variable = (overrides: Partial<PromptVariable>): PromptVariable => ({
+  type: 'string',
+  required: false,
+  description: null,
+  options: null,
+  ...overrides,
+});
+
+describe('prompt templates', () => {
+  describe('interpolation', () => {
+    it('should fill variables and nested paths', () => {
+      expect(renderTemplate('Hi {{ name }} from {{user.city}}', { name: 'Ada', user: { city: 'London' } }))
+        .toEqual('Hi Ada from London');
+    });
+
+    it('should render numbers, objects and missing values', () => {
+      expect(renderTemplate('{{count}} {{filters}} [{{missing}}]', { count: 3, filters: { tag: 'a' } }))
+        .toEqual('3 {"tag":"a"} []');
+    });
+
+    it('should fall back to defaults for missing or empty values', () => {
+      expect(renderTemplate('{{name | default: "there"}} {{n | default: 5}}', { name: '' })).toEqual('there 5');
+      expect(renderTemplate('{{name | default: "there"}}', { name: 'Ada' })).toEqual('Ada');
+    });
+  });
+
+  describe('conditionals', () => {
+    it('should branch on truthiness', () => {
+      const template = '{{#if items}}Some{{else}}None{{/if}}';
+
+      expect(renderTemplate(template, { items: [1] })).toEqual('Some');
+      expect(renderTemplate(template, { items: [] })).toEqual('None');
+      expect(renderTemplate(template, {})).toEqual('None');
+    });
+
+    it('should compare against literals', () => {
+      const template = '{{#if tone == "formal"}}Dear{{/if}}{{#if tone != "formal"}}Hey{{/if}}';
+
+      expect(renderTemplate(template, { tone: 'formal' })).toEqual('Dear');
+      expect(renderTemplate(template, { tone: 'casual' })).toEqual('Hey');
+    });
+  });
+
+  describe('loops', () => {
+    it('should repeat the body for every item', () => {
+      const template = '{{#each steps}}{{@index}}. {{title}} ({{this.minutes}}m) for {{owner}}\n{{/each}}';
+
+      expect(renderTemplate(template, { owner: 'Ada', steps: [{ title: 'Plan', minutes: 5 }, { title: 'Build', minutes: 30 }] }))
+        .toEqual('0. Plan (5m) for Ada\n1. Build (30m) for Ada\n');
+    });
+
+    it('should render the else branch for empty lists and reject non-lists', () => {
+      expect(renderTemplate('{{#each tags}}#{{this}} {{else}}untagged{{/each}}', { tags: [] })).toEqual('untagged');
+      expect(() => renderTemplate('{{#each tags}}{{this}}{{/each}}', { tags: 'a' })).toThrow(/needs a list/);
+    });
+  });
+
+  describe('syntax errors', () => {
+    it('should report the problem and its line', () => {
+      const cases: Array<[string, RegExp]> = [
+        ['Hi\n{{#if name}}there', /{{#if}} is never closed \(line 2\)/],
+        ['{{/each}}', /Unexpected {{\/each}}/],
+        ['{{#if a}}{{/each}}', /Unexpected {{\/each}}/],
+        ['{{else}}', /outside of an/],
+        ['{{#with user}}{{/with}}', /Unknown block/],
+        ['{{first name}}', /Invalid variable/],
+        ['{{name | default: there}}', /Invalid literal/],
+      ];
+
+      for (const [template, message] of cases) {
+        expect(() => validateTemplate(template)).toThrow(TemplateSyntaxError);
+        expect(() => validateTemplate(template)).toThrow(message);
+      }
+    });
+  });
+
+  describe('inputs', () => {
+    it('should apply defaults and pass undeclared inputs through', () => {
+      const values = resolvePromptInput(
+        { tone: variable({ type: 'enum', options: ['formal', 'casual'], default: 'casual' }) },
+        { extra: 1 }
+      );
+
+      expect(values).toEqual({ tone: 'casual', extra: 1 });
+    });
+
+    it('should collect every invalid input', () => {
+      const variables = {
+        question: variable({ required: true }),
+        limit: variable({ type: 'number' }),
+        tone: variable({ type: 'enum', options: ['formal'] }),
+        filters: variable({ type: 'json', required: true }),
+      };
+
+      try {
+        resolvePromptInput(variables, { limit: '10', tone: 'casual', filters: { any: 'shape' } });
+        throw new Error('Expected invalid inputs');
+      } catch (error) {
+        expect(error).toBeInstanceOf(PromptInputError);
+        expect((error as PromptInputError).issues).toEqual([
+          'limit must be a number',
+          'question is required',
+          'tone must be one of formal',
+        ]);
+      }
+    });
+  });
+});
@@ -12,9 +12,11 @@ import {
   getPromptVersionById,
   getPromptVersionsByPromptId,
   promotePromptVersion,
-  comparePromptVersions
+  comparePromptVersions,
+  renderPrompt,
+  migrateLegacyPromptVersions
 } from '../handlers/prompts';
-import { eq } from 'drizzle-orm';
+import { eq, sql } from 'drizzle-orm';
 
 // Test data
 const testUser = {
@@ -223,9 +225,10 @@ describe('Prompt Handlers', () => {
       const result = await createPromptVersion(versionInput);
 
       expect(result.prompt_id).toEqual(createdPrompt.id);
-      expect(result.version).toEqual('v1.0.0');
+      expect(result.version).toEqual('1.0.0');
+      expect(result.parent_version_id).toBeNull();
       expect(result.content).toEqual('You are a helpful assistant. {{user_input}}');
-      expect(result.variables).toEqual({ user_input: 'string' });
+      expect(result.variables).toEqual({ user_input: { type: 'string', required: false, description: null, options: null } });
       expect(result.test_inputs).toEqual({ user_input: 'Hello world' });
       expect(result.commit_message).toEqual('Initial version');
       expect(result.created_by).toEqual('user_test_1');
@@ -270,6 +273,276 @@ describe('Prompt Handlers', () => {
     });
   });
 
+  describe('versioning', () => {
+    it('should require unique semver versions', async () => {
+      const createdPrompt = await createPrompt(createPromptInput);
+      const base = { ...createPromptVersionInput, prompt_id: createdPrompt.id };
+      await createPromptVersion(base);
+
+      await expect(createPromptVersion({ ...base, version: '1.0.0' })).rejects.toThrow(/1\.0\.0 already exists/);
+      await expect(createPromptVersion({ ...base, version: '1.0' })).rejects.toThrow(/invalid version "1\.0"/i);
+      await expect(createPromptVersion({ ...base, version: 'latest' })).rejects.toThrow(/use semver/);
+      await expect(createPromptVersion({ ...base, version: undefined })).rejects.toThrow(/either a version or a bump/);
+      await expect(createPromptVersion({ ...base, bump: 'patch' })).rejects.toThrow(/either a version or a bump/);
+
+      // The same version number is free in another prompt
+      const otherPrompt = await createPrompt({ ...createPromptInput, name: 'Other Prompt' });
+      expect((await createPromptVersion({ ...base, prompt_id: otherPrompt.id })).version).toEqual('1.0.0');
+    });
+
+    it('should bump the latest version', async () => {
+      const createdPrompt = await createPrompt(createPromptInput);
+      const { version, ...base } = { ...createPromptVersionInput, prompt_id: createdPrompt.id };
+      const bump = async (bump: 'major' | 'minor' | 'patch') => (await createPromptVersion({ ...base, bump })).version;
+
+      expect(await bump('minor')).toEqual('0.1.0');
+      expect(await bump('patch')).toEqual('0.1.1');
+      expect(await bump('major')).toEqual('1.0.0');
+      await createPromptVersion({ ...base, version: '0.9.0' });
+      expect(await bump('minor')).toEqual('1.1.0');
+
+      // Bumping a pre-release releases it
+      await createPromptVersion({ ...base, version: '2.0.0-rc.1' });
+      expect(await bump('major')).toEqual('2.0.0');
+    });
+
+    it('should order versions by semver', async () => {
+      const createdPrompt = await createPrompt(createPromptInput);
+      for (const version of ['1.10.0', '1.2.0', '2.0.0', '2.0.0-rc.1', '2.0.0-beta', '1.2.0-rc.10', '1.2.0-rc.2']) {
+        await createPromptVersion({ ...createPromptVersionInput, prompt_id: createdPrompt.id, version });
+      }
+      // Stored before versions had to be semver
+      await db.insert(promptVersionsTable).values({
+        id: 'legacy_version',
+        prompt_id: createdPrompt.id,
+        version: 'draft',
+        content: 'Hi',
+        created_by: 'user_test_1',
+      }).execute();
+
+      const versions = await getPromptVersionsByPromptId(createdPrompt.id);
+
+      expect(versions.map(version => version.version)).toEqual([
+        'draft', '1.2.0-rc.2', '1.2.0-rc.10', '1.2.0', '1.10.0', '2.0.0-beta', '2.0.0-rc.1', '2.0.0',
+      ]);
+    });
+
+    it('should renumber duplicate and non-semver versions saved before they were enforced', async () => {
+      const createdPrompt = await createPrompt(createPromptInput);
+      // The table as it was before versions had to be unique
+      await db.execute(sql`alter table prompt_versions drop constraint prompt_versions_prompt_id_version_unique`);
+
+      const legacy = ['draft', '1.0', '1.0.0', 'v1.0.0', '2.0.0', '2.0.0', 'final'];
+      for (const [index, version] of legacy.entries()) {
+        await db.insert(promptVersionsTable).values({
+          id: `legacy_${index}`,
+          prompt_id: createdPrompt.id,
+          version,
+          content: 'Hi',
+          created_by: 'user_test_1',
+          created_at: new Date(Date.UTC(2024, 0, index + 1)),
+        }).execute();
+      }
+
+      expect(await migrateLegacyPromptVersions()).toEqual(5);
+      expect(await migrateLegacyPromptVersions()).toEqual(0);
+
+      const versions = await getPromptVersionsByPromptId(createdPrompt.id);
+      expect(Object.fromEntries(versions.map(version => [version.id, version.version]))).toEqual({
+        legacy_0: '0.0.0-legacy.1',
+        legacy_1: '0.0.0-legacy.2',
+        legacy_2: '1.0.0',
+        legacy_3: '0.0.0-legacy.3',
+        legacy_4: '2.0.0',
+        legacy_5: '0.0.0-legacy.4',
+        legacy_6: '0.0.0-legacy.5',
+      });
+      expect(versions.map(version => version.id)).toEqual([
+        'legacy_0', 'legacy_1', 'legacy_3', 'legacy_5', 'legacy_6', 'legacy_2', 'legacy_4',
+      ]);
+    });
+
+    it('should link each version to its parent', async () => {
+      const createdPrompt = await createPrompt(createPromptInput);
+      const base = { ...createPromptVersionInput, prompt_id: createdPrompt.id };
+
+      const first = await createPromptVersion({ ...base, version: '1.0.0' });
+      const second = await createPromptVersion({ ...base, version: '1.1.0' });
+      const hotfix = await createPromptVersion({ ...base, version: '1.0.1', parent_version_id: first.id });
+      const third = await createPromptVersion({ ...base, version: '1.2.0' });
+
+      expect(first.parent_version_id).toBeNull();
+      expect(second.parent_version_id).toEqual(first.id);
+      expect(hotfix.parent_version_id).toEqual(first.id);
+      expect(third.parent_version_id).toEqual(second.id);
+
+      const otherPrompt = await createPrompt({ ...createPromptInput, name: 'Other Prompt' });
+      await expect(createPromptVersion({ ...base, prompt_id: otherPrompt.id, parent_version_id: first.id }))
+        .rejects.toThrow(/parent version not found/i);
+    });
+  });
+
+  describe('typed variables', () => {
+    it('should store full declarations', async () => {
+      const createdPrompt = await createPrompt(createPromptInput);
+      const result = await createPromptVersion({
+        ...createPromptVersionInput,
+        prompt_id: createdPrompt.id,
+        variables: {
+          user_input: { type: 'string', required: true, description: 'The question' },
+          tone: { type: 'enum', options: ['formal', 'casual'], default: 'casual' },
+        },
+      });
+
+      expect(result.variables).toEqual({
+        user_input: { type: 'string', required: true, description: 'The question', options: null },
+        tone: { type: 'enum', required: false, description: null, options: ['formal', 'casual'], default: 'casual' },
+      });
+    });
+
+    it('should reject invalid declarations and templates', async () => {
+      const createdPrompt = await createPrompt(createPromptInput);
+      const base = { ...createPromptVersionInput, prompt_id: createdPrompt.id };
+
+      await expect(createPromptVersion({ ...base, variables: { tone: { type: 'enum' } } })).rejects.toThrow(/enum without options/);
+      await expect(createPromptVersion({ ...base, variables: { count: { type: 'number', default: 'three' } } }))
+        .rejects.toThrow(/default of count must be a number/);
+      await expect(createPromptVersion({ ...base, content: '{{#if user_input}}Hi' })).rejects.toThrow(/never closed/);
+    });
+
+    it('should read declarations stored as type names', async () => {
+      const createdPrompt = await createPrompt(createPromptInput);
+      await db.insert(promptVersionsTable).values({
+        id: 'legacy_version',
+        prompt_id: createdPrompt.id,
+        version: '0.1.0',
+        content: 'Hi {{name}}',
+        variables: { name: 'string', extra: 42 },
+        created_by: 'user_test_1',
+      }).execute();
+
+      const version = await getPromptVersionById('legacy_version');
+
+      expect(version!.variables).toEqual({
+        name: { type: 'string', required: false, description: null, options: null },
+        extra: { type: 'json', required: false, description: null, options: null },
+      });
+    });
+  });
+
+  describe('renderPrompt', () => {
+    it('should validate the inputs and render the template', async () => {
+      const createdPrompt = await createPrompt(createPromptInput);
+      const version = await createPromptVersion({
+        ...createPromptVersionInput,
+        prompt_id: createdPrompt.id,
+        content: '{{#if tone == "formal"}}Dear {{name}}{{else}}Hey {{name | default: "there"}}{{/if}}. {{#each topics}}[{{this}}]{{/each}}',
+        variables: {
+          name: 'string',
+          tone: { type: 'enum', options: ['formal', 'casual'], default: 'casual' },
+          topics: { type: 'json', required: true },
+        },
+      });
+
+      const rendered = await renderPrompt({ version_id: version.id, variables: { topics: ['billing', 'refunds'] } });
+      expect(rendered).toEqual({
+        version_id: version.id,
+        format: 'text',
+        text: 'Hey there. [billing][refunds]',
+        messages: [{ role: 'user', content: 'Hey there. [billing][refunds]' }],
+        tools: [],
+        model_params: {},
+      });
+
+      const formal = await renderPrompt({ version_id: version.id, variables: { name: 'Ada', tone: 'formal', topics: [] } });
+      expect(formal.text).toEqual('Dear Ada. ');
+    });
+
+    it('should report every invalid input', async () => {
+      const createdPrompt = await createPrompt(createPromptInput);
+      const version = await createPromptVersion({
+        ...createPromptVersionInput,
+        prompt_id: createdPrompt.id,
+        variables: { user_input: { type: 'string', required: true }, limit: 'number' },
+      });
+
+      await expect(renderPrompt({ version_id: version.id, variables: { limit: '10' } }))
+        .rejects.toThrow(/limit must be a number; user_input is required/);
+      await expect(renderPrompt({ version_id: 'non_existent_id', variables: {} })).rejects.toThrow(/not found/i);
+    });
+  });
+
+  describe('chat format', () => {
+    const weatherTool = {
+      name: 'weather',
+      description: 'Current weather for a city',
+      parameters: { type: 'object', properties: { city: { type: 'string' } } },
+    };
+
+    it('should store messages, tools and model parameters', async () => {
+      const createdPrompt = await createPrompt(createPromptInput);
+      const { content, ...input } = createPromptVersionInput;
+      const result = await createPromptVersion({
+        ...input,
+        prompt_id: createdPrompt.id,
+        messages: [
+          { role: 'system', content: 'You are a weather bot.' },
+          { role: 'user', content: '{{user_input}}' },
+        ],
+        tools: [weatherTool],
+        model_params: { model: 'local/llama3.1', temperature: 0.2, max_tokens: 256 },
+      });
+
+      expect(result.format).toEqual('chat');
+      expect(result.content).toEqual('');
+      expect(result.messages).toHaveLength(2);
+      expect(result.tools).toEqual([weatherTool]);
+      expect(result.model_params).toEqual({ model: 'local/llama3.1', temperature: 0.2, max_tokens: 256 });
+
+      const text = await createPromptVersion({ ...createPromptVersionInput, prompt_id: createdPrompt.id, version: 'v2.0.0' });
+      expect(text).toMatchObject({ format: 'text', messages: null, tools: [], model_params: {} });
+    });
+
+    it('should require the body of each format and validate message templates', async () => {
+      const createdPrompt = await createPrompt(createPromptInput);
+      const { content, ...base } = { ...createPromptVersionInput, prompt_id: createdPrompt.id };
+
+      await expect(createPromptVersion(base)).rejects.toThrow(/text prompt versions require content/i);
+      await expect(createPromptVersion({ ...base, format: 'chat' })).rejects.toThrow(/chat prompt versions require messages/i);
+      await expect(createPromptVersion({ ...base, messages: [{ role: 'user', content: '{{#each items}}' }] }))
+        .rejects.toThrow(/never closed/);
+    });
+
+    it('should render every message', async () => {
+      const createdPrompt = await createPrompt(createPromptInput);
+      const { content, ...input } = createPromptVersionInput;
+      const version = await createPromptVersion({
+        ...input,
+        prompt_id: createdPrompt.id,
+        messages: [
+          { role: 'system', content: 'Answer in {{language | default: "English"}}.' },
+          { role: 'user', content: '{{user_input}}' },
+        ],
+        tools: [weatherTool],
+        model_params: { temperature: 0 },
+      });
+
+      const rendered = await renderPrompt({ version_id: version.id, variables: { user_input: 'Rain in Oslo?' } });
+
+      expect(rendered).toEqual({
+        version_id: version.id,
+        format: 'chat',
+        text: null,
+        messages: [
+          { role: 'system', content: 'Answer in English.' },
+          { role: 'user', content: 'Rain in Oslo?' },
+        ],
+        tools: [weatherTool],
+        model_params: { temperature: 0 },
+      });
+    });
+  });
+
   describe('getPromptVersionById', () => {
     it('should return version when it exists', async () => {
       const createdPrompt = await createPrompt(createPromptInput);
@@ -282,7 +555,7 @@ describe('Prompt Handlers', () => {
 
       expect(result).not.toBeNull();
       expect(result!.id).toEqual(createdVersion.id);
-      expect(result!.version).toEqual('v1.0.0');
+      expect(result!.version).toEqual('1.0.0');
     });
 
     it('should return null for non-existent version', async () => {
@@ -387,6 +660,74 @@ describe('Prompt Handlers', () => {
       expect(result.version2.content).toEqual('Version 2 content');
     });
 
+    it('should diff the content, variables and test inputs', async () => {
+      const createdPrompt = await createPrompt(createPromptInput);
+      const version1 = await createPromptVersion({ ...createPromptVersionInput, prompt_id: createdPrompt.id });
+      const version2 = await createPromptVersion({
+        ...createPromptVersionInput,
+        prompt_id: createdPrompt.id,
+        version: 'v1.1.0',
+        content: 'You are a concise assistant. {{user_input}}\nAnswer in {{language}}.',
+        variables: { user_input: { type: 'string', required: true }, language: 'string' },
+        test_inputs: { user_input: 'Hello world', language: 'French' },
+      });
+
+      const { diff } = await comparePromptVersions(version1.id, version2.id);
+
+      expect(diff.content).toMatchObject({ additions: 2, deletions: 1 });
+      expect(diff.content.hunks[0].lines[0].segments).toEqual([
+        { type: 'equal', text: 'You are a ' },
+        { type: 'removed', text: 'helpful' },
+        { type: 'equal', text: ' assistant. {{user_input}}' },
+      ]);
+      expect(diff.variables).toEqual([
+        { path: 'language', type: 'added', new_value: { type: 'string', required: false, description: null, options: null } },
+        { path: 'user_input.required', type: 'changed', old_value: false, new_value: true },
+      ]);
+      expect(diff.test_inputs).toEqual([{ path: 'language', type: 'added', new_value: 'French' }]);
+      expect(diff.template_variables).toEqual({ added: ['language'], removed: [] });
+      expect(diff.unified).toEqual([
+        '--- 1.0.0',
+        '+++ 1.1.0',
+        '@@ -1,1 +1,2 @@',
+        '-You are a helpful assistant. {{user_input}}',
+        '+You are a concise assistant. {{user_input}}',
+        '+Answer in {{language}}.',
+        '',
+      ].join('\n'));
+    });
+
+    it('should diff chat versions by message', async () => {
+      const createdPrompt = await createPrompt(createPromptInput);
+      const text = await createPromptVersion({ ...createPromptVersionInput, prompt_id: createdPrompt.id });
+      const { content, ...input } = createPromptVersionInput;
+      const chat = await createPromptVersion({
+        ...input,
+        prompt_id: createdPrompt.id,
+        version: 'v2.0.0',
+        messages: [
+          { role: 'system', content: 'You are a helpful assistant.' },
+          { role: 'user', content: '{{user_input}}' },
+        ],
+      });
+
+      const result = await comparePromptVersions(text.id, chat.id);
+
+      expect(result.diff.unified).toEqual([
+        '--- 1.0.0',
+        '+++ 2.0.0',
+        '@@ -1,1 +1,5 @@',
+        '-You are a helpful assistant. {{user_input}}',
+        '+### system',
+        '+You are a helpful assistant.',
+        '+',
+        '+### user',
+        '+{{user_input}}',
+        '',
+      ].join('\n'));
+      expect(result.diff.template_variables).toEqual({ added: [], removed: [] });
+    });
+
     it('should throw error for non-existent version 1', async () => {
       const createdPrompt = await createPrompt(createPromptInput);
       const version2 = await createPromptVersion({
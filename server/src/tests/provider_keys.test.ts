@@ -0,0 +1,241 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, providerKeysTable, auditLogsTable } from '../db/schema';
+import {
+    createProviderKey,
+    getProviderKeysByOrgId,
+    getProviderKey,
+    setDefaultProviderKey,
+    deleteProviderKey,
+    testProviderKey,
+    decryptProviderKey,
+    rotateProviderKeyEncryption,
+    migrateLegacyProviderKeys
+} from '../handlers/provider_keys';
+import { encryptSecret, decryptSecret } from '../handlers/encryption';
+import { getProviderAdapter, setProviderAdapter } from '../handlers/provider_adapters';
+import { createServer, type Server } from 'http';
+import { type AddressInfo } from 'net';
+import { eq, sql } from 'drizzle-orm';
+
+const oldMasterKey = Buffer.alloc(32, 1).toString('base64');
+const newMasterKey = Buffer.alloc(32, 2).toString('base64');
+
+const testUser = { id: 'user_1', email: 'test@example.com', name: 'Test User', avatar_url: null };
+
+const testOrganization = {
+    id: 'org_1',
+    name: 'Test Org',
+    slug: 'test-org',
+    owner_user_id: 'user_1',
+    plan: 'pro' as const
+};
+
+const otherOrganization = {
+    id: 'org_2',
+    name: 'Other Org',
+    slug: 'other-org',
+    owner_user_id: 'user_1',
+    plan: 'pro' as const
+};
+
+describe('Provider Key Handlers', () => {
+    beforeEach(async () => {
+        process.env['MASTER_ENCRYPTION_KEYS'] = `v1:${oldMasterKey}`;
+        delete process.env['MASTER_ENCRYPTION_KEY_ID'];
+
+        await createDB();
+        await db.insert(usersTable).values(testUser).execute();
+        await db.insert(organizationsTable).values([testOrganization, otherOrganization]).execute();
+    });
+
+    afterEach(resetDB);
+
+    describe('createProviderKey', () => {
+        it('should store the key encrypted and return only a masked suffix', async () => {
+            const key = await createProviderKey({ org_id: 'org_1', provider: 'openai', label: 'Production', api_key: 'sk-live-1234abcd' }, 'user_1');
+
+            expect(key.masked_key).toEqual('****abcd');
+            expect((key as any).encrypted_api_key).toBeUndefined();
+
+            const stored = await db.select().from(providerKeysTable).where(eq(providerKeysTable.id, key.id)).execute();
+            expect(stored[0].encrypted_api_key).not.toContain('sk-live');
+            expect(stored[0].master_key_id).toEqual('v1');
+            expect(await decryptProviderKey(key.id)).toEqual('sk-live-1234abcd');
+        });
+
+        it('should fail when no master key is configured', async () => {
+            delete process.env['MASTER_ENCRYPTION_KEYS'];
+
+            await expect(createProviderKey({ org_id: 'org_1', provider: 'openai', label: 'Production', api_key: 'sk-live-1234abcd' }, 'user_1'))
+                .rejects.toThrow(/MASTER_ENCRYPTION_KEYS is not configured/);
+        });
+    });
+
+    describe('default keys', () => {
+        it('should make the first key per provider the default and allow switching', async () => {
+            const first = await createProviderKey({ org_id: 'org_1', provider: 'openai', label: 'Production', api_key: 'sk-prod-0000' }, 'user_1');
+            const second = await createProviderKey({ org_id: 'org_1', provider: 'openai', label: 'Staging', api_key: 'sk-stage-1111' }, 'user_1');
+            const gemini = await createProviderKey({ org_id: 'org_1', provider: 'gemini', label: 'Gemini', api_key: 'gm-2222' }, 'user_1');
+
+            expect(first.is_default).toBe(true);
+            expect(second.is_default).toBe(false);
+            expect(gemini.is_default).toBe(true);
+            expect((await getProviderKey('org_1', 'openai'))?.id).toEqual(first.id);
+
+            await setDefaultProviderKey({ org_id: 'org_1', id: second.id }, 'user_1');
+
+            const keys = await getProviderKeysByOrgId('org_1');
+            expect(keys).toHaveLength(3);
+            expect(keys.filter(key => key.is_default).map(key => key.id).sort()).toEqual([gemini.id, second.id].sort());
+            expect((await getProviderKey('org_1', 'openai'))?.id).toEqual(second.id);
+            expect(await getProviderKey('org_1', 'anthropic')).toBeNull();
+        });
+
+        it('should take over the default when created with is_default', async () => {
+            await createProviderKey({ org_id: 'org_1', provider: 'openai', label: 'Old', api_key: 'sk-old-0000' }, 'user_1');
+            const replacement = await createProviderKey({ org_id: 'org_1', provider: 'openai', label: 'New', api_key: 'sk-new-1111', is_default: true }, 'user_1');
+
+            expect((await getProviderKey('org_1', 'openai'))?.id).toEqual(replacement.id);
+            expect((await getProviderKeysByOrgId('org_1')).filter(key => key.is_default)).toHaveLength(1);
+        });
+    });
+
+    describe('deleteProviderKey', () => {
+        it('should promote another key when the default is deleted and audit both actions', async () => {
+            const first = await createProviderKey({ org_id: 'org_1', provider: 'openai', label: 'Production', api_key: 'sk-prod-0000' }, 'user_1');
+            const second = await createProviderKey({ org_id: 'org_1', provider: 'openai', label: 'Staging', api_key: 'sk-stage-1111' }, 'user_1');
+
+            await deleteProviderKey({ org_id: 'org_1', id: first.id }, 'user_1');
+
+            const remaining = await getProviderKeysByOrgId('org_1');
+            expect(remaining.map(key => key.id)).toEqual([second.id]);
+            expect(remaining[0].is_default).toBe(true);
+
+            const logs = await db.select().from(auditLogsTable).where(eq(auditLogsTable.org_id, 'org_1')).execute();
+            expect(logs.map(log => log.action).sort()).toEqual(['provider_key.create', 'provider_key.create', 'provider_key.delete']);
+        });
+
+        it('should not delete keys belonging to another organization', async () => {
+            const key = await createProviderKey({ org_id: 'org_2', provider: 'openai', label: 'Other', api_key: 'sk-other-0000' }, 'user_1');
+
+            await expect(deleteProviderKey({ org_id: 'org_1', id: key.id }, 'user_1')).rejects.toThrow(/not found/i);
+            await expect(setDefaultProviderKey({ org_id: 'org_1', id: key.id }, 'user_1')).rejects.toThrow(/not found/i);
+            expect(await getProviderKeysByOrgId('org_2')).toHaveLength(1);
+        });
+    });
+
+    describe('testProviderKey', () => {
+        let server: Server;
+
+        // Stands in for the provider API: only sk-good is accepted
+        beforeEach(async () => {
+            server = createServer((req, res) => {
+                const authorized = req.headers['authorization'] === 'Bearer sk-good' || req.headers['x-api-key'] === 'sk-good';
+                res.writeHead(req.url === '/v1/models' ? (authorized ? 200 : 401) : 404, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({ data: [] }));
+            });
+            await new Promise<void>(resolve => server.listen(0, resolve));
+
+            const baseUrl = `http://localhost:${(server.address() as AddressInfo).port}/v1`;
+            process.env['OPENAI_BASE_URL'] = baseUrl;
+            process.env['ANTHROPIC_BASE_URL'] = baseUrl;
+        });
+
+        afterEach(async () => {
+            delete process.env['OPENAI_BASE_URL'];
+            delete process.env['ANTHROPIC_BASE_URL'];
+            await new Promise(resolve => server.close(resolve));
+        });
+
+        it('should validate keys against the provider API', async () => {
+            expect(await testProviderKey('openai', 'sk-good')).toEqual({ valid: true });
+            expect(await testProviderKey('anthropic', 'sk-good')).toEqual({ valid: true });
+
+            const rejected = await testProviderKey('openai', 'sk-bad');
+            expect(rejected.valid).toBe(false);
+            expect(rejected.error).toMatch(/rejected/i);
+        });
+
+        it('should use a swapped-in adapter', async () => {
+            setProviderAdapter('gemini', { ...getProviderAdapter('gemini'), verifyKey: async apiKey => ({ valid: apiKey === 'gm-good' }) });
+
+            try {
+                expect(await testProviderKey('gemini', 'gm-good')).toEqual({ valid: true });
+                expect(await testProviderKey('gemini', 'gm-bad')).toEqual({ valid: false });
+            } finally {
+                setProviderAdapter('gemini', null);
+            }
+        });
+    });
+
+    describe('decryptProviderKey', () => {
+        it('should reject ciphertext moved onto another row', async () => {
+            const first = await createProviderKey({ org_id: 'org_1', provider: 'openai', label: 'First', api_key: 'sk-first-0000' }, 'user_1');
+            const second = await createProviderKey({ org_id: 'org_1', provider: 'openai', label: 'Second', api_key: 'sk-second-1111' }, 'user_1');
+
+            const stored = await db.select().from(providerKeysTable).where(eq(providerKeysTable.id, first.id)).execute();
+            await db.update(providerKeysTable)
+                .set({ encrypted_api_key: stored[0].encrypted_api_key, encrypted_data_key: stored[0].encrypted_data_key })
+                .where(eq(providerKeysTable.id, second.id))
+                .execute();
+
+            await expect(decryptProviderKey(second.id)).rejects.toThrow();
+        });
+    });
+
+    describe('rotateProviderKeyEncryption', () => {
+        it('should re-wrap keys under the active master key', async () => {
+            const key = await createProviderKey({ org_id: 'org_1', provider: 'anthropic', label: 'Claude', api_key: 'sk-ant-5678efgh' }, 'user_1');
+            const before = await db.select().from(providerKeysTable).where(eq(providerKeysTable.id, key.id)).execute();
+
+            process.env['MASTER_ENCRYPTION_KEYS'] = `v2:${newMasterKey},v1:${oldMasterKey}`;
+            process.env['MASTER_ENCRYPTION_KEY_ID'] = 'v2';
+
+            expect(await rotateProviderKeyEncryption()).toEqual(1);
+            expect(await rotateProviderKeyEncryption()).toEqual(0);
+
+            const after = await db.select().from(providerKeysTable).where(eq(providerKeysTable.id, key.id)).execute();
+            expect(after[0].master_key_id).toEqual('v2');
+            expect(after[0].encrypted_api_key).toEqual(before[0].encrypted_api_key);
+
+            // The old master key can be retired once everything is rotated
+            process.env['MASTER_ENCRYPTION_KEYS'] = `v2:${newMasterKey}`;
+            expect(await decryptProviderKey(key.id)).toEqual('sk-ant-5678efgh');
+        });
+    });
+
+    describe('migrateLegacyProviderKeys', () => {
+        it('should move legacy keys onto envelope encryption', async () => {
+            // The table as it was before the envelope columns were required
+            await db.execute(sql`alter table provider_keys
+                alter column encrypted_data_key drop not null,
+                alter column master_key_id drop not null,
+                alter column key_suffix drop not null`);
+            await db.execute(sql`insert into provider_keys (id, org_id, provider, label, encrypted_api_key)
+                values ('key_legacy', 'org_1', 'openai', 'Legacy', 'encrypted_sk-legacy-1234wxyz')`);
+
+            expect(await migrateLegacyProviderKeys()).toEqual(1);
+            expect(await migrateLegacyProviderKeys()).toEqual(0);
+
+            const row = await db.select().from(providerKeysTable).where(eq(providerKeysTable.id, 'key_legacy')).execute();
+            expect(row[0].encrypted_api_key).not.toContain('sk-legacy');
+            expect(row[0].master_key_id).toEqual('v1');
+            expect(await decryptProviderKey('key_legacy')).toEqual('sk-legacy-1234wxyz');
+            expect((await getProviderKeysByOrgId('org_1'))[0].masked_key).toEqual('****wxyz');
+        });
+    });
+
+    describe('encryptSecret', () => {
+        it('should use a fresh data key for every secret', () => {
+            const first = encryptSecret('same value', 'context');
+            const second = encryptSecret('same value', 'context');
+
+            expect(first.ciphertext).not.toEqual(second.ciphertext);
+            expect(first.encrypted_data_key).not.toEqual(second.encrypted_data_key);
+            expect(decryptSecret(first, 'context')).toEqual('same value');
+            expect(() => decryptSecret(first, 'other context')).toThrow();
+        });
+    });
+});
@@ -0,0 +1,181 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, projectsTable, rateLimitBucketsTable, modelCallLeasesTable, auditLogsTable } from '../db/schema';
+import {
+  getRateLimits,
+  upsertRateLimitOverrides,
+  deleteRateLimitOverrides,
+  consumeRateLimits,
+  acquireModelCallSlot,
+  releaseModelCallSlot,
+  RateLimitError,
+  PLAN_RATE_LIMITS
+} from '../handlers/rate_limits';
+import { completeModelRequest, streamModelRequest } from '../handlers/gateway';
+import { getProviderAdapter, setProviderAdapter } from '../handlers/provider_adapters';
+import { eq } from 'drizzle-orm';
+
+const testUser = { id: 'user_1', email: 'test@example.com', name: 'Test User', avatar_url: null };
+
+const organizations = [
+  { id: 'org_1', name: 'Test Org', slug: 'test-org', owner_user_id: 'user_1', plan: 'free' as const },
+  { id: 'org_2', name: 'Other Org', slug: 'other-org', owner_user_id: 'user_1', plan: 'enterprise' as const },
+];
+
+const request = { model: 'local/llama3.1', messages: [{ role: 'user' as const, content: 'Hi' }] };
+
+const rejection = async (promise: Promise<unknown>): Promise<RateLimitError> => {
+  try {
+    await promise;
+  } catch (error) {
+    if (error instanceof RateLimitError) {
+      return error;
+    }
+    throw error;
+  }
+  throw new Error('Expected a rate limit error');
+};
+
+describe('rate limits', () => {
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(usersTable).values(testUser).execute();
+    await db.insert(organizationsTable).values(organizations).execute();
+    await db.insert(projectsTable).values({ id: 'project_1', org_id: 'org_1', name: 'Project', tags: [] }).execute();
+  });
+
+  afterEach(async () => {
+    setProviderAdapter('local', null);
+    await resetDB();
+  });
+
+  describe('limits', () => {
+    it('should default to the plan limits', async () => {
+      const limits = await getRateLimits('org_2');
+
+      expect(limits).toMatchObject({ plan: 'enterprise', defaults: PLAN_RATE_LIMITS.enterprise, limits: PLAN_RATE_LIMITS.enterprise, updated_at: null });
+      expect(limits.overrides.org_requests_per_minute).toBeNull();
+    });
+
+    it('should apply, keep and clear admin overrides', async () => {
+      await upsertRateLimitOverrides({ org_id: 'org_1', org_requests_per_minute: 5, max_concurrent_model_calls: 1 }, 'user_1');
+      const limits = await upsertRateLimitOverrides({ org_id: 'org_1', api_key_requests_per_minute: 2, max_concurrent_model_calls: null }, 'user_1');
+
+      expect(limits.limits).toEqual({ ...PLAN_RATE_LIMITS.free, org_requests_per_minute: 5, api_key_requests_per_minute: 2 });
+      expect(limits.overrides).toEqual({
+        org_requests_per_minute: 5,
+        api_key_requests_per_minute: 2,
+        pipeline_requests_per_minute: null,
+        max_concurrent_model_calls: null,
+      });
+
+      expect((await deleteRateLimitOverrides('org_1', 'user_1')).limits).toEqual(PLAN_RATE_LIMITS.free);
+      await expect(deleteRateLimitOverrides('org_1', 'user_1')).rejects.toThrow(/not found/i);
+
+      const logs = await db.select().from(auditLogsTable).where(eq(auditLogsTable.org_id, 'org_1')).execute();
+      expect(logs.map(log => log.action).sort()).toEqual(['rate_limits.delete', 'rate_limits.update', 'rate_limits.update']);
+    });
+  });
+
+  describe('token buckets', () => {
+    it('should allow a burst of the per-minute limit and then reject', async () => {
+      await upsertRateLimitOverrides({ org_id: 'org_1', org_requests_per_minute: 3 }, 'user_1');
+
+      expect(await consumeRateLimits({ orgId: 'org_1' })).toEqual({ limit: 3, remaining: 2, resetSeconds: 20 });
+      await consumeRateLimits({ orgId: 'org_1' });
+      expect((await consumeRateLimits({ orgId: 'org_1' })).remaining).toEqual(0);
+
+      const error = await rejection(consumeRateLimits({ orgId: 'org_1' }));
+      expect(error.code).toEqual('TOO_MANY_REQUESTS');
+      expect(error.message).toMatch(/organization rate limit/i);
+      expect(error.status).toMatchObject({ limit: 3, remaining: 0 });
+      expect(error.retryAfterSeconds).toBeGreaterThan(0);
+      expect(error.retryAfterSeconds).toBeLessThanOrEqual(20);
+
+      // Other orgs have buckets of their own
+      expect((await consumeRateLimits({ orgId: 'org_2' })).limit).toEqual(PLAN_RATE_LIMITS.enterprise.org_requests_per_minute);
+    });
+
+    it('should refill over time', async () => {
+      await upsertRateLimitOverrides({ org_id: 'org_1', org_requests_per_minute: 1 }, 'user_1');
+      await consumeRateLimits({ orgId: 'org_1' });
+      await rejection(consumeRateLimits({ orgId: 'org_1' }));
+
+      await db.update(rateLimitBucketsTable).set({ updated_at: new Date(Date.now() - 60_000) }).execute();
+
+      expect((await consumeRateLimits({ orgId: 'org_1' })).remaining).toEqual(0);
+    });
+
+    it('should limit API keys and pipelines separately, taking nothing when one bucket is empty', async () => {
+      await upsertRateLimitOverrides({ org_id: 'org_1', api_key_requests_per_minute: 1, pipeline_requests_per_minute: 2 }, 'user_1');
+
+      const status = await consumeRateLimits({ orgId: 'org_1', apiKeyId: 'key_1', pipelineSlug: 'summarize' });
+      expect(status).toMatchObject({ limit: 1, remaining: 0 });
+
+      const error = await rejection(consumeRateLimits({ orgId: 'org_1', apiKeyId: 'key_1', pipelineSlug: 'summarize' }));
+      expect(error.message).toMatch(/API key rate limit/);
+
+      const buckets = await db.select().from(rateLimitBucketsTable).execute();
+      const tokens = Object.fromEntries(buckets.map(bucket => [bucket.key, Math.floor(bucket.tokens)]));
+      expect(tokens).toEqual({ 'org:org_1': PLAN_RATE_LIMITS.free.org_requests_per_minute - 1, 'api_key:key_1': 0, 'pipeline:org_1:summarize': 1 });
+
+      await consumeRateLimits({ orgId: 'org_1', apiKeyId: 'key_2', pipelineSlug: 'summarize' });
+      await rejection(consumeRateLimits({ orgId: 'org_1', apiKeyId: 'key_3', pipelineSlug: 'summarize' }));
+      await consumeRateLimits({ orgId: 'org_1', apiKeyId: 'key_3', pipelineSlug: 'translate' });
+    });
+  });
+
+  describe('concurrency', () => {
+    it('should cap in-flight model calls per org', async () => {
+      await upsertRateLimitOverrides({ org_id: 'org_1', max_concurrent_model_calls: 2 }, 'user_1');
+
+      const first = await acquireModelCallSlot('org_1');
+      await acquireModelCallSlot('org_1');
+      await acquireModelCallSlot('org_2');
+
+      const error = await rejection(acquireModelCallSlot('org_1'));
+      expect(error.message).toMatch(/concurrency limit of 2/i);
+
+      await releaseModelCallSlot(first);
+      await acquireModelCallSlot('org_1');
+    });
+
+    it('should stop counting expired leases', async () => {
+      await upsertRateLimitOverrides({ org_id: 'org_1', max_concurrent_model_calls: 1 }, 'user_1');
+      await acquireModelCallSlot('org_1');
+
+      await db.update(modelCallLeasesTable).set({ expires_at: new Date(Date.now() - 1000) }).execute();
+
+      await acquireModelCallSlot('org_1');
+      expect(await db.select().from(modelCallLeasesTable).execute()).toHaveLength(1);
+    });
+
+    it('should hold a slot for the duration of gateway calls', async () => {
+      await upsertRateLimitOverrides({ org_id: 'org_1', max_concurrent_model_calls: 1 }, 'user_1');
+      let inFlight = 0;
+      setProviderAdapter('local', {
+        ...getProviderAdapter('local'),
+        complete: async () => {
+          inFlight = (await db.select().from(modelCallLeasesTable).execute()).length;
+          return { content: 'Hello', tool_calls: [], finish_reason: 'stop', usage: { input_tokens: 1, output_tokens: 1 } };
+        },
+        stream: async () => (async function* () {
+          yield { type: 'done' as const, completion: { content: 'Hello', tool_calls: [], finish_reason: 'stop' as const, usage: { input_tokens: 1, output_tokens: 1 } } };
+        })(),
+      });
+
+      await completeModelRequest({ orgId: 'org_1' }, request);
+      expect(inFlight).toEqual(1);
+
+      const events = await streamModelRequest({ orgId: 'org_1' }, request);
+      await expect(completeModelRequest({ orgId: 'org_1' }, request)).rejects.toThrow(/concurrency limit/i);
+      for await (const event of events) {
+        expect(event.type).toEqual('done');
+      }
+
+      expect(await db.select().from(modelCallLeasesTable).execute()).toHaveLength(0);
+      await completeModelRequest({ orgId: 'org_1' }, request);
+    });
+  });
+});
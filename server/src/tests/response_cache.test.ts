@@ -0,0 +1,176 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, projectsTable, responseCacheTable, auditLogsTable } from '../db/schema';
+import { getCachePolicy, upsertCachePolicy, clearResponseCache, getCacheKeys, DEFAULT_CACHE_POLICY } from '../handlers/response_cache';
+import { completeModelRequest, streamModelRequest, type ModelStreamEvent } from '../handlers/gateway';
+import { getProviderAdapter, setProviderAdapter } from '../handlers/provider_adapters';
+import { type ModelRequest } from '../schema';
+import { eq } from 'drizzle-orm';
+
+const testUser = { id: 'user_1', email: 'test@example.com', name: 'Test User', avatar_url: null };
+
+const testOrganization = { id: 'org_1', name: 'Test Org', slug: 'test-org', owner_user_id: 'user_1', plan: 'pro' as const };
+
+const context = { orgId: 'org_1', projectId: 'project_1' };
+
+const request = (content: string): ModelRequest => ({ model: 'local/llama3.1', messages: [{ role: 'user', content }], temperature: 0 });
+
+// Toy embeddings: prompts mentioning the weather point one way, everything else the other
+const embed = (text: string) => text.includes('weather') ? [1, 0.1] : [0, 1];
+
+let calls: number;
+
+const collect = async (events: AsyncIterable<ModelStreamEvent>) => {
+  const collected: ModelStreamEvent[] = [];
+  for await (const event of events) {
+    collected.push(event);
+  }
+  return collected;
+};
+
+describe('response cache', () => {
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(usersTable).values(testUser).execute();
+    await db.insert(organizationsTable).values(testOrganization).execute();
+    await db.insert(projectsTable).values({ id: 'project_1', org_id: 'org_1', name: 'Project', tags: [] }).execute();
+
+    calls = 0;
+    setProviderAdapter('local', {
+      ...getProviderAdapter('local'),
+      complete: async () => {
+        calls++;
+        return { content: `Answer ${calls}`, tool_calls: [], finish_reason: 'stop', usage: { input_tokens: 10, output_tokens: 5 } };
+      },
+      stream: async () => {
+        calls++;
+        return (async function* () {
+          yield { type: 'delta' as const, content: 'Streamed' };
+          yield { type: 'done' as const, completion: { content: 'Streamed', tool_calls: [], finish_reason: 'stop' as const, usage: { input_tokens: 10, output_tokens: 1 } } };
+        })();
+      },
+      embed: async request => request.input.map(embed),
+    });
+  });
+
+  afterEach(async () => {
+    setProviderAdapter('local', null);
+    await resetDB();
+  });
+
+  describe('cache policies', () => {
+    it('should be off by default', async () => {
+      expect(await getCachePolicy('project_1')).toEqual({ ...DEFAULT_CACHE_POLICY, project_id: 'project_1', updated_at: null });
+
+      await completeModelRequest(context, request('Hi'));
+      await completeModelRequest(context, request('Hi'));
+      expect(calls).toEqual(2);
+    });
+
+    it('should require an embedding model in semantic mode', async () => {
+      await expect(upsertCachePolicy({ project_id: 'project_1', ttl_seconds: 60, semantic: true }, 'user_1'))
+        .rejects.toThrow(/requires an embedding model/i);
+
+      const policy = await upsertCachePolicy({ project_id: 'project_1', ttl_seconds: 60, semantic: true, embedding_model: 'local/nomic-embed-text', similarity_threshold: 0.9 }, 'user_1');
+      expect(policy).toMatchObject({ ttl_seconds: 60, semantic: true, similarity_threshold: 0.9, embedding_model: 'local/nomic-embed-text' });
+
+      const logs = await db.select().from(auditLogsTable).where(eq(auditLogsTable.org_id, 'org_1')).execute();
+      expect(logs.map(log => log.action)).toEqual(['cache_policy.update']);
+    });
+  });
+
+  describe('exact matches', () => {
+    beforeEach(async () => {
+      await upsertCachePolicy({ project_id: 'project_1', ttl_seconds: 300 }, 'user_1');
+    });
+
+    it('should serve identical requests from the cache', async () => {
+      const first = await completeModelRequest(context, request('Hi'));
+      const second = await completeModelRequest(context, request('Hi'));
+
+      expect(calls).toEqual(1);
+      expect(first.cache_hit).toBe(false);
+      expect(second).toMatchObject({ content: 'Answer 1', cache_hit: true, attempts: [], usage: { input_tokens: 10, output_tokens: 5 } });
+    });
+
+    it('should key on the model, messages and parameters', async () => {
+      await completeModelRequest(context, request('Hi'));
+      await completeModelRequest(context, { ...request('Hi'), temperature: 1 });
+      await completeModelRequest(context, { ...request('Hi'), model: 'local/qwen2.5' });
+      await completeModelRequest(context, request('Hello'));
+      await completeModelRequest({ orgId: 'org_1' }, request('Hi'));
+
+      expect(calls).toEqual(5);
+      // Key order does not matter
+      expect(getCacheKeys({ temperature: 0, messages: [{ content: 'Hi', role: 'user' }], model: 'local/llama3.1' }))
+        .toEqual(getCacheKeys(request('Hi')));
+    });
+
+    it('should expire entries after the TTL', async () => {
+      await completeModelRequest(context, request('Hi'));
+      await db.update(responseCacheTable).set({ expires_at: new Date(Date.now() - 1000) }).execute();
+
+      const response = await completeModelRequest(context, request('Hi'));
+
+      expect(response.cache_hit).toBe(false);
+      expect(calls).toEqual(2);
+      // The expired entry is dropped when the new one is stored
+      expect(await db.select().from(responseCacheTable).execute()).toHaveLength(1);
+    });
+
+    it('should replay cached responses to streaming requests', async () => {
+      await collect(await streamModelRequest(context, request('Hi')));
+      const events = await collect(await streamModelRequest(context, request('Hi')));
+
+      expect(calls).toEqual(1);
+      expect(events[0]).toEqual({ type: 'delta', content: 'Streamed' });
+      expect(events[1]).toMatchObject({ type: 'done', response: { content: 'Streamed', cache_hit: true } });
+    });
+
+    it('should be emptied on request', async () => {
+      await completeModelRequest(context, request('Hi'));
+
+      expect(await clearResponseCache('project_1', 'user_1')).toEqual({ deleted: 1 });
+      await completeModelRequest(context, request('Hi'));
+      expect(calls).toEqual(2);
+    });
+  });
+
+  describe('semantic matches', () => {
+    beforeEach(async () => {
+      await upsertCachePolicy({ project_id: 'project_1', ttl_seconds: 300, semantic: true, embedding_model: 'local/nomic-embed-text', similarity_threshold: 0.95 }, 'user_1');
+    });
+
+    it('should serve similar prompts above the threshold', async () => {
+      await completeModelRequest(context, request('What is the weather in Oslo?'));
+
+      const similar = await completeModelRequest(context, request('Tell me the weather in Oslo'));
+      const different = await completeModelRequest(context, request('Write a haiku'));
+
+      expect(similar).toMatchObject({ content: 'Answer 1', cache_hit: true });
+      expect(different).toMatchObject({ content: 'Answer 2', cache_hit: false });
+    });
+
+    it('should not match across parameters', async () => {
+      await completeModelRequest(context, request('What is the weather in Oslo?'));
+
+      const response = await completeModelRequest(context, { ...request('Tell me the weather in Oslo'), max_tokens: 10 });
+
+      expect(response.cache_hit).toBe(false);
+    });
+
+    it('should still answer when embedding fails', async () => {
+      setProviderAdapter('local', {
+        ...getProviderAdapter('local'),
+        embed: async () => {
+          throw new Error('Embedding model not loaded');
+        },
+      });
+
+      const response = await completeModelRequest(context, request('What is the weather in Oslo?'));
+
+      expect(response).toMatchObject({ content: 'Answer 1', cache_hit: false });
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, projectsTable, auditLogsTable } from '../db/schema';
+import { getRoutingPolicy, upsertRoutingPolicy, deleteRoutingPolicy, DEFAULT_ROUTING_POLICY } from '../handlers/routing_policies';
+import { createProviderKey } from '../handlers/provider_keys';
+import { eq } from 'drizzle-orm';
+
+const testUser = { id: 'user_1', email: 'test@example.com', name: 'Test User', avatar_url: null };
+
+const organizations = [
+  { id: 'org_1', name: 'Test Org', slug: 'test-org', owner_user_id: 'user_1', plan: 'pro' as const },
+  { id: 'org_2', name: 'Other Org', slug: 'other-org', owner_user_id: 'user_1', plan: 'pro' as const },
+];
+
+describe('routing policies', () => {
+  beforeEach(async () => {
+    process.env['MASTER_ENCRYPTION_KEYS'] = `v1:${Buffer.alloc(32, 1).toString('base64')}`;
+    delete process.env['MASTER_ENCRYPTION_KEY_ID'];
+
+    await createDB();
+    await db.insert(usersTable).values(testUser).execute();
+    await db.insert(organizationsTable).values(organizations).execute();
+    await db.insert(projectsTable).values({ id: 'project_1', org_id: 'org_1', name: 'Project', tags: [] }).execute();
+  });
+
+  afterEach(resetDB);
+
+  describe('getRoutingPolicy', () => {
+    it('should return the defaults for projects without a policy', async () => {
+      const policy = await getRoutingPolicy('project_1');
+
+      expect(policy).toEqual({ ...DEFAULT_ROUTING_POLICY, project_id: 'project_1', updated_at: null });
+    });
+  });
+
+  describe('upsertRoutingPolicy', () => {
+    it('should keep fields that are not given', async () => {
+      await upsertRoutingPolicy({ project_id: 'project_1', fallbacks: [{ provider: 'anthropic', model: 'claude-3-5-haiku-latest' }] }, 'user_1');
+      const policy = await upsertRoutingPolicy({ project_id: 'project_1', max_retries: 0, timeout_ms: 5000 }, 'user_1');
+
+      expect(policy).toMatchObject({
+        fallbacks: [{ provider: 'anthropic', model: 'claude-3-5-haiku-latest' }],
+        max_retries: 0,
+        initial_backoff_ms: DEFAULT_ROUTING_POLICY.initial_backoff_ms,
+        timeout_ms: 5000,
+      });
+      expect(policy.updated_at).toBeInstanceOf(Date);
+      expect(await getRoutingPolicy('project_1')).toEqual(policy);
+
+      const logs = await db.select().from(auditLogsTable).where(eq(auditLogsTable.org_id, 'org_1')).execute();
+      expect(logs.map(log => log.action)).toEqual(['routing_policy.update', 'routing_policy.update']);
+    });
+
+    it('should only weight provider keys of the project organization', async () => {
+      const ownKey = await createProviderKey({ org_id: 'org_1', provider: 'openai', label: 'Own', api_key: 'sk-own' }, 'user_1');
+      const otherKey = await createProviderKey({ org_id: 'org_2', provider: 'openai', label: 'Other', api_key: 'sk-other' }, 'user_1');
+
+      await expect(upsertRoutingPolicy({ project_id: 'project_1', key_weights: { [otherKey.id]: 1 } }, 'user_1'))
+        .rejects.toThrow(/unknown provider keys/i);
+
+      const policy = await upsertRoutingPolicy({ project_id: 'project_1', key_weights: { [ownKey.id]: 2 } }, 'user_1');
+      expect(policy.key_weights).toEqual({ [ownKey.id]: 2 });
+    });
+
+    it('should reject unknown projects', async () => {
+      await expect(upsertRoutingPolicy({ project_id: 'missing', max_retries: 1 }, 'user_1')).rejects.toThrow(/project not found/i);
+    });
+  });
+
+  describe('deleteRoutingPolicy', () => {
+    it('should restore the defaults', async () => {
+      await upsertRoutingPolicy({ project_id: 'project_1', max_retries: 5 }, 'user_1');
+
+      await deleteRoutingPolicy('project_1', 'user_1');
+
+      expect((await getRoutingPolicy('project_1')).max_retries).toEqual(DEFAULT_ROUTING_POLICY.max_retries);
+      await expect(deleteRoutingPolicy('project_1', 'user_1')).rejects.toThrow(/not found/i);
+    });
+  });
+});
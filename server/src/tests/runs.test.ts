@@ -3,7 +3,8 @@ import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
 import { usersTable, organizationsTable, projectsTable, promptsTable, promptVersionsTable, experimentsTable, runsTable } from '../db/schema';
 import { type CreateRunInput, type AnalyticsQueryInput } from '../schema';
-import { createRun, getRunById, getRunsByProjectId, getAnalytics, exportRunsData } from '../handlers/runs';
+import { createRun, withoutReservedRunFlags, getRunById, getRunsByProjectId, getAnalytics, exportRunsData, recomputeRunCosts } from '../handlers/runs';
+import { upsertModelCatalogEntry } from '../handlers/model_catalog';
 import { eq } from 'drizzle-orm';
 
 // Test data
@@ -171,6 +172,101 @@ describe('runs handlers', () => {
       
       await expect(createRun(invalidInput)).rejects.toThrow(/experiment with id invalid_experiment not found/i);
     });
+
+    it('should derive cost from the model catalog when none is supplied', async () => {
+      // gpt-4o lists at $0.0025 / $0.01 per 1K tokens
+      const result = await createRun({ ...testRunInput, model: 'gpt-4o', cost_usd: undefined, tokens_in: 1000, tokens_out: 500 });
+
+      expect(result.cost_usd).toEqual(0.0075);
+      expect(result.flags).toEqual({ test: true, cost_source: 'catalog' });
+    });
+
+    it('should prefer the organization negotiated rate', async () => {
+      await upsertModelCatalogEntry({ org_id: 'org_1', provider: 'openai', model_id: 'gpt-4o', input_price_per_1k: 0.002, output_price_per_1k: 0.008 }, 'user_1');
+
+      const result = await createRun({ ...testRunInput, model: 'gpt-4o', cost_usd: undefined, tokens_in: 1000, tokens_out: 500 });
+
+      expect(result.cost_usd).toEqual(0.006);
+    });
+
+    it('should record unpriced models at zero cost', async () => {
+      const result = await createRun({ ...testRunInput, model: 'local/llama3.1', cost_usd: undefined });
+
+      expect(result.cost_usd).toEqual(0);
+      expect(result.flags['cost_source']).toEqual('unpriced');
+    });
+
+    it('should record cache hits at zero cost with the amount saved', async () => {
+      const result = await createRun({ ...testRunInput, model: 'gpt-4o', cost_usd: 0.1, tokens_in: 1000, tokens_out: 500, flags: { cache_hit: true } });
+
+      expect(result.cost_usd).toEqual(0);
+      expect(result.flags).toEqual({ cache_hit: true, cost_source: 'cache', saved_cost_usd: 0.0075 });
+    });
+
+    it('should reject prompts, versions and experiments from another project', async () => {
+      await db.insert(projectsTable).values({ ...testProject, id: 'project_2', name: 'Other Project' }).execute();
+      await db.insert(promptsTable).values({ ...testPrompt, id: 'prompt_2', project_id: 'project_2' }).execute();
+      await db.insert(promptVersionsTable).values({ ...testVersion, id: 'version_2', prompt_id: 'prompt_2' }).execute();
+      await db.insert(experimentsTable).values({ ...testExperiment, id: 'experiment_2', prompt_id: 'prompt_2' }).execute();
+
+      await expect(createRun({ ...testRunInput, prompt_id: 'prompt_2' })).rejects.toThrow(/prompt with id prompt_2 not found/i);
+      await expect(createRun({ ...testRunInput, version_id: 'version_2' })).rejects.toThrow(/prompt version with id version_2 not found/i);
+      await expect(createRun({ ...testRunInput, prompt_id: null, version_id: 'version_2' })).rejects.toThrow(/prompt version with id version_2 not found/i);
+      await expect(createRun({ ...testRunInput, experiment_id: 'experiment_2' })).rejects.toThrow(/experiment with id experiment_2 not found/i);
+    });
+
+    it('should reject a version of a different prompt in the same project', async () => {
+      await db.insert(promptsTable).values({ ...testPrompt, id: 'prompt_3', name: 'Sibling Prompt' }).execute();
+      await db.insert(promptVersionsTable).values({ ...testVersion, id: 'version_3', prompt_id: 'prompt_3' }).execute();
+
+      await expect(createRun({ ...testRunInput, version_id: 'version_3' })).rejects.toThrow(/prompt version with id version_3 not found/i);
+    });
+  });
+
+  describe('withoutReservedRunFlags', () => {
+    it('should keep API callers from marking their own runs as free cache hits', async () => {
+      const result = await createRun(withoutReservedRunFlags({
+        ...testRunInput,
+        model: 'gpt-4o',
+        cost_usd: undefined,
+        tokens_in: 1000,
+        tokens_out: 500,
+        flags: { test: true, cache_hit: true, cost_source: 'cache', saved_cost_usd: 5 }
+      }));
+
+      expect(result.cost_usd).toEqual(0.0075);
+      expect(result.flags).toEqual({ test: true, cost_source: 'catalog' });
+    });
+  });
+
+  describe('recomputeRunCosts', () => {
+    it('should re-price derived costs after a price change and leave supplied costs alone', async () => {
+      const derived = await createRun({ ...testRunInput, model: 'gpt-4o', cost_usd: undefined, tokens_in: 1000, tokens_out: 1000 });
+      const unpriced = await createRun({ ...testRunInput, model: 'local/llama3.1', cost_usd: undefined, tokens_in: 2000, tokens_out: 0 });
+      const supplied = await createRun({ ...testRunInput, model: 'gpt-4o', cost_usd: 0.5, tokens_in: 1000, tokens_out: 1000 });
+
+      await upsertModelCatalogEntry({ org_id: 'org_1', provider: 'openai', model_id: 'gpt-4o', input_price_per_1k: 0.001, output_price_per_1k: 0.002 }, 'user_1');
+      await upsertModelCatalogEntry({ org_id: 'org_1', provider: 'local', model_id: 'llama3.1', context_window: 8192, input_price_per_1k: 0.0001, output_price_per_1k: 0 }, 'user_1');
+
+      expect(await recomputeRunCosts({ org_id: 'org_1' }, 'user_1')).toEqual({ updated: 2 });
+
+      expect((await getRunById(derived.id))!.cost_usd).toEqual(0.003);
+      expect((await getRunById(unpriced.id))!.cost_usd).toEqual(0.0002);
+      expect((await getRunById(unpriced.id))!.flags['cost_source']).toEqual('catalog');
+      expect((await getRunById(supplied.id))!.cost_usd).toEqual(0.5);
+
+      const analytics = await getAnalytics(testAnalyticsInput);
+      expect(analytics.totalCost).toBeCloseTo(0.5032, 6);
+    });
+
+    it('should keep cache hits free', async () => {
+      const hit = await createRun({ ...testRunInput, model: 'gpt-4o', cost_usd: undefined, tokens_in: 1000, tokens_out: 1000, flags: { cache_hit: true } });
+
+      await upsertModelCatalogEntry({ org_id: 'org_1', provider: 'openai', model_id: 'gpt-4o', input_price_per_1k: 0.001, output_price_per_1k: 0.002 }, 'user_1');
+
+      expect(await recomputeRunCosts({ org_id: 'org_1' }, 'user_1')).toEqual({ updated: 0 });
+      expect((await getRunById(hit.id))!.cost_usd).toEqual(0);
+    });
   });
 
   describe('getRunById', () => {
@@ -252,6 +348,28 @@ describe('runs handlers', () => {
       expect(result.costByDay).toHaveLength(1); // All runs on same day
     });
 
+    it('should report how often routed runs fell back', async () => {
+      const attempt = { provider: 'openai', model: 'gpt-4', key_id: null, success: true, status: null, error: null, latency_ms: 10 };
+      await createRun(testRunInput); // Not routed through the gateway, so not counted
+      await createRun({ ...testRunInput, flags: { attempts: [attempt], fallback: false } });
+      await createRun({ ...testRunInput, flags: { attempts: [{ ...attempt, success: false, status: 503 }, { ...attempt, model: 'gpt-4o' }], fallback: true } });
+
+      const result = await getAnalytics(testAnalyticsInput);
+
+      expect(result.fallbackRate).toEqual(50);
+    });
+
+    it('should report cache hits and what they saved', async () => {
+      await createRun({ ...testRunInput, model: 'gpt-4o', cost_usd: undefined, tokens_in: 1000, tokens_out: 500 });
+      await createRun({ ...testRunInput, model: 'gpt-4o', cost_usd: undefined, tokens_in: 1000, tokens_out: 500, flags: { cache_hit: true } });
+
+      const result = await getAnalytics(testAnalyticsInput);
+
+      expect(result.totalCost).toEqual(0.0075);
+      expect(result.cacheHitRate).toEqual(50);
+      expect(result.cacheSavings).toEqual(0.0075);
+    });
+
     it('should filter by project_id', async () => {
       // Create another project and run
       const project2 = {
@@ -0,0 +1,213 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, membershipsTable, sessionsTable, teamMembersTable } from '../db/schema';
+import { handleScimRequest } from '../handlers/scim';
+import { createApiKey } from '../handlers/api_keys';
+import { createSession, getUserBySessionToken } from '../handlers/sessions';
+import { createServer, type Server } from 'http';
+import { type AddressInfo } from 'net';
+import { eq } from 'drizzle-orm';
+
+process.env['SESSION_SECRET'] = 'test_session_secret';
+
+const users = [
+  { id: 'user_owner', email: 'owner@example.com', name: 'Owner', avatar_url: null },
+  { id: 'user_member', email: 'member@example.com', name: 'Member', avatar_url: null },
+  { id: 'user_elsewhere', email: 'elsewhere@example.com', name: 'Elsewhere', avatar_url: null },
+];
+
+const testOrganization = {
+  id: 'org_scim',
+  name: 'SCIM Org',
+  slug: 'scim-org',
+  owner_user_id: 'user_owner',
+  plan: 'enterprise' as const,
+};
+
+let server: Server;
+let baseUrl: string;
+let token: string;
+
+const scim = async (method: string, path: string, body?: unknown, authToken: string = token) => {
+  const response = await fetch(`${baseUrl}/scim/v2${path}`, {
+    method,
+    headers: { Authorization: `Bearer ${authToken}`, 'Content-Type': 'application/scim+json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const text = await response.text();
+  return { status: response.status, body: text ? JSON.parse(text) : null };
+};
+
+describe('scim', () => {
+  beforeEach(async () => {
+    await createDB();
+
+    await db.insert(usersTable).values(users).execute();
+    await db.insert(organizationsTable).values(testOrganization).execute();
+    await db.insert(membershipsTable).values([
+      { id: 'mem_owner', org_id: 'org_scim', user_id: 'user_owner', role: 'owner' },
+      { id: 'mem_member', org_id: 'org_scim', user_id: 'user_member', role: 'editor' },
+    ]).execute();
+
+    token = (await createApiKey({ org_id: 'org_scim', label: 'Okta', scopes: ['scim'] })).token;
+
+    server = createServer(handleScimRequest);
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await resetDB();
+  });
+
+  describe('authentication', () => {
+    it('should require an API key with the scim scope', async () => {
+      const runsKey = await createApiKey({ org_id: 'org_scim', label: 'CI', scopes: ['runs:write'] });
+
+      expect((await scim('GET', '/Users', undefined, 'pf_not_a_key')).status).toEqual(401);
+
+      const forbidden = await scim('GET', '/Users', undefined, runsKey.token);
+      expect(forbidden.status).toEqual(403);
+      expect(forbidden.body.detail).toMatch(/scim scope/i);
+    });
+  });
+
+  describe('Users', () => {
+    it('should list org members and filter them', async () => {
+      const all = await scim('GET', '/Users');
+      expect(all.status).toEqual(200);
+      expect(all.body.totalResults).toEqual(2);
+
+      const filtered = await scim('GET', `/Users?filter=${encodeURIComponent('userName eq "Member@Example.com"')}`);
+      expect(filtered.body.totalResults).toEqual(1);
+      expect(filtered.body.Resources[0].id).toEqual('user_member');
+      expect(filtered.body.Resources[0].active).toBe(true);
+
+      const invalid = await scim('GET', `/Users?filter=${encodeURIComponent('userName gt "a"')}`);
+      expect(invalid.status).toEqual(400);
+      expect(invalid.body.scimType).toEqual('invalidFilter');
+    });
+
+    it('should create users with a membership', async () => {
+      const created = await scim('POST', '/Users', {
+        schemas: ['urn:ietf:params:scim:schemas:core:2.0:User'],
+        userName: 'new.hire@example.com',
+        externalId: 'okta-123',
+        name: { givenName: 'New', familyName: 'Hire' },
+      });
+
+      expect(created.status).toEqual(201);
+      expect(created.body.userName).toEqual('new.hire@example.com');
+      expect(created.body.displayName).toEqual('New Hire');
+      expect(created.body.externalId).toEqual('okta-123');
+      expect(created.body.active).toBe(true);
+
+      const memberships = await db.select().from(membershipsTable).where(eq(membershipsTable.user_id, created.body.id)).execute();
+      expect(memberships).toHaveLength(1);
+      expect(memberships[0].role).toEqual('viewer');
+
+      const filtered = await scim('GET', `/Users?filter=${encodeURIComponent('externalId eq "okta-123"')}`);
+      expect(filtered.body.Resources.map((user: any) => user.id)).toEqual([created.body.id]);
+    });
+
+    it('should not link accounts outside the organization', async () => {
+      const result = await scim('POST', '/Users', { userName: 'elsewhere@example.com' });
+
+      expect(result.status).toEqual(409);
+      expect(result.body.scimType).toEqual('uniqueness');
+    });
+
+    it('should revoke the membership and sessions when deactivated', async () => {
+      const { token: sessionToken } = await createSession('user_member');
+
+      const result = await scim('PATCH', '/Users/user_member', {
+        schemas: ['urn:ietf:params:scim:api:messages:2.0:PatchOp'],
+        Operations: [{ op: 'Replace', path: 'active', value: 'False' }],
+      });
+
+      expect(result.status).toEqual(200);
+      expect(result.body.active).toBe(false);
+
+      const memberships = await db.select().from(membershipsTable).where(eq(membershipsTable.user_id, 'user_member')).execute();
+      expect(memberships).toHaveLength(0);
+      expect(await getUserBySessionToken(sessionToken)).toBeNull();
+
+      const sessions = await db.select().from(sessionsTable).where(eq(sessionsTable.user_id, 'user_member')).execute();
+      expect(sessions.every(session => session.revoked_at !== null)).toBe(true);
+
+      // Deactivated users stay visible until the IdP deletes them, and can be reactivated
+      expect((await scim('GET', '/Users/user_member')).body.active).toBe(false);
+      const reactivated = await scim('PATCH', '/Users/user_member', { Operations: [{ op: 'replace', value: { active: true } }] });
+      expect(reactivated.body.active).toBe(true);
+    });
+
+    it('should refuse to deprovision the organization owner', async () => {
+      const result = await scim('DELETE', '/Users/user_owner');
+
+      expect(result.status).toEqual(400);
+      expect(result.body.detail).toMatch(/transfer ownership/i);
+    });
+
+    it('should remove the user from the org on delete', async () => {
+      expect((await scim('DELETE', '/Users/user_member')).status).toEqual(204);
+
+      expect((await scim('GET', '/Users/user_member')).status).toEqual(404);
+      expect(await db.select().from(usersTable).where(eq(usersTable.id, 'user_member')).execute()).toHaveLength(1);
+    });
+
+    it('should only change emails of accounts it provisioned', async () => {
+      const result = await scim('PATCH', '/Users/user_member', {
+        Operations: [{ op: 'replace', path: 'userName', value: 'taken.over@example.com' }],
+      });
+
+      expect(result.status).toEqual(400);
+      expect(result.body.scimType).toEqual('mutability');
+    });
+  });
+
+  describe('Groups', () => {
+    it('should map groups to teams and patch their members', async () => {
+      const created = await scim('POST', '/Groups', { displayName: 'Engineering', members: [{ value: 'user_member' }] });
+
+      expect(created.status).toEqual(201);
+      expect(created.body.members.map((member: any) => member.value)).toEqual(['user_member']);
+
+      const added = await scim('PATCH', `/Groups/${created.body.id}`, {
+        Operations: [{ op: 'add', path: 'members', value: [{ value: 'user_owner' }] }],
+      });
+      expect(added.body.members).toHaveLength(2);
+
+      const removed = await scim('PATCH', `/Groups/${created.body.id}`, {
+        Operations: [
+          { op: 'remove', path: 'members[value eq "user_member"]' },
+          { op: 'replace', path: 'displayName', value: 'Platform' },
+        ],
+      });
+      expect(removed.body.displayName).toEqual('Platform');
+      expect(removed.body.members.map((member: any) => member.value)).toEqual(['user_owner']);
+
+      const filtered = await scim('GET', `/Groups?filter=${encodeURIComponent('displayName eq "Platform"')}`);
+      expect(filtered.body.totalResults).toEqual(1);
+
+      expect((await scim('DELETE', `/Groups/${created.body.id}`)).status).toEqual(204);
+      expect((await scim('GET', `/Groups/${created.body.id}`)).status).toEqual(404);
+    });
+
+    it('should reject members who are not in the organization', async () => {
+      const result = await scim('POST', '/Groups', { displayName: 'Outsiders', members: [{ value: 'user_elsewhere' }] });
+
+      expect(result.status).toEqual(400);
+    });
+
+    it('should drop deactivated users from their groups', async () => {
+      const created = await scim('POST', '/Groups', { displayName: 'Engineering', members: [{ value: 'user_member' }] });
+
+      await scim('PATCH', '/Users/user_member', { Operations: [{ op: 'replace', path: 'active', value: false }] });
+
+      const members = await db.select().from(teamMembersTable).where(eq(teamMembersTable.team_id, created.body.id)).execute();
+      expect(members).toHaveLength(0);
+    });
+  });
+});
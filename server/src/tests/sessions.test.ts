@@ -0,0 +1,126 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, sessionsTable } from '../db/schema';
+import {
+  createSession,
+  getUserBySessionToken,
+  revokeSession,
+  revokeUserSessions,
+  signToken,
+  verifySignedToken,
+  getSessionTokenFromHeaders,
+  SESSION_COOKIE_NAME
+} from '../handlers/sessions';
+import { eq } from 'drizzle-orm';
+
+process.env['SESSION_SECRET'] = 'test_session_secret';
+
+const testUser = {
+  id: 'user_session_1',
+  email: 'session@example.com',
+  name: 'Session User',
+  avatar_url: null,
+};
+
+describe('session handlers', () => {
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(usersTable).values(testUser).execute();
+  });
+
+  afterEach(resetDB);
+
+  describe('createSession', () => {
+    it('should create a session with a signed token', async () => {
+      const { session, token } = await createSession(testUser.id);
+
+      expect(session.user_id).toEqual(testUser.id);
+      expect(session.revoked_at).toBeNull();
+      expect(session.expires_at.getTime()).toBeGreaterThan(Date.now());
+      expect(token.startsWith(`${session.id}.`)).toBe(true);
+      expect(verifySignedToken(token)).toEqual(session.id);
+
+      const sessions = await db.select()
+        .from(sessionsTable)
+        .where(eq(sessionsTable.id, session.id))
+        .execute();
+
+      expect(sessions).toHaveLength(1);
+    });
+
+    it('should fail for non-existent user', async () => {
+      await expect(createSession('missing_user')).rejects.toThrow(/foreign key/i);
+    });
+  });
+
+  describe('getUserBySessionToken', () => {
+    it('should resolve the user for a valid token', async () => {
+      const { token } = await createSession(testUser.id);
+
+      const user = await getUserBySessionToken(token);
+
+      expect(user).not.toBeNull();
+      expect(user!.id).toEqual(testUser.id);
+      expect(user!.email).toEqual(testUser.email);
+    });
+
+    it('should reject tampered tokens', async () => {
+      const { session } = await createSession(testUser.id);
+
+      expect(await getUserBySessionToken(`${session.id}.forged`)).toBeNull();
+      expect(await getUserBySessionToken(session.id)).toBeNull();
+    });
+
+    it('should reject expired sessions', async () => {
+      const { session, token } = await createSession(testUser.id);
+
+      await db.update(sessionsTable)
+        .set({ expires_at: new Date(Date.now() - 1000) })
+        .where(eq(sessionsTable.id, session.id))
+        .execute();
+
+      expect(await getUserBySessionToken(token)).toBeNull();
+    });
+  });
+
+  describe('revokeSession', () => {
+    it('should revoke a single session', async () => {
+      const first = await createSession(testUser.id);
+      const second = await createSession(testUser.id);
+
+      await revokeSession(first.token);
+
+      expect(await getUserBySessionToken(first.token)).toBeNull();
+      expect(await getUserBySessionToken(second.token)).not.toBeNull();
+    });
+
+    it('should revoke all sessions for a user', async () => {
+      const first = await createSession(testUser.id);
+      const second = await createSession(testUser.id);
+
+      await revokeUserSessions(testUser.id);
+
+      expect(await getUserBySessionToken(first.token)).toBeNull();
+      expect(await getUserBySessionToken(second.token)).toBeNull();
+    });
+  });
+
+  describe('getSessionTokenFromHeaders', () => {
+    it('should read bearer tokens', () => {
+      expect(getSessionTokenFromHeaders({ authorization: 'Bearer abc.def' })).toEqual('abc.def');
+    });
+
+    it('should read the session cookie', () => {
+      const token = signToken('session_value');
+      const cookie = `theme=dark; ${SESSION_COOKIE_NAME}=${encodeURIComponent(token)}`;
+
+      expect(getSessionTokenFromHeaders({ cookie })).toEqual(token);
+    });
+
+    it('should return null without credentials', () => {
+      expect(getSessionTokenFromHeaders({})).toBeNull();
+      expect(getSessionTokenFromHeaders({ cookie: 'theme=dark' })).toBeNull();
+    });
+  });
+});
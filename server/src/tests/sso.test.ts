@@ -0,0 +1,302 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, membershipsTable, userCredentialsTable, ssoConnectionsTable } from '../db/schema';
+import { upsertSsoConnectionInputSchema } from '../schema';
+import {
+  upsertSsoConnection,
+  getSsoConnection,
+  deleteSsoConnection,
+  startSsoLogin,
+  completeSsoLogin,
+  isSsoRequiredForUser,
+  rotateSsoClientSecretEncryption
+} from '../handlers/sso';
+import { registerUser, loginWithPassword } from '../handlers/auth';
+import { and, eq } from 'drizzle-orm';
+import { generateKeyPairSync, sign } from 'crypto';
+
+process.env['SESSION_SECRET'] = 'test_session_secret';
+
+const oldMasterKey = Buffer.alloc(32, 1).toString('base64');
+const newMasterKey = Buffer.alloc(32, 2).toString('base64');
+
+const CLIENT_ID = 'prismforge-client';
+const CLIENT_SECRET = 'prismforge-secret';
+
+// Local mock IdP: serves discovery, JWKS and a token endpoint that signs ID tokens
+const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const pendingNonces: string[] = [];
+let idTokenClaims: Record<string, unknown> = {};
+let mockIdp: ReturnType<typeof Bun.serve>;
+let issuer = '';
+
+function signIdToken(claims: Record<string, unknown>): string {
+  const header = Buffer.from(JSON.stringify({ alg: 'RS256', kid: 'mock-key', typ: 'JWT' })).toString('base64url');
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  const signature = sign('sha256', Buffer.from(`${header}.${payload}`), privateKey).toString('base64url');
+  return `${header}.${payload}.${signature}`;
+}
+
+async function signInThroughIdp(orgSlug: string, claims: Record<string, unknown>) {
+  const { authorization_url, state } = await startSsoLogin(orgSlug);
+  pendingNonces.push(new URL(authorization_url).searchParams.get('nonce')!);
+  idTokenClaims = claims;
+  return await completeSsoLogin({ state, code: 'mock-code' });
+}
+
+const enterpriseOrg = {
+  id: 'org_sso',
+  name: 'SSO Org',
+  slug: 'sso-org',
+  owner_user_id: 'user_sso_owner',
+  plan: 'enterprise' as const,
+};
+
+describe('sso', () => {
+  beforeAll(() => {
+    mockIdp = Bun.serve({
+      port: 0,
+      async fetch(request) {
+        const url = new URL(request.url);
+
+        if (url.pathname === '/.well-known/openid-configuration') {
+          return Response.json({
+            issuer,
+            authorization_endpoint: `${issuer}/authorize`,
+            token_endpoint: `${issuer}/token`,
+            jwks_uri: `${issuer}/jwks`,
+          });
+        }
+
+        if (url.pathname === '/jwks') {
+          return Response.json({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid: 'mock-key', alg: 'RS256', use: 'sig' }] });
+        }
+
+        if (url.pathname === '/token' && request.method === 'POST') {
+          const form = new URLSearchParams(await request.text());
+          if (form.get('client_secret') !== CLIENT_SECRET || !form.get('code_verifier')) {
+            return new Response('invalid_client', { status: 401 });
+          }
+
+          return Response.json({
+            id_token: signIdToken({
+              iss: issuer,
+              aud: CLIENT_ID,
+              exp: Math.floor(Date.now() / 1000) + 300,
+              nonce: pendingNonces.shift(),
+              email_verified: true,
+              ...idTokenClaims,
+            }),
+          });
+        }
+
+        return new Response('not found', { status: 404 });
+      },
+    });
+    issuer = `http://localhost:${mockIdp.port}`;
+  });
+
+  afterAll(() => {
+    mockIdp.stop(true);
+  });
+
+  beforeEach(async () => {
+    process.env['MASTER_ENCRYPTION_KEYS'] = `v1:${oldMasterKey}`;
+    delete process.env['MASTER_ENCRYPTION_KEY_ID'];
+    await createDB();
+
+    await db.insert(usersTable).values({ id: 'user_sso_owner', email: 'owner@sso.example', name: 'Owner', avatar_url: null }).execute();
+    await db.insert(organizationsTable).values(enterpriseOrg).execute();
+    await db.insert(membershipsTable).values({ id: 'mem_sso_owner', org_id: 'org_sso', user_id: 'user_sso_owner', role: 'owner' }).execute();
+  });
+
+  afterEach(resetDB);
+
+  describe('upsertSsoConnection', () => {
+    it('should store an OIDC connection without exposing the secret', async () => {
+      const connection = await upsertSsoConnection({
+        org_id: 'org_sso',
+        protocol: 'oidc',
+        issuer,
+        client_id: CLIENT_ID,
+        client_secret: CLIENT_SECRET,
+        default_role: 'editor',
+      });
+
+      expect(connection.issuer).toEqual(issuer);
+      expect(connection.default_role).toEqual('editor');
+      expect(connection.sso_required).toBe(false);
+      expect(connection.has_client_secret).toBe(true);
+      expect((connection as any).client_secret).toBeUndefined();
+
+      const fetched = await getSsoConnection('org_sso');
+      expect(fetched?.client_id).toEqual(CLIENT_ID);
+    });
+
+    it('should keep the stored secret when updating other fields', async () => {
+      await upsertSsoConnection({ org_id: 'org_sso', protocol: 'oidc', issuer, client_id: CLIENT_ID, client_secret: CLIENT_SECRET });
+      const updated = await upsertSsoConnection({ org_id: 'org_sso', protocol: 'oidc', sso_required: true });
+
+      expect(updated.sso_required).toBe(true);
+      expect(updated.has_client_secret).toBe(true);
+    });
+
+    it('should store the client secret envelope-encrypted', async () => {
+      await upsertSsoConnection({ org_id: 'org_sso', protocol: 'oidc', issuer, client_id: CLIENT_ID, client_secret: CLIENT_SECRET });
+
+      const rows = await db.select().from(ssoConnectionsTable).where(eq(ssoConnectionsTable.org_id, 'org_sso')).execute();
+      expect(rows[0].encrypted_client_secret).not.toContain(CLIENT_SECRET);
+      expect(rows[0].client_secret_master_key_id).toEqual('v1');
+    });
+
+    it('should reject SAML connections until SAML sign-in is supported', () => {
+      const result = upsertSsoConnectionInputSchema.safeParse({
+        org_id: 'org_sso',
+        protocol: 'saml',
+        issuer: 'https://idp.example.com/saml',
+      });
+
+      expect(result.success).toBe(false);
+    });
+
+    it('should require the enterprise plan', async () => {
+      await db.update(organizationsTable).set({ plan: 'pro' }).where(eq(organizationsTable.id, 'org_sso')).execute();
+
+      await expect(upsertSsoConnection({ org_id: 'org_sso', protocol: 'oidc', issuer, client_id: CLIENT_ID, client_secret: CLIENT_SECRET }))
+        .rejects.toThrow(/enterprise plan/i);
+    });
+
+    it('should reject incomplete OIDC configuration', async () => {
+      await expect(upsertSsoConnection({ org_id: 'org_sso', protocol: 'oidc', issuer }))
+        .rejects.toThrow(/client id and client secret/i);
+    });
+  });
+
+  describe('deleteSsoConnection', () => {
+    it('should remove the connection', async () => {
+      await upsertSsoConnection({ org_id: 'org_sso', protocol: 'oidc', issuer, client_id: CLIENT_ID, client_secret: CLIENT_SECRET });
+      await deleteSsoConnection('org_sso');
+
+      expect(await getSsoConnection('org_sso')).toBeNull();
+      await expect(deleteSsoConnection('org_sso')).rejects.toThrow(/not found/i);
+    });
+  });
+
+  describe('OIDC login', () => {
+    beforeEach(async () => {
+      await upsertSsoConnection({
+        org_id: 'org_sso',
+        protocol: 'oidc',
+        issuer,
+        client_id: CLIENT_ID,
+        client_secret: CLIENT_SECRET,
+        default_role: 'editor',
+      });
+    });
+
+    it('should build a PKCE authorization URL', async () => {
+      const { authorization_url, state } = await startSsoLogin('sso-org');
+      const url = new URL(authorization_url);
+
+      expect(url.origin + url.pathname).toEqual(`${issuer}/authorize`);
+      expect(url.searchParams.get('client_id')).toEqual(CLIENT_ID);
+      expect(url.searchParams.get('state')).toEqual(state);
+      expect(url.searchParams.get('code_challenge_method')).toEqual('S256');
+      expect(url.searchParams.get('nonce')).toBeTruthy();
+    });
+
+    it('should provision new users just in time with the default role', async () => {
+      const user = await signInThroughIdp('sso-org', { email: 'new@sso.example', name: 'New Person' });
+
+      expect(user.email).toEqual('new@sso.example');
+      expect(user.name).toEqual('New Person');
+      expect(user.last_login_at).toBeInstanceOf(Date);
+
+      const memberships = await db.select()
+        .from(membershipsTable)
+        .where(and(eq(membershipsTable.org_id, 'org_sso'), eq(membershipsTable.user_id, user.id)))
+        .execute();
+      expect(memberships).toHaveLength(1);
+      expect(memberships[0].role).toEqual('editor');
+    });
+
+    it('should sign in existing members without changing their role', async () => {
+      const user = await signInThroughIdp('sso-org', { email: 'owner@sso.example' });
+
+      expect(user.id).toEqual('user_sso_owner');
+
+      const memberships = await db.select().from(membershipsTable).where(eq(membershipsTable.user_id, 'user_sso_owner')).execute();
+      expect(memberships).toHaveLength(1);
+      expect(memberships[0].role).toEqual('owner');
+    });
+
+    it('should not link existing accounts outside the organization', async () => {
+      await db.insert(usersTable).values({ id: 'user_outside', email: 'outside@sso.example', name: 'Outside', avatar_url: null }).execute();
+
+      await expect(signInThroughIdp('sso-org', { email: 'outside@sso.example' }))
+        .rejects.toThrow(/already exists/i);
+    });
+
+    it('should reject a replayed state', async () => {
+      const { authorization_url, state } = await startSsoLogin('sso-org');
+      pendingNonces.push(new URL(authorization_url).searchParams.get('nonce')!);
+      idTokenClaims = { email: 'replay@sso.example' };
+      await completeSsoLogin({ state, code: 'mock-code' });
+
+      await expect(completeSsoLogin({ state, code: 'mock-code' }))
+        .rejects.toThrow(/invalid or expired sso state/i);
+    });
+
+    it('should reject ID tokens issued for another client', async () => {
+      await expect(signInThroughIdp('sso-org', { email: 'new@sso.example', aud: 'someone-else' }))
+        .rejects.toThrow(/audience mismatch/i);
+    });
+
+    it('should reject ID tokens with the wrong nonce', async () => {
+      const { state } = await startSsoLogin('sso-org');
+      pendingNonces.push('not-the-nonce');
+      idTokenClaims = { email: 'new@sso.example' };
+
+      await expect(completeSsoLogin({ state, code: 'mock-code' }))
+        .rejects.toThrow(/nonce mismatch/i);
+    });
+
+    it('should keep signing in after the master key is rotated', async () => {
+      process.env['MASTER_ENCRYPTION_KEYS'] = `v2:${newMasterKey},v1:${oldMasterKey}`;
+      process.env['MASTER_ENCRYPTION_KEY_ID'] = 'v2';
+
+      expect(await rotateSsoClientSecretEncryption()).toEqual(1);
+      expect(await rotateSsoClientSecretEncryption()).toEqual(0);
+
+      // The old master key can be retired once everything is rotated
+      process.env['MASTER_ENCRYPTION_KEYS'] = `v2:${newMasterKey}`;
+      const user = await signInThroughIdp('sso-org', { email: 'rotated@sso.example' });
+      expect(user.email).toEqual('rotated@sso.example');
+    });
+  });
+
+  describe('SSO enforcement', () => {
+    it('should block password logins for members of SSO-required organizations', async () => {
+      const registered = await registerUser({
+        email: 'member@sso.example',
+        name: 'Member',
+        password: 'correct horse battery',
+        avatar_url: null,
+      });
+      await db.insert(membershipsTable).values({ id: 'mem_sso_member', org_id: 'org_sso', user_id: registered.id, role: 'viewer' }).execute();
+
+      await upsertSsoConnection({ org_id: 'org_sso', protocol: 'oidc', issuer, client_id: CLIENT_ID, client_secret: CLIENT_SECRET });
+      expect(await isSsoRequiredForUser(registered.id)).toBe(false);
+      await expect(loginWithPassword({ email: 'member@sso.example', password: 'correct horse battery' })).resolves.toBeDefined();
+
+      await upsertSsoConnection({ org_id: 'org_sso', protocol: 'oidc', sso_required: true });
+      expect(await isSsoRequiredForUser(registered.id)).toBe(true);
+      await expect(loginWithPassword({ email: 'member@sso.example', password: 'correct horse battery' }))
+        .rejects.toThrow(/single sign-on is required/i);
+
+      const credentials = await db.select().from(userCredentialsTable).where(eq(userCredentialsTable.user_id, registered.id)).execute();
+      expect(credentials).toHaveLength(1);
+    });
+  });
+});
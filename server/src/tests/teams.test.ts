@@ -0,0 +1,198 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, membershipsTable, projectsTable, promptsTable, runsTable, teamMembersTable, auditLogsTable } from '../db/schema';
+import {
+  createTeam,
+  getTeamsByOrgId,
+  updateTeam,
+  deleteTeam,
+  getTeamMembers,
+  addTeamMember,
+  removeTeamMember,
+  getTeamProjectGrants,
+  grantTeamProject,
+  revokeTeamProject
+} from '../handlers/teams';
+import { authorizeProcedure, getEffectiveProjectRole } from '../handlers/authorization';
+import { getProjectsByOrgId } from '../handlers/projects';
+import { getAnalytics, exportRunsData } from '../handlers/runs';
+import { deleteMembership } from '../handlers/organizations';
+import { and, eq } from 'drizzle-orm';
+
+const users = [
+  { id: 'user_owner', email: 'owner@example.com', name: 'Owner', avatar_url: null },
+  { id: 'user_admin', email: 'admin@example.com', name: 'Admin', avatar_url: null },
+  { id: 'user_viewer', email: 'viewer@example.com', name: 'Viewer', avatar_url: null },
+  { id: 'user_outsider', email: 'outsider@example.com', name: 'Outsider', avatar_url: null },
+];
+
+const testOrganization = {
+  id: 'org_teams',
+  name: 'Teams Org',
+  slug: 'teams-org',
+  owner_user_id: 'user_owner',
+  plan: 'enterprise' as const,
+};
+
+describe('teams', () => {
+  beforeEach(async () => {
+    await createDB();
+
+    await db.insert(usersTable).values(users).execute();
+    await db.insert(organizationsTable).values(testOrganization).execute();
+    await db.insert(membershipsTable).values([
+      { id: 'mem_owner', org_id: 'org_teams', user_id: 'user_owner', role: 'owner' },
+      { id: 'mem_admin', org_id: 'org_teams', user_id: 'user_admin', role: 'admin' },
+      { id: 'mem_viewer', org_id: 'org_teams', user_id: 'user_viewer', role: 'viewer' },
+    ]).execute();
+    await db.insert(projectsTable).values([
+      { id: 'project_open', org_id: 'org_teams', name: 'Open', tags: [] },
+      { id: 'project_secret', org_id: 'org_teams', name: 'Secret', tags: [], restricted: true },
+    ]).execute();
+    await db.insert(promptsTable).values({ id: 'prompt_secret', project_id: 'project_secret', name: 'Prompt' }).execute();
+  });
+
+  afterEach(resetDB);
+
+  describe('team management', () => {
+    it('should create, list, rename and delete teams', async () => {
+      const team = await createTeam({ org_id: 'org_teams', name: 'Research' }, 'user_admin');
+      await createTeam({ org_id: 'org_teams', name: 'Applied' }, 'user_admin');
+
+      expect((await getTeamsByOrgId('org_teams')).map(item => item.name)).toEqual(['Applied', 'Research']);
+
+      const renamed = await updateTeam({ id: team.id, name: 'Core Research', description: 'Model evals' }, 'user_admin');
+      expect(renamed.name).toEqual('Core Research');
+      expect(renamed.description).toEqual('Model evals');
+
+      await deleteTeam(team.id, 'user_admin');
+      expect((await getTeamsByOrgId('org_teams')).map(item => item.name)).toEqual(['Applied']);
+      await expect(deleteTeam(team.id, 'user_admin')).rejects.toThrow(/team not found/i);
+
+      const logs = await db.select()
+        .from(auditLogsTable)
+        .where(and(eq(auditLogsTable.org_id, 'org_teams'), eq(auditLogsTable.action, 'team.delete')))
+        .execute();
+      expect(logs).toHaveLength(1);
+    });
+
+    it('should reject duplicate team names within an organization', async () => {
+      await createTeam({ org_id: 'org_teams', name: 'Research' }, 'user_admin');
+
+      await expect(createTeam({ org_id: 'org_teams', name: 'Research' }, 'user_admin'))
+        .rejects.toThrow(/already exists/i);
+    });
+
+    it('should only add organization members to a team', async () => {
+      const team = await createTeam({ org_id: 'org_teams', name: 'Research' }, 'user_admin');
+
+      await addTeamMember({ team_id: team.id, user_id: 'user_viewer' }, 'user_admin');
+
+      expect((await getTeamMembers(team.id)).map(member => member.user_id)).toEqual(['user_viewer']);
+      await expect(addTeamMember({ team_id: team.id, user_id: 'user_viewer' }, 'user_admin'))
+        .rejects.toThrow(/already a member of this team/i);
+      await expect(addTeamMember({ team_id: team.id, user_id: 'user_outsider' }, 'user_admin'))
+        .rejects.toThrow(/not a member of this organization/i);
+
+      await removeTeamMember({ team_id: team.id, user_id: 'user_viewer' }, 'user_admin');
+      expect(await getTeamMembers(team.id)).toHaveLength(0);
+    });
+
+    it('should reject grants on projects from another organization', async () => {
+      await db.insert(organizationsTable).values({ ...testOrganization, id: 'org_other', slug: 'other-org' }).execute();
+      await db.insert(projectsTable).values({ id: 'project_other', org_id: 'org_other', name: 'Other', tags: [] }).execute();
+      const team = await createTeam({ org_id: 'org_teams', name: 'Research' }, 'user_admin');
+
+      await expect(grantTeamProject({ team_id: team.id, project_id: 'project_other', role: 'viewer' }, 'user_admin'))
+        .rejects.toThrow(/different organization/i);
+    });
+
+    it('should replace the role when a project is granted again', async () => {
+      const team = await createTeam({ org_id: 'org_teams', name: 'Research' }, 'user_admin');
+
+      await grantTeamProject({ team_id: team.id, project_id: 'project_open', role: 'viewer' }, 'user_admin');
+      await grantTeamProject({ team_id: team.id, project_id: 'project_open', role: 'editor' }, 'user_admin');
+
+      const grants = await getTeamProjectGrants(team.id);
+      expect(grants).toHaveLength(1);
+      expect(grants[0].role).toEqual('editor');
+
+      await revokeTeamProject({ team_id: team.id, project_id: 'project_open' }, 'user_admin');
+      expect(await getTeamProjectGrants(team.id)).toHaveLength(0);
+      await expect(revokeTeamProject({ team_id: team.id, project_id: 'project_open' }, 'user_admin'))
+        .rejects.toThrow(/grant not found/i);
+    });
+  });
+
+  describe('project permissions', () => {
+    it('should raise the org role with team grants', async () => {
+      const team = await createTeam({ org_id: 'org_teams', name: 'Research' }, 'user_admin');
+      await addTeamMember({ team_id: team.id, user_id: 'user_viewer' }, 'user_admin');
+
+      expect(await getEffectiveProjectRole('user_viewer', 'project_open')).toEqual('viewer');
+      await expect(authorizeProcedure('user_viewer', 'projects.update', { id: 'project_open' }))
+        .rejects.toThrow(/requires editor role/i);
+
+      await grantTeamProject({ team_id: team.id, project_id: 'project_open', role: 'editor' }, 'user_admin');
+
+      expect(await getEffectiveProjectRole('user_viewer', 'project_open')).toEqual('editor');
+      await expect(authorizeProcedure('user_viewer', 'projects.update', { id: 'project_open' }))
+        .resolves.toBeUndefined();
+    });
+
+    it('should never lower the org role', async () => {
+      const team = await createTeam({ org_id: 'org_teams', name: 'Research' }, 'user_admin');
+      await addTeamMember({ team_id: team.id, user_id: 'user_admin' }, 'user_admin');
+      await grantTeamProject({ team_id: team.id, project_id: 'project_open', role: 'viewer' }, 'user_admin');
+
+      expect(await getEffectiveProjectRole('user_admin', 'project_open')).toEqual('admin');
+    });
+
+    it('should hide restricted projects from members without a grant', async () => {
+      expect((await getProjectsByOrgId('org_teams', 'user_viewer')).map(project => project.id)).toEqual(['project_open']);
+      expect(await getProjectsByOrgId('org_teams', 'user_admin')).toHaveLength(2);
+      await expect(authorizeProcedure('user_viewer', 'prompts.getById', 'prompt_secret'))
+        .rejects.toThrow(/forbidden/i);
+
+      const team = await createTeam({ org_id: 'org_teams', name: 'Research' }, 'user_admin');
+      await addTeamMember({ team_id: team.id, user_id: 'user_viewer' }, 'user_admin');
+      await grantTeamProject({ team_id: team.id, project_id: 'project_secret', role: 'viewer' }, 'user_admin');
+
+      expect(await getProjectsByOrgId('org_teams', 'user_viewer')).toHaveLength(2);
+      await expect(authorizeProcedure('user_viewer', 'prompts.getById', 'prompt_secret'))
+        .resolves.toBeUndefined();
+    });
+
+    it('should keep runs of restricted projects out of analytics and exports', async () => {
+      const run = { model: 'gpt-4o', tokens_in: 10, tokens_out: 5, cost_usd: '0.001', latency_ms: 100, success: true };
+      await db.insert(runsTable).values([
+        { ...run, id: 'run_open', project_id: 'project_open' },
+        { ...run, id: 'run_secret', project_id: 'project_secret' },
+      ]).execute();
+
+      expect((await getAnalytics({ org_id: 'org_teams' }, 'user_viewer')).totalRuns).toEqual(1);
+      expect((await getAnalytics({ org_id: 'org_teams' }, 'user_admin')).totalRuns).toEqual(2);
+      const exported = JSON.parse(await exportRunsData({ org_id: 'org_teams' }, 'json', 'user_viewer'));
+      expect(exported.map((item: { id: string }) => item.id)).toEqual(['run_open']);
+
+      await expect(authorizeProcedure('user_viewer', 'runs.getAnalytics', { org_id: 'org_teams', project_id: 'project_secret' }))
+        .rejects.toThrow(/forbidden/i);
+      await expect(authorizeProcedure('user_viewer', 'runs.exportData', { query: { org_id: 'org_teams', project_id: 'project_secret' }, format: 'csv' }))
+        .rejects.toThrow(/forbidden/i);
+      await expect(authorizeProcedure('user_viewer', 'runs.getAnalytics', { org_id: 'org_teams' }))
+        .resolves.toBeUndefined();
+    });
+
+    it('should drop team memberships when the user leaves the organization', async () => {
+      const team = await createTeam({ org_id: 'org_teams', name: 'Research' }, 'user_admin');
+      await addTeamMember({ team_id: team.id, user_id: 'user_viewer' }, 'user_admin');
+
+      await deleteMembership('mem_viewer', 'user_admin');
+
+      const remaining = await db.select().from(teamMembersTable).where(eq(teamMembersTable.user_id, 'user_viewer')).execute();
+      expect(remaining).toHaveLength(0);
+      expect(await getEffectiveProjectRole('user_viewer', 'project_open')).toBeNull();
+    });
+  });
+});
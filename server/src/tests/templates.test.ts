@@ -179,6 +179,14 @@ describe('templates', () => {
       expect(result!.content).toEqual(publicTemplate.content);
     });
 
+    it('should only find public and own templates for an organization', async () => {
+      await setupTestData();
+
+      expect((await getTemplateById('template_org', 'org_1'))?.id).toEqual('template_org');
+      expect((await getTemplateById('template_public', 'org_2'))?.id).toEqual('template_public');
+      expect(await getTemplateById('template_org', 'org_2')).toBeNull();
+    });
+
     it('should return null for non-existent template', async () => {
       await setupTestData();
 
@@ -377,5 +385,15 @@ describe('templates', () => {
       expect(prompts).toHaveLength(1);
       expect(prompts[0].name).toEqual('Internal Report');
     });
+
+    it('should not install templates of other organizations', async () => {
+      await setupTestData();
+      await db.insert(organizationsTable).values({ ...testOrg, id: 'org_2', slug: 'other-org' }).execute();
+      await db.insert(projectsTable).values({ ...testProject, id: 'project_2', org_id: 'org_2' }).execute();
+
+      await expect(
+        installTemplate('template_org', 'project_2', 'user_1')
+      ).rejects.toThrow(/template not found/i);
+    });
   });
 });
\ No newline at end of file
@@ -0,0 +1,205 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, membershipsTable, auditLogsTable, twoFactorRecoveryCodesTable, userTwoFactorTable } from '../db/schema';
+import {
+  generateTotpCode,
+  startTwoFactorEnrollment,
+  confirmTwoFactorEnrollment,
+  verifyTwoFactorCode,
+  regenerateRecoveryCodes,
+  disableTwoFactor,
+  isTwoFactorEnabled,
+  isTwoFactorEnforced
+} from '../handlers/two_factor';
+import { registerUser, loginWithPassword, issueTwoFactorChallenge, verifyTwoFactorLogin } from '../handlers/auth';
+import { authorizeProcedure } from '../handlers/authorization';
+import { eq } from 'drizzle-orm';
+
+process.env['SESSION_SECRET'] = 'test_session_secret';
+
+const PERIOD_MS = 30 * 1000;
+
+const testUser = { id: 'user_2fa', email: 'twofactor@example.com', name: 'Two Factor', avatar_url: null };
+
+const testOrganization = {
+  id: 'org_2fa',
+  name: '2FA Org',
+  slug: '2fa-org',
+  owner_user_id: 'user_2fa',
+  plan: 'pro' as const,
+};
+
+async function enroll(userId: string) {
+  const { secret } = await startTwoFactorEnrollment(userId);
+  const recoveryCodes = await confirmTwoFactorEnrollment(userId, generateTotpCode(secret));
+  return { secret, recoveryCodes };
+}
+
+describe('two-factor authentication', () => {
+  beforeEach(async () => {
+    process.env['MASTER_ENCRYPTION_KEYS'] = `v1:${Buffer.alloc(32, 1).toString('base64')}`;
+    delete process.env['MASTER_ENCRYPTION_KEY_ID'];
+    await createDB();
+
+    await db.insert(usersTable).values(testUser).execute();
+    await db.insert(organizationsTable).values(testOrganization).execute();
+    await db.insert(membershipsTable).values({ id: 'mem_2fa', org_id: 'org_2fa', user_id: 'user_2fa', role: 'owner' }).execute();
+  });
+
+  afterEach(resetDB);
+
+  describe('generateTotpCode', () => {
+    it('should match the RFC 6238 SHA-1 test vectors', () => {
+      // Base32 of the RFC's ASCII secret "12345678901234567890"
+      const secret = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+      expect(generateTotpCode(secret, 59 * 1000)).toEqual('287082');
+      expect(generateTotpCode(secret, 1111111109 * 1000)).toEqual('081804');
+      expect(generateTotpCode(secret, 2000000000 * 1000)).toEqual('279037');
+    });
+  });
+
+  describe('enrollment', () => {
+    it('should return a secret and otpauth URI', async () => {
+      const enrollment = await startTwoFactorEnrollment('user_2fa');
+
+      expect(enrollment.secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(enrollment.otpauth_uri).toStartWith('otpauth://totp/PrismForge%3Atwofactor%40example.com?');
+      expect(enrollment.otpauth_uri).toContain(`secret=${enrollment.secret}`);
+      expect(await isTwoFactorEnabled('user_2fa')).toBe(false);
+
+      const rows = await db.select().from(userTwoFactorTable).where(eq(userTwoFactorTable.user_id, 'user_2fa')).execute();
+      expect(rows[0].encrypted_secret).not.toContain(enrollment.secret);
+      expect(rows[0].secret_master_key_id).toEqual('v1');
+    });
+
+    it('should enable 2FA and issue hashed recovery codes on confirmation', async () => {
+      const { recoveryCodes } = await enroll('user_2fa');
+
+      expect(recoveryCodes).toHaveLength(10);
+      expect(await isTwoFactorEnabled('user_2fa')).toBe(true);
+
+      const stored = await db.select().from(twoFactorRecoveryCodesTable).where(eq(twoFactorRecoveryCodesTable.user_id, 'user_2fa')).execute();
+      expect(stored).toHaveLength(10);
+      expect(stored.map(code => code.code_hash)).not.toContain(recoveryCodes[0]);
+    });
+
+    it('should reject a wrong confirmation code', async () => {
+      await startTwoFactorEnrollment('user_2fa');
+
+      await expect(confirmTwoFactorEnrollment('user_2fa', '000000')).rejects.toThrow(/invalid two-factor code/i);
+      expect(await isTwoFactorEnabled('user_2fa')).toBe(false);
+    });
+
+    it('should not restart enrollment once enabled', async () => {
+      await enroll('user_2fa');
+
+      await expect(startTwoFactorEnrollment('user_2fa')).rejects.toThrow(/already enabled/i);
+    });
+
+    it('should write audit events for enabling and disabling', async () => {
+      const { secret } = await enroll('user_2fa');
+      await disableTwoFactor('user_2fa', generateTotpCode(secret, Date.now() + PERIOD_MS));
+
+      const logs = await db.select().from(auditLogsTable).where(eq(auditLogsTable.org_id, 'org_2fa')).execute();
+      expect(logs.map(log => log.action).sort()).toEqual(['user.two_factor_disable', 'user.two_factor_enable']);
+      logs.forEach(log => {
+        expect(log.actor_user_id).toEqual('user_2fa');
+        expect(log.target_id).toEqual('user_2fa');
+      });
+    });
+  });
+
+  describe('verifyTwoFactorCode', () => {
+    it('should accept each TOTP step only once', async () => {
+      const { secret } = await enroll('user_2fa');
+      const nextCode = generateTotpCode(secret, Date.now() + PERIOD_MS);
+
+      expect(await verifyTwoFactorCode('user_2fa', nextCode)).toBe(true);
+      expect(await verifyTwoFactorCode('user_2fa', nextCode)).toBe(false);
+    });
+
+    it('should accept a TOTP step once even when used concurrently', async () => {
+      const { secret } = await enroll('user_2fa');
+      const nextCode = generateTotpCode(secret, Date.now() + PERIOD_MS);
+
+      const results = await Promise.all([
+        verifyTwoFactorCode('user_2fa', nextCode),
+        verifyTwoFactorCode('user_2fa', nextCode),
+      ]);
+      expect(results.filter(Boolean)).toHaveLength(1);
+    });
+
+    it('should accept each recovery code only once', async () => {
+      const { recoveryCodes } = await enroll('user_2fa');
+
+      expect(await verifyTwoFactorCode('user_2fa', recoveryCodes[0].toUpperCase())).toBe(true);
+      expect(await verifyTwoFactorCode('user_2fa', recoveryCodes[0])).toBe(false);
+      expect(await verifyTwoFactorCode('user_2fa', recoveryCodes[1])).toBe(true);
+    });
+
+    it('should invalidate old recovery codes when regenerating', async () => {
+      const { recoveryCodes } = await enroll('user_2fa');
+      const newCodes = await regenerateRecoveryCodes('user_2fa', recoveryCodes[0]);
+
+      expect(await verifyTwoFactorCode('user_2fa', recoveryCodes[1])).toBe(false);
+      expect(await verifyTwoFactorCode('user_2fa', newCodes[0])).toBe(true);
+    });
+  });
+
+  describe('login', () => {
+    it('should sign in with a challenge and a valid code', async () => {
+      const user = await registerUser({ email: 'login2fa@example.com', name: 'Login', password: 'correct horse battery', avatar_url: null });
+      const { secret } = await enroll(user.id);
+
+      const firstFactor = await loginWithPassword({ email: 'login2fa@example.com', password: 'correct horse battery' });
+      const challenge = await issueTwoFactorChallenge(firstFactor.id);
+
+      const result = await verifyTwoFactorLogin({ challenge_token: challenge, code: generateTotpCode(secret, Date.now() + PERIOD_MS) });
+      expect(result.id).toEqual(user.id);
+    });
+
+    it('should spend the challenge on a wrong code', async () => {
+      const { secret } = await enroll('user_2fa');
+      const challenge = await issueTwoFactorChallenge('user_2fa');
+
+      await expect(verifyTwoFactorLogin({ challenge_token: challenge, code: '000000' })).rejects.toThrow(/invalid two-factor code/i);
+      await expect(verifyTwoFactorLogin({ challenge_token: challenge, code: generateTotpCode(secret, Date.now() + PERIOD_MS) }))
+        .rejects.toThrow(/invalid or expired token/i);
+    });
+  });
+
+  describe('organization policy', () => {
+    beforeEach(async () => {
+      await db.insert(usersTable).values({ id: 'user_2fa_viewer', email: 'viewer2fa@example.com', name: 'Viewer', avatar_url: null }).execute();
+      await db.insert(membershipsTable).values({ id: 'mem_2fa_viewer', org_id: 'org_2fa', user_id: 'user_2fa_viewer', role: 'viewer' }).execute();
+      await db.update(organizationsTable).set({ require_two_factor: true }).where(eq(organizationsTable.id, 'org_2fa')).execute();
+    });
+
+    it('should only apply to owners and admins', async () => {
+      expect(await isTwoFactorEnforced('user_2fa', 'org_2fa')).toBe(true);
+      expect(await isTwoFactorEnforced('user_2fa_viewer', 'org_2fa')).toBe(false);
+    });
+
+    it('should block owners without 2FA until they enroll', async () => {
+      await expect(authorizeProcedure('user_2fa', 'organizations.getMembers', 'org_2fa'))
+        .rejects.toThrow(/two-factor authentication is required/i);
+      await expect(authorizeProcedure('user_2fa_viewer', 'organizations.getMembers', 'org_2fa'))
+        .resolves.toBeUndefined();
+
+      await enroll('user_2fa');
+      await expect(authorizeProcedure('user_2fa', 'organizations.getMembers', 'org_2fa'))
+        .resolves.toBeUndefined();
+    });
+
+    it('should stop enforced users from disabling 2FA', async () => {
+      const { recoveryCodes } = await enroll('user_2fa');
+
+      await expect(disableTwoFactor('user_2fa', recoveryCodes[0])).rejects.toThrow(/required by one of your organizations/i);
+
+      const rows = await db.select().from(userTwoFactorTable).where(eq(userTwoFactorTable.user_id, 'user_2fa')).execute();
+      expect(rows).toHaveLength(1);
+    });
+  });
+});